@@ -17,12 +17,24 @@ const LoadingFallback = () => (
 // Lazy load components to reduce initial bundle size
 const Dashboard = lazy(() => import('./components/Dashboard'));
 const Statistics = lazy(() => import('./components/Statistics'));
+const DriverSchedule = lazy(() => import('./components/DriverSchedule'));
 const Pricing = lazy(() => import('./components/Pricing'));
 const NewProject = lazy(() => import('./components/NewProject'));
 const Companies = lazy(() => import('./components/settings/Companies'));
 const CarTypes = lazy(() => import('./components/settings/CarTypes'));
+const Vehicles = lazy(() => import('./components/settings/Vehicles'));
+const Tariffs = lazy(() => import('./components/settings/Tariffs'));
+const Places = lazy(() => import('./components/settings/Places'));
+const Customers = lazy(() => import('./components/settings/Customers'));
+const PassengerMessages = lazy(() => import('./components/settings/PassengerMessages'));
 const Drivers = lazy(() => import('./components/settings/Drivers'));
 const Payments = lazy(() => import('./components/settings/Payments'));
+const ApiKeys = lazy(() => import('./components/settings/ApiKeys'));
+const Webhooks = lazy(() => import('./components/settings/Webhooks'));
+const EmailTemplates = lazy(() => import('./components/settings/EmailTemplates'));
+const Backup = lazy(() => import('./components/settings/Backup'));
+const EmailImport = lazy(() => import('./components/EmailImport'));
+const ImportProjects = lazy(() => import('./components/ImportProjects'));
 const CompletedProjects = lazy(() => import('./components/CompletedProjects'));
 const Hero = lazy(() => import('./components/Hero'));
 const Features = lazy(() => import('./components/Features'));
@@ -49,6 +61,7 @@ function AppContent() {
     location.pathname.includes('/edit-project') ||
     location.pathname.includes('/settings') ||
     location.pathname.includes('/statistics') ||
+    location.pathname.includes('/schedule') ||
     location.pathname.includes('/financial-report') ||
     location.pathname.includes('/completed-projects') ||
     location.pathname.includes('/voucher') ||
@@ -106,18 +119,30 @@ function AppContent() {
               } />
               <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
               <Route path="/new-project" element={<ProtectedRoute><NewProject /></ProtectedRoute>} />
+              <Route path="/new-project/from-email" element={<ProtectedRoute><EmailImport /></ProtectedRoute>} />
+              <Route path="/new-project/import" element={<ProtectedRoute><ImportProjects /></ProtectedRoute>} />
               <Route path="/pricing" element={<Pricing />} />
               <Route path="/about" element={<About />} />
               <Route path="/terms" element={<Terms />} />
               <Route path="/privacy" element={<Privacy />} />
               <Route path="/statistics" element={<ProtectedRoute><Statistics /></ProtectedRoute>} />
+              <Route path="/schedule" element={<ProtectedRoute><DriverSchedule /></ProtectedRoute>} />
               <Route path="/financial-report" element={<ProtectedRoute><FinancialReport /></ProtectedRoute>} />
               <Route path="/edit-project/:id" element={<ProtectedRoute><EditProject /></ProtectedRoute>} />
               <Route path="/voucher/:id" element={<ProtectedRoute><VoucherGenerator displayMode="page" projectId={''} /></ProtectedRoute>} />
               <Route path="/settings/companies" element={<ProtectedRoute><Companies /></ProtectedRoute>} />
               <Route path="/settings/car-types" element={<ProtectedRoute><CarTypes /></ProtectedRoute>} />
+              <Route path="/settings/vehicles" element={<ProtectedRoute><Vehicles /></ProtectedRoute>} />
+              <Route path="/settings/tariffs" element={<ProtectedRoute><Tariffs /></ProtectedRoute>} />
+              <Route path="/settings/places" element={<ProtectedRoute><Places /></ProtectedRoute>} />
+              <Route path="/settings/customers" element={<ProtectedRoute><Customers /></ProtectedRoute>} />
+              <Route path="/settings/messages" element={<ProtectedRoute><PassengerMessages /></ProtectedRoute>} />
               <Route path="/settings/drivers" element={<ProtectedRoute><Drivers /></ProtectedRoute>} />
               <Route path="/settings/payments" element={<ProtectedRoute><Payments /></ProtectedRoute>} />
+              <Route path="/settings/api-keys" element={<ProtectedRoute><ApiKeys /></ProtectedRoute>} />
+              <Route path="/settings/webhooks" element={<ProtectedRoute><Webhooks /></ProtectedRoute>} />
+              <Route path="/settings/email-templates" element={<ProtectedRoute><EmailTemplates /></ProtectedRoute>} />
+              <Route path="/settings/backup" element={<ProtectedRoute><Backup /></ProtectedRoute>} />
               <Route path="/settings/notifications" element={<ProtectedRoute><NotificationSettings /></ProtectedRoute>} />
               <Route path="/completed-projects" element={<ProtectedRoute><CompletedProjects /></ProtectedRoute>} />
               <Route path="/ui-mockup" element={<UIDesignMockup />} />
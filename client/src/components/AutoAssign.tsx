@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Check, Users } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { addDays } from '@shared/recurrence';
+import { dispatchAddresses, proposeForDate } from '../lib/dispatch';
+import { useAddressPositions } from '../lib/geocoding';
+import { localToday } from '../lib/driverAvailability';
+import { scoreClasses } from './DriverSuggestions';
+
+// Proposed drivers for the trips of a day that have none, accepted trip by
+// trip. Accepted trips drop out and the rest are proposed again around them.
+export default function AutoAssign() {
+  const { projects, drivers, carTypes, driverAvailability, updateProject } = useData();
+  const [date, setDate] = useState(() => addDays(localToday(), 1));
+  // trips the operator passed on; they keep no driver
+  const [skipped, setSkipped] = useState<string[]>([]);
+  // a different candidate picked instead of the proposal, per trip
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const positions = useAddressPositions(useMemo(() => dispatchAddresses(date, projects), [date, projects]));
+
+  const proposals = useMemo(
+    () => proposeForDate(date, {
+      projects: projects.filter(project => !skipped.includes(project.id)),
+      drivers,
+      carTypes,
+      driverAvailability,
+      positions,
+    }),
+    [date, projects, drivers, carTypes, driverAvailability, skipped, positions]
+  );
+
+  const driverName = (driverId: string) => drivers.find(driver => driver.id === driverId)?.name ?? 'Unknown driver';
+
+  const accept = async (projectId: string, driverId: string) => {
+    setSaving(projectId);
+    setError('');
+    try {
+      await updateProject(projectId, { driver: driverId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign the driver');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-medium text-gray-700">Trips on</label>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setSkipped([]);
+            setChosen({});
+          }}
+          className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+        />
+        <span className="text-sm text-gray-500">
+          {proposals.length === 0
+            ? 'Every trip has a driver'
+            : `${proposals.length} trip${proposals.length === 1 ? '' : 's'} without a driver`}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <ul className="space-y-3">
+        {proposals.map(({ trip: { project }, suggestions }) => {
+          const driverId = chosen[project.id] ?? suggestions[0]?.driverId ?? '';
+          const suggestion = suggestions.find(s => s.driverId === driverId);
+          return (
+            <li key={project.id} className="p-3 border rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900">
+                    {project.time.slice(0, 5)} · {project.clientName}
+                    <span className="ml-2 inline-flex items-center text-gray-500 font-normal">
+                      <Users className="w-3 h-3 mr-1" />
+                      {project.passengers}
+                    </span>
+                  </div>
+                  <div className="flex items-center text-gray-600">
+                    {project.pickupLocation}
+                    <ArrowRight className="w-3 h-3 mx-1" />
+                    {project.dropoffLocation}
+                  </div>
+                </div>
+                {suggestions.length === 0 ? (
+                  <span className="text-sm text-amber-700">No driver is free at this time</span>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={driverId}
+                      onChange={(e) => setChosen({ ...chosen, [project.id]: e.target.value })}
+                      className="px-2 py-1 border rounded-lg text-sm"
+                    >
+                      {suggestions.map(s => (
+                        <option key={s.driverId} value={s.driverId}>
+                          {driverName(s.driverId)} ({s.score})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => accept(project.id, driverId)}
+                      disabled={saving !== null}
+                      className="flex items-center px-3 py-1 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      {saving === project.id ? 'Assigning...' : 'Accept'}
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={() => setSkipped([...skipped, project.id])}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Skip
+                </button>
+              </div>
+              {suggestion && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${scoreClasses(suggestion.score)}`}>
+                    {suggestion.score}
+                  </span>
+                  {suggestion.reasons.join(' · ')}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
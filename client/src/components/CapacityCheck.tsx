@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertCircle, Car } from 'lucide-react';
+import { capacityIssues, smallestFittingCarType, type TripLoad } from '@shared/vehicleCapacity';
+
+// Loose shape of the DataContext car types
+interface CarTypeLike {
+  id: string;
+  name: string;
+  capacity: number;
+  luggage_capacity: number;
+}
+
+function withCapacity(carType: CarTypeLike) {
+  return { ...carType, luggageCapacity: carType.luggage_capacity };
+}
+
+// Reasons the trip does not fit its selected car type, empty when it fits or
+// no car type is selected
+export function carTypeProblems(load: TripLoad, carTypeId: string, carTypes: CarTypeLike[]): string[] {
+  const carType = carTypes.find((c) => c.id === carTypeId);
+  return carType ? capacityIssues(load, withCapacity(carType)) : [];
+}
+
+export function carTypeLabel(carType: CarTypeLike) {
+  return `${carType.name} (${carType.capacity} passengers, ${carType.luggage_capacity} luggage)`;
+}
+
+interface CapacityCheckProps {
+  passengers: number;
+  luggage: number;
+  carTypeId: string;
+  carTypes: CarTypeLike[];
+  onSelectCarType: (carTypeId: string) => void;
+}
+
+export default function CapacityCheck({ passengers, luggage, carTypeId, carTypes, onSelectCarType }: CapacityCheckProps) {
+  if (carTypes.length === 0) return null;
+
+  const load = { passengers, luggage };
+  const problems = carTypeProblems(load, carTypeId, carTypes);
+  const smallest = smallestFittingCarType(carTypes.map(withCapacity), load);
+  const selected = carTypes.find((c) => c.id === carTypeId);
+
+  if (problems.length === 0 && (!smallest || smallest.id === carTypeId)) return null;
+
+  return (
+    <div className={`p-3 rounded-lg text-sm border ${problems.length > 0 ? 'bg-red-50 border-red-300' : 'bg-gray-50 border-gray-200'}`}>
+      {problems.length > 0 && (
+        <div className="flex items-start text-red-700 mb-2">
+          <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{selected?.name}: {problems.join('; ')}</span>
+        </div>
+      )}
+      {smallest ? (
+        <div className="flex flex-wrap items-center gap-2 text-gray-700">
+          <Car className="w-4 h-4 text-gray-500" />
+          <span>Smallest car type that fits: {carTypeLabel(smallest)}</span>
+          <button
+            type="button"
+            onClick={() => onSelectCarType(smallest.id)}
+            className="text-green-600 hover:text-green-800 font-medium"
+          >
+            Use {smallest.name}
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center text-gray-700">
+          <Car className="w-4 h-4 mr-2 text-gray-500" />
+          No car type fits {passengers} passengers and {luggage} pieces of luggage
+        </div>
+      )}
+    </div>
+  );
+}
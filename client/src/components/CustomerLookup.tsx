@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { Contact } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { customerHistory, customerPreferences, findCustomer, phoneKey } from '../lib/customers';
+
+interface CustomerLookupProps {
+  phone: string;
+  clientName: string;
+  onUseName: (name: string) => void;
+}
+
+// Shown under a trip's client phone: the customer with the number, with
+// their preferences, notes and how often they travelled with us
+export default function CustomerLookup({ phone, clientName, onUseName }: CustomerLookupProps) {
+  const { customers, projects } = useData();
+  const customer = useMemo(() => findCustomer(customers, { phone }), [customers, phone]);
+  const history = useMemo(
+    () => (customer ? customerHistory(customer, projects) : null),
+    [customer, projects]
+  );
+
+  if (!phoneKey(phone)) return null;
+  if (!customer || !history) {
+    return <p className="mt-1 text-xs text-gray-500">New customer, saved with the trip</p>;
+  }
+
+  const preferences = customerPreferences(customer);
+  return (
+    <div className="mt-1 text-xs text-gray-500">
+      <span className="inline-flex items-center">
+        <Contact className="w-3 h-3 mr-1 text-green-600" />
+        {customer.name} · {history.trips} trip{history.trips === 1 ? '' : 's'}
+        {history.lastTrip && `, last ${new Date(history.lastTrip).toLocaleDateString()}`}
+      </span>
+      {customer.name !== clientName && (
+        <button
+          type="button"
+          onClick={() => onUseName(customer.name)}
+          className="ml-2 text-green-600 hover:text-green-800"
+        >
+          use this name
+        </button>
+      )}
+      {preferences && <p className="mt-0.5 font-medium text-gray-700">{preferences}</p>}
+      {customer.notes && <p className="mt-0.5 text-gray-600">{customer.notes}</p>}
+    </div>
+  );
+}
@@ -30,7 +30,8 @@ import {
   Grid3X3,
   List,
   Map,
-  
+  ChartGantt,
+  Sparkles,
   Settings2
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
@@ -38,9 +39,14 @@ import { useData } from '../contexts/DataContext';
 import Modal from './Modal';
 import { useAuth } from '../contexts/AuthContext';
 import VoucherGenerator from './VoucherGenerator';
+import AutoAssign from './AutoAssign';
 import { motion, AnimatePresence } from 'framer-motion';
 import ProjectGrid from './enhanced/ProjectGrid';
 import ProjectListView from './enhanced/ProjectListView';
+import DispatchBoard from './enhanced/DispatchBoard';
+import { summarizeItinerary } from '../lib/itineraries';
+import { findAllDriverConflicts } from '@shared/driverConflicts';
+import { conflictMessages } from './DriverConflictWarning';
 
 import LocationAnalytics from './LocationAnalytics';
 
@@ -214,10 +220,11 @@ export default function Dashboard() {
   const [startedProjects, setStartedProjects] = useState<Set<string>>(new Set());
   const [upcomingProjects, setUpcomingProjects] = useState<any[]>([]);
   const [showVoucherModal, setShowVoucherModal] = useState(false);
+  const [showAutoAssign, setShowAutoAssign] = useState(false);
   const [voucherProjectId, setVoucherProjectId] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastRefreshed, setLastRefreshed] = useState<Date>(new Date());
-  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'analytics'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'timeline' | 'analytics'>('grid');
   const [cardSettings, setCardSettings] = useState({
     collapsible: true,
     defaultExpanded: false
@@ -242,6 +249,25 @@ export default function Dashboard() {
     return carType?.name || 'Standard';
   }, [carTypes]);
 
+  const getItinerary = useCallback((itineraryId: string) => {
+    return summarizeItinerary(itineraryId, projects);
+  }, [projects]);
+
+  // Double-booked or offline drivers, flagged on the project cards
+  const driverConflicts = useMemo(() => {
+    const conflicts = findAllDriverConflicts(
+      projects.map(p => ({ ...p, driverId: p.driver })),
+      drivers,
+    );
+    const messages: Record<string, string[]> = {};
+    conflicts.forEach((projectConflicts, projectId) => {
+      messages[projectId] = conflictMessages(projectConflicts, drivers);
+    });
+    return messages;
+  }, [projects, drivers]);
+
+  const getConflicts = useCallback((projectId: string) => driverConflicts[projectId], [driverConflicts]);
+
   const getCompanyColorTheme = useCallback((companyId: string) => {
     if (!companyColorCache[companyId]) {
       const companyName = getCompanyName(companyId);
@@ -479,6 +505,19 @@ export default function Dashboard() {
                     <List className="w-4 h-4" />
                     <span className="text-sm font-medium hidden sm:inline">List</span>
                   </button>
+
+                  <button
+                    onClick={() => setViewMode('timeline')}
+                    className={`flex items-center gap-1 px-2 py-2 rounded-md transition-all ${
+                      viewMode === 'timeline' 
+                        ? 'bg-white shadow-sm text-blue-600' 
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                    title="Dispatch Board"
+                  >
+                    <ChartGantt className="w-4 h-4" />
+                    <span className="text-sm font-medium hidden sm:inline">Board</span>
+                  </button>
                   
                   <button
                     onClick={() => setViewMode('analytics')}
@@ -571,6 +610,7 @@ export default function Dashboard() {
                 </h3>
                 <div className="space-y-3">
                   {[
+                    { icon: Sparkles, label: "Auto-assign Tomorrow", action: () => setShowAutoAssign(true), color: "blue" },
                     { icon: BarChart2, label: "Statistics", action: () => navigate('/statistics'), color: "emerald" },
                     { icon: FileText, label: "Financial Report", action: () => navigate('/financial-report'), color: "purple" },
                     { icon: Users, label: "Manage Drivers", action: () => navigate('/settings/drivers'), color: "blue" },
@@ -713,6 +753,7 @@ export default function Dashboard() {
                       getCarTypeName={getCarTypeName}
                       getCompanyTheme={getCompanyColorTheme}
                       startedProjects={startedProjects}
+                      getConflicts={getConflicts}
                       cardSettings={cardSettings}
                     />
                   ) : viewMode === 'list' ? (
@@ -726,6 +767,14 @@ export default function Dashboard() {
                       getDriverName={getDriverName}
                       getCarTypeName={getCarTypeName}
                       getCompanyTheme={getCompanyColorTheme}
+                      getItinerary={getItinerary}
+                    />
+                  ) : viewMode === 'timeline' ? (
+                    <DispatchBoard
+                      projects={activeProjects}
+                      onProjectAction={handleProjectAction}
+                      getCompanyName={getCompanyName}
+                      getConflicts={getConflicts}
                     />
                   ) : null}
                 </div>
@@ -760,6 +809,17 @@ export default function Dashboard() {
           </Modal>
         )}
 
+        {showAutoAssign && (
+          <Modal
+            isOpen={showAutoAssign}
+            onClose={() => setShowAutoAssign(false)}
+            title="Auto-assign Drivers"
+            size="large"
+          >
+            <AutoAssign />
+          </Modal>
+        )}
+
         {showVoucherModal && voucherProjectId && (
           <Modal
             isOpen={showVoucherModal}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  describeConflict,
+  findDriverConflicts,
+  type DriverConflict,
+} from '@shared/driverConflicts';
+
+// Loose shapes of the DataContext records the check needs
+interface TripLike {
+  id?: string;
+  driver: string;
+  date: string;
+  time: string;
+  status?: string;
+  clientName?: string;
+  pickupLocation?: string;
+}
+
+interface DriverLike {
+  id: string;
+  name: string;
+  status: string;
+}
+
+type ConflictProject = TripLike & { driverId: string };
+
+function toConflictTrip<T extends TripLike>(trip: T): T & { driverId: string } {
+  return { ...trip, driverId: trip.driver };
+}
+
+// Conflicts of assigning `trip` to its driver among the existing projects and
+// the other trips being entered together with it
+export function projectConflicts(
+  trip: TripLike,
+  projects: TripLike[],
+  drivers: DriverLike[],
+  siblings: TripLike[] = [],
+): DriverConflict<ConflictProject>[] {
+  return findDriverConflicts(
+    toConflictTrip(trip),
+    drivers,
+    [...projects, ...siblings].map(toConflictTrip),
+  );
+}
+
+export function conflictMessages(conflicts: DriverConflict<ConflictProject>[], drivers: DriverLike[]) {
+  return conflicts.map((conflict) =>
+    describeConflict(
+      conflict,
+      drivers.find((driver) => driver.id === conflict.driverId)?.name ?? 'The driver',
+      (trip) => `${trip.time.slice(0, 5)} on ${trip.date}${trip.clientName ? ` (${trip.clientName})` : ''}`,
+    ),
+  );
+}
+
+interface DriverConflictWarningProps {
+  messages: string[];
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+}
+
+export default function DriverConflictWarning({ messages, override, onOverrideChange }: DriverConflictWarningProps) {
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm">
+      <div className="flex items-start">
+        <AlertTriangle className="w-4 h-4 text-amber-600 mr-2 mt-0.5 flex-shrink-0" />
+        <ul className="text-amber-800 space-y-1">
+          {messages.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      </div>
+      <label className="flex items-center mt-2 ml-6 text-amber-900">
+        <input
+          type="checkbox"
+          checked={override}
+          onChange={(e) => onOverrideChange(e.target.checked)}
+          className="mr-2 h-4 w-4 text-amber-600 focus:ring-amber-500 border-gray-300 rounded"
+        />
+        Assign anyway
+      </label>
+    </div>
+  );
+}
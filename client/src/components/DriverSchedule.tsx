@@ -0,0 +1,452 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, Check, ChevronLeft, ChevronRight, Plus, X } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { addDays } from '@shared/recurrence';
+import {
+  AVAILABILITY_KIND_LABELS,
+  WEEKDAY_NAMES,
+  availabilityKinds,
+  availabilityProblem,
+  describeAvailability,
+  driverAvailabilityAt,
+  isoWeekday,
+  localToday,
+  shiftsOn,
+  timeOffOn,
+  weekStart,
+  type AvailabilityKind,
+  type DriverAvailability,
+} from '../lib/driverAvailability';
+import Modal from './Modal';
+
+const emptyForm = {
+  driver_id: '',
+  kind: 'shift' as AvailabilityKind,
+  // a shift can be entered for several weekdays at once
+  weekdays: [1, 2, 3, 4, 5],
+  start_time: '08:00',
+  end_time: '16:00',
+  start_date: '',
+  end_date: '',
+  note: '',
+};
+
+export default function DriverSchedule() {
+  const navigate = useNavigate();
+  const {
+    drivers,
+    projects,
+    driverAvailability,
+    addDriverAvailability,
+    updateDriverAvailability,
+    deleteDriverAvailability,
+  } = useData();
+  const today = localToday();
+  const [monday, setMonday] = useState(() => weekStart(today));
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, index) => addDays(monday, index)), [monday]);
+  const requests = driverAvailability.filter(entry => entry.status === 'requested');
+
+  const entriesOf = (driverId: string) => driverAvailability.filter(entry => entry.driver_id === driverId);
+  const driverName = (driverId: string) => drivers.find(driver => driver.id === driverId)?.name ?? 'Unknown driver';
+
+  const tripsOn = (driverId: string, date: string) =>
+    projects
+      .filter(project => project.driver === driverId && project.date === date)
+      .sort((a, b) => a.time.localeCompare(b.time));
+
+  const openForm = (driverId = '') => {
+    setFormData({ ...emptyForm, driver_id: driverId });
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(weekday)
+        ? formData.weekdays.filter(day => day !== weekday)
+        : [...formData.weekdays, weekday].sort(),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const base = {
+      driver_id: formData.driver_id,
+      kind: formData.kind,
+      note: formData.note.trim() || null,
+      status: 'approved' as const,
+    };
+    const entries = formData.kind === 'shift'
+      ? formData.weekdays.map(weekday => ({
+          ...base,
+          weekday,
+          start_time: formData.start_time,
+          end_time: formData.end_time,
+          start_date: null,
+          end_date: null,
+        }))
+      : [{
+          ...base,
+          weekday: null,
+          start_time: null,
+          end_time: null,
+          start_date: formData.start_date,
+          end_date: formData.end_date || null,
+        }];
+
+    if (!formData.driver_id) {
+      setFormError('Choose a driver');
+      return;
+    }
+    if (entries.length === 0) {
+      setFormError('Choose at least one weekday');
+      return;
+    }
+    const problem = entries.map(availabilityProblem).find(Boolean);
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+
+    await addDriverAvailability(entries);
+    setShowForm(false);
+  };
+
+  const handleDelete = (entry: DriverAvailability) => {
+    if (window.confirm(`Remove ${describeAvailability(entry)} for ${driverName(entry.driver_id)}?`)) {
+      deleteDriverAvailability(entry.id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-16">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Driver Schedule</h1>
+              <p className="text-gray-600 mt-1">
+                Shifts, time off and trips of each driver, week by week
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setMonday(addDays(monday, -7))}
+              className="p-2 border rounded-lg text-gray-600 hover:bg-gray-100"
+              title="Previous week"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setMonday(weekStart(today))}
+              className="px-3 py-2 border rounded-lg text-gray-700 hover:bg-gray-100"
+            >
+              This week
+            </button>
+            <button
+              onClick={() => setMonday(addDays(monday, 7))}
+              className="p-2 border rounded-lg text-gray-600 hover:bg-gray-100"
+              title="Next week"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => openForm()}
+              className="flex items-center gap-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+            >
+              <Plus className="w-5 h-5" />
+              Add Availability
+            </button>
+          </div>
+        </div>
+
+        {requests.length > 0 && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <h2 className="font-medium text-blue-900 mb-2">Requests from drivers</h2>
+            <ul className="space-y-2 text-sm">
+              {requests.map(entry => (
+                <li key={entry.id} className="flex flex-wrap items-center gap-3">
+                  <span className="text-blue-900">
+                    <span className="font-medium">{driverName(entry.driver_id)}</span>: {describeAvailability(entry)}
+                    {entry.note && <span className="text-blue-700"> — {entry.note}</span>}
+                  </span>
+                  <button
+                    onClick={() => updateDriverAvailability(entry.id, { status: 'approved' })}
+                    className="flex items-center text-green-700 hover:text-green-900 font-medium"
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => updateDriverAvailability(entry.id, { status: 'declined' })}
+                    className="flex items-center text-red-600 hover:text-red-800 font-medium"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Decline
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 table-fixed">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="w-40 px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Driver
+                </th>
+                {days.map(day => (
+                  <th
+                    key={day}
+                    className={`px-2 py-3 text-left text-xs font-medium uppercase tracking-wider ${
+                      day === today ? 'text-green-700 bg-green-50' : 'text-gray-500'
+                    }`}
+                  >
+                    {WEEKDAY_NAMES[isoWeekday(day) - 1]} {day.slice(8)}.{day.slice(5, 7)}.
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {drivers.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                    Add drivers in settings to plan their shifts.
+                  </td>
+                </tr>
+              )}
+              {drivers.map(driver => {
+                const entries = entriesOf(driver.id);
+                // requests are shown where they would apply once approved
+                const requested = entries
+                  .filter(entry => entry.status === 'requested')
+                  .map(entry => ({ ...entry, status: 'approved' as const }));
+                return (
+                  <tr key={driver.id} className="align-top">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{driver.name}</div>
+                      {driver.status !== 'available' && (
+                        <div className="text-xs text-gray-500 capitalize">{driver.status}</div>
+                      )}
+                      <button
+                        onClick={() => openForm(driver.id)}
+                        className="mt-1 text-xs text-green-600 hover:text-green-800"
+                      >
+                        + Availability
+                      </button>
+                    </td>
+                    {days.map(day => {
+                      const off = timeOffOn(entries, day);
+                      const requestedOff = timeOffOn(requested, day);
+                      const shifts = shiftsOn(entries, day);
+                      const requestedShifts = shiftsOn(requested, day);
+                      return (
+                        <td key={day} className={`px-2 py-2 text-xs space-y-1 ${off ? 'bg-gray-100' : ''}`}>
+                          {off && (
+                            <div className="flex items-center justify-between px-2 py-1 rounded bg-gray-300 text-gray-800">
+                              <span>{AVAILABILITY_KIND_LABELS[off.kind]}</span>
+                              <button onClick={() => handleDelete(off)} title="Remove" className="hover:text-red-600">
+                                <X className="w-3 h-3" />
+                              </button>
+                            </div>
+                          )}
+                          {!off && shifts.map(shift => (
+                            <div
+                              key={shift.id}
+                              className="flex items-center justify-between px-2 py-1 rounded bg-green-100 text-green-800"
+                            >
+                              <span>{shift.start_time?.slice(0, 5)}–{shift.end_time?.slice(0, 5)}</span>
+                              <button onClick={() => handleDelete(shift)} title="Remove" className="hover:text-red-600">
+                                <X className="w-3 h-3" />
+                              </button>
+                            </div>
+                          ))}
+                          {[...(requestedOff ? [requestedOff] : []), ...requestedShifts].map(entry => (
+                            <div
+                              key={entry.id}
+                              className="px-2 py-1 rounded border border-dashed border-blue-400 text-blue-700"
+                              title="Requested by the driver"
+                            >
+                              {entry.kind === 'shift'
+                                ? `${entry.start_time?.slice(0, 5)}–${entry.end_time?.slice(0, 5)}?`
+                                : `${AVAILABILITY_KIND_LABELS[entry.kind]}?`}
+                            </div>
+                          ))}
+                          {tripsOn(driver.id, day).map(trip => {
+                            const { available } = driverAvailabilityAt(driver.id, driverAvailability, day, trip.time);
+                            return (
+                              <button
+                                key={trip.id}
+                                onClick={() => navigate(`/edit-project/${trip.id}`)}
+                                className={`w-full flex items-center text-left px-2 py-1 rounded border ${
+                                  available
+                                    ? 'bg-blue-50 border-blue-200 text-blue-900 hover:bg-blue-100'
+                                    : 'bg-amber-50 border-amber-300 text-amber-900 hover:bg-amber-100'
+                                } ${trip.status === 'completed' ? 'opacity-60' : ''}`}
+                                title={available ? trip.pickupLocation : 'Outside the driver\'s availability'}
+                              >
+                                {!available && <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />}
+                                <span className="truncate">{trip.time.slice(0, 5)} {trip.clientName}</span>
+                              </button>
+                            );
+                          })}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+          <span className="flex items-center"><span className="w-3 h-3 rounded bg-green-100 mr-1" /> Shift</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded bg-gray-300 mr-1" /> Day off / holiday</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded border border-dashed border-blue-400 mr-1" /> Requested</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded bg-amber-50 border border-amber-300 mr-1" /> Trip outside availability</span>
+          <span>Drivers without shifts can be booked any time they are not off.</span>
+        </div>
+      </div>
+
+      <Modal isOpen={showForm} onClose={() => setShowForm(false)} title="Add Availability">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Driver</label>
+            <select
+              value={formData.driver_id}
+              onChange={(e) => setFormData({ ...formData, driver_id: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+              required
+            >
+              <option value="">Select Driver</option>
+              {drivers.map(driver => (
+                <option key={driver.id} value={driver.id}>{driver.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={formData.kind}
+              onChange={(e) => setFormData({ ...formData, kind: e.target.value as AvailabilityKind })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+            >
+              {availabilityKinds.map(kind => (
+                <option key={kind} value={kind}>{AVAILABILITY_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          {formData.kind === 'shift' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Every</label>
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAY_NAMES.map((name, index) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => toggleWeekday(index + 1)}
+                      className={`px-3 py-1 rounded-full text-sm border ${
+                        formData.weekdays.includes(index + 1)
+                          ? 'bg-green-500 border-green-500 text-white'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                  <input
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                    required
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">A shift ending before it starts runs past midnight.</p>
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">First day</label>
+                <input
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Last day</label>
+                <input
+                  type="date"
+                  value={formData.end_date}
+                  min={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+            <input
+              type="text"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+            />
+          </div>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600">
+              Add
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
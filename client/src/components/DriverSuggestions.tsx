@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { dispatchAddresses, driverSuggestions, type DispatchProject } from '../lib/dispatch';
+import { useAddressPositions } from '../lib/geocoding';
+
+// How many ranked drivers are listed
+const SHOWN_SUGGESTIONS = 5;
+
+export function scoreClasses(score: number) {
+  if (score >= 70) return 'bg-green-100 text-green-800';
+  if (score >= 40) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-700';
+}
+
+interface DriverSuggestionsProps {
+  trip: DispatchProject;
+  onSelect: (driverId: string) => void;
+}
+
+// "Suggest driver" for a trip without one: the available drivers, best first
+export default function DriverSuggestions({ trip, onSelect }: DriverSuggestionsProps) {
+  const { projects, drivers, carTypes, driverAvailability } = useData();
+  const [open, setOpen] = useState(false);
+
+  const addresses = useMemo(
+    () => (open ? dispatchAddresses(trip.date, projects, trip) : []),
+    [open, trip, projects]
+  );
+  const positions = useAddressPositions(addresses);
+
+  const suggestions = useMemo(
+    () => (open ? driverSuggestions(trip, { projects, drivers, carTypes, driverAvailability, positions }) : []),
+    [open, trip, projects, drivers, carTypes, driverAvailability, positions]
+  );
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={!trip.date || !trip.time}
+        className="flex items-center text-xs text-green-600 hover:text-green-800 disabled:text-gray-400"
+        title={trip.date && trip.time ? 'Rank the available drivers' : 'Enter the date and time first'}
+      >
+        <Sparkles className="w-3 h-3 mr-1" />
+        Suggest driver
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 p-3 border rounded-lg bg-gray-50 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-700">Suggested drivers</span>
+        <button type="button" onClick={() => setOpen(false)} className="text-xs text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+      {suggestions.length === 0 ? (
+        <p className="text-gray-600">No driver is free at this time.</p>
+      ) : (
+        <ul className="space-y-2">
+          {suggestions.slice(0, SHOWN_SUGGESTIONS).map(suggestion => (
+            <li key={suggestion.driverId} className="flex items-start justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">
+                    {drivers.find(driver => driver.id === suggestion.driverId)?.name}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${scoreClasses(suggestion.score)}`}>
+                    {suggestion.score}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">{suggestion.reasons.join(' · ')}</div>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  onSelect(suggestion.driverId);
+                  setOpen(false);
+                }}
+                className="text-green-600 hover:text-green-800 font-medium"
+              >
+                Assign
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
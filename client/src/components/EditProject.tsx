@@ -1,14 +1,40 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, FileText } from 'lucide-react';
+import { ArrowLeft, FileText, Repeat, Route } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
+import { describeRRule, parseRRule } from '@shared/recurrence';
+import type { Quote } from '@shared/tariffs';
+import { fetchSeries, type TripSeries } from '../lib/tripSeries';
+import { summarizeItinerary, type LegDraft } from '../lib/itineraries';
+import ItineraryLegs from './ItineraryLegs';
+import DriverSuggestions from './DriverSuggestions';
+import PriceQuote from './PriceQuote';
+import PlaceInput from './PlaceInput';
+import CustomerLookup from './CustomerLookup';
+import DriverConflictWarning, { conflictMessages, projectConflicts } from './DriverConflictWarning';
+import CapacityCheck, { carTypeLabel, carTypeProblems } from './CapacityCheck';
+import { assignVehicle, vehicleLabel, vehicleSeatProblem } from '../lib/vehicles';
+import { availabilityWarning, driverAvailabilityAt } from '../lib/driverAvailability';
+import { describeRoute, useTripRoute } from '../lib/routing';
 import VoucherGenerator from './VoucherGenerator';
 import Modal from './Modal';
 
 export default function EditProject() {
   const navigate = useNavigate();
   const { id } = useParams();
-  const { projects, companies, drivers, carTypes, updateProject } = useData();
+  const {
+    projects,
+    itineraries,
+    companies,
+    drivers,
+    carTypes,
+    vehicles,
+    driverAvailability,
+    updateProject,
+    updateProjectSeries,
+    endProjectSeries,
+    addItineraryLegs,
+  } = useData();
   const [formData, setFormData] = useState({
     company: '',
     description: '',
@@ -16,17 +42,72 @@ export default function EditProject() {
     date: '',
     time: '',
     passengers: 1,
+    luggage: 0,
     pickupLocation: '',
     dropoffLocation: '',
     carType: '',
+    vehicle: '',
     price: 0,
     driverFee: 0, // Change to number instead of string
+    priceOverridden: false,
+    distanceKm: null as number | null,
+    durationMinutes: null as number | null,
     clientName: '',
     clientPhone: '',
-    paymentStatus: 'charge' as const
+    paymentStatus: 'charge' as 'paid' | 'charge'
   });
   const [dateTimeError, setDateTimeError] = useState('');
   const [showVoucherModal, setShowVoucherModal] = useState(false);
+  const [series, setSeries] = useState<TripSeries | null>(null);
+  // whether saving changes this trip only or every upcoming trip of its series
+  const [applyToSeries, setApplyToSeries] = useState(false);
+
+  const [newLegs, setNewLegs] = useState<LegDraft[]>([]);
+  const [savingLegs, setSavingLegs] = useState(false);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
+
+  const applyQuote = useCallback((quote: Quote) => {
+    setFormData(prev => ({ ...prev, price: quote.price, driverFee: quote.driverFee }));
+  }, []);
+
+  const applyRoute = useCallback((route: { distanceKm?: number | null; durationMinutes?: number | null } | null) => {
+    setFormData(prev => ({ ...prev, ...route }));
+  }, []);
+  useTripRoute(formData, applyRoute);
+
+  const driverConflicts = useMemo(
+    () => [
+      ...conflictMessages(
+        projectConflicts({ ...formData, id, status: projects.find(p => p.id === id)?.status }, projects, drivers),
+        drivers
+      ),
+      availabilityWarning(formData, driverAvailability, drivers),
+    ].filter((message): message is string => !!message),
+    [formData, id, projects, drivers, driverAvailability]
+  );
+
+  const isDriverAvailable = (driverId: string, date: string, time: string) =>
+    driverAvailabilityAt(driverId, driverAvailability, date, time).available;
+
+  // a new conflict needs a new decision
+  useEffect(() => {
+    setOverrideConflicts(false);
+  }, [driverConflicts.join('\n')]);
+
+  const project = projects.find(p => p.id === id);
+  const seriesId = project?.seriesId;
+  const itinerary = project?.itineraryId ? summarizeItinerary(project.itineraryId, projects) : null;
+  const itineraryReference = itineraries.find(i => i.id === project?.itineraryId)?.reference;
+
+  useEffect(() => {
+    if (!seriesId) {
+      setSeries(null);
+      return;
+    }
+    fetchSeries(seriesId)
+      .then(setSeries)
+      .catch(err => console.error('Error fetching series:', err));
+  }, [seriesId]);
 
   useEffect(() => {
     const project = projects.find(p => p.id === id);
@@ -38,11 +119,16 @@ export default function EditProject() {
         date: project.date,
         time: project.time,
         passengers: project.passengers,
+        luggage: project.luggage ?? 0,
         pickupLocation: project.pickupLocation,
         dropoffLocation: project.dropoffLocation,
         carType: project.carType,
+        vehicle: project.vehicle ?? '',
         price: project.price,
         driverFee: project.driverFee || 0, // Convert to number, default to 0
+        priceOverridden: project.priceOverridden ?? false,
+        distanceKm: project.distanceKm ?? null,
+        durationMinutes: project.durationMinutes ?? null,
         clientName: project.clientName,
         clientPhone: project.clientPhone,
         paymentStatus: project.paymentStatus
@@ -60,7 +146,7 @@ export default function EditProject() {
     return projectDateTime > now;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validate that date and time are in the future
@@ -69,6 +155,20 @@ export default function EditProject() {
       return;
     }
     
+    const capacityProblems = [
+      ...carTypeProblems(formData, formData.carType, carTypes),
+      vehicleSeatProblem(formData.passengers, formData.vehicle, vehicles),
+    ].filter((problem): problem is string => !!problem);
+    if (capacityProblems.length > 0) {
+      setDateTimeError(`The trip does not fit the selected car type or vehicle: ${capacityProblems.join('; ')}`);
+      return;
+    }
+
+    if (driverConflicts.length > 0 && !overrideConflicts) {
+      setDateTimeError('The driver has a conflicting assignment. Tick "Assign anyway" to save regardless.');
+      return;
+    }
+
     // Clear any previous errors
     setDateTimeError('');
     
@@ -79,8 +179,53 @@ export default function EditProject() {
         driverFee: formData.driverFee > 0 ? formData.driverFee : null
       };
       
-      updateProject(id, updateData);
-      navigate('/dashboard');
+      try {
+        await updateProject(id, updateData);
+        if (applyToSeries && series) {
+          await updateProjectSeries(series.id, updateData);
+        }
+        navigate('/dashboard');
+      } catch (error) {
+        setDateTimeError(error instanceof Error ? error.message : 'Failed to save changes');
+      }
+    }
+  };
+
+  const today = new Date().toLocaleDateString('en-CA');
+  const upcomingCount = series
+    ? projects.filter(p => p.seriesId === series.id && p.status === 'active' && p.date >= today).length
+    : 0;
+
+  const handleAddLegs = async () => {
+    if (!project || !id) return;
+    const invalidLeg = newLegs.findIndex(leg => !leg.date || !leg.time || new Date(`${leg.date}T${leg.time}`) <= new Date());
+    if (invalidLeg !== -1) {
+      setDateTimeError('Every new leg needs a date and time in the future');
+      return;
+    }
+
+    setSavingLegs(true);
+    try {
+      const { id: _id, status: _status, ...details } = project;
+      await addItineraryLegs(id, newLegs.map(leg => ({ ...details, ...leg, driverFee: null, bookingId: undefined, distanceKm: null, durationMinutes: null })));
+      setNewLegs([]);
+    } catch (error) {
+      setDateTimeError('Failed to add the leg');
+    } finally {
+      setSavingLegs(false);
+    }
+  };
+
+  const handleEndSeries = async () => {
+    if (!series || !project) return;
+    if (!window.confirm('End this series after this trip? Later trips of the series that are not completed will be deleted.')) {
+      return;
+    }
+    try {
+      await endProjectSeries(series, project.date);
+      setSeries(await fetchSeries(series.id));
+    } catch (error) {
+      setDateTimeError('Failed to end the series');
     }
   };
 
@@ -113,7 +258,116 @@ export default function EditProject() {
               {dateTimeError}
             </div>
           )}
+
+          {series && project && (
+            <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg text-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start">
+                  <Repeat className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium text-gray-900">{seriesDescription(series)}</p>
+                    <p className="text-gray-600">
+                      Started {series.start_date} · {upcomingCount} upcoming trips
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleEndSeries}
+                  className="text-red-600 hover:text-red-800 whitespace-nowrap"
+                >
+                  End series after this trip
+                </button>
+              </div>
+              <div className="mt-3 flex flex-col sm:flex-row sm:space-x-6 space-y-1 sm:space-y-0">
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={!applyToSeries}
+                    onChange={() => setApplyToSeries(false)}
+                    className="mr-2 text-green-600 focus:ring-green-500"
+                  />
+                  Save changes to this trip only
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={applyToSeries}
+                    onChange={() => setApplyToSeries(true)}
+                    className="mr-2 text-green-600 focus:ring-green-500"
+                  />
+                  Save changes to all upcoming trips
+                </label>
+              </div>
+              {applyToSeries && (
+                <p className="mt-2 text-xs text-gray-600">
+                  The other trips keep their dates; every other change applies to them too.
+                </p>
+              )}
+            </div>
+          )}
           
+          {project && (
+            <div className="mb-4 p-4 border rounded-lg text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="flex items-center font-medium text-gray-900">
+                  <Route className="w-4 h-4 mr-2 text-green-600" />
+                  {itinerary ? `Itinerary${itineraryReference ? ` #${itineraryReference}` : ''}` : 'Itinerary'}
+                </h3>
+                {itinerary && (
+                  <span className="text-gray-600">
+                    {itinerary.legs.length} legs · total €{itinerary.totalPrice.toFixed(2)}
+                  </span>
+                )}
+              </div>
+              {itinerary ? (
+                <ol className="space-y-1 mb-3">
+                  {itinerary.legs.map(leg => (
+                    <li key={leg.id} className={`flex flex-wrap gap-x-3 ${leg.id === id ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                      <span>Leg {leg.legNumber}</span>
+                      <span>{leg.date} {leg.time?.slice(0, 5)}</span>
+                      <span className="flex-1 min-w-0 truncate">{leg.pickupLocation} → {leg.dropoffLocation}</span>
+                      <span>€{Number(leg.price).toFixed(2)}</span>
+                      {leg.id !== id && (
+                        <button
+                          type="button"
+                          onClick={() => navigate(`/edit-project/${leg.id}`)}
+                          className="text-green-600 hover:text-green-800"
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-gray-600 mb-3">
+                  A single trip. Add the return trip or further stops to book them together.
+                </p>
+              )}
+              <ItineraryLegs
+                legs={newLegs}
+                onChange={setNewLegs}
+                firstLeg={itinerary?.legs[itinerary.legs.length - 1] ?? project}
+                firstNumber={(itinerary?.legs.length ?? 1) + 1}
+                drivers={drivers}
+                isDriverAvailable={isDriverAvailable}
+              />
+              {newLegs.length > 0 && (
+                <div className="flex justify-end mt-3">
+                  <button
+                    type="button"
+                    onClick={handleAddLegs}
+                    disabled={savingLegs}
+                    className="px-3 py-1.5 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+                  >
+                    {savingLegs ? 'Saving...' : `Save ${newLegs.length === 1 ? 'Leg' : 'Legs'}`}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div>
@@ -147,13 +401,24 @@ export default function EditProject() {
                 >
                   <option value="">Select Driver</option>
                   {drivers
-                    .filter(driver => driver.status === 'available' || driver.id === formData.driver)
+                    .filter(driver =>
+                      (driver.status === 'available' && isDriverAvailable(driver.id, formData.date, formData.time)) ||
+                      driver.id === formData.driver
+                    )
                     .map((driver) => (
                       <option key={driver.id} value={driver.id}>
                         {driver.name}
                       </option>
                     ))}
                 </select>
+                {!formData.driver && (
+                  <div className="mt-1">
+                    <DriverSuggestions
+                      trip={{ ...formData, id }}
+                      onSelect={(driverId) => setFormData({...formData, driver: driverId})}
+                    />
+                  </div>
+                )}
               </div>
 
               <div>
@@ -188,18 +453,32 @@ export default function EditProject() {
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Number of Passengers
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  value={formData.passengers}
-                  onChange={(e) => setFormData({...formData, passengers: parseInt(e.target.value)})}
-                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
-                  required
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Number of Passengers
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.passengers}
+                    onChange={(e) => setFormData({...formData, passengers: parseInt(e.target.value)})}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Luggage
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.luggage}
+                    onChange={(e) => setFormData({...formData, luggage: parseInt(e.target.value) || 0})}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                </div>
               </div>
 
               <div>
@@ -215,13 +494,47 @@ export default function EditProject() {
                   <option value="">Select Car Type</option>
                   {carTypes.map((carType) => (
                     <option key={carType.id} value={carType.id}>
-                      {carType.name} ({carType.capacity} passengers)
+                      {carTypeLabel(carType)}
                     </option>
                   ))}
                 </select>
               </div>
+
+              {vehicles.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Vehicle
+                  </label>
+                  <select
+                    value={formData.vehicle}
+                    onChange={(e) => setFormData(assignVehicle(formData, e.target.value, vehicles))}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  >
+                    <option value="">No vehicle assigned</option>
+                    {vehicles.map((vehicle) => (
+                      <option key={vehicle.id} value={vehicle.id}>
+                        {vehicleLabel(vehicle)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
+            <CapacityCheck
+              passengers={formData.passengers}
+              luggage={formData.luggage}
+              carTypeId={formData.carType}
+              carTypes={carTypes}
+              onSelectCarType={(carType) => setFormData({...formData, carType})}
+            />
+
+            <DriverConflictWarning
+              messages={driverConflicts}
+              override={overrideConflicts}
+              onOverrideChange={setOverrideConflicts}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Project Description
@@ -240,10 +553,9 @@ export default function EditProject() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Pick-up Location
                 </label>
-                <input
-                  type="text"
+                <PlaceInput
                   value={formData.pickupLocation}
-                  onChange={(e) => setFormData({...formData, pickupLocation: e.target.value})}
+                  onChange={(pickupLocation) => setFormData({...formData, pickupLocation, distanceKm: null, durationMinutes: null})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                   required
                 />
@@ -253,13 +565,26 @@ export default function EditProject() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Drop-off Location
                 </label>
-                <input
-                  type="text"
+                <PlaceInput
                   value={formData.dropoffLocation}
-                  onChange={(e) => setFormData({...formData, dropoffLocation: e.target.value})}
+                  onChange={(dropoffLocation) => setFormData({...formData, dropoffLocation, distanceKm: null, durationMinutes: null})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                   required
                 />
+                {describeRoute(formData) && (
+                  <p className="mt-1 text-xs text-gray-500">{describeRoute(formData)}</p>
+                )}
+              </div>
+
+              <div className="sm:col-span-2">
+                <PriceQuote
+                  trip={formData}
+                  overridden={formData.priceOverridden}
+                  onApply={applyQuote}
+                  onUseTariff={() => setFormData(prev => ({ ...prev, priceOverridden: false }))}
+                  onRouteChange={applyRoute}
+                  keepInitialPrice
+                />
               </div>
 
               <div>
@@ -274,7 +599,7 @@ export default function EditProject() {
                   min="0"
                   step="0.01"
                   value={formData.price}
-                  onChange={(e) => setFormData({...formData, price: parseFloat(e.target.value)})}
+                  onChange={(e) => setFormData({...formData, price: parseFloat(e.target.value), priceOverridden: true})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                   required
                 />
@@ -292,7 +617,7 @@ export default function EditProject() {
                   min="0"
                   step="0.01"
                   value={formData.driverFee}
-                  onChange={(e) => setFormData({...formData, driverFee: parseFloat(e.target.value) || 0})}
+                  onChange={(e) => setFormData({...formData, driverFee: parseFloat(e.target.value) || 0, priceOverridden: true})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                   placeholder="0.00"
                 />
@@ -337,6 +662,11 @@ export default function EditProject() {
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                   required
                 />
+                <CustomerLookup
+                  phone={formData.clientPhone}
+                  clientName={formData.clientName}
+                  onUseName={(clientName) => setFormData({...formData, clientName})}
+                />
               </div>
             </div>
 
@@ -375,4 +705,12 @@ export default function EditProject() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function seriesDescription(series: TripSeries) {
+  try {
+    return describeRRule(parseRRule(series.rule));
+  } catch {
+    return series.rule;
+  }
+}
@@ -0,0 +1,378 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Mail, Upload } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { apiRequest } from '../lib/api';
+import {
+  EMAIL_DRAFT_FIELD_LABELS,
+  type EmailDraft,
+  type EmailDraftField,
+} from '@shared/emailDrafts';
+
+// Turns a forwarded booking email into a trip: the server extracts a draft,
+// the operator checks and completes it here, and it is saved like NewProject.
+export default function EmailImport() {
+  const navigate = useNavigate();
+  const { companies, carTypes, addProject } = useData();
+  const [rawEmail, setRawEmail] = useState('');
+  const [companyHint, setCompanyHint] = useState('');
+  const [draft, setDraft] = useState<EmailDraft | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    company: '',
+    description: '',
+    date: '',
+    time: '',
+    passengers: 1,
+    pickupLocation: '',
+    dropoffLocation: '',
+    carType: '',
+    price: 0,
+    clientName: '',
+    clientPhone: '',
+    bookingId: '',
+    paymentStatus: 'charge' as 'paid' | 'charge'
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setRawEmail(await file.text());
+  };
+
+  const handleExtract = async () => {
+    setError('');
+    setParsing(true);
+    try {
+      const query = companyHint ? `?companyId=${encodeURIComponent(companyHint)}` : '';
+      const result = await apiRequest<EmailDraft>('POST', `/email-drafts${query}`, rawEmail, 'message/rfc822');
+      const { project } = result;
+      setDraft(result);
+      setFormData((current) => ({
+        ...current,
+        company: project.companyId ?? '',
+        description: project.description ?? '',
+        date: project.date ?? '',
+        time: project.time ?? '',
+        passengers: project.passengers ?? 1,
+        pickupLocation: project.pickupLocation ?? '',
+        dropoffLocation: project.dropoffLocation ?? '',
+        clientName: project.clientName ?? '',
+        clientPhone: project.clientPhone ?? '',
+        bookingId: project.bookingId ?? '',
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the email');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  // Same rule as NewProject
+  const isDateTimeValid = () => {
+    if (!formData.date || !formData.time) return false;
+
+    const projectDateTime = new Date(`${formData.date}T${formData.time}`);
+    const now = new Date();
+
+    return projectDateTime > now;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.date || !formData.time) {
+      setError('Please fill in the date and time fields');
+      return;
+    }
+    if (!isDateTimeValid()) {
+      setError('Project date and time must be in the future');
+      return;
+    }
+    setError('');
+
+    try {
+      await addProject({ ...formData, driver: '', driverFee: null, source: 'email' });
+      navigate('/dashboard');
+    } catch (err) {
+      console.error('Failed to create project:', err);
+    }
+  };
+
+  const isMissing = (field: EmailDraftField) => draft?.missing.includes(field) ?? false;
+
+  const inputClass = (field?: EmailDraftField) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm ${
+      field && isMissing(field) ? 'border-amber-400 bg-amber-50' : ''
+    }`;
+
+  const fieldLabel = (field: EmailDraftField, label = EMAIL_DRAFT_FIELD_LABELS[field]) => (
+    <label className="block text-sm font-medium text-gray-700 mb-1">
+      {label}
+      {isMissing(field) && <span className="ml-2 text-xs text-amber-600">Not found in email</span>}
+    </label>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-16">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6">
+        <button
+          onClick={() => (draft ? setDraft(null) : navigate('/new-project'))}
+          className="flex items-center text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          {draft ? 'Back to Email' : 'Back to New Project'}
+        </button>
+
+        <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+          <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6">
+            {draft ? 'Review Trip from Email' : 'Create Project from Email'}
+          </h2>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {!draft ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Paste the full source of a booking email ("Show original" / "View source") or
+                upload the saved <code className="px-1 bg-gray-100 rounded">.eml</code> file.
+                Nothing is saved until you review the trip.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Company <span className="text-gray-400">(Optional, detected from the sender)</span>
+                </label>
+                <select
+                  value={companyHint}
+                  onChange={(e) => setCompanyHint(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                >
+                  <option value="">Detect from sender</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <textarea
+                value={rawEmail}
+                onChange={(e) => setRawEmail(e.target.value)}
+                placeholder={'From: bookings@partner.example\nSubject: Booking confirmed\n\n...'}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 font-mono text-xs"
+                rows={14}
+              />
+              <div className="flex flex-col sm:flex-row sm:justify-between gap-3">
+                <label className="flex items-center justify-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload .eml
+                  <input type="file" accept=".eml,message/rfc822,text/plain" onChange={handleFile} className="hidden" />
+                </label>
+                <button
+                  onClick={handleExtract}
+                  disabled={!rawEmail.trim() || parsing}
+                  className="flex items-center justify-center px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+                >
+                  <Mail className="w-4 h-4 mr-2" />
+                  {parsing ? 'Reading email...' : 'Extract Trip'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
+              <div className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+                <div><span className="font-medium">From:</span> {draft.from || '—'}</div>
+                <div><span className="font-medium">Subject:</span> {draft.subject || '—'}</div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {draft.templateId ? 'Read with a company email template.' : 'No template matched; common labels were used.'}
+                  {draft.missing.length > 0 && ' Highlighted fields were not found and need checking.'}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Company
+                  </label>
+                  <select
+                    value={formData.company}
+                    onChange={(e) => setFormData({...formData, company: e.target.value})}
+                    className={inputClass()}
+                  >
+                    <option value="">Select Company</option>
+                    {companies.map((company) => (
+                      <option key={company.id} value={company.id}>
+                        {company.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  {fieldLabel('bookingId')}
+                  <input
+                    type="text"
+                    value={formData.bookingId}
+                    onChange={(e) => setFormData({...formData, bookingId: e.target.value})}
+                    className={inputClass('bookingId')}
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('date')}
+                  <input
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData({...formData, date: e.target.value})}
+                    className={inputClass('date')}
+                    required
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('time')}
+                  <input
+                    type="time"
+                    value={formData.time}
+                    onChange={(e) => setFormData({...formData, time: e.target.value})}
+                    className={inputClass('time')}
+                    required
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('pickupLocation', 'Pick-up Location')}
+                  <input
+                    type="text"
+                    value={formData.pickupLocation}
+                    onChange={(e) => setFormData({...formData, pickupLocation: e.target.value})}
+                    className={inputClass('pickupLocation')}
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('dropoffLocation', 'Drop-off Location')}
+                  <input
+                    type="text"
+                    value={formData.dropoffLocation}
+                    onChange={(e) => setFormData({...formData, dropoffLocation: e.target.value})}
+                    className={inputClass('dropoffLocation')}
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('clientName')}
+                  <input
+                    type="text"
+                    value={formData.clientName}
+                    onChange={(e) => setFormData({...formData, clientName: e.target.value})}
+                    className={inputClass('clientName')}
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('clientPhone')}
+                  <input
+                    type="tel"
+                    value={formData.clientPhone}
+                    onChange={(e) => setFormData({...formData, clientPhone: e.target.value})}
+                    className={inputClass('clientPhone')}
+                  />
+                </div>
+
+                <div>
+                  {fieldLabel('passengers', 'Number of Passengers')}
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.passengers}
+                    onChange={(e) => setFormData({...formData, passengers: parseInt(e.target.value)})}
+                    className={inputClass('passengers')}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Car Type
+                  </label>
+                  <select
+                    value={formData.carType}
+                    onChange={(e) => setFormData({...formData, carType: e.target.value})}
+                    className={inputClass()}
+                  >
+                    <option value="">Select Car Type</option>
+                    {carTypes.map((carType) => (
+                      <option key={carType.id} value={carType.id}>
+                        {carType.name} ({carType.capacity} passengers)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Total Price
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.price}
+                    onChange={(e) => setFormData({...formData, price: parseFloat(e.target.value)})}
+                    className={inputClass()}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Payment Status
+                  </label>
+                  <select
+                    value={formData.paymentStatus}
+                    onChange={(e) => setFormData({...formData, paymentStatus: e.target.value as 'paid' | 'charge'})}
+                    className={inputClass()}
+                  >
+                    <option value="paid">Already Paid</option>
+                    <option value="charge">Charge the Client</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Project Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                  className={inputClass()}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+                >
+                  Discard
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 text-sm"
+                >
+                  Create Project
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
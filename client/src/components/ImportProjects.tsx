@@ -0,0 +1,361 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, FileSpreadsheet, Upload } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { DATE_ORDER_LABELS, dateOrders, type DateOrder } from '@shared/dateTime';
+import {
+  IMPORT_FIELD_LABELS,
+  buildImportPlan,
+  guessMapping,
+  importFields,
+  readSheet,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowStatus,
+  type Sheet,
+} from '../lib/tripImport';
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+// marked in the mapping step; a combined date and time column also works
+const REQUIRED_FIELDS: ImportField[] = ['date', 'time'];
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  skip: { label: 'Skipped', className: 'bg-yellow-100 text-yellow-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+};
+
+// Season bulk import: upload a CSV/XLSX, map its columns, check a dry run
+// of what would change, then insert.
+export default function ImportProjects() {
+  const navigate = useNavigate();
+  const { companies, drivers, carTypes, projects, importProjects } = useData();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>('DMY');
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState({ created: 0, updated: 0 });
+  const [error, setError] = useState('');
+
+  const plan = useMemo(
+    () => (sheet && step !== 'upload'
+      ? buildImportPlan(sheet, mapping, { companies, drivers, carTypes }, projects, { dateOrder, updateExisting })
+      : []),
+    [sheet, step, mapping, companies, drivers, carTypes, projects, dateOrder, updateExisting],
+  );
+
+  const counts = useMemo(() => {
+    const totals: Record<ImportRowStatus, number> = { create: 0, update: 0, unchanged: 0, skip: 0, error: 0 };
+    for (const row of plan) totals[row.status]++;
+    return totals;
+  }, [plan]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+    try {
+      const parsed = await readSheet(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('The file has no rows to import. The first row must contain column names.');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setStep('map');
+    } catch (err) {
+      console.error('Failed to read spreadsheet:', err);
+      setError('The file could not be read. Upload a CSV or XLSX file.');
+    }
+  };
+
+  const setColumn = (field: ImportField, column: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (column === '') delete next[field];
+      else next[field] = Number(column);
+      return next;
+    });
+  };
+
+  const handleReview = () => {
+    // time may come from the date column, rows without one are reported
+    if (mapping.date === undefined) {
+      setError(`Map a column to ${IMPORT_FIELD_LABELS.date}`);
+      return;
+    }
+    setError('');
+    setStep('review');
+  };
+
+  const handleImport = async () => {
+    const creates = plan.filter((row) => row.status === 'create' && row.project);
+    const updates = plan.filter((row) => row.status === 'update' && row.project && row.existingId);
+
+    let done = 0;
+    setImporting(true);
+    setProgress(0);
+    setError('');
+    try {
+      await importProjects(
+        creates.map((row) => row.project!),
+        updates.map((row) => ({
+          id: row.existingId!,
+          changes: Object.fromEntries(row.changes.map((change) => [change.field, change.to])),
+        })),
+        (count) => {
+          done = count;
+          setProgress(count);
+        },
+      );
+      setResult({ created: creates.length, updated: updates.length });
+      setStep('done');
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(`The import stopped after ${done} of ${creates.length + updates.length} trips. Review the remaining rows and try again.`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const formatValue = (field: ImportField, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    const byId = (records: { id: string; name: string }[]) =>
+      records.find((record) => record.id === value)?.name ?? String(value);
+    if (field === 'company') return byId(companies);
+    if (field === 'driver') return byId(drivers);
+    if (field === 'carType') return byId(carTypes);
+    if (field === 'time') return String(value).slice(0, 5);
+    return String(value);
+  };
+
+  const toImport = counts.create + counts.update;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-16">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6">
+        <button
+          onClick={() => navigate('/new-project')}
+          className="flex items-center text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to New Project
+        </button>
+
+        <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+          <h2 className="text-xl sm:text-2xl font-bold mb-1">Import Projects</h2>
+          <p className="text-sm text-gray-500 mb-4 sm:mb-6">
+            {step === 'upload' && 'Step 1 of 3: upload a spreadsheet'}
+            {step === 'map' && `Step 2 of 3: match the columns of ${fileName}`}
+            {step === 'review' && 'Step 3 of 3: check what will be imported'}
+            {step === 'done' && 'Import finished'}
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Upload a CSV or Excel (.xlsx) file with one trip per row and column names in the
+                first row. Companies, drivers and car types can be given by name as they appear in
+                settings. Nothing is saved before you confirm the import.
+              </p>
+              <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-10 cursor-pointer hover:border-green-500">
+                <FileSpreadsheet className="w-10 h-10 text-green-500 mb-2" />
+                <span className="text-sm text-gray-700">Choose a .csv or .xlsx file</span>
+                <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {importFields.map((field) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {IMPORT_FIELD_LABELS[field]}
+                      {REQUIRED_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setColumn(field, e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                    >
+                      <option value="">Not imported</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                          {sheet.rows[0]?.[index] ? ` (e.g. ${sheet.rows[0][index]})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Numeric dates are written as
+                  </label>
+                  <select
+                    value={dateOrder}
+                    onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  >
+                    {dateOrders.map((order) => (
+                      <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center text-sm text-gray-700 sm:mt-6">
+                  <input
+                    type="checkbox"
+                    checked={updateExisting}
+                    onChange={(e) => setUpdateExisting(e.target.checked)}
+                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+                  />
+                  Update existing trips with the same booking reference
+                </label>
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setStep('upload')}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+                >
+                  Choose Another File
+                </button>
+                <button
+                  onClick={handleReview}
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 text-sm"
+                >
+                  Review Import
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map((status) => (
+                  <span key={status} className={`px-3 py-1 rounded-full ${STATUS_STYLES[status].className}`}>
+                    {STATUS_STYLES[status].label}: {counts[status]}
+                  </span>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto border rounded-lg max-h-[60vh]">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trip</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {plan.map((row) => (
+                      <tr key={row.line} className="align-top">
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[row.status].className}`}>
+                            {STATUS_STYLES[row.status].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.project ? (
+                            <>
+                              <div>{row.project.date} {row.project.time} · {row.project.clientName || 'Anonymous'}</div>
+                              <div className="text-gray-500">
+                                {row.project.pickupLocation || 'Not specified'} → {row.project.dropoffLocation || 'Not specified'}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {row.errors.map((message) => (
+                            <div key={message} className="text-red-600">{message}</div>
+                          ))}
+                          {row.changes.map((change) => (
+                            <div key={change.field}>
+                              <span className="font-medium">{IMPORT_FIELD_LABELS[change.field]}:</span>{' '}
+                              <span className="line-through text-gray-400">{formatValue(change.field, change.from)}</span>{' '}
+                              → {formatValue(change.field, change.to)}
+                            </div>
+                          ))}
+                          {row.status === 'create' && row.project?.bookingId && (
+                            <div>Booking {row.project.bookingId}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {importing && (
+                <p className="text-sm text-gray-600">Importing... {progress} of {toImport}</p>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setStep('map')}
+                  disabled={importing}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+                >
+                  Back to Columns
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={importing || toImport === 0}
+                  className="flex items-center px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import {toImport} {toImport === 1 ? 'Trip' : 'Trips'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="space-y-4">
+              <p className="text-gray-700">
+                {result.created} {result.created === 1 ? 'trip was' : 'trips were'} created
+                {result.updated > 0 && ` and ${result.updated} updated`}.
+                {counts.error > 0 && ` ${counts.error} rows with errors were left out.`}
+              </p>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => navigate('/dashboard')}
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 text-sm"
+                >
+                  Go to Dashboard
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React from 'react';
+import { ArrowLeftRight, Plus, Trash2 } from 'lucide-react';
+import { nextLeg, returnLeg, type LegDraft } from '../lib/itineraries';
+import PlaceInput from './PlaceInput';
+
+interface ItineraryLegsProps {
+  // the legs after the first one; the first leg is the trip in the main form
+  legs: LegDraft[];
+  onChange: (legs: LegDraft[]) => void;
+  firstLeg: LegDraft;
+  // number of the first leg edited here
+  firstNumber?: number;
+  drivers: Array<{ id: string; name: string; status: string }>;
+  // limits the drivers offered for a leg to those working at its date and time
+  isDriverAvailable?: (driverId: string, date: string, time: string) => boolean;
+}
+
+export default function ItineraryLegs({ legs, onChange, firstLeg, firstNumber = 2, drivers, isDriverAvailable }: ItineraryLegsProps) {
+  const previous = legs[legs.length - 1] ?? firstLeg;
+
+  const updateLeg = (index: number, changes: Partial<LegDraft>) => {
+    onChange(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {legs.map((leg, index) => (
+        <div key={index} className="border rounded-lg p-3 bg-gray-50">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-700">Leg {firstNumber + index}</h4>
+            <button
+              type="button"
+              onClick={() => onChange(legs.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-800"
+              title="Remove leg"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <input
+              type="date"
+              value={leg.date}
+              onChange={(e) => updateLeg(index, { date: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+              required
+            />
+            <input
+              type="time"
+              value={leg.time}
+              onChange={(e) => updateLeg(index, { time: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+              required
+            />
+            <select
+              value={leg.driver}
+              onChange={(e) => updateLeg(index, { driver: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm col-span-2 sm:col-span-1"
+            >
+              <option value="">Select Driver</option>
+              {drivers
+                .filter((driver) =>
+                  (driver.status === 'available' && (isDriverAvailable?.(driver.id, leg.date, leg.time) ?? true)) ||
+                  driver.id === leg.driver
+                )
+                .map((driver) => (
+                  <option key={driver.id} value={driver.id}>{driver.name}</option>
+                ))}
+            </select>
+            <PlaceInput
+              value={leg.pickupLocation}
+              onChange={(pickupLocation) => updateLeg(index, { pickupLocation })}
+              placeholder="Pick-up location"
+              wrapperClassName="col-span-2 sm:col-span-1"
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+              showPlace={false}
+            />
+            <PlaceInput
+              value={leg.dropoffLocation}
+              onChange={(dropoffLocation) => updateLeg(index, { dropoffLocation })}
+              placeholder="Drop-off location"
+              wrapperClassName="col-span-2 sm:col-span-1"
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+              showPlace={false}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={leg.price}
+              onChange={(e) => updateLeg(index, { price: parseFloat(e.target.value) || 0 })}
+              placeholder="Price"
+              title="Price of this leg"
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="button"
+          onClick={() => onChange([...legs, returnLeg(previous)])}
+          className="flex items-center text-sm text-green-600 hover:text-green-800"
+        >
+          <ArrowLeftRight className="w-4 h-4 mr-1" />
+          Add return trip
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([...legs, nextLeg(previous)])}
+          className="flex items-center text-sm text-green-600 hover:text-green-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add leg
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
 import { LatLngExpression } from 'leaflet';
-import { MapPin, TrendingUp, Users, DollarSign, Navigation, Eye, EyeOff } from 'lucide-react';
+import { MapPin, TrendingUp, Users, DollarSign, Navigation, Eye, EyeOff, Crosshair } from 'lucide-react';
+import { normaliseAddress, type LatLng } from '@shared/geocoding';
 import { useData } from '../contexts/DataContext';
+import { geocodeAddresses, positionOf, pinAddress, forgetAddress, type GeocodedAddress } from '../lib/geocoding';
+import { placeMatcher, type Place } from '../lib/places';
 import 'leaflet/dist/leaflet.css';
 
 // Fix for default markers in react-leaflet
@@ -18,45 +21,21 @@ let DefaultIcon = L.divIcon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
-// Geocoding service - using a simple geocoding approach
-const geocodeAddress = async (address: string): Promise<[number, number] | null> => {
-  try {
-    // Using Nominatim (OpenStreetMap's free geocoding service)
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&limit=1`
-    );
-    
-    // Check if the response is ok before parsing
-    if (!response.ok) {
-      console.error('Geocoding error:', {
-        status: response.status,
-        statusText: response.statusText,
-        responseText: await response.text()
-      });
-      return null;
-    }
-    
-    const data = await response.json();
-    
-    if (data && data.length > 0) {
-      return [parseFloat(data[0].lat), parseFloat(data[0].lon)];
-    }
-    return null;
-  } catch (error) {
-    console.error('Geocoding error:', error);
-    return null;
-  }
-};
-
-// Simple cache for geocoded locations
-const locationCache = new Map<string, [number, number] | null>();
-
-interface LocationData {
+// Where a trip address is shown: its saved place, if it belongs to one, so
+// every spelling of the place counts together
+interface MapLocation {
+  label: string;
+  // the address that is geocoded, the place's address for a place
   address: string;
+  place?: Place;
+}
+
+interface LocationData extends MapLocation {
   coordinates: [number, number];
   frequency: number;
   totalRevenue: number;
   type: 'pickup' | 'dropoff';
+  source: GeocodedAddress['source'];
 }
 
 interface HeatMapProps {
@@ -139,6 +118,14 @@ function HeatmapLayer({ heatmapData, showPickups, showDropoffs }: HeatMapProps)
   return null;
 }
 
+// Places the pin of the address being corrected where the map is clicked
+function PinOnClick({ onPick }: { onPick: (position: LatLng) => void }) {
+  useMapEvents({
+    click: (event) => onPick({ lat: event.latlng.lat, lng: event.latlng.lng }),
+  });
+  return null;
+}
+
 // Top locations component
 interface TopLocation {
   address: string;
@@ -197,134 +184,190 @@ const TopLocationsPanel = ({ topLocations }: { topLocations: TopLocation[] }) =>
 };
 
 export default function LocationAnalytics() {
-  const { projects } = useData();
-  const [heatmapData, setHeatmapData] = useState<LocationData[]>([]);
+  const { projects, places, updatePlace } = useData();
+  const [positions, setPositions] = useState<Map<string, GeocodedAddress>>(new Map());
   const [loading, setLoading] = useState(true);
   const [showPickups, setShowPickups] = useState(true);
   const [showDropoffs, setShowDropoffs] = useState(true);
   const [geocodingProgress, setGeocodingProgress] = useState(0);
-  const [mapCenter, setMapCenter] = useState<LatLngExpression>([40.7128, -74.0060]); // Default to NYC
+  const [geocodingError, setGeocodingError] = useState('');
+  // the location whose pin is placed by clicking the map
+  const [pinning, setPinning] = useState<MapLocation | null>(null);
+
+  const locationOf = useMemo(() => {
+    const matchPlace = placeMatcher(places);
+    return (address: string): MapLocation => {
+      const place = matchPlace(address);
+      return place ? { label: place.name, address: place.address, place } : { label: address, address };
+    };
+  }, [places]);
 
-  // Process project data and geocode locations
+  // Positions come from the server's geocoding cache; only addresses it has
+  // not seen before are sent to the provider, a few per request. Places
+  // placed by hand are not looked up.
   useEffect(() => {
-    const processLocationData = async () => {
-      setLoading(true);
-      setGeocodingProgress(0);
-
-      // Get all unique addresses
-      const allAddresses = new Set<string>();
-      projects.forEach(project => {
-        if (project.pickupLocation) allAddresses.add(project.pickupLocation);
-        if (project.dropoffLocation) allAddresses.add(project.dropoffLocation);
+    const allAddresses = new Set<string>();
+    projects.forEach(project => {
+      [project.pickupLocation, project.dropoffLocation].forEach(address => {
+        const location = address ? locationOf(address) : undefined;
+        if (location && location.place?.lat == null) allAddresses.add(location.address);
       });
+    });
 
-      const addressArray = Array.from(allAddresses);
-      const locationData: LocationData[] = [];
-      let processed = 0;
+    if (allAddresses.size === 0) {
+      setLoading(false);
+      return;
+    }
 
-      // Geocode addresses with progress tracking
-      for (const address of addressArray) {
-        if (locationCache.has(address)) {
-          processed++;
-          setGeocodingProgress((processed / addressArray.length) * 100);
-          continue;
-        }
+    let cancelled = false;
+    setGeocodingProgress(0);
+    geocodeAddresses(Array.from(allAddresses), progress => {
+      if (!cancelled) setGeocodingProgress(progress * 100);
+    })
+      .then(result => {
+        if (cancelled) return;
+        setPositions(result);
+        setGeocodingError('');
+      })
+      .catch(error => {
+        console.error('Geocoding error:', error);
+        if (!cancelled) setGeocodingError(error instanceof Error ? error.message : 'Could not locate the addresses');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
 
-        try {
-          // Add delay to respect rate limits
-          if (processed > 0) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-
-          const coordinates = await geocodeAddress(address);
-          locationCache.set(address, coordinates);
-          processed++;
-          setGeocodingProgress((processed / addressArray.length) * 100);
-        } catch (error) {
-          console.error(`Failed to geocode ${address}:`, error);
-          locationCache.set(address, null);
-          processed++;
-          setGeocodingProgress((processed / addressArray.length) * 100);
-        }
+    return () => {
+      cancelled = true;
+    };
+  }, [projects, locationOf]);
+
+  const heatmapData = useMemo(() => {
+    const locationData: LocationData[] = [];
+
+    // Coordinates of a location: the place's own, or the geocoded ones
+    const positionFor = (location: MapLocation) => {
+      const { place } = location;
+      if (place && place.lat != null && place.lng != null) {
+        return { coordinates: [place.lat, place.lng] as [number, number], source: 'manual' as const };
       }
+      const position = positionOf(positions, location.address);
+      return position && {
+        coordinates: [position.lat, position.lng] as [number, number],
+        source: positions.get(normaliseAddress(location.address))!.source,
+      };
+    };
 
-      // Process pickup locations
-      const pickupFrequency = new Map<string, { count: number, revenue: number }>();
-      projects.forEach(project => {
-        if (project.pickupLocation) {
-          const current = pickupFrequency.get(project.pickupLocation) || { count: 0, revenue: 0 };
-          pickupFrequency.set(project.pickupLocation, {
-            count: current.count + 1,
-            revenue: current.revenue + project.price
-          });
-        }
-      });
+    const countTrips = (address: string | undefined, price: number, counts: Map<string, { location: MapLocation, count: number, revenue: number }>) => {
+      if (!address) return;
+      const location = locationOf(address);
+      const current = counts.get(location.label) || { location, count: 0, revenue: 0 };
+      counts.set(location.label, { location, count: current.count + 1, revenue: current.revenue + price });
+    };
 
-      pickupFrequency.forEach((data, address) => {
-        const coordinates = locationCache.get(address);
-        if (coordinates) {
-          locationData.push({
-            address,
-            coordinates,
-            frequency: data.count,
-            totalRevenue: data.revenue,
-            type: 'pickup'
-          });
-        }
-      });
+    // Process pickup locations
+    const pickupFrequency = new Map<string, { location: MapLocation, count: number, revenue: number }>();
+    projects.forEach(project => countTrips(project.pickupLocation, project.price, pickupFrequency));
+
+    pickupFrequency.forEach(({ location, count, revenue }) => {
+      const position = positionFor(location);
+      if (position) {
+        locationData.push({
+          ...location,
+          ...position,
+          frequency: count,
+          totalRevenue: revenue,
+          type: 'pickup'
+        });
+      }
+    });
 
-      // Process dropoff locations
-      const dropoffFrequency = new Map<string, { count: number, revenue: number }>();
-      projects.forEach(project => {
-        if (project.dropoffLocation) {
-          const current = dropoffFrequency.get(project.dropoffLocation) || { count: 0, revenue: 0 };
-          dropoffFrequency.set(project.dropoffLocation, {
-            count: current.count + 1,
-            revenue: current.revenue + project.price
-          });
-        }
-      });
+    // Process dropoff locations
+    const dropoffFrequency = new Map<string, { location: MapLocation, count: number, revenue: number }>();
+    projects.forEach(project => countTrips(project.dropoffLocation, project.price, dropoffFrequency));
+
+    dropoffFrequency.forEach(({ location, count, revenue }) => {
+      const position = positionFor(location);
+      if (position) {
+        locationData.push({
+          ...location,
+          ...position,
+          frequency: count,
+          totalRevenue: revenue,
+          type: 'dropoff'
+        });
+      }
+    });
 
-      dropoffFrequency.forEach((data, address) => {
-        const coordinates = locationCache.get(address);
-        if (coordinates) {
-          locationData.push({
-            address,
-            coordinates,
-            frequency: data.count,
-            totalRevenue: data.revenue,
-            type: 'dropoff'
-          });
-        }
+    return locationData;
+  }, [projects, positions, locationOf]);
+
+  // Locations the geocoder could not find, for an operator to pin by hand
+  const unlocated = useMemo(() => {
+    const locations = new Map<string, MapLocation>();
+    projects.forEach(project => {
+      [project.pickupLocation, project.dropoffLocation].forEach(address => {
+        if (!address) return;
+        const location = locationOf(address);
+        const position = positions.get(normaliseAddress(location.address));
+        if (location.place?.lat == null && position && position.lat == null) locations.set(location.label, location);
       });
+    });
+    return Array.from(locations.values());
+  }, [projects, positions, locationOf]);
 
-      // Set map center to the most frequent location or a default
-      if (locationData.length > 0) {
-        const mostFrequent = locationData.reduce((prev, current) => 
-          prev.frequency > current.frequency ? prev : current
-        );
-        setMapCenter(mostFrequent.coordinates);
-      }
+  // Centre on the most frequent location, NYC when there is none
+  const mapCenter = useMemo<LatLngExpression>(() => {
+    if (heatmapData.length === 0) return [40.7128, -74.0060];
+    return heatmapData.reduce((prev, current) => prev.frequency > current.frequency ? prev : current).coordinates;
+  }, [heatmapData]);
 
-      setHeatmapData(locationData);
-      setLoading(false);
-    };
+  // A saved place keeps its own coordinates; any other address is pinned in
+  // the geocoding cache
+  const handlePin = async (location: MapLocation, position: LatLng) => {
+    try {
+      if (location.place) {
+        await updatePlace(location.place.id, position);
+      } else {
+        const pinned = await pinAddress(location.address, position);
+        setPositions(prev => new Map(prev).set(pinned.addressKey, pinned));
+      }
+      setPinning(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not save the position');
+    }
+  };
 
-    if (projects.length > 0) {
-      processLocationData();
-    } else {
-      setLoading(false);
+  // Drops a manual pin and asks the geocoder again
+  const handleResetPin = async (location: MapLocation) => {
+    if (location.place) {
+      await updatePlace(location.place.id, { lat: null, lng: null });
+      return;
     }
-  }, [projects]);
+    const position = positions.get(normaliseAddress(location.address));
+    if (!position) return;
+    try {
+      await forgetAddress(position.id);
+      const fresh = await geocodeAddresses([location.address]);
+      setPositions(prev => {
+        const next = new Map(prev);
+        next.delete(position.addressKey);
+        fresh.forEach((value, key) => next.set(key, value));
+        return next;
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not reset the position');
+    }
+  };
 
   // Calculate top locations
   const topLocations = useMemo(() => {
     const locationMap = new Map<string, TopLocation>();
 
     heatmapData.forEach(item => {
-      const key = `${item.address}-${item.type}`;
+      const key = `${item.label}-${item.type}`;
       locationMap.set(key, {
-        address: item.address,
+        address: item.label,
         frequency: item.frequency,
         revenue: item.totalRevenue,
         type: item.type
@@ -340,7 +383,7 @@ export default function LocationAnalytics() {
     const dropoffStats = heatmapData.filter(item => item.type === 'dropoff');
 
     return {
-      totalLocations: new Set([...pickupStats.map(p => p.address), ...dropoffStats.map(d => d.address)]).size,
+      totalLocations: new Set([...pickupStats.map(p => p.label), ...dropoffStats.map(d => d.label)]).size,
       mostPopularPickup: pickupStats.reduce((prev, current) => prev.frequency > current.frequency ? prev : current, pickupStats[0]),
       mostPopularDropoff: dropoffStats.reduce((prev, current) => prev.frequency > current.frequency ? prev : current, dropoffStats[0]),
       totalTrips: pickupStats.reduce((sum, item) => sum + item.frequency, 0)
@@ -378,6 +421,12 @@ export default function LocationAnalytics() {
 
   return (
     <div className="space-y-6">
+      {geocodingError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          Could not locate the addresses: {geocodingError}
+        </div>
+      )}
+
       {/* Summary Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-lg shadow-sm p-4">
@@ -405,7 +454,7 @@ export default function LocationAnalytics() {
             <div>
               <p className="text-sm text-gray-500 mb-1">Top Pickup</p>
               <p className="text-sm font-medium text-gray-900 truncate">
-                {stats.mostPopularPickup?.address.split(',')[0] || 'N/A'}
+                {stats.mostPopularPickup?.label.split(',')[0] || 'N/A'}
               </p>
               <p className="text-xs text-gray-500">
                 {stats.mostPopularPickup?.frequency || 0} trips
@@ -420,7 +469,7 @@ export default function LocationAnalytics() {
             <div>
               <p className="text-sm text-gray-500 mb-1">Top Dropoff</p>
               <p className="text-sm font-medium text-gray-900 truncate">
-                {stats.mostPopularDropoff?.address.split(',')[0] || 'N/A'}
+                {stats.mostPopularDropoff?.label.split(',')[0] || 'N/A'}
               </p>
               <p className="text-xs text-gray-500">
                 {stats.mostPopularDropoff?.frequency || 0} trips
@@ -462,10 +511,25 @@ export default function LocationAnalytics() {
                 </label>
               </div>
             </div>
+            {pinning && (
+              <div className="mt-3 flex items-center justify-between text-sm text-gray-700">
+                <span className="flex items-center min-w-0">
+                  <Crosshair className="w-4 h-4 mr-2 text-green-600 flex-shrink-0" />
+                  <span className="truncate">Click the map where "{pinning.label}" is</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPinning(null)}
+                  className="ml-2 text-gray-500 hover:text-gray-700"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
           </div>
           
           <div className="h-96">
-            {heatmapData.length > 0 ? (
+            {heatmapData.length > 0 || pinning ? (
               <MapContainer
                 center={mapCenter}
                 zoom={11}
@@ -481,23 +545,45 @@ export default function LocationAnalytics() {
                   showPickups={showPickups}
                   showDropoffs={showDropoffs}
                 />
+                {pinning && <PinOnClick onPick={(position) => handlePin(pinning, position)} />}
                 
                 {/* Show markers for top locations */}
                 {topLocations.slice(0, 10).map((location, index) => {
                   const locationData = heatmapData.find(item => 
-                    item.address === location.address && item.type === location.type
+                    item.label === location.address && item.type === location.type
                   );
                   
                   return locationData ? (
                     <Marker
                       key={`${location.address}-${location.type}-${index}`}
                       position={locationData.coordinates}
+                      draggable
+                      eventHandlers={{
+                        dragend: (event) => {
+                          const { lat, lng } = event.target.getLatLng();
+                          handlePin(locationData, { lat, lng });
+                        },
+                      }}
                     >
                       <Popup>
                         <div className="text-sm">
                           <p className="font-semibold">{location.address}</p>
                           <p className="text-gray-600">{location.frequency} {location.type}s</p>
                           <p className="text-green-600 font-medium">€{location.revenue.toFixed(2)}</p>
+                          {locationData.source === 'manual' ? (
+                            <p className="text-xs text-gray-500">
+                              Pinned by hand ·{' '}
+                              <button
+                                type="button"
+                                onClick={() => handleResetPin(locationData)}
+                                className="text-green-600 hover:text-green-800"
+                              >
+                                reset
+                              </button>
+                            </p>
+                          ) : (
+                            <p className="text-xs text-gray-500">Drag the marker to correct its position</p>
+                          )}
                         </div>
                       </Popup>
                     </Marker>
@@ -532,6 +618,27 @@ export default function LocationAnalytics() {
               <p className="text-sm text-gray-400">Complete some projects to see popular locations</p>
             </div>
           )}
+
+          {unlocated.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Not on the map ({unlocated.length})</h3>
+              <ul className="space-y-1">
+                {unlocated.map(location => (
+                  <li key={location.label} className="flex items-center justify-between text-sm">
+                    <span className="truncate text-gray-600">{location.label}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPinning(location)}
+                      className="ml-2 flex items-center text-xs text-green-600 hover:text-green-800 flex-shrink-0"
+                    >
+                      <Crosshair className="w-3 h-3 mr-1" />
+                      Pin
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Car, Settings, Building2, Users, LogIn, UserPlus, BarChart2, Menu, X, Bell, DollarSign, FileText, Truck } from 'lucide-react';
+import { Car, Settings, Building2, Users, LogIn, UserPlus, BarChart2, CalendarDays, Menu, X, Bell, DollarSign, FileText, Truck, Calculator, MapPin, KeyRound, Webhook, Mail, Archive, Contact, MessageSquare } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
 import Modal from './Modal';
 import LoginForm from './auth/LoginForm';
 import SignUpForm from './auth/SignUpForm';
@@ -13,6 +14,7 @@ export default function Navbar() {
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showSignUpModal, setShowSignUpModal] = useState(false);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
   const { currentUser, logout } = useAuth();
   const mobileMenuRef = useRef(null);
   const menuButtonRef = useRef(null);
@@ -30,6 +32,24 @@ export default function Navbar() {
     setShowSettings(false);
   }, [location.pathname]);
 
+  // Unread in-app notifications, refreshed on navigation and every minute
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchUnread = async () => {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('channel', 'in_app')
+        .is('read_at', null);
+      if (!error) setUnreadNotifications(count ?? 0);
+    };
+
+    fetchUnread();
+    const interval = setInterval(fetchUnread, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [currentUser, location.pathname]);
+
   const handleLogout = async (e) => {
     e.preventDefault();
     try {
@@ -107,6 +127,13 @@ export default function Navbar() {
                     <BarChart2 className="w-4 h-4 mr-2" />
                     Statistics
                   </Link>
+                  <Link 
+                    to="/schedule" 
+                    className="px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-all duration-200 flex items-center"
+                  >
+                    <CalendarDays className="w-4 h-4 mr-2" />
+                    Schedule
+                  </Link>
                   <Link 
                     to="/financial-report" 
                     className="px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-all duration-200 flex items-center"
@@ -147,10 +174,15 @@ export default function Navbar() {
                   
                   <Link 
                     to="/settings/notifications" 
-                    className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg transition-all duration-200"
+                    className="relative p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg transition-all duration-200"
                     title="Notifications"
                   >
                     <Bell className="w-5 h-5" />
+                    {unreadNotifications > 0 && (
+                      <span className="absolute top-0 right-0 min-w-[1.1rem] px-1 text-[10px] leading-4 text-center text-white bg-red-500 rounded-full">
+                        {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                      </span>
+                    )}
                   </Link>
                   
                   <button
@@ -269,6 +301,13 @@ export default function Navbar() {
                   >
                     Statistics
                   </Link>
+                  <Link 
+                    to="/schedule"
+                    className="block px-3 py-3 text-base text-gray-700 rounded-md"
+                    onClick={() => setShowMobileMenu(false)}
+                  >
+                    Driver Schedule
+                  </Link>
                   <Link 
                     to="/financial-report"
                     className="block px-3 py-3 text-base text-gray-700 rounded-md"
@@ -408,6 +447,60 @@ export default function Navbar() {
                 <span>Car Types</span>
               </Link>
               
+              <Link
+                to="/settings/vehicles"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Truck className="w-5 h-5 text-green-500 mr-3" />
+                <span>Vehicles</span>
+              </Link>
+              
+              <Link
+                to="/settings/tariffs"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Calculator className="w-5 h-5 text-green-500 mr-3" />
+                <span>Tariffs</span>
+              </Link>
+              
+              <Link
+                to="/settings/places"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <MapPin className="w-5 h-5 text-green-500 mr-3" />
+                <span>Places</span>
+              </Link>
+              
+              <Link
+                to="/settings/customers"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Contact className="w-5 h-5 text-green-500 mr-3" />
+                <span>Customers</span>
+              </Link>
+              
+              <Link
+                to="/settings/messages"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <MessageSquare className="w-5 h-5 text-green-500 mr-3" />
+                <span>Passenger Messages</span>
+              </Link>
+              
+              <Link
+                to="/settings/notifications"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Bell className="w-5 h-5 text-green-500 mr-3" />
+                <span>Notifications</span>
+              </Link>
+              
               <Link
                 to="/settings/drivers"
                 className="flex items-center p-3 rounded-md hover:bg-gray-50"
@@ -426,6 +519,42 @@ export default function Navbar() {
                 <span>Payments</span>
               </Link>
               
+              <Link
+                to="/settings/api-keys"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <KeyRound className="w-5 h-5 text-green-500 mr-3" />
+                <span>API Keys</span>
+              </Link>
+              
+              <Link
+                to="/settings/webhooks"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Webhook className="w-5 h-5 text-green-500 mr-3" />
+                <span>Webhooks</span>
+              </Link>
+              
+              <Link
+                to="/settings/email-templates"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Mail className="w-5 h-5 text-green-500 mr-3" />
+                <span>Email Templates</span>
+              </Link>
+              
+              <Link
+                to="/settings/backup"
+                className="flex items-center p-3 rounded-md hover:bg-gray-50"
+                onClick={() => setShowSettings(false)}
+              >
+                <Archive className="w-5 h-5 text-green-500 mr-3" />
+                <span>Backup & Restore</span>
+              </Link>
+              
               <div className="pt-4 border-t border-gray-100">
                 <button
                   onClick={() => {
@@ -1,11 +1,26 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, FileSpreadsheet, Mail } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
+import { formatRRule } from '@shared/recurrence';
+import type { Quote } from '@shared/tariffs';
+import RepeatSettings, { buildRepeatRule, defaultRepeatOptions } from './RepeatSettings';
+import ItineraryLegs from './ItineraryLegs';
+import DriverSuggestions from './DriverSuggestions';
+import PriceQuote from './PriceQuote';
+import PlaceInput from './PlaceInput';
+import CustomerLookup from './CustomerLookup';
+import DriverConflictWarning, { conflictMessages, projectConflicts } from './DriverConflictWarning';
+import CapacityCheck, { carTypeLabel, carTypeProblems } from './CapacityCheck';
+import { assignVehicle, vehicleLabel, vehicleSeatProblem } from '../lib/vehicles';
+import { availabilityWarning, driverAvailabilityAt } from '../lib/driverAvailability';
+import { describeRoute, useTripRoute } from '../lib/routing';
+import { findCustomer } from '../lib/customers';
+import type { LegDraft } from '../lib/itineraries';
 
 export default function NewProject() {
   const navigate = useNavigate();
-  const { companies, drivers, carTypes, addProject } = useData();
+  const { projects, companies, customers, drivers, carTypes, vehicles, driverAvailability, addProject, addProjectSeries, addItinerary } = useData();
   const [formData, setFormData] = useState({
     company: '',
     description: '',
@@ -13,17 +28,61 @@ export default function NewProject() {
     date: '',
     time: '',
     passengers: 1,
+    luggage: 0,
     pickupLocation: '',
     dropoffLocation: '',
     carType: '',
+    vehicle: '',
     price: 0,
     driverFee: 0, // Change to number instead of string
+    priceOverridden: false,
+    distanceKm: null as number | null,
+    durationMinutes: null as number | null,
     clientName: '',
     clientPhone: '',
-    paymentStatus: 'charge'
+    paymentStatus: 'charge' as 'paid' | 'charge'
   });
   const [dateTimeError, setDateTimeError] = useState('');
   const [showVoucherAfterSave, setShowVoucherAfterSave] = useState(false);
+  const [repeatOptions, setRepeatOptions] = useState(defaultRepeatOptions);
+  // further legs of an itinerary; the form above is the first leg
+  const [legs, setLegs] = useState<LegDraft[]>([]);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
+
+  const applyQuote = useCallback((quote: Quote) => {
+    setFormData(prev => ({ ...prev, price: quote.price, driverFee: quote.driverFee }));
+  }, []);
+
+  const applyRoute = useCallback((route: { distanceKm?: number | null; durationMinutes?: number | null } | null) => {
+    setFormData(prev => ({ ...prev, ...route }));
+  }, []);
+  useTripRoute(formData, applyRoute);
+
+  // Double bookings, offline drivers and drivers off or outside their shift,
+  // for the trip and each further leg
+  const driverConflicts = useMemo(() => {
+    const trips = [
+      { ...formData, id: 'new-1' },
+      ...legs.map((leg, index) => ({ ...formData, ...leg, id: `new-${index + 2}` })),
+    ];
+    return trips.flatMap((trip, index) =>
+      [
+        ...conflictMessages(projectConflicts(trip, projects, drivers, trips), drivers),
+        availabilityWarning(trip, driverAvailability, drivers),
+      ]
+        .filter((message): message is string => !!message)
+        .map(message => (trips.length > 1 ? `Leg ${index + 1}: ${message}` : message))
+    );
+  }, [formData, legs, projects, drivers, driverAvailability]);
+
+  // Only drivers working at the trip's date and time are offered
+  const isDriverAvailable = (driverId: string, date: string, time: string) =>
+    driverAvailabilityAt(driverId, driverAvailability, date, time).available;
+
+  // a new conflict needs a new decision
+  useEffect(() => {
+    setOverrideConflicts(false);
+  }, [driverConflicts.join('\n')]);
 
   // Function to validate if date and time are in the future
   const isDateTimeValid = () => {
@@ -50,6 +109,38 @@ export default function NewProject() {
       return;
     }
     
+    let repeatRule;
+    try {
+      repeatRule = buildRepeatRule(repeatOptions, formData.date);
+    } catch (error) {
+      setDateTimeError(error instanceof Error ? error.message : 'Invalid repeat schedule');
+      return;
+    }
+
+    const capacityProblems = [
+      ...carTypeProblems(formData, formData.carType, carTypes),
+      vehicleSeatProblem(formData.passengers, formData.vehicle, vehicles),
+    ].filter((problem): problem is string => !!problem);
+    if (capacityProblems.length > 0) {
+      setDateTimeError(`The trip does not fit the selected car type or vehicle: ${capacityProblems.join('; ')}`);
+      return;
+    }
+
+    if (driverConflicts.length > 0 && !overrideConflicts) {
+      setDateTimeError('The driver has a conflicting assignment. Tick "Assign anyway" to save regardless.');
+      return;
+    }
+
+    if (repeatRule && legs.length > 0) {
+      setDateTimeError('A recurring trip cannot have further legs');
+      return;
+    }
+    const invalidLeg = legs.findIndex(leg => !leg.date || !leg.time || new Date(`${leg.date}T${leg.time}`) <= new Date());
+    if (invalidLeg !== -1) {
+      setDateTimeError(`Leg ${invalidLeg + 2} needs a date and time in the future`);
+      return;
+    }
+
     // Clear any previous errors
     setDateTimeError('');
     
@@ -60,7 +151,16 @@ export default function NewProject() {
         driverFee: formData.driverFee > 0 ? formData.driverFee : null
       };
       
-      await addProject(projectData);
+      if (repeatRule) {
+        await addProjectSeries(projectData, formatRRule(repeatRule));
+      } else if (legs.length > 0) {
+        await addItinerary([
+          projectData,
+          ...legs.map(leg => ({ ...projectData, ...leg, driverFee: null, distanceKm: null, durationMinutes: null })),
+        ]);
+      } else {
+        await addProject(projectData);
+      }
       // If the user wants to generate a voucher after saving, navigate to the dashboard first
       // and then the flow will continue to the voucher page
       navigate('/dashboard');
@@ -81,7 +181,27 @@ export default function NewProject() {
         </button>
 
         <div className="bg-white rounded-lg shadow p-4 sm:p-6">
-          <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6">Create New Transportation Project</h2>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4 sm:mb-6">
+            <h2 className="text-xl sm:text-2xl font-bold">Create New Transportation Project</h2>
+            <div className="flex items-center space-x-4">
+              <button
+                type="button"
+                onClick={() => navigate('/new-project/from-email')}
+                className="flex items-center text-sm text-green-600 hover:text-green-800"
+              >
+                <Mail className="w-4 h-4 mr-1" />
+                From email
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate('/new-project/import')}
+                className="flex items-center text-sm text-green-600 hover:text-green-800"
+              >
+                <FileSpreadsheet className="w-4 h-4 mr-1" />
+                Import spreadsheet
+              </button>
+            </div>
+          </div>
           
           {dateTimeError && (
             <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm">
@@ -120,13 +240,24 @@ export default function NewProject() {
                 >
                   <option value="">Select Driver</option>
                   {drivers
-                    .filter(driver => driver.status === 'available')
+                    .filter(driver =>
+                      (driver.status === 'available' && isDriverAvailable(driver.id, formData.date, formData.time)) ||
+                      driver.id === formData.driver
+                    )
                     .map((driver) => (
                       <option key={driver.id} value={driver.id}>
                         {driver.name}
                       </option>
                     ))}
                 </select>
+                {!formData.driver && (
+                  <div className="mt-1">
+                    <DriverSuggestions
+                      trip={formData}
+                      onSelect={(driverId) => setFormData({...formData, driver: driverId})}
+                    />
+                  </div>
+                )}
               </div>
 
               <div>
@@ -161,17 +292,31 @@ export default function NewProject() {
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Number of Passengers
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  value={formData.passengers}
-                  onChange={(e) => setFormData({...formData, passengers: parseInt(e.target.value)})}
-                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Number of Passengers
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.passengers}
+                    onChange={(e) => setFormData({...formData, passengers: parseInt(e.target.value)})}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Luggage
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.luggage}
+                    onChange={(e) => setFormData({...formData, luggage: parseInt(e.target.value) || 0})}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                </div>
               </div>
 
               <div>
@@ -186,13 +331,47 @@ export default function NewProject() {
                   <option value="">Select Car Type</option>
                   {carTypes.map((carType) => (
                     <option key={carType.id} value={carType.id}>
-                      {carType.name} ({carType.capacity} passengers)
+                      {carTypeLabel(carType)}
                     </option>
                   ))}
                 </select>
               </div>
+
+              {vehicles.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Vehicle
+                  </label>
+                  <select
+                    value={formData.vehicle}
+                    onChange={(e) => setFormData(assignVehicle(formData, e.target.value, vehicles))}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                  >
+                    <option value="">No vehicle assigned</option>
+                    {vehicles.map((vehicle) => (
+                      <option key={vehicle.id} value={vehicle.id}>
+                        {vehicleLabel(vehicle)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
+            <CapacityCheck
+              passengers={formData.passengers}
+              luggage={formData.luggage}
+              carTypeId={formData.carType}
+              carTypes={carTypes}
+              onSelectCarType={(carType) => setFormData({...formData, carType})}
+            />
+
+            <DriverConflictWarning
+              messages={driverConflicts}
+              override={overrideConflicts}
+              onOverrideChange={setOverrideConflicts}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Project Description
@@ -210,10 +389,9 @@ export default function NewProject() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Pick-up Location
                 </label>
-                <input
-                  type="text"
+                <PlaceInput
                   value={formData.pickupLocation}
-                  onChange={(e) => setFormData({...formData, pickupLocation: e.target.value})}
+                  onChange={(pickupLocation) => setFormData({...formData, pickupLocation, distanceKm: null, durationMinutes: null})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                 />
               </div>
@@ -222,12 +400,24 @@ export default function NewProject() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Drop-off Location
                 </label>
-                <input
-                  type="text"
+                <PlaceInput
                   value={formData.dropoffLocation}
-                  onChange={(e) => setFormData({...formData, dropoffLocation: e.target.value})}
+                  onChange={(dropoffLocation) => setFormData({...formData, dropoffLocation, distanceKm: null, durationMinutes: null})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                 />
+                {describeRoute(formData) && (
+                  <p className="mt-1 text-xs text-gray-500">{describeRoute(formData)}</p>
+                )}
+              </div>
+
+              <div className="sm:col-span-2">
+                <PriceQuote
+                  trip={formData}
+                  overridden={formData.priceOverridden}
+                  onApply={applyQuote}
+                  onUseTariff={() => setFormData(prev => ({ ...prev, priceOverridden: false }))}
+                  onRouteChange={applyRoute}
+                />
               </div>
 
               <div>
@@ -242,7 +432,7 @@ export default function NewProject() {
                   min="0"
                   step="0.01"
                   value={formData.price}
-                  onChange={(e) => setFormData({...formData, price: parseFloat(e.target.value)})}
+                  onChange={(e) => setFormData({...formData, price: parseFloat(e.target.value), priceOverridden: true})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                 />
               </div>
@@ -259,7 +449,7 @@ export default function NewProject() {
                   min="0"
                   step="0.01"
                   value={formData.driverFee}
-                  onChange={(e) => setFormData({...formData, driverFee: parseFloat(e.target.value) || 0})}
+                  onChange={(e) => setFormData({...formData, driverFee: parseFloat(e.target.value) || 0, priceOverridden: true})}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                   placeholder="0.00"
                 />
@@ -298,9 +488,18 @@ export default function NewProject() {
                 <input
                   type="tel"
                   value={formData.clientPhone}
-                  onChange={(e) => setFormData({...formData, clientPhone: e.target.value})}
+                  onChange={(e) => {
+                    // a returning customer's name is filled in for an empty name
+                    const customer = findCustomer(customers, { phone: e.target.value });
+                    setFormData({...formData, clientPhone: e.target.value, clientName: formData.clientName || customer?.name || ''});
+                  }}
                   className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
                 />
+                <CustomerLookup
+                  phone={formData.clientPhone}
+                  clientName={formData.clientName}
+                  onUseName={(clientName) => setFormData({...formData, clientName})}
+                />
               </div>
             </div>
 
@@ -315,6 +514,30 @@ export default function NewProject() {
               </div>
             </div>
 
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Itinerary</h3>
+                {legs.length > 0 && (
+                  <span className="text-sm text-gray-600">
+                    {legs.length + 1} legs · total €{(formData.price + legs.reduce((sum, leg) => sum + leg.price, 0)).toFixed(2)}
+                  </span>
+                )}
+              </div>
+              <ItineraryLegs
+                legs={legs}
+                onChange={setLegs}
+                firstLeg={formData}
+                drivers={drivers}
+                isDriverAvailable={isDriverAvailable}
+              />
+            </div>
+
+            <RepeatSettings
+              value={repeatOptions}
+              onChange={setRepeatOptions}
+              startDate={formData.date}
+            />
+
             <div className="flex items-center mb-4">
               <input
                 type="checkbox"
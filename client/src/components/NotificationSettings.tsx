@@ -1,18 +1,357 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { CheckCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENT_LABELS,
+  notificationChannels,
+  notificationEvents,
+  notificationText,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationStatus,
+} from '@shared/notifications';
 import SettingsLayout from './settings/SettingsLayout';
 
-// Empty settings page as notifications are removed
+interface NotificationPreferences {
+  channels: Partial<Record<NotificationEvent, NotificationChannel[]>>;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string | null;
+  email: string | null;
+  push_topic: string | null;
+}
+
+interface NotificationRow {
+  id: string;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  status: NotificationStatus;
+  last_error: string | null;
+  read_at: string | null;
+  created_at: string;
+  projects: {
+    client_name: string;
+    date: string;
+    time: string;
+    pickup_location: string;
+    dropoff_location: string;
+    drivers: { name: string } | null;
+  } | null;
+  payments: { amount: number; date: string; drivers: { name: string } | null } | null;
+}
+
+const NOTIFICATION_STATUS_STYLES: Record<NotificationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-700',
+};
+
+// The zone quiet hours are kept in: the browser's, when the page is saved
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function describe(notification: NotificationRow) {
+  const { projects: trip, payments: payment } = notification;
+  return notificationText(notification.event, payment
+    ? { amount: Number(payment.amount), date: payment.date, driverName: payment.drivers?.name }
+    : {
+        clientName: trip?.client_name,
+        date: trip?.date,
+        time: trip?.time,
+        pickupLocation: trip?.pickup_location,
+        dropoffLocation: trip?.dropoff_location,
+        driverName: trip?.drivers?.name,
+      });
+}
+
 export default function NotificationSettings() {
+  const { currentUser } = useAuth();
+  const [channels, setChannels] = useState<Record<NotificationEvent, NotificationChannel[]>>(DEFAULT_NOTIFICATION_CHANNELS);
+  const [quietHours, setQuietHours] = useState({ enabled: false, start: '22:00', end: '07:00' });
+  const [email, setEmail] = useState('');
+  const [pushTopic, setPushTopic] = useState('');
+  const [notifications, setNotifications] = useState<NotificationRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('channels, quiet_hours_start, quiet_hours_end, time_zone, email, push_topic')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      return;
+    }
+
+    const preferences = data as NotificationPreferences | null;
+    if (!preferences) {
+      setEmail(currentUser?.email ?? '');
+      return;
+    }
+    setChannels(Object.fromEntries(
+      notificationEvents.map(event => [event, preferences.channels[event] ?? []])
+    ) as Record<NotificationEvent, NotificationChannel[]>);
+    setQuietHours({
+      enabled: !!preferences.quiet_hours_start && !!preferences.quiet_hours_end,
+      start: preferences.quiet_hours_start?.slice(0, 5) ?? '22:00',
+      end: preferences.quiet_hours_end?.slice(0, 5) ?? '07:00',
+    });
+    setEmail(preferences.email ?? '');
+    setPushTopic(preferences.push_topic ?? '');
+  };
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(`
+        id, event, channel, status, last_error, read_at, created_at,
+        projects(client_name, date, time, pickup_location, dropoff_location, drivers(name)),
+        payments(amount, date, drivers(name))
+      `)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications((data || []) as unknown as NotificationRow[]);
+  };
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchPreferences();
+      fetchNotifications();
+    }
+  }, [currentUser]);
+
+  const toggleChannel = (event: NotificationEvent, channel: NotificationChannel) => {
+    const chosen = channels[event];
+    setChannels({
+      ...channels,
+      [event]: chosen.includes(channel) ? chosen.filter(c => c !== channel) : [...chosen, channel],
+    });
+    setSaved(false);
+  };
+
+  const uses = (channel: NotificationChannel) => notificationEvents.some(event => channels[event].includes(channel));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (uses('email') && !email.trim()) {
+      setError('Enter the email address email notifications go to');
+      return;
+    }
+    if (uses('push') && !pushTopic.trim()) {
+      setError('Enter the topic push notifications go to');
+      return;
+    }
+    if (quietHours.enabled && quietHours.start === quietHours.end) {
+      setError('Quiet hours must start and end at different times');
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert([{
+        user_id: currentUser?.id,
+        channels,
+        quiet_hours_start: quietHours.enabled ? quietHours.start : null,
+        quiet_hours_end: quietHours.enabled ? quietHours.end : null,
+        time_zone: browserTimeZone,
+        email: email.trim() || null,
+        push_topic: pushTopic.trim() || null,
+        updated_at: new Date().toISOString(),
+      }], { onConflict: 'user_id' });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving notification preferences:', error);
+      setError('Failed to save the notification settings. Please try again.');
+      return;
+    }
+    setSaved(true);
+  };
+
+  const handleMarkRead = async () => {
+    const { error } = await supabase.rpc('mark_notifications_read');
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+    await fetchNotifications();
+  };
+
+  const unread = notifications.filter(n => n.channel === 'in_app' && !n.read_at).length;
+
   return (
     <SettingsLayout title="Notification Settings">
-      <div className="p-4 sm:p-6">
-        <div className="bg-yellow-50 rounded-lg p-4 border border-yellow-200">
-          <h3 className="text-lg font-medium text-yellow-800 mb-2">Notifications Disabled</h3>
-          <p className="text-sm text-yellow-700">
-            Notifications have been disabled in this version of the application.
-          </p>
+      <form onSubmit={handleSave} className="space-y-6 mb-8">
+        {error && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-lg">{error}</div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Event
+                </th>
+                {notificationChannels.map((channel) => (
+                  <th key={channel} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {notificationEvents.map((event) => (
+                <tr key={event}>
+                  <td className="px-6 py-4 text-sm text-gray-900">{NOTIFICATION_EVENT_LABELS[event]}</td>
+                  {notificationChannels.map((channel) => (
+                    <td key={channel} className="px-6 py-4 text-center">
+                      <input
+                        type="checkbox"
+                        checked={channels[event].includes(channel)}
+                        onChange={() => toggleChannel(event, channel)}
+                        aria-label={`${NOTIFICATION_EVENT_LABELS[event]} by ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                        className="rounded text-green-500 focus:ring-green-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
+
+        <div className="bg-white rounded-lg shadow p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Email notifications go to
+            </label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => { setEmail(e.target.value); setSaved(false); }}
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Push topic
+            </label>
+            <input
+              type="text"
+              value={pushTopic}
+              onChange={(e) => { setPushTopic(e.target.value); setSaved(false); }}
+              placeholder="Subscribe to it in the ntfy app"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={quietHours.enabled}
+                onChange={(e) => { setQuietHours({ ...quietHours, enabled: e.target.checked }); setSaved(false); }}
+                className="mr-2 rounded text-green-500 focus:ring-green-500"
+              />
+              Quiet hours
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Email and push notifications raised during quiet hours are sent when they end ({browserTimeZone} time).
+              In-app notifications are listed straight away.
+            </p>
+            {quietHours.enabled && (
+              <div className="flex items-center space-x-2 mt-3">
+                <input
+                  type="time"
+                  value={quietHours.start}
+                  onChange={(e) => { setQuietHours({ ...quietHours, start: e.target.value }); setSaved(false); }}
+                  className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  required
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="time"
+                  value={quietHours.end}
+                  onChange={(e) => { setQuietHours({ ...quietHours, end: e.target.value }); setSaved(false); }}
+                  className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  required
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save Settings'}
+          </button>
+        </div>
+      </form>
+
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Recent Notifications</h3>
+        {unread > 0 && (
+          <button
+            type="button"
+            onClick={handleMarkRead}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <CheckCheck className="w-4 h-4 mr-1" />
+            Mark all as read
+          </button>
+        )}
+      </div>
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <ul className="divide-y divide-gray-200">
+          {notifications.length === 0 ? (
+            <li className="px-6 py-8 text-center text-sm text-gray-500">No notifications yet</li>
+          ) : (
+            notifications.map((notification) => {
+              const { title, body } = describe(notification);
+              const isUnread = notification.channel === 'in_app' && !notification.read_at;
+              return (
+                <li key={notification.id} className={`flex items-start px-6 py-4 ${isUnread ? 'bg-green-50' : ''}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{title}</div>
+                    <div className="text-sm text-gray-500">{body}</div>
+                    <div className="text-xs text-gray-400">
+                      {NOTIFICATION_CHANNEL_LABELS[notification.channel]} · {new Date(notification.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  {notification.channel !== 'in_app' && (
+                    <div className="ml-4 text-right">
+                      <span className={`px-2 py-1 text-xs rounded-full ${NOTIFICATION_STATUS_STYLES[notification.status]}`}>
+                        {notification.status}
+                      </span>
+                      {notification.last_error && (
+                        <div className="mt-1 text-xs text-red-600">{notification.last_error}</div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })
+          )}
+        </ul>
       </div>
     </SettingsLayout>
   );
-}
\ No newline at end of file
+}
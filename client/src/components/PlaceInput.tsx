@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { placeFor, searchPlaces } from '../lib/places';
+
+interface PlaceInputProps {
+  value: string;
+  onChange: (address: string) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+  wrapperClassName?: string;
+  // shows the saved place the address belongs to, with its driver instructions
+  showPlace?: boolean;
+}
+
+// Free-text address field that suggests saved places by name, address or
+// alias; picking one fills in the place's address
+export default function PlaceInput({
+  value,
+  onChange,
+  placeholder,
+  required,
+  className,
+  wrapperClassName,
+  showPlace = true,
+}: PlaceInputProps) {
+  const { places } = useData();
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(() => searchPlaces(places, value), [places, value]);
+  const place = useMemo(() => placeFor(places, value), [places, value]);
+  const showSuggestions = open && suggestions.length > 0 && !(suggestions.length === 1 && suggestions[0].address === value);
+
+  const pick = (address: string) => {
+    onChange(address);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(suggestions[Math.min(highlighted, suggestions.length - 1)].address);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${wrapperClassName ?? ''}`}>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        className={className}
+      />
+      {showSuggestions && (
+        <ul className="absolute z-20 mt-1 w-full max-h-60 overflow-auto bg-white border rounded-lg shadow-lg text-sm">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              // mousedown rather than click, which would come after the blur
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion.address);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`px-3 py-2 cursor-pointer ${index === highlighted ? 'bg-green-50' : ''}`}
+            >
+              <div className="font-medium text-gray-900">{suggestion.name}</div>
+              <div className="text-xs text-gray-500 truncate">{suggestion.address}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {showPlace && place && (
+        <div className="mt-1 text-xs text-gray-500">
+          <span className="inline-flex items-center">
+            <MapPin className="w-3 h-3 mr-1 text-green-600" />
+            {place.name}
+          </span>
+          {place.address !== value && (
+            <button
+              type="button"
+              onClick={() => onChange(place.address)}
+              className="ml-2 text-green-600 hover:text-green-800"
+            >
+              use its address
+            </button>
+          )}
+          {place.driver_instructions && (
+            <p className="mt-0.5 text-gray-600">Driver: {place.driver_instructions}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Calculator, RotateCcw } from 'lucide-react';
+import type { Quote } from '@shared/tariffs';
+import { useData } from '../contexts/DataContext';
+import { quoteProject, type QuotedProject } from '../lib/tariffs';
+
+interface PriceQuoteProps {
+  trip: QuotedProject;
+  // the price was typed in; the tariff no longer fills it in
+  overridden: boolean;
+  onApply: (quote: Quote) => void;
+  onUseTariff: () => void;
+  // the distance or duration corrected by hand; clearing the distance looks
+  // the route up again
+  onRouteChange: (route: { distanceKm?: number | null; durationMinutes?: number | null }) => void;
+  // an existing trip keeps its saved price until its details change
+  keepInitialPrice?: boolean;
+}
+
+// The tariff price of the trip with its breakdown. While the price is not
+// overridden, every change of the quote is filled into the form.
+export default function PriceQuote({ trip, overridden, onApply, onUseTariff, onRouteChange, keepInitialPrice }: PriceQuoteProps) {
+  const { tariffs } = useData();
+  // the last quote filled in, so an unchanged quote is not applied again
+  const applied = useRef<string | null>(keepInitialPrice ? null : '');
+
+  const quote = useMemo(() => quoteProject(trip, tariffs), [trip, tariffs]);
+
+  useEffect(() => {
+    if (!quote || overridden) return;
+    const key = `${quote.price}/${quote.driverFee}`;
+    if (applied.current === null) {
+      applied.current = key;
+      return;
+    }
+    if (key !== applied.current) {
+      applied.current = key;
+      onApply(quote);
+    }
+  }, [quote, overridden, onApply]);
+
+  if (!trip.company || !trip.carType) return null;
+
+  if (!quote) {
+    return (
+      <p className="text-xs text-gray-500">
+        No tariff for this company and car type; enter the price by hand or add one in Settings → Tariffs.
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-3 border rounded-lg bg-gray-50 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <span className="flex items-center font-medium text-gray-700">
+          <Calculator className="w-4 h-4 mr-2 text-gray-500" />
+          Tariff price
+        </span>
+        {overridden ? (
+          <button
+            type="button"
+            onClick={() => {
+              applied.current = `${quote.price}/${quote.driverFee}`;
+              onApply(quote);
+              onUseTariff();
+            }}
+            className="flex items-center text-xs text-green-600 hover:text-green-800"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Manual price · use tariff €{quote.price.toFixed(2)}
+          </button>
+        ) : (
+          <span className="text-xs text-gray-500">Filled in from the tariff</span>
+        )}
+      </div>
+
+      {!quote.fixedRoute && (
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <label className="text-xs text-gray-600">
+            Distance (km)
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={trip.distanceKm ?? ''}
+              onChange={(e) => onRouteChange({ distanceKm: e.target.value === '' ? null : Number(e.target.value) })}
+              className="mt-1 w-full px-2 py-1 border rounded-lg text-sm"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Duration (min)
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={trip.durationMinutes ?? ''}
+              onChange={(e) => onRouteChange({ durationMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+              className="mt-1 w-full px-2 py-1 border rounded-lg text-sm"
+            />
+          </label>
+        </div>
+      )}
+
+      <ul className="space-y-1 text-gray-600">
+        {quote.lines.map((line, index) => (
+          <li key={index} className="flex justify-between">
+            <span>{line.label}</span>
+            <span>€{line.amount.toFixed(2)}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-between mt-2 pt-2 border-t font-medium text-gray-900">
+        <span>Total</span>
+        <span>€{quote.price.toFixed(2)}</span>
+      </div>
+      {quote.driverFee > 0 && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Driver fee</span>
+          <span>€{quote.driverFee.toFixed(2)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React from 'react';
+import {
+  WEEKDAY_LABELS,
+  addDays,
+  describeRRule,
+  lastOccurrence,
+  occurrences,
+  parseRRule,
+  weekdays,
+  type RecurrenceRule,
+  type Weekday,
+} from '@shared/recurrence';
+import { SERIES_HORIZON_DAYS } from '../lib/tripSeries';
+
+export interface RepeatOptions {
+  repeat: 'none' | 'daily' | 'weekdays' | 'weekly' | 'custom';
+  days: Weekday[];
+  customRule: string;
+  ends: 'never' | 'on' | 'after';
+  endDate: string;
+  count: number;
+}
+
+export const defaultRepeatOptions: RepeatOptions = {
+  repeat: 'none',
+  days: [],
+  customRule: '',
+  ends: 'never',
+  endDate: '',
+  count: 10,
+};
+
+// The schedule chosen in the form; null for a single trip. Throws with a
+// readable message when the custom rule or the end is invalid.
+export function buildRepeatRule(options: RepeatOptions, startDate: string): RecurrenceRule | null {
+  let rule: RecurrenceRule;
+  switch (options.repeat) {
+    case 'none':
+      return null;
+    case 'daily':
+      rule = { freq: 'DAILY', interval: 1 };
+      break;
+    case 'weekdays':
+      rule = { freq: 'WEEKLY', interval: 1, byDay: weekdays.slice(0, 5) };
+      break;
+    case 'weekly':
+      if (options.days.length === 0) throw new Error('Choose at least one day of the week');
+      rule = { freq: 'WEEKLY', interval: 1, byDay: options.days };
+      break;
+    case 'custom':
+      rule = parseRRule(options.customRule);
+      break;
+  }
+
+  // an end chosen in the form replaces one written in the custom rule
+  if (options.ends === 'on') {
+    if (!options.endDate) throw new Error('Choose the date the series ends');
+    if (startDate && options.endDate < startDate) throw new Error('The series cannot end before its first trip');
+    rule = { ...rule, count: undefined, until: options.endDate };
+  } else if (options.ends === 'after') {
+    if (!(options.count >= 1)) throw new Error('The number of trips must be at least 1');
+    rule = { ...rule, until: undefined, count: options.count };
+  }
+  // a count the schedule never reaches would leave the series unfinished
+  if (rule.count !== undefined && startDate) lastOccurrence(rule, startDate);
+  return rule;
+}
+
+interface RepeatSettingsProps {
+  value: RepeatOptions;
+  onChange: (value: RepeatOptions) => void;
+  startDate: string;
+}
+
+export default function RepeatSettings({ value, onChange, startDate }: RepeatSettingsProps) {
+  const update = (changes: Partial<RepeatOptions>) => onChange({ ...value, ...changes });
+
+  const toggleDay = (day: Weekday) => {
+    update({ days: value.days.includes(day) ? value.days.filter((d) => d !== day) : [...value.days, day] });
+  };
+
+  let preview: string | null = null;
+  let error: string | null = null;
+  try {
+    const rule = buildRepeatRule(value, startDate);
+    if (rule && startDate) {
+      const dates = occurrences(rule, startDate, { to: addDays(startDate, SERIES_HORIZON_DAYS) });
+      preview = dates.length === 0
+        ? 'No trips fall within the next weeks with this schedule.'
+        : `${describeRRule(rule)}. First trips: ${dates.slice(0, 4).join(', ')}${dates.length > 4 ? ', …' : ''}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Invalid schedule';
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Repeat
+          </label>
+          <select
+            value={value.repeat}
+            onChange={(e) => update({ repeat: e.target.value as RepeatOptions['repeat'] })}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+          >
+            <option value="none">Does not repeat</option>
+            <option value="daily">Every day</option>
+            <option value="weekdays">Every weekday (Mon–Fri)</option>
+            <option value="weekly">Weekly on chosen days</option>
+            <option value="custom">Custom rule (RRULE)</option>
+          </select>
+        </div>
+
+        {value.repeat !== 'none' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Ends
+            </label>
+            <div className="flex space-x-2">
+              <select
+                value={value.ends}
+                onChange={(e) => update({ ends: e.target.value as RepeatOptions['ends'] })}
+                className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+              >
+                <option value="never">{value.repeat === 'custom' ? 'As in the rule' : 'Never'}</option>
+                <option value="on">On date</option>
+                <option value="after">After a number of trips</option>
+              </select>
+              {value.ends === 'on' && (
+                <input
+                  type="date"
+                  value={value.endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => update({ endDate: e.target.value })}
+                  className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                />
+              )}
+              {value.ends === 'after' && (
+                <input
+                  type="number"
+                  min="1"
+                  value={value.count}
+                  onChange={(e) => update({ count: parseInt(e.target.value) || 0 })}
+                  className="w-24 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value.repeat === 'weekly' && (
+        <div className="flex flex-wrap gap-2">
+          {weekdays.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                value.days.includes(day)
+                  ? 'bg-green-500 border-green-500 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {WEEKDAY_LABELS[day]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.repeat === 'custom' && (
+        <div>
+          <input
+            type="text"
+            value={value.customRule}
+            onChange={(e) => update({ customRule: e.target.value })}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+            className="w-full px-3 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-green-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+          </p>
+        </div>
+      )}
+
+      {value.repeat !== 'none' && (error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : preview && (
+        <p className="text-sm text-gray-600">{preview}</p>
+      ))}
+      {value.repeat !== 'none' && (
+        <p className="text-xs text-gray-500">
+          Trips are created up to {SERIES_HORIZON_DAYS} days ahead and topped up automatically.
+          The schedule starts on the date above.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -13,13 +13,15 @@ import {
   PieChart,
   LineChart,
   Filter,
-  RefreshCw
+  RefreshCw,
+  Route
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useData } from '../contexts/DataContext';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, LineElement, PointElement } from 'chart.js';
 import { Bar, Pie, Line } from 'react-chartjs-2';
 import { saveAs } from 'file-saver';
+import { seatUtilisation } from '@shared/vehicleCapacity';
 
 // Register Chart.js components
 ChartJS.register(
@@ -44,6 +46,28 @@ interface CompanyEarnings {
   projectCount: number;
 }
 
+interface CarTypeUtilisation {
+  carTypeId: string;
+  carTypeName: string;
+  trips: number;
+  passengers: number;
+  seats: number;
+  luggage: number;
+  luggageSpace: number;
+  overloaded: number;
+}
+
+interface CompanyDistance {
+  companyId: string;
+  companyName: string;
+  trips: number;
+  // trips whose route is known; only these count towards the totals
+  routedTrips: number;
+  distanceKm: number;
+  durationMinutes: number;
+  revenue: number;
+}
+
 interface TimePeriodsData {
   daily: { [date: string]: number };
   weekly: { [week: string]: number };
@@ -194,6 +218,78 @@ export default function Statistics() {
     };
   }, [projects, selectedYear]);
 
+  // Passengers against the seats of the car types used, for the selected
+  // year and company
+  const utilisationData = useMemo(() => {
+    const byCarType = new Map<string, CarTypeUtilisation>();
+
+    projects
+      .filter(p => new Date(p.date).getFullYear() === selectedYear)
+      .filter(p => !selectedCompany || p.company === selectedCompany)
+      .forEach(project => {
+        const carType = carTypes.find(c => c.id === project.carType);
+        if (!carType) return;
+
+        const row = byCarType.get(carType.id) ?? {
+          carTypeId: carType.id,
+          carTypeName: carType.name,
+          trips: 0,
+          passengers: 0,
+          seats: 0,
+          luggage: 0,
+          luggageSpace: 0,
+          overloaded: 0
+        };
+        const luggage = project.luggage ?? 0;
+        row.trips += 1;
+        row.passengers += project.passengers;
+        row.seats += carType.capacity;
+        row.luggage += luggage;
+        row.luggageSpace += carType.luggage_capacity;
+        if (project.passengers > carType.capacity || luggage > carType.luggage_capacity) {
+          row.overloaded += 1;
+        }
+        byCarType.set(carType.id, row);
+      });
+
+    const rows = Array.from(byCarType.values()).sort((a, b) => b.trips - a.trips);
+    const passengers = rows.reduce((sum, row) => sum + row.passengers, 0);
+    const seats = rows.reduce((sum, row) => sum + row.seats, 0);
+    return { rows, overall: seatUtilisation(passengers, seats) };
+  }, [projects, carTypes, selectedYear, selectedCompany]);
+
+  // Kilometres and driving time per company for the selected year, from the
+  // routes looked up when the trips were saved
+  const distanceData = useMemo(() => {
+    const byCompany = new Map<string, CompanyDistance>();
+
+    projects
+      .filter(p => new Date(p.date).getFullYear() === selectedYear)
+      .forEach(project => {
+        const row = byCompany.get(project.company) ?? {
+          companyId: project.company,
+          companyName: companies.find(c => c.id === project.company)?.name ?? 'Unknown company',
+          trips: 0,
+          routedTrips: 0,
+          distanceKm: 0,
+          durationMinutes: 0,
+          revenue: 0
+        };
+        row.trips += 1;
+        if (project.distanceKm != null) {
+          row.routedTrips += 1;
+          row.distanceKm += project.distanceKm;
+          row.durationMinutes += project.durationMinutes ?? 0;
+          row.revenue += project.price;
+        }
+        byCompany.set(project.company, row);
+      });
+
+    return Array.from(byCompany.values())
+      .filter(row => row.routedTrips > 0)
+      .sort((a, b) => b.distanceKm - a.distanceKm);
+  }, [projects, companies, selectedYear]);
+
   // Chart configuration
   const chartOptions = {
     responsive: true,
@@ -776,6 +872,109 @@ export default function Statistics() {
           </div>
         )}
 
+        {/* Vehicle Utilisation */}
+        {utilisationData.rows.length > 0 && (
+          <div className="mt-8 bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Users className="w-5 h-5 mr-2 text-blue-600" />
+                Vehicle Utilisation ({selectedYear})
+              </h3>
+              <span className="text-sm text-gray-600">
+                {(utilisationData.overall * 100).toFixed(0)}% of seats filled
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Car Type</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Trips</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Passengers / Seats</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Seat Utilisation</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Luggage / Space</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Over Capacity</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {utilisationData.rows.map(row => {
+                    const utilisation = seatUtilisation(row.passengers, row.seats);
+                    return (
+                      <tr key={row.carTypeId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.carTypeName}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{row.trips}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{row.passengers} / {row.seats}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          <div className="flex items-center gap-2">
+                            <div className="w-24 bg-gray-200 rounded-full h-2">
+                              <div
+                                className={`h-2 rounded-full ${utilisation > 1 ? 'bg-red-500' : 'bg-blue-500'}`}
+                                style={{ width: `${Math.min(utilisation, 1) * 100}%` }}
+                              />
+                            </div>
+                            <span>{(utilisation * 100).toFixed(0)}%</span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{row.luggage} / {row.luggageSpace}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${row.overloaded > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          {row.overloaded}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Distance */}
+        {distanceData.length > 0 && (
+          <div className="mt-8 bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Route className="w-5 h-5 mr-2 text-blue-600" />
+                Distance Driven ({selectedYear})
+              </h3>
+              <span className="text-sm text-gray-600">
+                {distanceData.reduce((sum, row) => sum + row.distanceKm, 0).toFixed(0)} km in total
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Company</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Trips with Route</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Distance</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Driving Time</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Avg. per Trip</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue per km</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {distanceData.map(row => (
+                    <tr key={row.companyId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.companyName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{row.routedTrips} / {row.trips}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{row.distanceKm.toFixed(1)} km</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {Math.floor(row.durationMinutes / 60)} h {row.durationMinutes % 60} min
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {(row.distanceKm / row.routedTrips).toFixed(1)} km
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {row.distanceKm > 0 ? `€${(row.revenue / row.distanceKm).toFixed(2)}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Quick Navigation */}
         <div className="mt-8 bg-blue-50 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Navigation</h3>
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useData } from '../contexts/DataContext';
+import { summarizeItinerary } from '../lib/itineraries';
 import { Download, Copy, Check, Printer, FileImage, Share2, X, Save, MessageCircle } from 'lucide-react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { toPng, toJpeg } from 'html-to-image';
@@ -12,7 +13,7 @@ interface VoucherGeneratorProps {
 }
 
 export default function VoucherGenerator({ projectId, onClose, displayMode = 'modal' }: VoucherGeneratorProps) {
-  const { projects, companies, drivers, carTypes } = useData();
+  const { projects, itineraries, companies, drivers, carTypes } = useData();
   const [copied, setCopied] = useState(false);
   const [shareMode, setShareMode] = useState<'copy' | null>(null);
   const [imageFormat, setImageFormat] = useState<'png' | 'jpeg'>('jpeg');
@@ -83,10 +84,21 @@ export default function VoucherGenerator({ projectId, onClose, displayMode = 'mo
     day: 'numeric'
   });
 
+  // An itinerary gets one voucher listing all legs, under the booking's
+  // reference and with the total price
+  const itinerary = project.itineraryId ? summarizeItinerary(project.itineraryId, projects) : null;
+  const legs = itinerary && itinerary.legs.length > 1 ? itinerary.legs : null;
+  const reference = (legs && itineraries.find(i => i.id === project.itineraryId)?.reference) || project.bookingId;
+  const totalPrice = legs ? itinerary!.totalPrice : project.price;
+  const paymentStatus = legs ? itinerary!.paymentStatus : project.paymentStatus;
+  const legsText = legs
+    ?.map(leg => `Leg ${leg.legNumber}: ${leg.date} ${leg.time.slice(0, 5)}, ${leg.pickupLocation} → ${leg.dropoffLocation}`)
+    .join('\n');
+
   // Copy voucher text to clipboard
   const copyToClipboard = () => {
     const voucherText = `
-TRANSFER VOUCHER #${project.bookingId || 'N/A'}
+TRANSFER VOUCHER #${reference || 'N/A'}
 ---------------------------------------
 ${company?.name || 'Company'}
 Date: ${formattedDate}
@@ -101,12 +113,12 @@ Pickup: ${project.pickupLocation}
 Dropoff: ${project.dropoffLocation}
 Passengers: ${project.passengers}
 Vehicle: ${carType?.name || 'Standard'}
-
+${legsText ? `\nITINERARY\n${legsText}\n` : ''}
 DRIVER
 Name: ${driver?.name || 'TBA'}
 Phone: ${driver?.phone || 'TBA'}
 
-BOOKING REFERENCE: ${project.bookingId || 'N/A'}
+BOOKING REFERENCE: ${reference || 'N/A'}
 ---------------------------------------
 ${project.description ? `Notes: ${project.description}` : ''}
     `.trim();
@@ -131,7 +143,7 @@ ${project.description ? `Notes: ${project.description}` : ''}
 
   // WhatsApp share function
   const shareToWhatsApp = () => {
-    const voucherText = `🚗 *TRANSFER VOUCHER* #${project.bookingId || 'N/A'}
+    const voucherText = `🚗 *TRANSFER VOUCHER* #${reference || 'N/A'}
 
 📅 *Date:* ${formattedDate}
 🕐 *Time:* ${project.time}
@@ -144,12 +156,12 @@ ${project.description ? `Notes: ${project.description}` : ''}
 
 👥 *Passengers:* ${project.passengers}
 🚙 *Vehicle:* ${carType?.name || 'Standard'}
-
+${legsText ? `\n🗺️ *Itinerary:*\n${legsText}\n` : ''}
 🚗 *Driver:* ${driver?.name || 'TBA'}
 ${driver?.phone ? `📞 *Driver Phone:* ${driver.phone}` : ''}
 
-💰 *Price:* €${project.price.toFixed(2)}
-${project.paymentStatus === 'paid' ? '✅ *Payment:* Paid' : '💳 *Payment:* To be charged'}
+💰 *Price:* €${totalPrice.toFixed(2)}
+${paymentStatus === 'paid' ? '✅ *Payment:* Paid' : '💳 *Payment:* To be charged'}
 
 ${project.description ? `📝 *Notes:* ${project.description}` : ''}
 
@@ -196,7 +208,7 @@ ${company?.name || 'Transportation Service'}`;
 
     try {
       await navigator.share({
-        title: `Transfer Voucher #${project.bookingId || 'N/A'}`,
+        title: `Transfer Voucher #${reference || 'N/A'}`,
         text: `Transfer details for ${project.clientName} on ${formattedDate} at ${project.time}`,
         url: window.location.href
       });
@@ -253,7 +265,7 @@ ${company?.name || 'Transportation Service'}`;
   // Generate download URL for a text file
   const generateDownloadUrl = () => {
     const voucherText = `
-TRANSFER VOUCHER #${project.bookingId || 'N/A'}
+TRANSFER VOUCHER #${reference || 'N/A'}
 ---------------------------------------
 ${company?.name || 'Company'}
 Date: ${formattedDate}
@@ -268,12 +280,12 @@ Pickup: ${project.pickupLocation}
 Dropoff: ${project.dropoffLocation}
 Passengers: ${project.passengers}
 Vehicle: ${carType?.name || 'Standard'}
-
+${legsText ? `\nITINERARY\n${legsText}\n` : ''}
 DRIVER
 Name: ${driver?.name || 'TBA'}
 Phone: ${driver?.phone || 'TBA'}
 
-BOOKING REFERENCE: ${project.bookingId || 'N/A'}
+BOOKING REFERENCE: ${reference || 'N/A'}
 ---------------------------------------
 ${project.description ? `Notes: ${project.description}` : ''}
     `.trim();
@@ -361,7 +373,7 @@ ${project.description ? `Notes: ${project.description}` : ''}
           const blob = await response.blob();
           
           // Save using FileSaver
-          saveAs(blob, `voucher-${project.bookingId || 'transfer'}.${imageFormat}`);
+          saveAs(blob, `voucher-${reference || 'transfer'}.${imageFormat}`);
           
           setStatusMessage({
             text: 'Image saved successfully!',
@@ -375,7 +387,7 @@ ${project.description ? `Notes: ${project.description}` : ''}
       } else {
         // Desktop behavior - direct download
         const link = document.createElement('a');
-        link.download = `voucher-${project.bookingId || 'transfer'}.${imageFormat}`;
+        link.download = `voucher-${reference || 'transfer'}.${imageFormat}`;
         link.href = dataUrl;
         document.body.appendChild(link);
         link.click();
@@ -407,7 +419,7 @@ ${project.description ? `Notes: ${project.description}` : ''}
       const blob = await response.blob();
       
       // Use FileSaver for better mobile compatibility
-      saveAs(blob, `voucher-${project.bookingId || 'transfer'}.${imageFormat}`);
+      saveAs(blob, `voucher-${reference || 'transfer'}.${imageFormat}`);
       
       setStatusMessage({
         text: 'Image saved successfully!',
@@ -433,14 +445,14 @@ ${project.description ? `Notes: ${project.description}` : ''}
       const blob = await response.blob();
       
       // Create file object
-      const file = new File([blob], `voucher-${project.bookingId || 'transfer'}.${imageFormat}`, { 
+      const file = new File([blob], `voucher-${reference || 'transfer'}.${imageFormat}`, { 
         type: imageFormat === 'png' ? 'image/png' : 'image/jpeg' 
       });
       
       // Share the file
       await navigator.share({
         files: [file],
-        title: `Transfer Voucher #${project.bookingId || 'N/A'}`,
+        title: `Transfer Voucher #${reference || 'N/A'}`,
       });
       
       setStatusMessage({
@@ -670,7 +682,7 @@ ${project.description ? `Notes: ${project.description}` : ''}
               </div>
               <div className="text-right">
                 <div className="text-xs font-medium text-gray-500">Booking Ref</div>
-                <div className="text-green-600 font-mono font-bold">#{project.bookingId || 'N/A'}</div>
+                <div className="text-green-600 font-mono font-bold">#{reference || 'N/A'}</div>
               </div>
             </div>
 
@@ -719,6 +731,23 @@ ${project.description ? `Notes: ${project.description}` : ''}
               </div>
             </div>
 
+            {/* Itinerary */}
+            {legs && (
+              <div className="mb-3">
+                <h3 className="font-medium mb-2 text-gray-700">Itinerary</h3>
+                <div className="space-y-2">
+                  {legs.map(leg => (
+                    <div key={leg.id} className={`p-2 rounded ${leg.id === project.id ? 'bg-green-50' : 'bg-gray-50'}`}>
+                      <div className="text-xs text-gray-500">
+                        Leg {leg.legNumber} · {leg.date} {leg.time.slice(0, 5)}
+                      </div>
+                      <div className="font-medium break-words">{leg.pickupLocation} → {leg.dropoffLocation}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Additional Details */}
             <div className="grid grid-cols-2 gap-3 mb-3">
               <div>
@@ -752,12 +781,12 @@ ${project.description ? `Notes: ${project.description}` : ''}
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <div className="text-xs text-gray-500">Price</div>
-                  <div className="font-medium text-green-600 text-lg">€{project.price.toFixed(2)}</div>
+                  <div className="font-medium text-green-600 text-lg">€{totalPrice.toFixed(2)}</div>
                 </div>
                 <div>
                   <div className="text-xs text-gray-500">Status</div>
                   <div className="font-medium">
-                    {project.paymentStatus === 'paid' ? (
+                    {paymentStatus === 'paid' ? (
                       <span className="text-green-600">Paid</span>
                     ) : (
                       <span className="text-yellow-600">To be charged</span>
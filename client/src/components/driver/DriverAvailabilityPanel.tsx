@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { CalendarDays, Plus, X } from 'lucide-react';
+import { useDriverData } from '../../contexts/DriverDataContext';
+import {
+  AVAILABILITY_KIND_LABELS,
+  WEEKDAY_NAMES,
+  availabilityKinds,
+  availabilityProblem,
+  describeAvailability,
+  localToday,
+  type AvailabilityKind,
+  type AvailabilityStatus,
+} from '../../lib/driverAvailability';
+
+const STATUS_STYLES: Record<AvailabilityStatus, string> = {
+  approved: 'bg-green-100 text-green-800',
+  requested: 'bg-yellow-100 text-yellow-800',
+  declined: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  approved: 'Approved',
+  requested: 'Waiting for approval',
+  declined: 'Declined',
+};
+
+const emptyForm = {
+  kind: 'day_off' as AvailabilityKind,
+  weekday: 1,
+  start_time: '08:00',
+  end_time: '16:00',
+  start_date: '',
+  end_date: '',
+  note: '',
+};
+
+// The driver's shifts and time off, and requests for changes
+export default function DriverAvailabilityPanel() {
+  const { availability, submitAvailability, withdrawAvailability } = useDriverData();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const today = localToday();
+  // past time off is no longer of interest
+  const entries = availability
+    .filter(entry => entry.kind === 'shift' || (entry.end_date || entry.start_date || '') >= today)
+    .sort((a, b) =>
+      a.kind === 'shift' && b.kind === 'shift'
+        ? (a.weekday ?? 0) - (b.weekday ?? 0) || (a.start_time ?? '').localeCompare(b.start_time ?? '')
+        : a.kind === 'shift' ? -1 : b.kind === 'shift' ? 1 : (a.start_date ?? '').localeCompare(b.start_date ?? '')
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isShift = formData.kind === 'shift';
+    const entry = {
+      kind: formData.kind,
+      weekday: isShift ? formData.weekday : null,
+      start_time: isShift ? formData.start_time : null,
+      end_time: isShift ? formData.end_time : null,
+      start_date: isShift ? null : formData.start_date,
+      end_date: isShift ? null : formData.end_date || null,
+      note: formData.note.trim() || null,
+    };
+    const problem = availabilityProblem({ ...entry, driver_id: '' });
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitAvailability(entry);
+      setFormData(emptyForm);
+      setFormError('');
+      setShowForm(false);
+    } catch (err) {
+      setFormError('Could not send the request. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async (entryId: string) => {
+    try {
+      await withdrawAvailability(entryId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not withdraw the request');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-indigo-100 p-2 rounded-lg">
+            <CalendarDays className="w-5 h-5 text-indigo-600" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900">My Availability</h2>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-1 text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Request</span>
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 && !showForm && (
+        <p className="text-sm text-gray-600">
+          No shifts or time off yet. Request a day off, a holiday or your working hours here.
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {entries.map(entry => (
+            <li key={entry.id} className="py-2 flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium text-gray-900">
+                  {entry.kind === 'shift' ? `Shift ${describeAvailability(entry)}` : describeAvailability(entry)}
+                </span>
+                {entry.note && <span className="text-gray-500"> — {entry.note}</span>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                  {STATUS_LABELS[entry.status]}
+                </span>
+                {entry.status === 'requested' && (
+                  <button
+                    onClick={() => handleWithdraw(entry.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Withdraw request"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 border-t border-gray-100 pt-4">
+          <select
+            value={formData.kind}
+            onChange={(e) => setFormData({ ...formData, kind: e.target.value as AvailabilityKind })}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+          >
+            {availabilityKinds.map(kind => (
+              <option key={kind} value={kind}>{AVAILABILITY_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+
+          {formData.kind === 'shift' ? (
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={formData.weekday}
+                onChange={(e) => setFormData({ ...formData, weekday: parseInt(e.target.value, 10) })}
+                className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+              >
+                {WEEKDAY_NAMES.map((name, index) => (
+                  <option key={name} value={index + 1}>{name}</option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+                required
+              />
+              <input
+                type="time"
+                value={formData.end_time}
+                onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+                required
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                value={formData.start_date}
+                min={today}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+                required
+              />
+              <input
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date || today}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+                title="Last day (optional)"
+              />
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={formData.note}
+            onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+            placeholder="Note for your dispatcher (optional)"
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 text-sm"
+          />
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setFormError('');
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {submitting ? 'Sending...' : 'Send Request'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -25,6 +25,8 @@ import {
   PauseCircle
 } from 'lucide-react';
 import { DriverDataProvider, useDriverData } from '../../contexts/DriverDataContext';
+import DriverAvailabilityPanel from './DriverAvailabilityPanel';
+import { placeFor } from '../../lib/places';
 
 interface DriverDashboardProps {
   driverId: string;
@@ -39,9 +41,15 @@ const DriverProjectCard = ({ project, companyName, carTypeName }: {
   companyName: string;
   carTypeName: string;
 }) => {
-  const { updateProjectStatus } = useDriverData();
+  const { updateProjectStatus, places } = useDriverData();
   const [updating, setUpdating] = useState(false);
 
+  // Instructions saved with the pickup and drop-off places
+  const placeInstructions = [
+    { stop: 'Pickup', place: placeFor(places, project.pickup_location) },
+    { stop: 'Dropoff', place: placeFor(places, project.dropoff_location) },
+  ].filter(({ place }) => place?.driver_instructions);
+
   const handleStatusUpdate = async (status: 'accepted' | 'started' | 'declined') => {
     setUpdating(true);
     try {
@@ -248,6 +256,15 @@ const DriverProjectCard = ({ project, companyName, carTypeName }: {
           </div>
         )}
 
+        {placeInstructions.map(({ stop, place }) => (
+          <div key={stop} className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-xl">
+            <p className="text-xs font-medium text-blue-700 uppercase tracking-wider mb-1">
+              {stop} · {place!.name}
+            </p>
+            <p className="text-sm text-blue-800">{place!.driver_instructions}</p>
+          </div>
+        ))}
+
         {/* Action Buttons */}
         <div className="flex flex-col space-y-2">
           {project.acceptance_status === 'pending' && (
@@ -665,6 +682,9 @@ const DashboardContent = ({ driverName, onLogout }: {
             )}
           </div>
         )}
+
+        {/* Shifts and Time Off */}
+        <DriverAvailabilityPanel />
       </div>
     </div>
   );
@@ -0,0 +1,280 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight, GripVertical } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { addDays } from '@shared/recurrence';
+import { estimateDurationMinutes } from '@shared/driverConflicts';
+import { conflictMessages, projectConflicts } from '../DriverConflictWarning';
+import {
+  AVAILABILITY_KIND_LABELS,
+  availabilityWarning,
+  localToday,
+  shiftBandsOn,
+  timeOffOn,
+} from '../../lib/driverAvailability';
+
+interface Project {
+  id: string;
+  clientName: string;
+  date: string;
+  time: string;
+  pickupLocation: string;
+  dropoffLocation: string;
+  passengers: number;
+  distanceKm?: number | null;
+  durationMinutes?: number | null;
+  company: string;
+  driver: string;
+  status: string;
+}
+
+interface DispatchBoardProps {
+  projects: Project[];
+  onProjectAction: (projectId: string, action: string) => void;
+  getCompanyName: (id: string) => string;
+  // conflicts of each trip, from the dashboard
+  getConflicts?: (projectId: string) => string[] | undefined;
+}
+
+const HOUR_WIDTH = 72;
+const MINUTE_WIDTH = HOUR_WIDTH / 60;
+// drops land on the nearest five minutes
+const SNAP_MINUTES = 5;
+// the axis always shows at least these hours, and grows to fit the trips
+const FIRST_HOUR = 6;
+const LAST_HOUR = 23;
+
+const UNASSIGNED = '';
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTime(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Same rule as isDateTimeValid in DataContext.updateProject
+function isFutureDateTime(date: string, time: string) {
+  return new Date(`${date}T${time}`) > new Date();
+}
+
+// A day of trips on a time axis with a row per driver and one for trips
+// without a driver. Dragging a trip to another row reassigns it, along the
+// axis reschedules it.
+export default function DispatchBoard({ projects, onProjectAction, getCompanyName, getConflicts }: DispatchBoardProps) {
+  const { projects: allProjects, drivers, driverAvailability, updateProject } = useData();
+  const [date, setDate] = useState(localToday);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  // where in the block the trip was grabbed, so it lands where it is let go
+  const grabOffset = useRef(0);
+
+  const dayTrips = useMemo(
+    () => projects.filter(project => project.date === date).sort((a, b) => a.time.localeCompare(b.time)),
+    [projects, date]
+  );
+
+  const [firstHour, lastHour] = useMemo(() => {
+    let first = FIRST_HOUR;
+    let last = LAST_HOUR;
+    for (const trip of dayTrips) {
+      const start = toMinutes(trip.time);
+      first = Math.min(first, Math.floor(start / 60));
+      last = Math.max(last, Math.min(24, Math.ceil((start + estimateDurationMinutes(trip)) / 60)));
+    }
+    return [first, last];
+  }, [dayTrips]);
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+  const trackWidth = hours.length * HOUR_WIDTH;
+
+  const rows = [
+    { id: UNASSIGNED, name: 'Unassigned', status: 'available' },
+    ...drivers,
+  ];
+
+  const moveTrip = async (projectId: string, driverId: string, minutes: number) => {
+    const project = allProjects.find(p => p.id === projectId);
+    if (!project) return;
+    const time = toTime(minutes);
+    const changes: { driver?: string; time?: string } = {};
+    if (driverId !== (project.driver || UNASSIGNED)) changes.driver = driverId;
+    if (time !== project.time.slice(0, 5)) changes.time = time;
+    if (Object.keys(changes).length === 0) return;
+
+    if (!isFutureDateTime(project.date, time)) {
+      setMessage('Project date and time must be in the future');
+      return;
+    }
+
+    const moved = { ...project, ...changes };
+    const warnings = [
+      ...conflictMessages(projectConflicts(moved, allProjects, drivers), drivers),
+      availabilityWarning(moved, driverAvailability, drivers),
+    ].filter((warning): warning is string => !!warning);
+    if (warnings.length > 0 && !window.confirm(`${warnings.join('\n')}\n\nAssign anyway?`)) return;
+
+    try {
+      setMessage('');
+      await updateProject(projectId, changes);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to move the trip');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, driverId: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const projectId = e.dataTransfer.getData('text/plain');
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left - grabOffset.current;
+    const minutes = firstHour * 60 + Math.round(x / MINUTE_WIDTH / SNAP_MINUTES) * SNAP_MINUTES;
+    moveTrip(projectId, driverId, Math.min(Math.max(minutes, 0), 24 * 60 - SNAP_MINUTES));
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-md rounded-2xl border border-white/20 shadow-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setDate(addDays(date, -1))}
+            className="p-2 rounded-lg text-gray-600 hover:bg-white"
+            title="Previous day"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="px-3 py-1.5 border rounded-lg text-sm"
+          />
+          <button
+            onClick={() => setDate(addDays(date, 1))}
+            className="p-2 rounded-lg text-gray-600 hover:bg-white"
+            title="Next day"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setDate(localToday())}
+            className="px-3 py-1.5 text-sm text-gray-600 rounded-lg hover:bg-white"
+          >
+            Today
+          </button>
+        </div>
+        <span className="text-sm text-slate-500">
+          {dayTrips.length} trip{dayTrips.length === 1 ? '' : 's'} · drag a trip to another driver or time
+        </span>
+      </div>
+
+      {message && (
+        <div className="flex items-center mb-3 p-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <div style={{ width: trackWidth + 160 }}>
+          {/* Time axis */}
+          <div className="flex border-b border-gray-200">
+            <div className="w-40 flex-shrink-0" />
+            {hours.map(hour => (
+              <div
+                key={hour}
+                className="text-xs text-gray-500 border-l border-gray-200 pl-1"
+                style={{ width: HOUR_WIDTH }}
+              >
+                {toTime(hour * 60)}
+              </div>
+            ))}
+          </div>
+
+          {rows.map(row => {
+            const entries = driverAvailability.filter(entry => entry.driver_id === row.id);
+            const off = row.id ? timeOffOn(entries, date) : undefined;
+            const shifts = row.id ? shiftBandsOn(entries, date) : [];
+            const rowTrips = dayTrips.filter(trip => (trip.driver || UNASSIGNED) === row.id);
+            return (
+              <div key={row.id || 'unassigned'} className="flex border-b border-gray-100">
+                <div className={`w-40 flex-shrink-0 px-2 py-3 text-sm ${row.id ? 'text-gray-900' : 'font-medium text-amber-700'}`}>
+                  <div className="truncate">{row.name}</div>
+                  {off ? (
+                    <div className="text-xs text-gray-500">{AVAILABILITY_KIND_LABELS[off.kind]}</div>
+                  ) : row.status !== 'available' && (
+                    <div className="text-xs text-gray-500 capitalize">{row.status}</div>
+                  )}
+                </div>
+                <div
+                  className={`relative h-14 ${off ? 'bg-gray-100' : ''} ${dropTarget === row.id ? 'bg-blue-50' : ''}`}
+                  style={{ width: trackWidth }}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropTarget(row.id);
+                  }}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDrop(e, row.id)}
+                >
+                  {hours.map(hour => (
+                    <div
+                      key={hour}
+                      className="absolute top-0 bottom-0 border-l border-gray-100"
+                      style={{ left: (hour - firstHour) * HOUR_WIDTH }}
+                    />
+                  ))}
+                  {!off && shifts.map((band, index) => (
+                    <div
+                      key={index}
+                      className="absolute top-1 bottom-1 bg-green-50 border-y border-green-200"
+                      style={{
+                        left: Math.max(0, band.start - firstHour * 60) * MINUTE_WIDTH,
+                        width: Math.max(0, Math.min(band.end, lastHour * 60) - Math.max(band.start, firstHour * 60)) * MINUTE_WIDTH,
+                      }}
+                      title="Shift"
+                    />
+                  ))}
+                  {rowTrips.map(trip => {
+                    const conflicts = getConflicts?.(trip.id) ?? [];
+                    return (
+                      <div
+                        key={trip.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData('text/plain', trip.id);
+                          e.dataTransfer.effectAllowed = 'move';
+                          grabOffset.current = e.clientX - e.currentTarget.getBoundingClientRect().left;
+                        }}
+                        onClick={() => onProjectAction(trip.id, 'edit')}
+                        className={`absolute top-2 bottom-2 flex items-center px-1 rounded-md text-xs cursor-move overflow-hidden shadow-sm border ${
+                          conflicts.length > 0
+                            ? 'bg-amber-100 border-amber-400 text-amber-900'
+                            : row.id
+                              ? 'bg-blue-100 border-blue-300 text-blue-900'
+                              : 'bg-white border-dashed border-amber-400 text-gray-800'
+                        }`}
+                        style={{
+                          left: (toMinutes(trip.time) - firstHour * 60) * MINUTE_WIDTH,
+                          width: Math.max(estimateDurationMinutes(trip) * MINUTE_WIDTH, 24),
+                        }}
+                        title={[
+                          `${trip.time.slice(0, 5)} ${trip.clientName} (${getCompanyName(trip.company)})`,
+                          `${trip.pickupLocation} → ${trip.dropoffLocation}`,
+                          ...conflicts,
+                        ].join('\n')}
+                      >
+                        <GripVertical className="w-3 h-3 flex-shrink-0 opacity-50" />
+                        <span className="truncate">
+                          {trip.time.slice(0, 5)} {trip.clientName}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
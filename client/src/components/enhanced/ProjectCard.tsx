@@ -38,6 +38,7 @@ interface ProjectCardProps {
     paymentStatus: string;
     acceptance_status?: 'pending' | 'accepted' | 'started' | 'declined';
     bookingId?: string;
+    source?: 'manual' | 'inbound';
     description?: string;
   };
   companyName: string;
@@ -54,6 +55,8 @@ interface ProjectCardProps {
   isStarted?: boolean;
   isCollapsible?: boolean;
   defaultExpanded?: boolean;
+  // driver double-booking / offline warnings for this trip
+  conflicts?: string[];
 }
 
 const ProjectCard = React.memo(({ 
@@ -71,7 +74,8 @@ const ProjectCard = React.memo(({
   onVoucher,
   isStarted = false,
   isCollapsible = false,
-  defaultExpanded = true
+  defaultExpanded = true,
+  conflicts = []
 }: ProjectCardProps) => {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
   const [isWorking, setIsWorking] = useState(false);
@@ -378,8 +382,11 @@ const ProjectCard = React.memo(({
           </div>
 
           {project.bookingId && (
-            <div className="bg-white/90 backdrop-blur-sm px-2 py-1 rounded-full">
-              <span className="text-xs font-mono text-slate-600">#{project.bookingId}</span>
+            <div className="bg-white/90 backdrop-blur-sm px-2 py-1 rounded-full" title={project.source === 'inbound' ? `Booked through ${companyName}` : undefined}>
+              <span className="text-xs font-mono text-slate-600">
+                {project.source === 'inbound' && <span className="font-sans font-medium">{companyName} </span>}
+                #{project.bookingId}
+              </span>
             </div>
           )}
         </div>
@@ -480,6 +487,17 @@ const ProjectCard = React.memo(({
               </div>
             </div>
           </div>
+
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertCircle className="w-4 h-4 text-amber-600 flex-shrink-0" />
+              <div className="space-y-0.5">
+                {conflicts.map((message, index) => (
+                  <p key={index}>{message}</p>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Collapsible Detailed Content */}
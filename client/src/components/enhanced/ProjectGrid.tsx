@@ -44,6 +44,7 @@ interface ProjectGridProps {
   getCarTypeName: (id: string) => string;
   getCompanyTheme: (companyId: string) => string;
   startedProjects?: Set<string>;
+  getConflicts?: (projectId: string) => string[] | undefined;
   cardSettings?: {
     collapsible: boolean;
     defaultExpanded: boolean;
@@ -63,6 +64,7 @@ export default function ProjectGrid({
   getDriverName,
   getCarTypeName,
   getCompanyTheme,
+  getConflicts,
   cardSettings = { collapsible: false, defaultExpanded: true }
 }: ProjectGridProps) {
   const [searchQuery, setSearchQuery] = useState('');
@@ -365,6 +367,7 @@ export default function ProjectGrid({
                           onVoucher={() => onProjectAction(project.id, 'voucher')}
                           isCollapsible={cardSettings.collapsible}
                           defaultExpanded={cardSettings.defaultExpanded}
+                          conflicts={getConflicts?.(project.id)}
                         />
                       </div>
                     ))}
@@ -402,6 +405,7 @@ export default function ProjectGrid({
                           onVoucher={() => onProjectAction(project.id, 'voucher')}
                           isCollapsible={cardSettings.collapsible}
                           defaultExpanded={cardSettings.defaultExpanded}
+                          conflicts={getConflicts?.(project.id)}
                         />
                       </div>
                     ))}
@@ -438,6 +442,7 @@ export default function ProjectGrid({
                           onVoucher={() => onProjectAction(project.id, 'voucher')}
                           isCollapsible={cardSettings.collapsible}
                           defaultExpanded={cardSettings.defaultExpanded}
+                          conflicts={getConflicts?.(project.id)}
                         />
                       </div>
                     ))}
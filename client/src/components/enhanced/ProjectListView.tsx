@@ -1,6 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
-import { ChevronDown, ChevronRight, Users, Calendar, DollarSign, MapPin, Phone, Car, User, Clock, Eye, Edit, Trash2, Play, Receipt } from 'lucide-react';
+import { ChevronDown, ChevronRight, Users, Calendar, DollarSign, MapPin, Phone, Car, User, Clock, Eye, Edit, Trash2, Play, Receipt, Route } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { ItinerarySummary } from '../../lib/itineraries';
 
 interface Project {
   id: string;
@@ -18,6 +19,8 @@ interface Project {
   paymentStatus: string;
   bookingId?: string;
   description?: string;
+  itineraryId?: string | null;
+  legNumber?: number | null;
 }
 
 interface ProjectListViewProps {
@@ -30,6 +33,8 @@ interface ProjectListViewProps {
   getDriverName: (id: string) => string;
   getCarTypeName: (id: string) => string;
   getCompanyTheme: (companyId: string) => string;
+  // all legs of an itinerary, also those filtered out of this list
+  getItinerary?: (itineraryId: string) => ItinerarySummary | undefined;
 }
 
 interface ListItemProps {
@@ -43,6 +48,7 @@ interface ListItemProps {
   onAction: (action: string) => void;
   isUpcoming: boolean;
   isUrgent: boolean;
+  itinerary?: ItinerarySummary;
 }
 
 const ProjectListItem: React.FC<ListItemProps> = ({
@@ -55,7 +61,8 @@ const ProjectListItem: React.FC<ListItemProps> = ({
   onToggle,
   onAction,
   isUpcoming,
-  isUrgent
+  isUrgent,
+  itinerary
 }) => {
   const statusColors = {
     active: 'bg-green-100 text-green-800 border-green-200',
@@ -113,6 +120,12 @@ const ProjectListItem: React.FC<ListItemProps> = ({
                 <span className={`px-3 py-1 text-xs font-medium rounded-full border shadow-sm ${statusColors[project.status as keyof typeof statusColors] || statusColors.pending}`}>
                   {project.status}
                 </span>
+                {itinerary && (
+                  <span className="flex items-center px-2 py-1 text-xs font-medium bg-indigo-100 text-indigo-800 rounded-full">
+                    <Route size={12} className="mr-1" />
+                    Leg {project.legNumber} of {itinerary.legs.length}
+                  </span>
+                )}
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-600">
@@ -150,6 +163,11 @@ const ProjectListItem: React.FC<ListItemProps> = ({
               <div className="font-medium text-gray-900">
                 ${project.price.toFixed(2)}
               </div>
+              {itinerary && (
+                <div className="text-xs text-gray-500 mb-1">
+                  Itinerary ${itinerary.totalPrice.toFixed(2)}
+                </div>
+              )}
               <span className={`px-3 py-1 text-xs font-medium rounded-lg shadow-sm ${paymentColors[project.paymentStatus as keyof typeof paymentColors] || paymentColors.pending}`}>
                 {project.paymentStatus}
               </span>
@@ -245,6 +263,33 @@ const ProjectListItem: React.FC<ListItemProps> = ({
                 </div>
               </div>
 
+              {/* Itinerary legs */}
+              {itinerary && (
+                <div className="mb-4">
+                  <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                    <Route size={16} className="mr-2" />
+                    Itinerary
+                  </h4>
+                  <ol className="text-sm bg-white p-3 rounded-xl border space-y-1">
+                    {itinerary.legs.map(leg => (
+                      <li
+                        key={leg.id}
+                        className={`flex flex-wrap gap-x-3 ${leg.id === project.id ? 'font-medium text-gray-900' : 'text-gray-600'}`}
+                      >
+                        <span>Leg {leg.legNumber}</span>
+                        <span>{leg.date} {leg.time?.slice(0, 5)}</span>
+                        <span className="flex-1 min-w-0 truncate">{leg.pickupLocation} → {leg.dropoffLocation}</span>
+                        <span>${Number(leg.price).toFixed(2)}</span>
+                      </li>
+                    ))}
+                    <li className="flex justify-between pt-1 border-t font-medium text-gray-900">
+                      <span>Total</span>
+                      <span>${itinerary.totalPrice.toFixed(2)}</span>
+                    </li>
+                  </ol>
+                </div>
+              )}
+
               {/* Description */}
               {project.description && (
                 <div className="mb-4">
@@ -336,7 +381,8 @@ export default function ProjectListView({
   getCompanyName,
   getDriverName,
   getCarTypeName,
-  getCompanyTheme
+  getCompanyTheme,
+  getItinerary
 }: ProjectListViewProps) {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [expandAll, setExpandAll] = useState(false);
@@ -518,6 +564,7 @@ export default function ProjectListView({
                       onAction={(action) => onProjectAction(project.id, action)}
                       isUpcoming={isUpcoming}
                       isUrgent={isUrgent}
+                      itinerary={project.itineraryId ? getItinerary?.(project.itineraryId) : undefined}
                     />
                   );
                 })}
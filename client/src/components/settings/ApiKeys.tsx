@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, Ban } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { generateApiKey, hashApiKey } from '@shared/apiKeys';
+import SettingsLayout from './SettingsLayout';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: 'read' | 'write';
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export default function ApiKeys() {
+  const { currentUser } = useAuth();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    scope: 'read' as 'read' | 'write',
+  });
+
+  const fetchApiKeys = async () => {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, name, prefix, scope, last_used_at, revoked_at, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+      return;
+    }
+    setApiKeys(data || []);
+  };
+
+  useEffect(() => {
+    if (currentUser) fetchApiKeys();
+  }, [currentUser]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // Only the hash leaves the browser; the key is shown once and then forgotten
+    const { key, prefix } = generateApiKey();
+    try {
+      const { error } = await supabase
+        .from('api_keys')
+        .insert([{
+          name: formData.name,
+          scope: formData.scope,
+          prefix,
+          key_hash: await hashApiKey(key),
+          user_id: currentUser?.id
+        }]);
+
+      if (error) throw error;
+
+      setNewKey(key);
+      setCopied(false);
+      setFormData({ name: '', scope: 'read' });
+      setShowForm(false);
+      await fetchApiKeys();
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      setError('Failed to create API key. Please try again.');
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Scripts using this key will stop working.`)) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', apiKey.id);
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      setError('Failed to revoke API key. Please try again.');
+      return;
+    }
+    await fetchApiKeys();
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  return (
+    <SettingsLayout
+      title="API Keys"
+      onAdd={() => setShowForm(true)}
+      addButtonText="New API Key"
+    >
+      <p className="text-sm text-gray-600 mb-6">
+        Use a personal API key to call the REST API from scripts and integrations by sending
+        it as <code className="px-1 bg-gray-100 rounded">Authorization: Bearer &lt;key&gt;</code>.
+        Read-only keys can list and fetch data; read-write keys can also create, change and delete it.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-6">{error}</div>
+      )}
+
+      {newKey && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-semibold text-green-800 mb-2">Your new API key</h3>
+          <p className="text-sm text-green-700 mb-4">
+            Copy it now. For your security it will not be shown again.
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 px-4 py-2 bg-white border rounded-lg text-sm break-all">
+              {newKey}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 flex items-center"
+            >
+              {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <button
+            onClick={() => setNewKey(null)}
+            className="mt-4 text-sm text-green-700 hover:text-green-900"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">New API Key</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Name
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Booking sync script"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scope
+              </label>
+              <select
+                value={formData.scope}
+                onChange={(e) => setFormData({ ...formData, scope: e.target.value as 'read' | 'write' })}
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+              >
+                <option value="read">Read-only</option>
+                <option value="write">Read-write</option>
+              </select>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+              >
+                Create Key
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Key
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Scope
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Last Used
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {apiKeys.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No API keys yet
+                </td>
+              </tr>
+            ) : (
+              apiKeys.map((apiKey) => (
+                <tr key={apiKey.id} className={apiKey.revoked_at ? 'opacity-50' : ''}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {apiKey.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                    {apiKey.prefix}…
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {apiKey.scope === 'write' ? 'Read-write' : 'Read-only'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {apiKey.last_used_at ? new Date(apiKey.last_used_at).toLocaleString() : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {apiKey.revoked_at ? (
+                      <span className="text-red-600">
+                        Revoked {new Date(apiKey.revoked_at).toLocaleDateString()}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        className="text-red-600 hover:text-red-900 transition-colors flex items-center"
+                      >
+                        <Ban className="w-5 h-5 mr-1" />
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </SettingsLayout>
+  );
+}
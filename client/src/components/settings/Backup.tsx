@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useData } from '../../contexts/DataContext';
+import {
+  ARCHIVE_TABLE_LABELS,
+  archiveTables,
+  exportAccount,
+  parseArchive,
+  restoreAccount,
+  type AccountArchive,
+  type RestoreProgress,
+} from '../../lib/accountBackup';
+import SettingsLayout from './SettingsLayout';
+
+export default function Backup() {
+  const { currentUser } = useAuth();
+  const { refreshData } = useData();
+  const [exporting, setExporting] = useState(false);
+  const [archive, setArchive] = useState<AccountArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [restoring, setRestoring] = useState(false);
+  const [progress, setProgress] = useState<RestoreProgress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!currentUser) return;
+    setError(null);
+    setMessage(null);
+    setExporting(true);
+    try {
+      const backup = await exportAccount(currentUser.id);
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `ridepilot_backup_${backup.exportedAt.slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      console.error('Error exporting account:', err);
+      setError('The export failed. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    try {
+      setArchive(parseArchive(await file.text()));
+      setFileName(file.name);
+    } catch (err) {
+      setArchive(null);
+      setError(err instanceof Error ? err.message : 'The backup could not be read');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !currentUser) return;
+    if (!window.confirm('Add everything in this backup to your account? Existing data is kept, so restoring the same backup twice creates duplicates.')) {
+      return;
+    }
+
+    setError(null);
+    setRestoring(true);
+    try {
+      const counts = await restoreAccount(archive, currentUser.id, setProgress);
+      setMessage(`Restored ${archiveTables.map((table) => `${counts[table]} ${ARCHIVE_TABLE_LABELS[table].toLowerCase()}`).join(', ')}.`);
+      setArchive(null);
+      await refreshData();
+    } catch (err) {
+      console.error('Error restoring account:', err);
+      setError('The restore failed and was undone. Nothing from the backup was added.');
+    } finally {
+      setRestoring(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <SettingsLayout title="Backup & Restore">
+      <div className="p-4 sm:p-6 space-y-8">
+        {error && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-lg">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 text-green-700 p-4 rounded-lg">{message}</div>
+        )}
+
+        <section>
+          <h3 className="text-lg font-semibold mb-2">Export</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Downloads all companies, car types, drivers with their availability, vehicles, tariffs, places, customers, recurring series, itineraries, projects and payments of your account as
+            one JSON file, for audits or to move the account to another Supabase project.
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Download Backup'}
+          </button>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold mb-2">Restore</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Adds the contents of a backup to this account. Every record gets a new id and links
+            between records are kept. Driver portal links and company inbound tokens are issued
+            anew, so share them again after moving an account.
+          </p>
+          <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm cursor-pointer">
+            <Upload className="w-4 h-4 mr-2" />
+            Choose Backup File
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+
+          {archive && (
+            <div className="mt-4 border rounded-lg p-4">
+              <p className="text-sm text-gray-700 mb-3">
+                <span className="font-medium">{fileName}</span>, exported{' '}
+                {new Date(archive.exportedAt).toLocaleString()}
+              </p>
+              <ul className="text-sm text-gray-600 mb-4 grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {archiveTables.map((table) => (
+                  <li key={table}>
+                    <span className="font-medium">{archive.tables[table].length}</span>{' '}
+                    {ARCHIVE_TABLE_LABELS[table].toLowerCase()}
+                  </li>
+                ))}
+              </ul>
+              {progress && (
+                <p className="text-sm text-gray-600 mb-3">
+                  Restoring {ARCHIVE_TABLE_LABELS[progress.table].toLowerCase()}... {progress.done} of {progress.total}
+                </p>
+              )}
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setArchive(null)}
+                  disabled={restoring}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={restoring}
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 text-sm"
+                >
+                  {restoring ? 'Restoring...' : 'Restore Backup'}
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </SettingsLayout>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Trash2, Edit2, Palette } from 'lucide-react';
+import { Trash2, Edit2, Palette, Link2, KeyRound, RefreshCw, Check } from 'lucide-react';
 import { useData } from '../../contexts/DataContext';
 import SettingsLayout from './SettingsLayout';
 
@@ -43,6 +43,7 @@ export default function Companies() {
   const [showCustomColor, setShowCustomColor] = useState(false);
   const [customColor, setCustomColor] = useState('');
   const [companyColors, setCompanyColors] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState<string | null>(null);
 
   // Load company colors from localStorage on component mount
   useEffect(() => {
@@ -131,6 +132,21 @@ export default function Companies() {
     setCustomColor('');
   };
 
+  // Partners post bookings here with the company's inbound token as a bearer token
+  const getInboundUrl = (companyId: string) =>
+    `${window.location.origin}/api/inbound/companies/${companyId}/bookings`;
+
+  const handleCopy = async (key: string, value: string) => {
+    await navigator.clipboard.writeText(value);
+    setCopied(key);
+  };
+
+  const handleRotateToken = (companyId: string) => {
+    if (window.confirm('Create a new inbound token? The partner will need the new token to keep sending bookings.')) {
+      updateCompany(companyId, { inbound_token: crypto.randomUUID() });
+    }
+  };
+
   const getCompanyColorClass = (companyId: string) => {
     const color = companyColors[companyId];
     if (!color) return 'bg-gray-200';
@@ -329,6 +345,9 @@ export default function Companies() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Phone
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Inbound Bookings
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
@@ -352,6 +371,31 @@ export default function Companies() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {company.phone}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                    <button
+                      onClick={() => handleCopy(`url-${company.id}`, getInboundUrl(company.id))}
+                      className="text-gray-600 hover:text-gray-900 transition-colors"
+                      title="Copy booking endpoint URL"
+                    >
+                      {copied === `url-${company.id}` ? <Check className="w-5 h-5" /> : <Link2 className="w-5 h-5" />}
+                    </button>
+                    {company.inbound_token && (
+                      <button
+                        onClick={() => handleCopy(`token-${company.id}`, company.inbound_token!)}
+                        className="text-gray-600 hover:text-gray-900 transition-colors"
+                        title="Copy inbound token"
+                      >
+                        {copied === `token-${company.id}` ? <Check className="w-5 h-5" /> : <KeyRound className="w-5 h-5" />}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRotateToken(company.id)}
+                      className="text-gray-600 hover:text-gray-900 transition-colors"
+                      title="Create a new inbound token"
+                    >
+                      <RefreshCw className="w-5 h-5" />
+                    </button>
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
                     <button
                       onClick={() => handleEdit(company)}
@@ -0,0 +1,339 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Edit2, Search, Trash2 } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import {
+  customerHistory,
+  customerPreferences,
+  customerTrips,
+  emailKey,
+  findCustomer,
+  phoneKey,
+  type Customer,
+} from '../../lib/customers';
+import SettingsLayout from './SettingsLayout';
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  email: '',
+  language: '',
+  child_seat: false,
+  notes: '',
+  telegram_chat_id: '',
+};
+
+export default function Customers() {
+  const { customers, projects, addCustomer, updateCustomer, deleteCustomer } = useData();
+  const [showForm, setShowForm] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const histories = useMemo(
+    () => new Map(customers.map(customer => [customer.id, customerHistory(customer, projects)])),
+    [customers, projects]
+  );
+
+  const listed = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    const digits = phoneKey(search);
+    return customers.filter(customer => !text
+      || customer.name.toLowerCase().includes(text)
+      || (customer.email ?? '').toLowerCase().includes(text)
+      || (digits !== null && (customer.phone_key ?? '').includes(digits)));
+  }, [customers, search]);
+
+  const openForm = (customer?: Customer) => {
+    setEditingCustomer(customer?.id ?? null);
+    setFormData(customer
+      ? {
+          name: customer.name,
+          phone: customer.phone ?? '',
+          email: customer.email ?? '',
+          language: customer.language ?? '',
+          child_seat: customer.child_seat,
+          notes: customer.notes ?? '',
+          telegram_chat_id: customer.telegram_chat_id ?? '',
+        }
+      : emptyForm);
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingCustomer(null);
+    setFormData(emptyForm);
+    setFormError('');
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const customer = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim() || null,
+      email: formData.email.trim() || null,
+      language: formData.language.trim() || null,
+      child_seat: formData.child_seat,
+      notes: formData.notes.trim() || null,
+      telegram_chat_id: formData.telegram_chat_id.trim() || null,
+    };
+
+    // a phone number or email belongs to one customer only
+    const others = customers.filter(c => c.id !== editingCustomer);
+    const samePhone = findCustomer(others, { phone: customer.phone });
+    const sameEmail = emailKey(customer.email) && others.find(c => emailKey(c.email) === emailKey(customer.email));
+    const duplicate = samePhone || sameEmail;
+    if (duplicate) {
+      setFormError(`${duplicate.name} already has this ${samePhone ? 'phone number' : 'email'}`);
+      return;
+    }
+
+    if (editingCustomer) {
+      await updateCustomer(editingCustomer, customer);
+    } else {
+      await addCustomer(customer);
+    }
+    closeForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this customer? Their trips keep the client name and phone.')) {
+      deleteCustomer(id);
+    }
+  };
+
+  return (
+    <SettingsLayout
+      title="Customers"
+      onAdd={() => openForm()}
+      addButtonText="Add Customer"
+    >
+        {showForm && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingCustomer ? 'Edit Customer' : 'Add New Customer'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    placeholder="e.g. +386 41 123 456"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Language
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.language}
+                    onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                    placeholder="e.g. German"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Telegram Chat ID
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.telegram_chat_id}
+                    onChange={(e) => setFormData({ ...formData, telegram_chat_id: e.target.value })}
+                    placeholder="For passenger messages on Telegram"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Notes
+                  </label>
+                  <textarea
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    placeholder="e.g. Prefers a quiet ride, pays by card"
+                    rows={3}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div className="flex items-start pt-8">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.child_seat}
+                      onChange={(e) => setFormData({ ...formData, child_seat: e.target.checked })}
+                      className="mr-2"
+                    />
+                    Travels with a child seat
+                  </label>
+                </div>
+              </div>
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+              <div className="flex justify-end space-x-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                >
+                  {editingCustomer ? 'Update Customer' : 'Add Customer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-3" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, phone or email"
+            className="w-full pl-9 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Preferences
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Trips
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Revenue
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {listed.map((customer) => {
+                const history = histories.get(customer.id)!;
+                const isExpanded = expanded === customer.id;
+                return (
+                  <React.Fragment key={customer.id}>
+                    <tr>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <button
+                          type="button"
+                          onClick={() => setExpanded(isExpanded ? null : customer.id)}
+                          className="flex items-center font-medium hover:text-green-700"
+                        >
+                          {isExpanded
+                            ? <ChevronDown className="w-4 h-4 mr-1" />
+                            : <ChevronRight className="w-4 h-4 mr-1" />}
+                          {customer.name}
+                        </button>
+                        <div className="text-gray-500 ml-5">
+                          {[customer.phone, customer.email].filter(Boolean).join(' · ') || '—'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        <div>{customerPreferences(customer) || '—'}</div>
+                        {customer.notes && <div className="text-xs text-gray-400">{customer.notes}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <div>{history.trips} ({history.completed} completed)</div>
+                        {history.lastTrip && (
+                          <div className="text-xs text-gray-400">
+                            Last {new Date(history.lastTrip).toLocaleDateString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        €{history.revenue.toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                        <button
+                          onClick={() => openForm(customer)}
+                          className="text-blue-600 hover:text-blue-900 transition-colors"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(customer.id)}
+                          className="text-red-600 hover:text-red-900 transition-colors"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                          <ul className="divide-y divide-gray-200 text-sm">
+                            {customerTrips(customer, projects)
+                              .sort((a, b) => b.date.localeCompare(a.date) || b.time.localeCompare(a.time))
+                              .map((trip) => (
+                                <li key={trip.id} className="flex items-center py-2">
+                                  <span className="w-28 text-gray-500">{new Date(trip.date).toLocaleDateString()}</span>
+                                  <span className="flex-1 min-w-0 truncate text-gray-900">
+                                    {trip.pickupLocation} → {trip.dropoffLocation}
+                                  </span>
+                                  <span className="ml-4 text-xs text-gray-500">{trip.status}</span>
+                                  <span className="ml-4 w-20 text-right text-gray-900">€{(trip.price || 0).toFixed(2)}</span>
+                                </li>
+                              ))}
+                            {history.trips === 0 && (
+                              <li className="py-2 text-gray-500">No trips yet</li>
+                            )}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+    </SettingsLayout>
+  );
+}
@@ -0,0 +1,328 @@
+import React, { useState, useEffect } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useData } from '../../contexts/DataContext';
+import {
+  EMAIL_DRAFT_FIELD_LABELS,
+  emailDraftFields,
+  type EmailTemplateFields,
+} from '@shared/emailDrafts';
+import { DATE_ORDER_LABELS, dateOrders, type DateOrder } from '@shared/dateTime';
+import SettingsLayout from './SettingsLayout';
+
+interface EmailTemplate {
+  id: string;
+  company_id: string;
+  name: string;
+  sender_match: string;
+  fields: EmailTemplateFields;
+  date_order: DateOrder;
+  created_at: string;
+}
+
+const emptyForm = {
+  company_id: '',
+  name: '',
+  sender_match: '',
+  fields: {} as EmailTemplateFields,
+  date_order: 'DMY' as DateOrder,
+};
+
+export default function EmailTemplates() {
+  const { currentUser } = useAuth();
+  const { companies } = useData();
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchTemplates = async () => {
+    const { data, error } = await supabase
+      .from('email_templates')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching email templates:', error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  useEffect(() => {
+    if (currentUser) fetchTemplates();
+  }, [currentUser]);
+
+  const openForm = (template?: EmailTemplate) => {
+    setError(null);
+    setEditingId(template?.id ?? null);
+    setFormData(template
+      ? {
+          company_id: template.company_id,
+          name: template.name,
+          sender_match: template.sender_match,
+          fields: template.fields,
+          date_order: template.date_order,
+        }
+      : emptyForm);
+    setShowForm(true);
+  };
+
+  const setFieldPattern = (field: keyof EmailTemplateFields, pattern: string) => {
+    setFormData((current) => ({
+      ...current,
+      fields: { ...current.fields, [field]: pattern },
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // drop empty patterns so the default labels apply to those fields
+    const fields: EmailTemplateFields = {};
+    for (const field of emailDraftFields) {
+      const pattern = formData.fields[field]?.trim();
+      if (!pattern) continue;
+      try {
+        new RegExp(pattern);
+      } catch {
+        setError(`The pattern for ${EMAIL_DRAFT_FIELD_LABELS[field]} is not a valid regular expression`);
+        return;
+      }
+      fields[field] = pattern;
+    }
+
+    const template = {
+      company_id: formData.company_id,
+      name: formData.name,
+      sender_match: formData.sender_match,
+      fields,
+      date_order: formData.date_order,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('email_templates').update(template).eq('id', editingId)
+      : await supabase.from('email_templates').insert([{ ...template, user_id: currentUser?.id }]);
+
+    if (error) {
+      console.error('Error saving email template:', error);
+      setError('Failed to save email template. Please try again.');
+      return;
+    }
+
+    setShowForm(false);
+    setEditingId(null);
+    await fetchTemplates();
+  };
+
+  const handleDelete = async (template: EmailTemplate) => {
+    if (!window.confirm(`Delete the email template "${template.name}"?`)) return;
+
+    const { error } = await supabase
+      .from('email_templates')
+      .delete()
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error deleting email template:', error);
+      return;
+    }
+    await fetchTemplates();
+  };
+
+  const companyName = (id: string) => companies.find((company) => company.id === id)?.name ?? '—';
+
+  return (
+    <SettingsLayout
+      title="Email Templates"
+      onAdd={() => openForm()}
+      addButtonText="Add Template"
+    >
+      <p className="text-sm text-gray-600 mb-6">
+        Templates tell the email import how to read a company's booking confirmations. A template
+        applies when its sender text appears in the email's sender or subject. Each field takes a
+        regular expression whose first group is the value; fields left empty are looked up by
+        common labels such as <code className="px-1 bg-gray-100 rounded">Pickup:</code>.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-6">{error}</div>
+      )}
+
+      {showForm && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">
+            {editingId ? 'Edit Template' : 'Add New Template'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Company
+                </label>
+                <select
+                  value={formData.company_id}
+                  onChange={(e) => setFormData({ ...formData, company_id: e.target.value })}
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  required
+                >
+                  <option value="">Select company</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>{company.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Viator confirmation"
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sender contains
+                </label>
+                <input
+                  type="text"
+                  value={formData.sender_match}
+                  onChange={(e) => setFormData({ ...formData, sender_match: e.target.value })}
+                  placeholder="viator.com"
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Numeric dates are written as
+                </label>
+                <select
+                  value={formData.date_order}
+                  onChange={(e) => setFormData({ ...formData, date_order: e.target.value as DateOrder })}
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                >
+                  {dateOrders.map((order) => (
+                    <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Field patterns
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {emailDraftFields.map((field) => (
+                  <div key={field}>
+                    <span className="block text-xs text-gray-500 mb-1">
+                      {EMAIL_DRAFT_FIELD_LABELS[field]}
+                    </span>
+                    <input
+                      type="text"
+                      value={formData.fields[field] ?? ''}
+                      onChange={(e) => setFieldPattern(field, e.target.value)}
+                      placeholder="Default labels"
+                      className="w-full px-3 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+              >
+                {editingId ? 'Save Template' : 'Add Template'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Company
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Sender contains
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Custom fields
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {templates.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No email templates yet
+                </td>
+              </tr>
+            ) : (
+              templates.map((template) => (
+                <tr key={template.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{template.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {companyName(template.company_id)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <code className="text-xs">{template.sender_match}</code>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {Object.keys(template.fields).length === 0
+                      ? 'Defaults only'
+                      : Object.keys(template.fields)
+                          .map((field) => EMAIL_DRAFT_FIELD_LABELS[field as keyof EmailTemplateFields])
+                          .join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                    <button
+                      onClick={() => openForm(template)}
+                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                      title="Edit template"
+                    >
+                      <Pencil className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="text-red-600 hover:text-red-900 transition-colors"
+                      title="Delete template"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </SettingsLayout>
+  );
+}
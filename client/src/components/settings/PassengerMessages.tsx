@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useData } from '../../contexts/DataContext';
+import {
+  DEFAULT_MESSAGE_TEMPLATES,
+  MESSAGE_CHANNEL_LABELS,
+  MESSAGE_EVENT_LABELS,
+  MESSAGE_FIELD_LABELS,
+  REMINDER_LEAD_HOURS,
+  messageChannels,
+  messageEvents,
+  messageFields,
+  renderMessage,
+  type MessageChannel,
+  type MessageEvent,
+  type MessageStatus,
+  type MessageValues,
+} from '@shared/messaging';
+import SettingsLayout from './SettingsLayout';
+
+interface MessageTemplate {
+  id: string;
+  company_id: string;
+  event: MessageEvent;
+  channel: MessageChannel;
+  body: string;
+  enabled: boolean;
+}
+
+interface PassengerMessage {
+  id: string;
+  event: MessageEvent;
+  channel: MessageChannel;
+  recipient: string | null;
+  body: string | null;
+  status: MessageStatus;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  projects: { client_name: string; booking_id: string | null } | null;
+}
+
+type TemplateDraft = Pick<MessageTemplate, 'channel' | 'body' | 'enabled'>;
+
+const MESSAGE_STATUS_STYLES: Record<MessageStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-700',
+};
+
+// What the preview fills the placeholders with
+const SAMPLE_VALUES: MessageValues = {
+  clientName: 'Anna Novak',
+  bookingId: '482910375',
+  date: '2026-11-03',
+  time: '09:30',
+  pickupLocation: 'Airport Terminal 1',
+  dropoffLocation: 'Grand Hotel',
+  passengers: '2',
+  driverName: 'Luka',
+  driverPhone: '+386 40 123 456',
+  vehicle: 'Mercedes V-Class LJ AB-123',
+};
+
+function draftsFor(templates: MessageTemplate[], companyId: string): Record<MessageEvent, TemplateDraft> {
+  const drafts = {} as Record<MessageEvent, TemplateDraft>;
+  for (const event of messageEvents) {
+    const template = templates.find(t => t.company_id === companyId && t.event === event);
+    drafts[event] = template
+      ? { channel: template.channel, body: template.body, enabled: template.enabled }
+      : { channel: 'sms', body: DEFAULT_MESSAGE_TEMPLATES[event], enabled: false };
+  }
+  return drafts;
+}
+
+export default function PassengerMessages() {
+  const { currentUser } = useAuth();
+  const { companies } = useData();
+  const [companyId, setCompanyId] = useState('');
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [drafts, setDrafts] = useState<Record<MessageEvent, TemplateDraft> | null>(null);
+  const [messages, setMessages] = useState<PassengerMessage[]>([]);
+  const [saving, setSaving] = useState<MessageEvent | null>(null);
+  const [saved, setSaved] = useState<MessageEvent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = async () => {
+    const { data, error } = await supabase
+      .from('message_templates')
+      .select('id, company_id, event, channel, body, enabled');
+
+    if (error) {
+      console.error('Error fetching message templates:', error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  const fetchMessages = async () => {
+    const { data, error } = await supabase
+      .from('passenger_messages')
+      .select('id, event, channel, recipient, body, status, attempts, last_error, created_at, projects(client_name, booking_id)')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching passenger messages:', error);
+      return;
+    }
+    setMessages((data || []) as unknown as PassengerMessage[]);
+  };
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchTemplates();
+      fetchMessages();
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!companyId && companies.length > 0) setCompanyId(companies[0].id);
+  }, [companies, companyId]);
+
+  useEffect(() => {
+    setDrafts(companyId ? draftsFor(templates, companyId) : null);
+    setSaved(null);
+  }, [companyId, templates]);
+
+  const updateDraft = (event: MessageEvent, changes: Partial<TemplateDraft>) => {
+    if (!drafts) return;
+    setDrafts({ ...drafts, [event]: { ...drafts[event], ...changes } });
+    setSaved(null);
+  };
+
+  const handleSave = async (event: MessageEvent) => {
+    if (!drafts) return;
+    const draft = drafts[event];
+    if (!draft.body.trim()) {
+      setError('The message cannot be empty');
+      return;
+    }
+
+    setError(null);
+    setSaving(event);
+    const { error } = await supabase
+      .from('message_templates')
+      .upsert(
+        [{ company_id: companyId, event, ...draft, body: draft.body.trim(), user_id: currentUser?.id }],
+        { onConflict: 'company_id,event' }
+      );
+    setSaving(null);
+
+    if (error) {
+      console.error('Error saving message template:', error);
+      setError('Failed to save the message. Please try again.');
+      return;
+    }
+    setSaved(event);
+    await fetchTemplates();
+  };
+
+  const companyName = companies.find(c => c.id === companyId)?.name;
+
+  return (
+    <SettingsLayout title="Passenger Messages">
+      <p className="text-sm text-gray-600 mb-6">
+        Messages sent to the client phone of a company's trips by SMS or WhatsApp, or to the customer's Telegram chat.
+        The booking confirmation goes out when a trip is created, the driver's details when a driver is assigned,
+        "on the way" when the driver starts the trip in the driver portal, and the reminder {REMINDER_LEAD_HOURS} hours
+        before pickup. Each message is written per company; placeholders in braces are filled in from the trip.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-6">{error}</div>
+      )}
+
+      {companies.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">Add a company first; messages are set up per company.</p>
+      ) : (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Company
+          </label>
+          <select
+            value={companyId}
+            onChange={(e) => setCompanyId(e.target.value)}
+            className="w-full sm:w-1/2 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+          >
+            {companies.map((company) => (
+              <option key={company.id} value={company.id}>{company.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {drafts && (
+        <div className="space-y-4 mb-6">
+          <p className="text-xs text-gray-500">
+            Placeholders:{' '}
+            {messageFields.map((field) => (
+              <code key={field} className="mr-2 px-1 bg-gray-100 rounded" title={MESSAGE_FIELD_LABELS[field]}>
+                {`{${field}}`}
+              </code>
+            ))}
+          </p>
+          {messageEvents.map((event) => {
+            const draft = drafts[event];
+            return (
+              <div key={event} className="bg-white rounded-lg shadow p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={draft.enabled}
+                      onChange={(e) => updateDraft(event, { enabled: e.target.checked })}
+                      className="rounded text-green-500 focus:ring-green-500"
+                    />
+                    <span>{MESSAGE_EVENT_LABELS[event]}</span>
+                  </label>
+                  <select
+                    value={draft.channel}
+                    onChange={(e) => updateDraft(event, { channel: e.target.value as MessageChannel })}
+                    className="px-3 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                  >
+                    {messageChannels.map((channel) => (
+                      <option key={channel} value={channel}>{MESSAGE_CHANNEL_LABELS[channel]}</option>
+                    ))}
+                  </select>
+                </div>
+                <textarea
+                  value={draft.body}
+                  onChange={(e) => updateDraft(event, { body: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-green-500"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Preview: {renderMessage(draft.body, { ...SAMPLE_VALUES, companyName })}
+                </p>
+                <div className="flex items-center justify-end space-x-3 mt-3">
+                  {saved === event && <span className="text-sm text-green-600">Saved</span>}
+                  <button
+                    type="button"
+                    onClick={() => updateDraft(event, { body: DEFAULT_MESSAGE_TEMPLATES[event] })}
+                    className="flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Default text
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSave(event)}
+                    disabled={saving === event}
+                    className="px-3 py-1.5 bg-green-500 text-white rounded-lg text-sm hover:bg-green-600 disabled:opacity-50"
+                  >
+                    {saving === event ? 'Saving…' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <h3 className="text-lg font-semibold mb-3">Recent Messages</h3>
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Trip
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Message
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {messages.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No messages yet
+                </td>
+              </tr>
+            ) : (
+              messages.map((message) => (
+                <tr key={message.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div>{message.projects?.client_name ?? '—'}</div>
+                    <div className="text-xs text-gray-500">
+                      {message.projects?.booking_id} · {new Date(message.created_at).toLocaleString()}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <div className="text-gray-900">
+                      {MESSAGE_EVENT_LABELS[message.event]} · {MESSAGE_CHANNEL_LABELS[message.channel]}
+                      {message.recipient && ` to ${message.recipient}`}
+                    </div>
+                    {message.body && <div className="text-xs">{message.body}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <span className={`px-2 py-1 text-xs rounded-full ${MESSAGE_STATUS_STYLES[message.status]}`}>
+                      {message.status}
+                    </span>
+                    {message.last_error && (
+                      <div className="mt-1 text-xs text-red-600">{message.last_error}</div>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </SettingsLayout>
+  );
+}
@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from 'react';
+import { Crosshair, Edit2, GitMerge, Trash2 } from 'lucide-react';
+import { normaliseAddress } from '@shared/geocoding';
+import { useData } from '../../contexts/DataContext';
+import { geocodeAddresses, positionOf } from '../../lib/geocoding';
+import { unplacedAddresses, type Place } from '../../lib/places';
+import SettingsLayout from './SettingsLayout';
+
+const emptyForm = {
+  name: '',
+  address: '',
+  lat: '',
+  lng: '',
+  aliases: '',
+  driver_instructions: '',
+};
+
+// How many unplaced addresses the merge tool lists at once
+const MERGE_LIST_LIMIT = 50;
+
+export default function Places() {
+  const { places, projects, addPlace, updatePlace, deletePlace, mergeIntoPlace } = useData();
+  const [showForm, setShowForm] = useState(false);
+  const [editingPlace, setEditingPlace] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [locating, setLocating] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const [mergePlaceId, setMergePlaceId] = useState('');
+  const [mergeFilter, setMergeFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
+  const [mergeMessage, setMergeMessage] = useState('');
+
+  const unplaced = useMemo(() => unplacedAddresses(projects, places), [projects, places]);
+  const listed = useMemo(() => {
+    const filter = normaliseAddress(mergeFilter);
+    return unplaced
+      .filter(({ address }) => !filter || normaliseAddress(address).includes(filter))
+      .slice(0, MERGE_LIST_LIMIT);
+  }, [unplaced, mergeFilter]);
+
+  const openForm = (place?: Place) => {
+    setEditingPlace(place?.id ?? null);
+    setFormData(place
+      ? {
+          name: place.name,
+          address: place.address,
+          lat: place.lat?.toString() ?? '',
+          lng: place.lng?.toString() ?? '',
+          aliases: (place.aliases ?? []).join('\n'),
+          driver_instructions: place.driver_instructions ?? '',
+        }
+      : emptyForm);
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingPlace(null);
+    setFormData(emptyForm);
+    setFormError('');
+    setShowForm(false);
+  };
+
+  // Fills in the coordinates from the geocoder
+  const locate = async () => {
+    setLocating(true);
+    setFormError('');
+    try {
+      const position = positionOf(await geocodeAddresses([formData.address]), formData.address);
+      if (position) {
+        setFormData({ ...formData, lat: position.lat.toString(), lng: position.lng.toString() });
+      } else {
+        setFormError('The address could not be found; enter the coordinates by hand');
+      }
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not locate the address');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((formData.lat === '') !== (formData.lng === '')) {
+      setFormError('Enter both latitude and longitude, or neither');
+      return;
+    }
+    // one alias per line; empty lines and the address itself are dropped
+    const address = formData.address.trim();
+    const aliases = Array.from(new Set(
+      formData.aliases
+        .split('\n')
+        .map(alias => alias.trim())
+        .filter(alias => alias && normaliseAddress(alias) !== normaliseAddress(address))
+    ));
+    const place = {
+      name: formData.name.trim(),
+      address,
+      lat: formData.lat === '' ? null : Number(formData.lat),
+      lng: formData.lng === '' ? null : Number(formData.lng),
+      aliases,
+      driver_instructions: formData.driver_instructions.trim() || null,
+    };
+
+    if (editingPlace) {
+      await updatePlace(editingPlace, place);
+    } else {
+      await addPlace(place);
+    }
+    closeForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this place? Trips keep their addresses.')) {
+      deletePlace(id);
+    }
+  };
+
+  const toggleSelected = (address: string) => {
+    setSelected(selected.includes(address)
+      ? selected.filter(a => a !== address)
+      : [...selected, address]);
+  };
+
+  const handleMerge = async () => {
+    const place = places.find(p => p.id === mergePlaceId);
+    if (!place || selected.length === 0) return;
+    if (!window.confirm(`Change ${selected.length} address${selected.length === 1 ? '' : 'es'} on all trips to "${place.address}"?`)) return;
+
+    setMerging(true);
+    setMergeMessage('');
+    try {
+      const changed = await mergeIntoPlace(place.id, selected);
+      setMergeMessage(`${changed} trip${changed === 1 ? '' : 's'} now use ${place.name}`);
+      setSelected([]);
+    } catch (err) {
+      setMergeMessage(err instanceof Error ? err.message : 'Could not merge the addresses');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <SettingsLayout
+      title="Places"
+      onAdd={() => openForm()}
+      addButtonText="Add Place"
+    >
+        {showForm && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingPlace ? 'Edit Place' : 'Add New Place'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g. Airport Terminal 2"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Address
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Latitude
+                  </label>
+                  <input
+                    type="number"
+                    min="-90"
+                    max="90"
+                    step="any"
+                    value={formData.lat}
+                    onChange={(e) => setFormData({ ...formData, lat: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Longitude
+                  </label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="-180"
+                      max="180"
+                      step="any"
+                      value={formData.lng}
+                      onChange={(e) => setFormData({ ...formData, lng: e.target.value })}
+                      className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={locate}
+                      disabled={!formData.address.trim() || locating}
+                      title="Look the coordinates up from the address"
+                      className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Crosshair className="w-4 h-4 mr-1" />
+                      {locating ? 'Locating…' : 'Locate'}
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Aliases
+                  </label>
+                  <textarea
+                    value={formData.aliases}
+                    onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+                    placeholder={'Other spellings, one per line\ne.g. Airport T2'}
+                    rows={3}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Driver Instructions
+                  </label>
+                  <textarea
+                    value={formData.driver_instructions}
+                    onChange={(e) => setFormData({ ...formData, driver_instructions: e.target.value })}
+                    placeholder="e.g. Meet the guests at the arrivals exit B"
+                    rows={3}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </div>
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+              <div className="flex justify-end space-x-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                >
+                  {editingPlace ? 'Update Place' : 'Add Place'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Place
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aliases
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Driver Instructions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {places.map((place) => (
+                <tr key={place.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div className="font-medium">{place.name}</div>
+                    <div className="text-gray-500">{place.address}</div>
+                    {place.lat !== null && place.lng !== null && (
+                      <div className="text-xs text-gray-400">{place.lat.toFixed(5)}, {place.lng.toFixed(5)}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {(place.aliases ?? []).length > 0 ? place.aliases.join(' · ') : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {place.driver_instructions || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                    <button
+                      onClick={() => openForm(place)}
+                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(place.id)}
+                      className="text-red-600 hover:text-red-900 transition-colors"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {places.length > 0 && unplaced.length > 0 && (
+          <div className="p-6 border-t border-gray-200">
+            <h3 className="text-lg font-semibold mb-1 flex items-center">
+              <GitMerge className="w-5 h-5 mr-2 text-green-600" />
+              Merge Addresses
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Addresses typed on trips that belong to no place yet. Merging changes them on every trip and recurring series to
+              the place's address and keeps them as aliases, so the same spelling is recognised next time.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-3">
+              <select
+                value={mergePlaceId}
+                onChange={(e) => setMergePlaceId(e.target.value)}
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+              >
+                <option value="">Select Place</option>
+                {places.map((place) => (
+                  <option key={place.id} value={place.id}>{place.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={mergeFilter}
+                onChange={(e) => setMergeFilter(e.target.value)}
+                placeholder="Filter addresses, e.g. airport"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+            <ul className="max-h-72 overflow-y-auto border rounded-lg divide-y divide-gray-100 mb-3">
+              {listed.map(({ address, trips }) => (
+                <li key={address}>
+                  <label className="flex items-center px-4 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(address)}
+                      onChange={() => toggleSelected(address)}
+                      className="mr-3"
+                    />
+                    <span className="flex-1 min-w-0 truncate text-gray-900">{address}</span>
+                    <span className="ml-2 text-xs text-gray-500">{trips} trip{trips === 1 ? '' : 's'}</span>
+                  </label>
+                </li>
+              ))}
+              {listed.length === 0 && (
+                <li className="px-4 py-2 text-sm text-gray-500">No matching addresses</li>
+              )}
+            </ul>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">{mergeMessage}</span>
+              <button
+                type="button"
+                onClick={handleMerge}
+                disabled={!mergePlaceId || selected.length === 0 || merging}
+                className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                {merging ? 'Merging…' : `Merge ${selected.length || ''} into place`}
+              </button>
+            </div>
+          </div>
+        )}
+    </SettingsLayout>
+  );
+}
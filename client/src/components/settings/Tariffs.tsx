@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { Edit2, Plus, Trash2, X } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { tariffFor, type Tariff } from '../../lib/tariffs';
+import SettingsLayout from './SettingsLayout';
+
+const emptyRoute = { from: '', to: '', price: '' };
+
+const emptyForm = {
+  company_id: '',
+  car_type_id: '',
+  base_fare: '',
+  per_km: '',
+  per_minute: '',
+  minimum_fare: '',
+  night_surcharge_percent: '',
+  night_start: '22:00',
+  night_end: '06:00',
+  holiday_surcharge_percent: '',
+  holiday_dates: '',
+  fixed_routes: [] as typeof emptyRoute[],
+  driver_fee_percent: '',
+};
+
+const numberFields = [
+  'base_fare',
+  'per_km',
+  'per_minute',
+  'minimum_fare',
+  'night_surcharge_percent',
+  'holiday_surcharge_percent',
+  'driver_fee_percent',
+] as const;
+
+function formatMoney(amount: number) {
+  return `€${Number(amount).toFixed(2)}`;
+}
+
+export default function Tariffs() {
+  const { tariffs, companies, carTypes, addTariff, updateTariff, deleteTariff } = useData();
+  const [showForm, setShowForm] = useState(false);
+  const [editingTariff, setEditingTariff] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+
+  const companyName = (id: string) => companies.find((c) => c.id === id)?.name ?? 'Unknown company';
+  const carTypeName = (id: string) => carTypes.find((c) => c.id === id)?.name ?? 'Unknown car type';
+
+  const openForm = (tariff?: Tariff) => {
+    setEditingTariff(tariff?.id ?? null);
+    setFormError('');
+    setFormData(tariff
+      ? {
+          company_id: tariff.company_id,
+          car_type_id: tariff.car_type_id,
+          ...Object.fromEntries(numberFields.map((field) => [field, String(tariff[field])])) as Record<(typeof numberFields)[number], string>,
+          night_start: tariff.night_start.slice(0, 5),
+          night_end: tariff.night_end.slice(0, 5),
+          holiday_dates: (tariff.holiday_dates ?? []).join('\n'),
+          fixed_routes: (tariff.fixed_routes ?? []).map((route) => ({ ...route, price: String(route.price) })),
+        }
+      : emptyForm);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingTariff(null);
+    setFormData(emptyForm);
+    setFormError('');
+    setShowForm(false);
+  };
+
+  const updateRoute = (index: number, changes: Partial<typeof emptyRoute>) => {
+    setFormData({
+      ...formData,
+      fixed_routes: formData.fixed_routes.map((route, i) => (i === index ? { ...route, ...changes } : route)),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const existing = tariffFor(tariffs, formData.company_id, formData.car_type_id);
+    if (existing && existing.id !== editingTariff) {
+      setFormError(`${companyName(formData.company_id)} already has a tariff for ${carTypeName(formData.car_type_id)}`);
+      return;
+    }
+    const holidayDates = formData.holiday_dates.split(/[\s,]+/).filter(Boolean);
+    const invalidDate = holidayDates.find((date) => !/^\d{4}-\d{2}-\d{2}$/.test(date));
+    if (invalidDate) {
+      setFormError(`Holiday dates must be YYYY-MM-DD, got "${invalidDate}"`);
+      return;
+    }
+
+    // empty amounts are stored as 0
+    const tariff = {
+      company_id: formData.company_id,
+      car_type_id: formData.car_type_id,
+      ...Object.fromEntries(numberFields.map((field) => [field, parseFloat(formData[field]) || 0])) as Record<(typeof numberFields)[number], number>,
+      night_start: formData.night_start,
+      night_end: formData.night_end,
+      holiday_dates: holidayDates,
+      fixed_routes: formData.fixed_routes
+        .filter((route) => route.from.trim() && route.to.trim())
+        .map((route) => ({ from: route.from.trim(), to: route.to.trim(), price: parseFloat(route.price) || 0 })),
+    };
+
+    if (editingTariff) {
+      await updateTariff(editingTariff, tariff);
+    } else {
+      await addTariff(tariff);
+    }
+    closeForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this tariff? Trips keep their prices.')) {
+      deleteTariff(id);
+    }
+  };
+
+  const numberInput = (field: (typeof numberFields)[number], label: string, step = '0.01', max?: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <input
+        type="number"
+        min="0"
+        max={max}
+        step={step}
+        value={formData[field]}
+        onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+        placeholder="0"
+        className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+      />
+    </div>
+  );
+
+  return (
+    <SettingsLayout
+      title="Tariffs"
+      onAdd={() => openForm()}
+      addButtonText="Add Tariff"
+    >
+        {showForm && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingTariff ? 'Edit Tariff' : 'Add New Tariff'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Company</label>
+                  <select
+                    value={formData.company_id}
+                    onChange={(e) => setFormData({ ...formData, company_id: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  >
+                    <option value="">Select Company</option>
+                    {companies.map((company) => (
+                      <option key={company.id} value={company.id}>{company.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Car Type</label>
+                  <select
+                    value={formData.car_type_id}
+                    onChange={(e) => setFormData({ ...formData, car_type_id: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  >
+                    <option value="">Select Car Type</option>
+                    {carTypes.map((carType) => (
+                      <option key={carType.id} value={carType.id}>{carType.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {numberInput('base_fare', 'Base Fare')}
+                {numberInput('minimum_fare', 'Minimum Fare')}
+                {numberInput('per_km', 'Per Kilometre')}
+                {numberInput('per_minute', 'Per Minute')}
+                {numberInput('night_surcharge_percent', 'Night Surcharge (%)')}
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Night From</label>
+                    <input
+                      type="time"
+                      value={formData.night_start}
+                      onChange={(e) => setFormData({ ...formData, night_start: e.target.value })}
+                      className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Night Until</label>
+                    <input
+                      type="time"
+                      value={formData.night_end}
+                      onChange={(e) => setFormData({ ...formData, night_end: e.target.value })}
+                      className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                      required
+                    />
+                  </div>
+                </div>
+                {numberInput('holiday_surcharge_percent', 'Holiday Surcharge (%)')}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Holiday Dates
+                    <span className="text-xs text-gray-500 block mt-1">One YYYY-MM-DD per line</span>
+                  </label>
+                  <textarea
+                    value={formData.holiday_dates}
+                    onChange={(e) => setFormData({ ...formData, holiday_dates: e.target.value })}
+                    rows={3}
+                    placeholder={'2026-12-25\n2027-01-01'}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                {numberInput('driver_fee_percent', 'Driver Fee (% of price)', '0.01', '100')}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Fixed Routes
+                    <span className="text-xs text-gray-500 block mt-1">
+                      A flat price when the pickup and drop-off contain these places, in either direction
+                    </span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, fixed_routes: [...formData.fixed_routes, emptyRoute] })}
+                    className="flex items-center text-sm text-green-600 hover:text-green-800"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Route
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {formData.fixed_routes.map((route, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={route.from}
+                        onChange={(e) => updateRoute(index, { from: e.target.value })}
+                        placeholder="e.g. Airport"
+                        className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={route.to}
+                        onChange={(e) => updateRoute(index, { to: e.target.value })}
+                        placeholder="e.g. City Centre"
+                        className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={route.price}
+                        onChange={(e) => updateRoute(index, { price: e.target.value })}
+                        placeholder="Price"
+                        className="w-28 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-green-500 text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFormData({
+                          ...formData,
+                          fixed_routes: formData.fixed_routes.filter((_, i) => i !== index),
+                        })}
+                        className="text-red-600 hover:text-red-900"
+                        title="Remove route"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+              <div className="flex justify-end space-x-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                >
+                  {editingTariff ? 'Update Tariff' : 'Add Tariff'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Company
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Car Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fare
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Surcharges
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Driver Fee
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {tariffs.map((tariff) => (
+                <tr key={tariff.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {companyName(tariff.company_id)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {carTypeName(tariff.car_type_id)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <div>
+                      {formatMoney(tariff.base_fare)} + {formatMoney(tariff.per_km)}/km + {formatMoney(tariff.per_minute)}/min
+                    </div>
+                    {Number(tariff.minimum_fare) > 0 && (
+                      <div className="text-xs text-gray-400">Minimum {formatMoney(tariff.minimum_fare)}</div>
+                    )}
+                    {(tariff.fixed_routes ?? []).map((route, index) => (
+                      <div key={index} className="text-xs text-gray-400">
+                        {route.from} – {route.to}: {formatMoney(route.price)}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {Number(tariff.night_surcharge_percent) > 0 && (
+                      <div>
+                        Night +{Number(tariff.night_surcharge_percent)}% ({tariff.night_start.slice(0, 5)}–{tariff.night_end.slice(0, 5)})
+                      </div>
+                    )}
+                    {Number(tariff.holiday_surcharge_percent) > 0 && (
+                      <div>
+                        Holidays +{Number(tariff.holiday_surcharge_percent)}% ({(tariff.holiday_dates ?? []).length} dates)
+                      </div>
+                    )}
+                    {!Number(tariff.night_surcharge_percent) && !Number(tariff.holiday_surcharge_percent) && '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {Number(tariff.driver_fee_percent) > 0 ? `${Number(tariff.driver_fee_percent)}%` : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                    <button
+                      onClick={() => openForm(tariff)}
+                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(tariff.id)}
+                      className="text-red-600 hover:text-red-900 transition-colors"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+    </SettingsLayout>
+  );
+}
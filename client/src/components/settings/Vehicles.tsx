@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Edit2, Trash2 } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import {
+  VEHICLE_DOCUMENT_COLUMNS,
+  VEHICLE_DOCUMENT_LABELS,
+  describeExpiry,
+  documentExpiries,
+  vehicleDocuments,
+} from '../../lib/vehicles';
+import SettingsLayout from './SettingsLayout';
+
+interface Vehicle {
+  id: string;
+  plate: string;
+  model: string | null;
+  car_type_id: string | null;
+  seats: number;
+  odometer_km: number | null;
+  insurance_expires_on: string | null;
+  inspection_expires_on: string | null;
+  registration_expires_on: string | null;
+  default_driver_id: string | null;
+}
+
+const emptyForm = {
+  plate: '',
+  model: '',
+  car_type_id: '',
+  seats: 4,
+  odometer_km: '',
+  insurance_expires_on: '',
+  inspection_expires_on: '',
+  registration_expires_on: '',
+  default_driver_id: '',
+};
+
+export default function Vehicles() {
+  const { vehicles, carTypes, drivers, addVehicle, updateVehicle, deleteVehicle } = useData();
+  const [showForm, setShowForm] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const expiring = vehicles
+    .map((vehicle) => ({ vehicle, expiries: documentExpiries(vehicle) }))
+    .filter(({ expiries }) => expiries.length > 0);
+
+  const openForm = (vehicle?: Vehicle) => {
+    setEditingVehicle(vehicle?.id ?? null);
+    setFormData(vehicle
+      ? {
+          plate: vehicle.plate,
+          model: vehicle.model ?? '',
+          car_type_id: vehicle.car_type_id ?? '',
+          seats: vehicle.seats,
+          odometer_km: vehicle.odometer_km?.toString() ?? '',
+          insurance_expires_on: vehicle.insurance_expires_on ?? '',
+          inspection_expires_on: vehicle.inspection_expires_on ?? '',
+          registration_expires_on: vehicle.registration_expires_on ?? '',
+          default_driver_id: vehicle.default_driver_id ?? '',
+        }
+      : emptyForm);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingVehicle(null);
+    setFormData(emptyForm);
+    setShowForm(false);
+  };
+
+  // A car type fills in its seats when none were entered by hand
+  const selectCarType = (carTypeId: string) => {
+    const carType = carTypes.find((c) => c.id === carTypeId);
+    setFormData({
+      ...formData,
+      car_type_id: carTypeId,
+      seats: carType && formData.seats === emptyForm.seats ? carType.capacity : formData.seats,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // empty optional fields are stored as null
+    const vehicle = {
+      plate: formData.plate.trim(),
+      model: formData.model.trim() || null,
+      car_type_id: formData.car_type_id || null,
+      seats: formData.seats,
+      odometer_km: formData.odometer_km === '' ? null : parseInt(formData.odometer_km, 10),
+      insurance_expires_on: formData.insurance_expires_on || null,
+      inspection_expires_on: formData.inspection_expires_on || null,
+      registration_expires_on: formData.registration_expires_on || null,
+      default_driver_id: formData.default_driver_id || null,
+    };
+
+    if (editingVehicle) {
+      await updateVehicle(editingVehicle, vehicle);
+    } else {
+      await addVehicle(vehicle);
+    }
+    closeForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this vehicle? Trips keep their car type but lose the vehicle.')) {
+      deleteVehicle(id);
+    }
+  };
+
+  return (
+    <SettingsLayout
+      title="Vehicles"
+      onAdd={() => openForm()}
+      addButtonText="Add Vehicle"
+    >
+        {expiring.length > 0 && (
+          <div className="m-4 p-4 bg-amber-50 border border-amber-300 rounded-lg">
+            <div className="flex items-center text-amber-800 font-medium mb-2">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              Documents expiring soon
+            </div>
+            <ul className="space-y-1 text-sm">
+              {expiring.map(({ vehicle, expiries }) => (
+                <li key={vehicle.id} className="text-amber-900">
+                  <span className="font-medium">{vehicle.plate}</span>:{' '}
+                  {expiries.map((expiry) => (
+                    <span
+                      key={expiry.document}
+                      className={`mr-3 ${expiry.daysLeft < 0 ? 'text-red-700 font-medium' : ''}`}
+                    >
+                      {describeExpiry(expiry)} ({expiry.expiresOn})
+                    </span>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {showForm && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingVehicle ? 'Edit Vehicle' : 'Add New Vehicle'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Plate
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.plate}
+                    onChange={(e) => setFormData({ ...formData, plate: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Model
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.model}
+                    onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                    placeholder="e.g. Mercedes V-Class"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Car Type
+                  </label>
+                  <select
+                    value={formData.car_type_id}
+                    onChange={(e) => selectCarType(e.target.value)}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">Select Car Type</option>
+                    {carTypes.map((carType) => (
+                      <option key={carType.id} value={carType.id}>{carType.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Seats
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.seats}
+                    onChange={(e) => setFormData({ ...formData, seats: parseInt(e.target.value) })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Default Driver
+                  </label>
+                  <select
+                    value={formData.default_driver_id}
+                    onChange={(e) => setFormData({ ...formData, default_driver_id: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">No default driver</option>
+                    {drivers.map((driver) => (
+                      <option key={driver.id} value={driver.id}>{driver.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Odometer (km)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.odometer_km}
+                    onChange={(e) => setFormData({ ...formData, odometer_km: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                {vehicleDocuments.map((document) => (
+                  <div key={document}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {VEHICLE_DOCUMENT_LABELS[document]} Expires
+                    </label>
+                    <input
+                      type="date"
+                      value={formData[VEHICLE_DOCUMENT_COLUMNS[document]]}
+                      onChange={(e) => setFormData({ ...formData, [VEHICLE_DOCUMENT_COLUMNS[document]]: e.target.value })}
+                      className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-4">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                >
+                  {editingVehicle ? 'Update Vehicle' : 'Add Vehicle'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Vehicle
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Car Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Seats
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Default Driver
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Documents
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {vehicles.map((vehicle) => {
+                const expiries = documentExpiries(vehicle);
+                return (
+                  <tr key={vehicle.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="font-medium">{vehicle.plate}</div>
+                      {vehicle.model && <div className="text-gray-500">{vehicle.model}</div>}
+                      {vehicle.odometer_km !== null && (
+                        <div className="text-xs text-gray-400">{vehicle.odometer_km.toLocaleString()} km</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {carTypes.find((c) => c.id === vehicle.car_type_id)?.name ?? '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {vehicle.seats}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {drivers.find((d) => d.id === vehicle.default_driver_id)?.name ?? '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {expiries.length === 0 ? (
+                        <span className="text-green-600">Up to date</span>
+                      ) : (
+                        expiries.map((expiry) => (
+                          <div
+                            key={expiry.document}
+                            className={expiry.daysLeft < 0 ? 'text-red-600 font-medium' : 'text-amber-600'}
+                          >
+                            {describeExpiry(expiry)}
+                          </div>
+                        ))
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                      <button
+                        onClick={() => openForm(vehicle)}
+                        className="text-blue-600 hover:text-blue-900 transition-colors"
+                      >
+                        <Edit2 className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(vehicle.id)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+    </SettingsLayout>
+  );
+}
@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, Eye, EyeOff, Copy, Check, History } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  WEBHOOK_EVENT_LABELS,
+  generateWebhookSecret,
+  webhookEvents,
+  webhookUrlError,
+  type WebhookEvent,
+} from '@shared/webhooks';
+import SettingsLayout from './SettingsLayout';
+
+interface Webhook {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function Webhooks() {
+  const { currentUser } = useAuth();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [copiedSecret, setCopiedSecret] = useState<string | null>(null);
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    url: '',
+    description: '',
+    events: [...webhookEvents] as WebhookEvent[],
+  });
+
+  const fetchWebhooks = async () => {
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return;
+    }
+    setWebhooks(data || []);
+  };
+
+  const fetchDeliveries = async (webhook: Webhook) => {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, event, status, attempts, next_attempt_at, response_status, last_error, created_at')
+      .eq('webhook_id', webhook.id)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return;
+    }
+    setDeliveries(data || []);
+  };
+
+  useEffect(() => {
+    if (currentUser) fetchWebhooks();
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (logWebhook) fetchDeliveries(logWebhook);
+  }, [logWebhook]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setFormData((current) => ({
+      ...current,
+      events: current.events.includes(event)
+        ? current.events.filter((e) => e !== event)
+        : [...current.events, event],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const urlError = webhookUrlError(formData.url);
+    if (urlError) {
+      setError(urlError);
+      return;
+    }
+    if (formData.events.length === 0) {
+      setError('Select at least one event');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('webhooks')
+      .insert([{
+        url: formData.url,
+        description: formData.description || null,
+        events: formData.events,
+        secret: generateWebhookSecret(),
+        user_id: currentUser?.id
+      }]);
+
+    if (error) {
+      console.error('Error creating webhook:', error);
+      setError('Failed to create webhook. Please try again.');
+      return;
+    }
+
+    setFormData({ url: '', description: '', events: [...webhookEvents] });
+    setShowForm(false);
+    await fetchWebhooks();
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    const { error } = await supabase
+      .from('webhooks')
+      .update({ active: !webhook.active })
+      .eq('id', webhook.id);
+
+    if (error) {
+      console.error('Error updating webhook:', error);
+      return;
+    }
+    await fetchWebhooks();
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm('Delete this webhook and its delivery log?')) return;
+
+    const { error } = await supabase
+      .from('webhooks')
+      .delete()
+      .eq('id', webhook.id);
+
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      return;
+    }
+    if (logWebhook?.id === webhook.id) setLogWebhook(null);
+    await fetchWebhooks();
+  };
+
+  const handleCopySecret = async (webhook: Webhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    setCopiedSecret(webhook.id);
+  };
+
+  return (
+    <SettingsLayout
+      title="Webhooks"
+      onAdd={() => setShowForm(true)}
+      addButtonText="Add Webhook"
+    >
+      <p className="text-sm text-gray-600 mb-6">
+        Webhooks send a signed <code className="px-1 bg-gray-100 rounded">POST</code> request to
+        your URL when trips and payments change. Verify the{' '}
+        <code className="px-1 bg-gray-100 rounded">X-RidePilot-Signature</code> header with the
+        webhook's secret. Failed deliveries are retried with increasing delays for about a day.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-6">{error}</div>
+      )}
+
+      {showForm && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">Add New Webhook</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Endpoint URL
+              </label>
+              <input
+                type="url"
+                value={formData.url}
+                onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                placeholder="https://example.com/ridepilot/webhooks"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Description
+              </label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Events
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {webhookEvents.map((event) => (
+                  <label key={event} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.events.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                      className="rounded text-green-500 focus:ring-green-500"
+                    />
+                    <span>{WEBHOOK_EVENT_LABELS[event]}</span>
+                    <code className="text-xs text-gray-400">{event}</code>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+              >
+                Add Webhook
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Endpoint
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Events
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Secret
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Active
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {webhooks.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No webhooks yet
+                </td>
+              </tr>
+            ) : (
+              webhooks.map((webhook) => (
+                <tr key={webhook.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div className="break-all">{webhook.url}</div>
+                    {webhook.description && (
+                      <div className="text-gray-500">{webhook.description}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {webhook.events.map((event) => (
+                      <div key={event}><code className="text-xs">{event}</code></div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex items-center space-x-2">
+                      <code className="text-xs">
+                        {revealedSecret === webhook.id ? webhook.secret : 'whsec_••••••••'}
+                      </code>
+                      <button
+                        onClick={() => setRevealedSecret(revealedSecret === webhook.id ? null : webhook.id)}
+                        className="text-gray-500 hover:text-gray-700"
+                        title={revealedSecret === webhook.id ? 'Hide secret' : 'Show secret'}
+                      >
+                        {revealedSecret === webhook.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleCopySecret(webhook)}
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Copy secret"
+                      >
+                        {copiedSecret === webhook.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <input
+                      type="checkbox"
+                      checked={webhook.active}
+                      onChange={() => handleToggleActive(webhook)}
+                      className="rounded text-green-500 focus:ring-green-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                    <button
+                      onClick={() => setLogWebhook(webhook)}
+                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                      title="Delivery log"
+                    >
+                      <History className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook)}
+                      className="text-red-600 hover:text-red-900 transition-colors"
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {logWebhook && (
+        <div className="bg-white rounded-lg shadow overflow-hidden mt-6">
+          <div className="flex items-center justify-between px-6 py-4 border-b">
+            <div>
+              <h3 className="text-lg font-semibold">Delivery Log</h3>
+              <p className="text-sm text-gray-500 break-all">{logWebhook.url}</p>
+            </div>
+            <div className="space-x-4">
+              <button
+                onClick={() => fetchDeliveries(logWebhook)}
+                className="text-sm text-green-600 hover:text-green-800"
+              >
+                Refresh
+              </button>
+              <button
+                onClick={() => setLogWebhook(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Event
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Attempts
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Response
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {deliveries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                    No deliveries yet
+                  </td>
+                </tr>
+              ) : (
+                deliveries.map((delivery) => (
+                  <tr key={delivery.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(delivery.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <code className="text-xs">{delivery.event}</code>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Next retry {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {delivery.attempts}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {delivery.response_status ?? '—'}
+                      {delivery.last_error && (
+                        <div className="text-xs text-red-600">{delivery.last_error}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </SettingsLayout>
+  );
+}
@@ -2,12 +2,20 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { supabase } from '../lib/supabase';
 import { useAuth } from './AuthContext';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { createSeries, endSeries, extendAllSeries, updateSeries, type TripSeries } from '../lib/tripSeries';
+import { compareLegs } from '../lib/itineraries';
+import type { DriverAvailability } from '../lib/driverAvailability';
+import type { Tariff } from '../lib/tariffs';
+import { withAliases, type Place } from '../lib/places';
+import { findCustomer, phoneKey, type Customer } from '../lib/customers';
+import { tripRoute, withRoute } from '../lib/routing';
 
 interface Company {
   id: string;
   name: string;
   address: string;
   phone: string;
+  inbound_token?: string;
 }
 
 interface CarType {
@@ -18,6 +26,19 @@ interface CarType {
   description: string;
 }
 
+interface Vehicle {
+  id: string;
+  plate: string;
+  model: string | null;
+  car_type_id: string | null;
+  seats: number;
+  odometer_km: number | null;
+  insurance_expires_on: string | null;
+  inspection_expires_on: string | null;
+  registration_expires_on: string | null;
+  default_driver_id: string | null;
+}
+
 interface Driver {
   id: string;
   name: string;
@@ -37,16 +58,34 @@ interface Project {
   date: string;
   time: string;
   passengers: number;
+  luggage?: number;
   pickupLocation: string;
   dropoffLocation: string;
   carType: string;
+  vehicle?: string | null;
   price: number;
   driverFee?: number | null; // Optional driver fee field
+  priceOverridden?: boolean; // price entered by hand rather than from the tariff
   clientName: string;
   clientPhone: string;
+  customerId?: string | null;
   paymentStatus: 'paid' | 'charge';
-  distance?: string;
+  distanceKm?: number | null; // road distance, looked up when the trip is saved
+  durationMinutes?: number | null;
   bookingId?: string;
+  source?: 'manual' | 'inbound' | 'email';
+  seriesId?: string | null;
+  itineraryId?: string | null;
+  legNumber?: number | null;
+}
+
+interface Itinerary {
+  id: string;
+  reference: string;
+  company_id: string | null;
+  client_name: string;
+  client_phone: string | null;
+  created_at: string;
 }
 
 interface Payment {
@@ -64,21 +103,53 @@ interface DataContextType {
   companies: Company[];
   drivers: Driver[];
   carTypes: CarType[];
+  vehicles: Vehicle[];
+  driverAvailability: DriverAvailability[];
+  tariffs: Tariff[];
+  places: Place[];
+  customers: Customer[];
   projects: Project[];
+  itineraries: Itinerary[];
   payments: Payment[];
   addCompany: (company: Omit<Company, 'id'>) => Promise<Company | null>;
   addDriver: (driver: Omit<Driver, 'id'>) => Promise<void>;
   addCarType: (carType: Omit<CarType, 'id'>) => Promise<void>;
+  addVehicle: (vehicle: Omit<Vehicle, 'id'>) => Promise<void>;
+  addDriverAvailability: (entries: Omit<DriverAvailability, 'id'>[]) => Promise<void>;
+  addTariff: (tariff: Omit<Tariff, 'id'>) => Promise<void>;
+  addPlace: (place: Omit<Place, 'id'>) => Promise<void>;
+  mergeIntoPlace: (placeId: string, addresses: string[]) => Promise<number>;
+  addCustomer: (customer: Omit<Customer, 'id' | 'phone_key'>) => Promise<Customer | null>;
   addProject: (project: Omit<Project, 'id' | 'status'>) => Promise<void>;
+  importProjects: (
+    newProjects: Omit<Project, 'id' | 'status'>[],
+    updates: { id: string; changes: Partial<Project> }[],
+    onProgress?: (done: number) => void,
+  ) => Promise<void>;
+  addProjectSeries: (project: Omit<Project, 'id' | 'status'>, rule: string) => Promise<number>;
+  updateProjectSeries: (seriesId: string, changes: Partial<Project>) => Promise<void>;
+  endProjectSeries: (series: TripSeries, lastDate: string) => Promise<void>;
+  addItinerary: (legs: Omit<Project, 'id' | 'status'>[]) => Promise<void>;
+  addItineraryLegs: (projectId: string, legs: Omit<Project, 'id' | 'status'>[]) => Promise<void>;
   addPayment: (payment: Omit<Payment, 'id' | 'created_at' | 'completed_at'>) => Promise<void>;
   updatePayment: (id: string, payment: Partial<Payment>) => Promise<void>;
   deletePayment: (id: string) => Promise<void>;
   completePayment: (id: string) => Promise<void>;
   deleteDriver: (id: string) => Promise<void>;
   deleteCarType: (id: string) => Promise<void>;
+  deleteVehicle: (id: string) => Promise<void>;
+  deleteDriverAvailability: (id: string) => Promise<void>;
+  deleteTariff: (id: string) => Promise<void>;
+  deletePlace: (id: string) => Promise<void>;
+  deleteCustomer: (id: string) => Promise<void>;
   deleteCompany: (id: string) => Promise<void>;
   updateCompany: (id: string, company: Partial<Company>) => Promise<void>;
   updateCarType: (id: string, carType: Partial<CarType>) => Promise<void>;
+  updateVehicle: (id: string, vehicle: Partial<Vehicle>) => Promise<void>;
+  updateDriverAvailability: (id: string, entry: Partial<DriverAvailability>) => Promise<void>;
+  updateTariff: (id: string, tariff: Partial<Tariff>) => Promise<void>;
+  updatePlace: (id: string, place: Partial<Place>) => Promise<void>;
+  updateCustomer: (id: string, customer: Partial<Customer>) => Promise<void>;
   updateDriver: (id: string, driver: Partial<Driver>) => Promise<void>;
   updateProject: (id: string, project: Partial<Project>) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
@@ -87,6 +158,8 @@ interface DataContextType {
   error: string | null;
 }
 
+const IMPORT_BATCH_SIZE = 100;
+
 const DataContext = createContext<DataContextType | null>(null);
 
 export function useData() {
@@ -101,7 +174,13 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   const [companies, setCompanies] = useState<Company[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [carTypes, setCarTypes] = useState<CarType[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [driverAvailability, setDriverAvailability] = useState<DriverAvailability[]>([]);
+  const [tariffs, setTariffs] = useState<Tariff[]>([]);
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -130,7 +209,13 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
         fetchCompanies(),
         fetchDrivers(),
         fetchCarTypes(),
+        fetchVehicles(),
+        fetchDriverAvailability(),
+        fetchTariffs(),
+        fetchPlaces(),
+        fetchCustomers(),
         fetchProjects(),
+        fetchItineraries(),
         fetchPayments()
       ]).then(results => {
         // Check if any fetches failed
@@ -159,7 +244,13 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       setCompanies([]);
       setDrivers([]);
       setCarTypes([]);
+      setVehicles([]);
+      setDriverAvailability([]);
+      setTariffs([]);
+      setPlaces([]);
+      setCustomers([]);
       setProjects([]);
+      setItineraries([]);
       setPayments([]);
       setDataFetched(false);
       setRetryCount(0);
@@ -167,6 +258,17 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }
   }, [currentUser, dataFetched, retryCount]);
 
+  // Generate the upcoming trips of recurring series once the data is loaded
+  useEffect(() => {
+    if (!currentUser?.id || !dataFetched) return;
+
+    extendAllSeries(currentUser.id)
+      .then(created => {
+        if (created > 0) return fetchProjects();
+      })
+      .catch(err => console.error('Error generating recurring trips:', err));
+  }, [currentUser?.id, dataFetched]);
+
   // Set up real-time subscription for projects
   useEffect(() => {
     if (!currentUser?.id || !dataFetched) return;
@@ -223,13 +325,21 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
             company: newRecord.company_id,
             driver: newRecord.driver_id,
             carType: newRecord.car_type_id,
+            vehicle: newRecord.vehicle_id,
             pickupLocation: newRecord.pickup_location,
             dropoffLocation: newRecord.dropoff_location,
             clientName: newRecord.client_name,
             clientPhone: newRecord.client_phone,
+            customerId: newRecord.customer_id,
             paymentStatus: newRecord.payment_status,
             bookingId: newRecord.booking_id,
             driverFee: newRecord.driver_fee,
+            priceOverridden: newRecord.price_overridden,
+            distanceKm: newRecord.distance_km,
+            durationMinutes: newRecord.duration_minutes,
+            seriesId: newRecord.series_id,
+            itineraryId: newRecord.itinerary_id,
+            legNumber: newRecord.leg_number,
           };
           
           setProjects(prev => {
@@ -249,13 +359,21 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
             company: newRecord.company_id,
             driver: newRecord.driver_id,
             carType: newRecord.car_type_id,
+            vehicle: newRecord.vehicle_id,
             pickupLocation: newRecord.pickup_location,
             dropoffLocation: newRecord.dropoff_location,
             clientName: newRecord.client_name,
             clientPhone: newRecord.client_phone,
+            customerId: newRecord.customer_id,
             paymentStatus: newRecord.payment_status,
             bookingId: newRecord.booking_id,
             driverFee: newRecord.driver_fee,
+            priceOverridden: newRecord.price_overridden,
+            distanceKm: newRecord.distance_km,
+            durationMinutes: newRecord.duration_minutes,
+            seriesId: newRecord.series_id,
+            itineraryId: newRecord.itinerary_id,
+            legNumber: newRecord.leg_number,
           };
 
           setProjects(prev => prev.map(project =>
@@ -293,6 +411,24 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   };
 
   // Add error handling to all data fetch functions
+  async function fetchItineraries() {
+    try {
+      const { data, error } = await supabase
+        .from('itineraries')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+      setItineraries(data || []);
+    } catch (err) {
+      console.error('Error fetching itineraries:', err);
+      throw err;
+    }
+  }
+
   async function fetchPayments() {
     try {
       const { data, error } = await supabase
@@ -491,6 +627,96 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  async function fetchVehicles() {
+    try {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('plate');
+
+      if (error) {
+        throw error;
+      }
+      setVehicles(data || []);
+    } catch (err) {
+      console.error('Error fetching vehicles:', err);
+      throw err;
+    }
+  }
+
+  async function fetchDriverAvailability() {
+    try {
+      const { data, error } = await supabase
+        .from('driver_availability')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('created_at');
+
+      if (error) {
+        throw error;
+      }
+      setDriverAvailability(data || []);
+    } catch (err) {
+      console.error('Error fetching driver availability:', err);
+      throw err;
+    }
+  }
+
+  async function fetchTariffs() {
+    try {
+      const { data, error } = await supabase
+        .from('tariffs')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('created_at');
+
+      if (error) {
+        throw error;
+      }
+      setTariffs(data || []);
+    } catch (err) {
+      console.error('Error fetching tariffs:', err);
+      throw err;
+    }
+  }
+
+  async function fetchPlaces() {
+    try {
+      const { data, error } = await supabase
+        .from('places')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('name');
+
+      if (error) {
+        throw error;
+      }
+      setPlaces(data || []);
+    } catch (err) {
+      console.error('Error fetching places:', err);
+      throw err;
+    }
+  }
+
+  async function fetchCustomers() {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('name');
+
+      if (error) {
+        throw error;
+      }
+      setCustomers(data || []);
+    } catch (err) {
+      console.error('Error fetching customers:', err);
+      throw err;
+    }
+  }
+
   async function fetchProjects() {
     try {
       console.log("Fetching projects for user:", currentUser?.id);
@@ -509,13 +735,21 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
         company: project.company_id,
         driver: project.driver_id,
         carType: project.car_type_id,
+        vehicle: project.vehicle_id,
         pickupLocation: project.pickup_location,
         dropoffLocation: project.dropoff_location,
         clientName: project.client_name,
         clientPhone: project.client_phone,
+        customerId: project.customer_id,
         paymentStatus: project.payment_status,
         bookingId: project.booking_id,
         driverFee: project.driver_fee, // Map driver_fee from database
+        priceOverridden: project.price_overridden,
+        distanceKm: project.distance_km,
+        durationMinutes: project.duration_minutes,
+        seriesId: project.series_id,
+        itineraryId: project.itinerary_id,
+        legNumber: project.leg_number,
       }));
 
       setProjects(transformedData);
@@ -528,21 +762,28 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   // Helper function to transform project data for the database
   const transformProjectForDB = useCallback((project: any) => ({
     company_id: project.company,
-    driver_id: project.driver,
+    driver_id: project.driver === '' ? null : project.driver,
     car_type_id: project.carType,
+    vehicle_id: project.vehicle === '' ? null : project.vehicle,
     pickup_location: project.pickupLocation,
     dropoff_location: project.dropoffLocation,
     client_name: project.clientName,
     client_phone: project.clientPhone,
+    customer_id: project.customerId,
     payment_status: project.paymentStatus,
     date: project.date,
     time: project.time,
     passengers: project.passengers,
+    luggage: project.luggage,
+    distance_km: project.distanceKm,
+    duration_minutes: project.durationMinutes,
     price: project.price,
     driver_fee: project.driverFee, // Include driver fee in database transformation
+    price_overridden: project.priceOverridden,
     description: project.description,
     status: project.status || 'active',
-    booking_id: project.bookingId
+    booking_id: project.bookingId,
+    source: project.source
   }), []);
 
   const addCompany = async (company: Omit<Company, 'id'>) => {
@@ -628,25 +869,73 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const addProject = async (project: Omit<Project, 'id'>) => {
-    try {
-      const projectData = transformProjectForDB(project);
+  // Database row for a new project, with the defaults for empty fields
+  const prepareProjectInsert = useCallback((project: Omit<Project, 'id' | 'status'>) => {
+    const projectData: Record<string, any> = transformProjectForDB(project);
 
-      // Generate a random booking ID if none is provided
-      if (!projectData.booking_id) {
-        projectData.booking_id = Math.floor(Math.random() * 1000000000).toString();
-      }
+    // Generate a random booking ID if none is provided
+    if (!projectData.booking_id) {
+      projectData.booking_id = Math.floor(Math.random() * 1000000000).toString();
+    }
 
-      // Add user_id
-      projectData.user_id = currentUser?.id;
+    // Add user_id
+    projectData.user_id = currentUser?.id;
+
+    // For optional fields that might be empty, provide default values
+    if (!projectData.company_id) projectData.company_id = null;
+    if (!projectData.driver_id) projectData.driver_id = null;
+    if (!projectData.car_type_id) projectData.car_type_id = null;
+    if (!projectData.pickup_location) projectData.pickup_location = 'Not specified';
+    if (!projectData.dropoff_location) projectData.dropoff_location = 'Not specified';
+    if (!projectData.client_name) projectData.client_name = 'Anonymous';
+
+    return projectData;
+  }, [transformProjectForDB, currentUser]);
+
+  // Inserts a customer keyed by its phone number. When another customer has
+  // the phone number or email already (e.g. added in another tab), that
+  // customer is returned instead.
+  const insertCustomer = async (customer: Omit<Customer, 'id' | 'phone_key'>) => {
+    const row = { ...customer, phone_key: phoneKey(customer.phone), user_id: currentUser?.id };
+    const { data, error } = await supabase.from('customers').insert([row]).select().single();
+    if (error?.code === '23505') {
+      const { data: existing, error: fetchError } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('user_id', currentUser?.id)
+        .order('name');
+      if (fetchError) throw fetchError;
+      setCustomers(existing || []);
+      const match = findCustomer(existing || [], customer);
+      if (match) return match;
+    }
+    if (error) throw error;
+    setCustomers(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data as Customer;
+  };
 
-      // For optional fields that might be empty, provide default values
-      if (!projectData.company_id) projectData.company_id = null;
-      if (!projectData.driver_id) projectData.driver_id = null;
-      if (!projectData.car_type_id) projectData.car_type_id = null;
-      if (!projectData.pickup_location) projectData.pickup_location = 'Not specified';
-      if (!projectData.dropoff_location) projectData.dropoff_location = 'Not specified';
-      if (!projectData.client_name) projectData.client_name = 'Anonymous';
+  // Links a trip to the customer with its client phone number, creating the
+  // customer the first time the number is booked. Trips without a phone
+  // number stay unlinked.
+  const withCustomer = async <T extends Partial<Project>>(project: T): Promise<T> => {
+    if (project.customerId) return project;
+    const key = phoneKey(project.clientPhone);
+    if (!key) return { ...project, customerId: null };
+    const customer = customers.find(c => c.phone_key === key) ?? await insertCustomer({
+      name: project.clientName || 'Anonymous',
+      phone: project.clientPhone!,
+      email: null,
+      language: null,
+      child_seat: false,
+      notes: null,
+      telegram_chat_id: null,
+    });
+    return { ...project, customerId: customer.id };
+  };
+
+  const addProject = async (project: Omit<Project, 'id'>) => {
+    try {
+      const projectData = prepareProjectInsert(await withRoute(await withCustomer(project)));
 
       console.log("Adding project with data:", projectData);
 
@@ -666,13 +955,21 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
         company: data.company_id,
         driver: data.driver_id,
         carType: data.car_type_id,
+        vehicle: data.vehicle_id,
         pickupLocation: data.pickup_location,
         dropoffLocation: data.dropoff_location,
         clientName: data.client_name,
         clientPhone: data.client_phone,
+        customerId: data.customer_id,
         paymentStatus: data.payment_status,
         bookingId: data.booking_id,
         driverFee: data.driver_fee, // Include driver fee in transformed data
+        priceOverridden: data.price_overridden,
+        distanceKm: data.distance_km,
+        durationMinutes: data.duration_minutes,
+        seriesId: data.series_id,
+        itineraryId: data.itinerary_id,
+        legNumber: data.leg_number,
       };
 
       setProjects([transformedData, ...projects]);
@@ -683,10 +980,203 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const updateProject = async (id: string, updates: Partial<Project>) => {
+  // Used by the spreadsheet import. New projects are inserted in batches;
+  // updates only touch the given fields and never change a trip's status.
+  // Imported trips are saved without a route, which is looked up when they
+  // are next edited.
+  const importProjects = async (
+    newProjects: Omit<Project, 'id' | 'status'>[],
+    updates: { id: string; changes: Partial<Project> }[],
+    onProgress?: (done: number) => void,
+  ) => {
+    let done = 0;
+    try {
+      for (let i = 0; i < newProjects.length; i += IMPORT_BATCH_SIZE) {
+        // imported trips send their passengers no booking messages
+        const batch = newProjects
+          .slice(i, i + IMPORT_BATCH_SIZE)
+          .map(project => ({ ...prepareProjectInsert(project), bulk_inserted: true }));
+        const { error } = await supabase.from('projects').insert(batch);
+        if (error) throw error;
+        done += batch.length;
+        onProgress?.(done);
+      }
+
+      for (const { id, changes } of updates) {
+        const { status: _status, ...projectData } = transformProjectForDB(changes);
+        for (const key of ['company_id', 'driver_id', 'car_type_id'] as const) {
+          if (projectData[key] === '') projectData[key] = null;
+        }
+        const { error } = await supabase.from('projects').update(projectData).eq('id', id);
+        if (error) throw error;
+        onProgress?.(++done);
+      }
+    } catch (err) {
+      console.error('Error importing projects:', err);
+      throw err;
+    } finally {
+      await refreshData();
+    }
+  };
+
+  // Creates a recurring series whose first day is the project's date and
+  // generates its trips. Returns the number of trips created.
+  const addProjectSeries = async (project: Omit<Project, 'id' | 'status'>, rule: string) => {
+    try {
+      const created = await createSeries(prepareProjectInsert(await withRoute(await withCustomer(project))), rule);
+      await fetchProjects();
+      return created;
+    } catch (err) {
+      console.error('Error adding project series:', err);
+      setError('Failed to create recurring project');
+      throw err;
+    }
+  };
+
+  // Applies changes to a series and all of its upcoming trips; dates are kept
+  const updateProjectSeries = async (seriesId: string, changes: Partial<Project>) => {
+    try {
+      const { date: _date, status: _status, booking_id: _bookingId, source: _source, ...seriesData } =
+        transformProjectForDB(changes);
+      for (const key of ['company_id', 'driver_id', 'car_type_id'] as const) {
+        if (seriesData[key] === '') seriesData[key] = null;
+      }
+      await updateSeries(seriesId, seriesData);
+      await fetchProjects();
+    } catch (err) {
+      console.error('Error updating project series:', err);
+      setError('Failed to update recurring project');
+      throw err;
+    }
+  };
+
+  const endProjectSeries = async (series: TripSeries, lastDate: string) => {
+    try {
+      await endSeries(series, lastDate);
+      await fetchProjects();
+    } catch (err) {
+      console.error('Error ending project series:', err);
+      setError('Failed to end recurring project');
+      throw err;
+    }
+  };
+
+  // Numbers the legs of an itinerary in travel order
+  const renumberLegs = async (itineraryId: string) => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('id, date, time, leg_number')
+      .eq('itinerary_id', itineraryId);
+    if (error) throw error;
+
+    const legs = (data || []).sort(compareLegs);
+    for (let index = 0; index < legs.length; index++) {
+      if (legs[index].leg_number === index + 1) continue;
+      const { error: updateError } = await supabase
+        .from('projects')
+        .update({ leg_number: index + 1 })
+        .eq('id', legs[index].id);
+      if (updateError) throw updateError;
+    }
+  };
+
+  // Legs of one booking usually share the client; the customer is looked up
+  // once so that a new phone number is not created for every leg
+  const withSameCustomer = async (legs: Omit<Project, 'id' | 'status'>[]) => {
+    const linked: Omit<Project, 'id' | 'status'>[] = [];
+    for (const leg of legs) {
+      const same = linked.find(other => other.customerId && phoneKey(other.clientPhone) === phoneKey(leg.clientPhone));
+      linked.push(same && !leg.customerId ? { ...leg, customerId: same.customerId } : await withCustomer(leg));
+    }
+    return linked;
+  };
+
+  const insertItinerary = async (first: Omit<Project, 'id' | 'status'>) => {
+    const { data, error } = await supabase
+      .from('itineraries')
+      .insert([{
+        reference: Math.floor(Math.random() * 1000000000).toString(),
+        company_id: first.company || null,
+        client_name: first.clientName || 'Anonymous',
+        client_phone: first.clientPhone,
+        user_id: currentUser?.id,
+      }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Itinerary;
+  };
+
+  // Creates an itinerary whose legs are the given projects. The client,
+  // company and reference of the booking are taken from the first leg.
+  const addItinerary = async (legs: Omit<Project, 'id' | 'status'>[]) => {
+    let itinerary: Itinerary | null = null;
+    try {
+      itinerary = await insertItinerary(legs[0]);
+      const routedLegs = await Promise.all((await withSameCustomer(legs)).map(withRoute));
+      const rows = routedLegs.sort(compareLegs).map((leg, index) => ({
+        ...prepareProjectInsert(leg),
+        booking_id: `${itinerary!.reference}-${index + 1}`,
+        itinerary_id: itinerary!.id,
+        leg_number: index + 1,
+      }));
+      const { error } = await supabase.from('projects').insert(rows);
+      if (error) throw error;
+
+      await Promise.all([fetchProjects(), fetchItineraries()]);
+    } catch (err) {
+      if (itinerary) await supabase.from('itineraries').delete().eq('id', itinerary.id);
+      console.error('Error adding itinerary:', err);
+      setError('Failed to create itinerary');
+      throw err;
+    }
+  };
+
+  // Adds legs to the itinerary of a project, e.g. the return trip. A single
+  // trip becomes the first leg of a new itinerary.
+  const addItineraryLegs = async (projectId: string, legs: Omit<Project, 'id' | 'status'>[]) => {
+    try {
+      const project = projects.find(p => p.id === projectId);
+      if (!project) throw new Error('Project not found');
+
+      let itineraryId = project.itineraryId;
+      let reference = itineraries.find(i => i.id === itineraryId)?.reference;
+      if (!itineraryId) {
+        const itinerary = await insertItinerary(project);
+        itineraryId = itinerary.id;
+        reference = itinerary.reference;
+        const { error } = await supabase
+          .from('projects')
+          .update({ itinerary_id: itineraryId, leg_number: 1 })
+          .eq('id', projectId);
+        if (error) throw error;
+      }
+
+      const legCount = projects.filter(p => p.itineraryId === itineraryId).length || 1;
+      const routedLegs = await Promise.all((await withSameCustomer(legs)).map(withRoute));
+      const rows = routedLegs.map((leg, index) => ({
+        ...prepareProjectInsert(leg),
+        ...(reference && { booking_id: `${reference}-${legCount + index + 1}` }),
+        itinerary_id: itineraryId,
+        leg_number: legCount + index + 1,
+      }));
+      const { error } = await supabase.from('projects').insert(rows);
+      if (error) throw error;
+
+      await renumberLegs(itineraryId);
+      await Promise.all([fetchProjects(), fetchItineraries()]);
+    } catch (err) {
+      console.error('Error adding itinerary leg:', err);
+      setError('Failed to add leg');
+      throw err;
+    }
+  };
+
+  const updateProject = async (id: string, changes: Partial<Project>) => {
     try {
       // For completed projects, we don't need to validate the date/time
       const project = projects.find(p => p.id === id);
+      const updates = project ? await withChangedRoute(project, await withChangedCustomer(project, changes)) : changes;
       const isCompleting = updates.status === 'completed';
 
       // Only validate date/time for active projects
@@ -737,6 +1227,26 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // A trip whose pickup or drop-off changes, or that has no route yet, gets
+  // its route looked up unless the changes bring one
+  const withChangedRoute = async (project: Project, changes: Partial<Project>) => {
+    if (changes.distanceKm != null) return changes;
+    if (changes.pickupLocation === undefined && changes.dropoffLocation === undefined) return changes;
+    const trip = { ...project, ...changes };
+    const moved = trip.pickupLocation !== project.pickupLocation || trip.dropoffLocation !== project.dropoffLocation;
+    if (!moved && project.distanceKm != null) return changes;
+    const route = await tripRoute(trip);
+    return { ...changes, distanceKm: route?.distanceKm ?? null, durationMinutes: route?.durationMinutes ?? null };
+  };
+
+  // A trip whose client phone number changes is linked to the customer with
+  // the new number; editing anything else keeps its customer
+  const withChangedCustomer = async (project: Project, changes: Partial<Project>) => {
+    if (changes.customerId !== undefined || changes.clientPhone === undefined) return changes;
+    if (project.customerId && phoneKey(changes.clientPhone) === phoneKey(project.clientPhone)) return changes;
+    return withCustomer({ clientName: project.clientName, ...changes, customerId: undefined });
+  };
+
   const deleteProject = async (id: string) => {
     try {
       const { error } = await supabase
@@ -767,12 +1277,141 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       }
 
       setDrivers(drivers.filter(driver => driver.id !== id));
+      // driver_availability rows are deleted with the driver
+      setDriverAvailability(driverAvailability.filter(entry => entry.driver_id !== id));
     } catch (err) {
       console.error('Error deleting driver:', err);
       setError('Failed to delete driver');
     }
   };
 
+  const addVehicle = async (vehicle: Omit<Vehicle, 'id'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .insert([{ ...vehicle, user_id: currentUser?.id }])
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      setVehicles([...vehicles, data].sort((a, b) => a.plate.localeCompare(b.plate)));
+    } catch (err) {
+      console.error('Error adding vehicle:', err);
+      setError('Failed to add vehicle');
+    }
+  };
+
+  // A weekly shift is entered for several weekdays at once, one row each
+  const addDriverAvailability = async (entries: Omit<DriverAvailability, 'id'>[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('driver_availability')
+        .insert(entries.map(entry => ({ ...entry, user_id: currentUser?.id })))
+        .select();
+
+      if (error) {
+        throw error;
+      }
+      setDriverAvailability([...driverAvailability, ...(data || [])]);
+    } catch (err) {
+      console.error('Error adding driver availability:', err);
+      setError('Failed to add driver availability');
+    }
+  };
+
+  const addTariff = async (tariff: Omit<Tariff, 'id'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('tariffs')
+        .insert([{ ...tariff, user_id: currentUser?.id }])
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      setTariffs([...tariffs, data]);
+    } catch (err) {
+      console.error('Error adding tariff:', err);
+      setError('Failed to add tariff');
+    }
+  };
+
+  const addPlace = async (place: Omit<Place, 'id'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('places')
+        .insert([{ ...place, user_id: currentUser?.id }])
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      setPlaces([...places, data].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error('Error adding place:', err);
+      setError('Failed to add place');
+    }
+  };
+
+  // Rewrites the trips and recurring series that use any of the addresses
+  // to the place's address and keeps the addresses as aliases, so they are
+  // recognised from now on. Returns the number of trips changed.
+  const mergeIntoPlace = async (placeId: string, addresses: string[]) => {
+    const place = places.find(p => p.id === placeId);
+    if (!place || addresses.length === 0) return 0;
+
+    try {
+      const aliases = withAliases(place, addresses);
+      const { error: placeError } = await supabase
+        .from('places')
+        .update({ aliases })
+        .eq('id', placeId);
+      if (placeError) throw placeError;
+
+      // the route between the same places stays valid, so trips keep it
+      for (const table of ['projects', 'trip_series']) {
+        for (const column of ['pickup_location', 'dropoff_location']) {
+          const { error } = await supabase
+            .from(table)
+            .update({ [column]: place.address })
+            .eq('user_id', currentUser?.id)
+            .in(column, addresses);
+          if (error) throw error;
+        }
+      }
+
+      const folded = (address: string) => (addresses.includes(address) ? place.address : address);
+      let changed = 0;
+      setProjects(projects.map(project => {
+        const pickupLocation = folded(project.pickupLocation);
+        const dropoffLocation = folded(project.dropoffLocation);
+        if (pickupLocation === project.pickupLocation && dropoffLocation === project.dropoffLocation) return project;
+        changed++;
+        return { ...project, pickupLocation, dropoffLocation };
+      }));
+      setPlaces(places.map(p => (p.id === placeId ? { ...p, aliases } : p)));
+      return changed;
+    } catch (err) {
+      console.error('Error merging addresses:', err);
+      setError('Failed to merge addresses');
+      throw err;
+    }
+  };
+
+  const addCustomer = async (customer: Omit<Customer, 'id' | 'phone_key'>) => {
+    try {
+      return await insertCustomer(customer);
+    } catch (err) {
+      console.error('Error adding customer:', err);
+      setError('Failed to add customer');
+      return null;
+    }
+  };
+
   const deleteCarType = async (id: string) => {
     try {
       const { error } = await supabase
@@ -785,12 +1424,113 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       }
 
       setCarTypes(carTypes.filter(carType => carType.id !== id));
+      // tariffs of the car type are deleted with it
+      setTariffs(tariffs.filter(tariff => tariff.car_type_id !== id));
     } catch (err) {
       console.error('Error deleting car type:', err);
       setError('Failed to delete car type');
     }
   };
 
+  const deleteVehicle = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('vehicles')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setVehicles(vehicles.filter(vehicle => vehicle.id !== id));
+      // projects.vehicle_id is set null on delete
+      setProjects(projects.map(project =>
+        project.vehicle === id ? { ...project, vehicle: null } : project
+      ));
+    } catch (err) {
+      console.error('Error deleting vehicle:', err);
+      setError('Failed to delete vehicle');
+    }
+  };
+
+  const deleteDriverAvailability = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('driver_availability')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setDriverAvailability(driverAvailability.filter(entry => entry.id !== id));
+    } catch (err) {
+      console.error('Error deleting driver availability:', err);
+      setError('Failed to delete driver availability');
+    }
+  };
+
+  // Trips keep their addresses
+  const deletePlace = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('places')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setPlaces(places.filter(place => place.id !== id));
+    } catch (err) {
+      console.error('Error deleting place:', err);
+      setError('Failed to delete place');
+    }
+  };
+
+  // Trips of the customer keep their client name and phone number
+  const deleteCustomer = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('customers')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setCustomers(customers.filter(customer => customer.id !== id));
+      setProjects(projects.map(project =>
+        project.customerId === id ? { ...project, customerId: null } : project
+      ));
+    } catch (err) {
+      console.error('Error deleting customer:', err);
+      setError('Failed to delete customer');
+    }
+  };
+
+  const deleteTariff = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('tariffs')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setTariffs(tariffs.filter(tariff => tariff.id !== id));
+    } catch (err) {
+      console.error('Error deleting tariff:', err);
+      setError('Failed to delete tariff');
+    }
+  };
+
   const deleteCompany = async (id: string) => {
     try {
       const { error } = await supabase
@@ -803,6 +1543,8 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       }
 
       setCompanies(companies.filter(company => company.id !== id));
+      // tariffs of the company are deleted with it
+      setTariffs(tariffs.filter(tariff => tariff.company_id !== id));
     } catch (err) {
       console.error('Error deleting company:', err);
       setError('Failed to delete company');
@@ -854,6 +1596,112 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const updateVehicle = async (id: string, updates: Partial<Vehicle>) => {
+    try {
+      const { id: _id, ...vehicleUpdates } = updates;
+      const { error } = await supabase
+        .from('vehicles')
+        .update(vehicleUpdates)
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setVehicles(vehicles.map(vehicle =>
+        vehicle.id === id ? { ...vehicle, ...updates } : vehicle
+      ));
+    } catch (err) {
+      console.error('Error updating vehicle:', err);
+      setError('Failed to update vehicle');
+    }
+  };
+
+  const updateDriverAvailability = async (id: string, updates: Partial<DriverAvailability>) => {
+    try {
+      const { id: _id, ...entryUpdates } = updates;
+      const { error } = await supabase
+        .from('driver_availability')
+        .update(entryUpdates)
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setDriverAvailability(driverAvailability.map(entry =>
+        entry.id === id ? { ...entry, ...updates } : entry
+      ));
+    } catch (err) {
+      console.error('Error updating driver availability:', err);
+      setError('Failed to update driver availability');
+    }
+  };
+
+  const updateTariff = async (id: string, updates: Partial<Tariff>) => {
+    try {
+      const { id: _id, ...tariffUpdates } = updates;
+      const { error } = await supabase
+        .from('tariffs')
+        .update(tariffUpdates)
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setTariffs(tariffs.map(tariff =>
+        tariff.id === id ? { ...tariff, ...updates } : tariff
+      ));
+    } catch (err) {
+      console.error('Error updating tariff:', err);
+      setError('Failed to update tariff');
+    }
+  };
+
+  const updatePlace = async (id: string, updates: Partial<Place>) => {
+    try {
+      const { id: _id, ...placeUpdates } = updates;
+      const { error } = await supabase
+        .from('places')
+        .update(placeUpdates)
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setPlaces(places.map(place =>
+        place.id === id ? { ...place, ...updates } : place
+      ));
+    } catch (err) {
+      console.error('Error updating place:', err);
+      setError('Failed to update place');
+    }
+  };
+
+  const updateCustomer = async (id: string, updates: Partial<Customer>) => {
+    try {
+      const { id: _id, ...customerUpdates } = updates;
+      if ('phone' in customerUpdates) customerUpdates.phone_key = phoneKey(customerUpdates.phone);
+      const { error } = await supabase
+        .from('customers')
+        .update(customerUpdates)
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      setCustomers(customers.map(customer =>
+        customer.id === id ? { ...customer, ...customerUpdates } : customer
+      ));
+    } catch (err) {
+      console.error('Error updating customer:', err);
+      setError('Failed to update customer');
+    }
+  };
+
   const updateDriver = async (id: string, updates: Partial<Driver>) => {
     try {
       // Handle PIN column that might not exist in database
@@ -901,7 +1749,13 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
           fetchCompanies(),
           fetchDrivers(),
           fetchCarTypes(),
+          fetchVehicles(),
+          fetchDriverAvailability(),
+          fetchTariffs(),
+          fetchPlaces(),
+          fetchCustomers(),
           fetchProjects(),
+          fetchItineraries(),
           fetchPayments()
         ]);
         console.log("Data refresh completed successfully");
@@ -929,12 +1783,30 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       companies, 
       drivers, 
       carTypes,
+      vehicles,
+      driverAvailability,
+      tariffs,
+      places,
+      customers,
       projects, 
+      itineraries,
       payments,
       addCompany, 
       addDriver, 
       addCarType,
+      addVehicle,
+      addDriverAvailability,
+      addTariff,
+      addPlace,
+      mergeIntoPlace,
+      addCustomer,
       addProject,
+      importProjects,
+      addProjectSeries,
+      updateProjectSeries,
+      endProjectSeries,
+      addItinerary,
+      addItineraryLegs,
       addPayment,
       updatePayment,
       deletePayment,
@@ -943,9 +1815,19 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       deleteProject,
       deleteDriver,
       deleteCarType,
+      deleteVehicle,
+      deleteDriverAvailability,
+      deleteTariff,
+      deletePlace,
+      deleteCustomer,
       deleteCompany,
       updateCompany,
       updateCarType,
+      updateVehicle,
+      updateDriverAvailability,
+      updateTariff,
+      updatePlace,
+      updateCustomer,
       updateDriver,
       refreshData,
       loading,
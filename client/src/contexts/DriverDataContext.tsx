@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { createClient } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import type { DriverAvailability } from '../lib/driverAvailability';
+import type { Place } from '../lib/places';
 
 interface DriverProject {
   id: string;
@@ -39,10 +41,14 @@ interface DriverDataContextType {
   projects: DriverProject[];
   companies: DriverCompany[];
   carTypes: DriverCarType[];
+  availability: DriverAvailability[];
+  places: Place[];
   loading: boolean;
   error: string | null;
   refreshProjects: () => Promise<void>;
   updateProjectStatus: (projectId: string, status: 'accepted' | 'started' | 'declined' | 'completed') => Promise<void>;
+  submitAvailability: (entry: Omit<DriverAvailability, 'id' | 'driver_id' | 'status'>) => Promise<void>;
+  withdrawAvailability: (entryId: string) => Promise<void>;
   retryCount: number;
 }
 
@@ -66,6 +72,8 @@ export function DriverDataProvider({ children, driverId, driverUuid }: DriverDat
   const [projects, setProjects] = useState<DriverProject[]>([]);
   const [companies, setCompanies] = useState<DriverCompany[]>([]);
   const [carTypes, setCarTypes] = useState<DriverCarType[]>([]);
+  const [availability, setAvailability] = useState<DriverAvailability[]>([]);
+  const [places, setPlaces] = useState<Place[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
@@ -120,6 +128,30 @@ export function DriverDataProvider({ children, driverId, driverUuid }: DriverDat
       console.log('Fetched car types:', carTypesData?.length || 0, 'car types');
       setCarTypes(carTypesData || []);
 
+      // Shifts and time off; the portal still works without them
+      const { data: availabilityData, error: availabilityError } = await supabase
+        .rpc('get_driver_availability', {
+          driver_uuid: driverUuid
+        });
+
+      if (availabilityError) {
+        console.log('Note: driver availability not available, skipping');
+      } else {
+        setAvailability(availabilityData || []);
+      }
+
+      // Saved places, for their driver instructions; optional as well
+      const { data: placesData, error: placesError } = await supabase
+        .rpc('get_driver_places', {
+          driver_uuid: driverUuid
+        });
+
+      if (placesError) {
+        console.log('Note: saved places not available, skipping');
+      } else {
+        setPlaces(placesData || []);
+      }
+
       // Only update last_login if the column exists
       try {
         await supabase
@@ -192,6 +224,48 @@ export function DriverDataProvider({ children, driverId, driverUuid }: DriverDat
     }
   }, [driverUuid]);
 
+  // Request a shift, day off or holiday; the operator approves it
+  const submitAvailability = useCallback(async (entry: Omit<DriverAvailability, 'id' | 'driver_id' | 'status'>) => {
+    const { data, error } = await supabase
+      .rpc('submit_driver_availability', {
+        driver_uuid: driverUuid,
+        entry_kind: entry.kind,
+        entry_weekday: entry.weekday,
+        entry_start_time: entry.start_time,
+        entry_end_time: entry.end_time,
+        entry_start_date: entry.start_date,
+        entry_end_date: entry.end_date,
+        entry_note: entry.note
+      });
+
+    if (error) {
+      console.error('Failed to submit availability:', error);
+      throw error;
+    }
+
+    setAvailability(prev => [...prev, data]);
+  }, [driverUuid]);
+
+  // Withdraw a request the operator has not decided on yet
+  const withdrawAvailability = useCallback(async (entryId: string) => {
+    const { data: withdrawn, error } = await supabase
+      .rpc('withdraw_driver_availability', {
+        entry_uuid: entryId,
+        driver_uuid: driverUuid
+      });
+
+    if (error) {
+      console.error('Failed to withdraw availability:', error);
+      throw error;
+    }
+
+    if (!withdrawn) {
+      throw new Error('The request was already approved or declined');
+    }
+
+    setAvailability(prev => prev.filter(entry => entry.id !== entryId));
+  }, [driverUuid]);
+
   // Refresh projects manually
   const refreshProjects = useCallback(async () => {
     setLoading(true);
@@ -240,10 +314,14 @@ export function DriverDataProvider({ children, driverId, driverUuid }: DriverDat
     projects,
     companies,
     carTypes,
+    availability,
+    places,
     loading,
     error,
     refreshProjects,
     updateProjectStatus,
+    submitAvailability,
+    withdrawAvailability,
     retryCount
   };
 
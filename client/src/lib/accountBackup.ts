@@ -0,0 +1,240 @@
+import { supabase } from './supabase';
+
+// Whole-account backup: every company, car type, driver, driver availability
+// entry, vehicle, tariff, place, customer, recurring series, itinerary,
+// project and payment of the signed-in user as one
+// versioned JSON archive, and the restore that adds such an archive to the
+// current account (also in another Supabase project) under new ids.
+
+export const ARCHIVE_FORMAT = 'ridepilot-account';
+export const ARCHIVE_VERSION = 8;
+
+// Restore order; every table only references tables before it
+export const archiveTables = [
+  'companies',
+  'car_types',
+  'drivers',
+  'driver_availability',
+  'vehicles',
+  'tariffs',
+  'places',
+  'customers',
+  'trip_series',
+  'itineraries',
+  'projects',
+  'payments',
+] as const;
+export type ArchiveTable = (typeof archiveTables)[number];
+
+export const ARCHIVE_TABLE_LABELS: Record<ArchiveTable, string> = {
+  companies: 'Companies',
+  car_types: 'Car types',
+  drivers: 'Drivers',
+  driver_availability: 'Driver availability',
+  vehicles: 'Vehicles',
+  tariffs: 'Tariffs',
+  places: 'Places',
+  customers: 'Customers',
+  trip_series: 'Recurring series',
+  itineraries: 'Itineraries',
+  projects: 'Projects',
+  payments: 'Payments',
+};
+
+// Tables added after the first format version; older backups have none
+const ADDED_IN_VERSION: Partial<Record<ArchiveTable, number>> = {
+  trip_series: 2,
+  itineraries: 3,
+  vehicles: 4,
+  driver_availability: 5,
+  tariffs: 6,
+  places: 7,
+  customers: 8,
+};
+
+type Row = Record<string, unknown> & { id: string };
+
+export interface AccountArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  userId: string;
+  tables: Record<ArchiveTable, Row[]>;
+}
+
+// Columns pointing at other archived rows
+const FOREIGN_KEYS: Partial<Record<ArchiveTable, Record<string, ArchiveTable>>> = {
+  driver_availability: { driver_id: 'drivers' },
+  vehicles: { car_type_id: 'car_types', default_driver_id: 'drivers' },
+  tariffs: { company_id: 'companies', car_type_id: 'car_types' },
+  trip_series: {
+    company_id: 'companies',
+    driver_id: 'drivers',
+    car_type_id: 'car_types',
+    vehicle_id: 'vehicles',
+    customer_id: 'customers',
+  },
+  itineraries: { company_id: 'companies' },
+  projects: {
+    company_id: 'companies',
+    driver_id: 'drivers',
+    car_type_id: 'car_types',
+    vehicle_id: 'vehicles',
+    customer_id: 'customers',
+    series_id: 'trip_series',
+    itinerary_id: 'itineraries',
+  },
+  payments: { driver_id: 'drivers' },
+};
+
+// Per-account secrets and login state are not carried over; the restored
+// rows get fresh values from the column defaults
+const DROPPED_COLUMNS: Partial<Record<ArchiveTable, string[]>> = {
+  companies: ['inbound_token'],
+  drivers: ['auth_token', 'last_login'],
+};
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 200;
+
+// Supabase returns at most 1000 rows per request
+async function fetchAll(table: ArchiveTable, userId: string): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data as Row[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export async function exportAccount(userId: string): Promise<AccountArchive> {
+  const tables = {} as Record<ArchiveTable, Row[]>;
+  for (const table of archiveTables) {
+    tables[table] = await fetchAll(table, userId);
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    userId,
+    tables,
+  };
+}
+
+export function parseArchive(text: string): AccountArchive {
+  let archive: AccountArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a valid JSON backup');
+  }
+
+  if (archive?.format !== ARCHIVE_FORMAT || typeof archive.version !== 'number') {
+    throw new Error('The file is not a RidePilot account backup');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error(`The backup was made by a newer version (format ${archive.version}) and cannot be restored here`);
+  }
+  for (const table of archiveTables) {
+    if (archive.version < (ADDED_IN_VERSION[table] ?? 1) && archive.tables && !archive.tables[table]) {
+      archive.tables[table] = [];
+    }
+    if (!Array.isArray(archive.tables?.[table])) {
+      throw new Error(`The backup has no ${ARCHIVE_TABLE_LABELS[table].toLowerCase()} list`);
+    }
+  }
+  return archive;
+}
+
+// Gives every row a new id, points references at the new ids and assigns
+// the rows to the current user
+export function remapArchive(archive: AccountArchive, userId: string): Record<ArchiveTable, Row[]> {
+  const newIds = new Map<string, string>();
+  for (const table of archiveTables) {
+    for (const row of archive.tables[table]) newIds.set(row.id, crypto.randomUUID());
+  }
+
+  const remapped = {} as Record<ArchiveTable, Row[]>;
+  for (const table of archiveTables) {
+    const references = FOREIGN_KEYS[table] ?? {};
+    remapped[table] = archive.tables[table].map((row) => {
+      const copy: Row = { ...row, id: newIds.get(row.id)!, user_id: userId };
+      for (const column of DROPPED_COLUMNS[table] ?? []) delete copy[column];
+      for (const column of Object.keys(references)) {
+        const target = copy[column];
+        // a reference to a row that was not exported is cleared
+        if (typeof target === 'string') copy[column] = newIds.get(target) ?? null;
+      }
+      // completed_by holds the account or driver that completed the trip
+      if (table === 'projects' && typeof copy.completed_by === 'string') {
+        copy.completed_by = copy.completed_by === archive.userId ? userId : newIds.get(copy.completed_by) ?? null;
+      }
+      return copy;
+    });
+  }
+  return remapped;
+}
+
+export interface RestoreProgress {
+  table: ArchiveTable;
+  done: number;
+  total: number;
+}
+
+// Inserts the archive into the current account. If a table fails the rows
+// added so far are deleted again, so a failed restore leaves no partial copy.
+export async function restoreAccount(
+  archive: AccountArchive,
+  userId: string,
+  onProgress?: (progress: RestoreProgress) => void,
+): Promise<Record<ArchiveTable, number>> {
+  const tables = remapArchive(archive, userId);
+  const inserted: { table: ArchiveTable; ids: string[] }[] = [];
+  const counts = {} as Record<ArchiveTable, number>;
+
+  try {
+    for (const table of archiveTables) {
+      const rows = tables[table];
+      // earnings are restored as exported below, the payments trigger
+      // would otherwise add paid payments to them a second time; restored
+      // trips send their passengers no booking messages
+      const insertRows = table === 'drivers'
+        ? rows.map((row) => ({ ...row, total_earnings: 0 }))
+        : table === 'projects'
+          ? rows.map((row) => ({ ...row, bulk_inserted: true }))
+          : rows;
+
+      for (let i = 0; i < insertRows.length; i += INSERT_BATCH_SIZE) {
+        const batch = insertRows.slice(i, i + INSERT_BATCH_SIZE);
+        const { error } = await supabase.from(table).insert(batch);
+        if (error) throw error;
+        inserted.push({ table, ids: batch.map((row) => row.id) });
+        onProgress?.({ table, done: Math.min(i + INSERT_BATCH_SIZE, rows.length), total: rows.length });
+      }
+      counts[table] = rows.length;
+    }
+
+    for (const driver of tables.drivers) {
+      const { error } = await supabase
+        .from('drivers')
+        .update({ total_earnings: driver.total_earnings ?? 0 })
+        .eq('id', driver.id);
+      if (error) throw error;
+    }
+  } catch (err) {
+    for (const { table, ids } of inserted.reverse()) {
+      const { error } = await supabase.from(table).delete().in('id', ids);
+      if (error) console.error(`Error removing restored ${table}:`, error);
+    }
+    throw err;
+  }
+
+  return counts;
+}
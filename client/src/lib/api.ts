@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+
+// Calls the Express API (/api/v1/...) as the signed-in Supabase user. Used
+// for the features that run on the server rather than straight on Supabase.
+// Bodies are sent as JSON unless a content type is given for a string body.
+export async function apiRequest<T>(
+  method: string,
+  path: string,
+  body?: unknown,
+  contentType?: string,
+): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const rawType = typeof body === 'string' ? contentType : undefined;
+
+  const response = await fetch(`/api/v1${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': rawType ?? 'application/json' } : {}),
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+    body: body === undefined ? undefined : rawType ? (body as string) : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    let message = `Request failed with status ${response.status}`;
+    try {
+      message = (await response.json()).message || message;
+    } catch {
+      // not a JSON error body
+    }
+    throw new Error(message);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
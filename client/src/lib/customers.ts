@@ -0,0 +1,84 @@
+// Customers (Settings → Customers) and the trips booked for them. A customer
+// is one person per phone number or email: phone numbers are compared by
+// their digits, so "+386 41 123 456" and "00386 41 123456" are the same
+// customer. The same rule is in the customers migration's backfill.
+
+// A customers row as Supabase returns it
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  phone_key: string | null;
+  email: string | null;
+  language: string | null;
+  child_seat: boolean;
+  notes: string | null;
+  // where passenger messages on Telegram go
+  telegram_chat_id: string | null;
+  created_at?: string;
+}
+
+interface CustomerTrip {
+  customerId?: string | null;
+  clientPhone: string;
+  status: 'active' | 'completed';
+  date: string;
+  price: number;
+}
+
+// The digits of a phone number without a leading 00, or null when there are
+// none
+export function phoneKey(phone: string | null | undefined): string | null {
+  const digits = (phone ?? '').replace(/[^0-9]/g, '').replace(/^00/, '');
+  return digits || null;
+}
+
+export function emailKey(email: string | null | undefined): string | null {
+  const key = (email ?? '').trim().toLowerCase();
+  return key || null;
+}
+
+// The customer with the phone number or the email, the phone first
+export function findCustomer(
+  customers: Customer[],
+  { phone, email }: { phone?: string | null; email?: string | null },
+): Customer | undefined {
+  const byPhone = phoneKey(phone);
+  const byEmail = emailKey(email);
+  return (byPhone ? customers.find(customer => customer.phone_key === byPhone) : undefined)
+    ?? (byEmail ? customers.find(customer => emailKey(customer.email) === byEmail) : undefined);
+}
+
+// Trips booked for the customer: those linked to it, and those not linked
+// to any customer with its phone number
+export function customerTrips<T extends CustomerTrip>(customer: Customer, trips: T[]): T[] {
+  return trips.filter(trip => trip.customerId
+    ? trip.customerId === customer.id
+    : customer.phone_key !== null && phoneKey(trip.clientPhone) === customer.phone_key);
+}
+
+export interface CustomerHistory {
+  trips: number;
+  completed: number;
+  // the price of the completed trips
+  revenue: number;
+  lastTrip: string | null;
+}
+
+export function customerHistory(customer: Customer, trips: CustomerTrip[]): CustomerHistory {
+  const own = customerTrips(customer, trips);
+  const completed = own.filter(trip => trip.status === 'completed');
+  return {
+    trips: own.length,
+    completed: completed.length,
+    revenue: completed.reduce((sum, trip) => sum + (trip.price || 0), 0),
+    lastTrip: own.reduce<string | null>((last, trip) => (!last || trip.date > last ? trip.date : last), null),
+  };
+}
+
+// Short description of what the customer asked for, e.g. "Child seat · German"
+export function customerPreferences(customer: Customer): string {
+  return [customer.child_seat ? 'Child seat' : '', customer.language ?? '']
+    .filter(Boolean)
+    .join(' · ');
+}
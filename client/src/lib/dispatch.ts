@@ -0,0 +1,114 @@
+// Adapts the DataContext records to the dispatch scoring in shared/dispatch.ts
+
+import {
+  proposeAssignments,
+  sameAddressDistance,
+  suggestDrivers,
+  type DispatchTrip,
+  type DriverSuggestion,
+  type TripProposal,
+} from '@shared/dispatch';
+import { straightLineKm } from '@shared/geocoding';
+import { driverAvailabilityAt, type DriverAvailability } from './driverAvailability';
+import { positionOf, type GeocodedAddress } from './geocoding';
+
+// Loose shapes of the DataContext records the scoring needs
+export interface DispatchProject {
+  id?: string;
+  driver: string;
+  date: string;
+  time: string;
+  status?: string;
+  carType: string;
+  passengers: number;
+  luggage?: number;
+  distanceKm?: number | null;
+  durationMinutes?: number | null;
+  pickupLocation: string;
+  dropoffLocation: string;
+  price: number;
+  driverFee?: number | null;
+}
+
+interface DispatchDriverLike {
+  id: string;
+  name: string;
+  status: string;
+  total_earnings?: number;
+}
+
+interface DispatchCarTypeLike {
+  id: string;
+  capacity: number;
+  luggage_capacity: number;
+}
+
+export interface DispatchData {
+  projects: Array<DispatchProject & { id: string }>;
+  drivers: DispatchDriverLike[];
+  carTypes: DispatchCarTypeLike[];
+  driverAvailability: DriverAvailability[];
+  // positions of the trips' addresses, see dispatchAddresses; without one an
+  // address is only close to the very same address
+  positions?: Map<string, GeocodedAddress>;
+}
+
+// The addresses whose positions the scoring of trips on a date uses
+export function dispatchAddresses(date: string, projects: DispatchProject[], trip?: DispatchProject): string[] {
+  return [...projects.filter(project => project.date === date), ...(trip ? [trip] : [])]
+    .flatMap(project => [project.pickupLocation, project.dropoffLocation]);
+}
+
+function toDispatchTrip<T extends DispatchProject>(project: T): DispatchTrip & { project: T } {
+  return {
+    project,
+    id: project.id ?? 'new',
+    driverId: project.driver || null,
+    date: project.date,
+    time: project.time,
+    status: project.status,
+    carTypeId: project.carType || null,
+    passengers: project.passengers,
+    luggage: project.luggage,
+    distanceKm: project.distanceKm,
+    durationMinutes: project.durationMinutes,
+    pickupLocation: project.pickupLocation,
+    dropoffLocation: project.dropoffLocation,
+    fee: project.driverFee ?? 0,
+  };
+}
+
+function dispatchInputs({ projects, drivers, carTypes, driverAvailability, positions }: DispatchData) {
+  return [
+    drivers.map((driver) => ({ ...driver, totalEarnings: driver.total_earnings })),
+    projects.map(toDispatchTrip),
+    carTypes.map((carType) => ({ ...carType, luggageCapacity: carType.luggage_capacity })),
+    {
+      isAvailable: (driverId: string, trip: DispatchTrip) =>
+        driverAvailabilityAt(driverId, driverAvailability, trip.date, trip.time).available,
+      distanceKm: (from: string, to: string) => {
+        const start = positions && positionOf(positions, from);
+        const end = positions && positionOf(positions, to);
+        return start && end ? straightLineKm(start, end) : sameAddressDistance(from, to);
+      },
+    },
+  ] as const;
+}
+
+// Ranked drivers for a trip being entered or edited
+export function driverSuggestions(trip: DispatchProject, data: DispatchData): DriverSuggestion[] {
+  if (!trip.date || !trip.time) return [];
+  return suggestDrivers(toDispatchTrip(trip), ...dispatchInputs(data));
+}
+
+// Proposals for the active trips of a day that have no driver yet
+export function proposeForDate<T extends DispatchProject & { id: string }>(
+  date: string,
+  data: DispatchData & { projects: T[] },
+): TripProposal<DispatchTrip & { project: T }>[] {
+  const projects: T[] = data.projects;
+  const unassigned = projects
+    .filter((project) => project.date === date && !project.driver && project.status !== 'completed')
+    .map((project) => toDispatchTrip(project));
+  return proposeAssignments(unassigned, ...dispatchInputs(data));
+}
@@ -0,0 +1,184 @@
+// Driver shifts, days off and holidays, and whether a driver can take a trip
+
+import { addDays } from '@shared/recurrence';
+
+export const availabilityKinds = ['shift', 'day_off', 'holiday'] as const;
+
+export type AvailabilityKind = (typeof availabilityKinds)[number];
+
+export const AVAILABILITY_KIND_LABELS: Record<AvailabilityKind, string> = {
+  shift: 'Shift',
+  day_off: 'Day off',
+  holiday: 'Holiday',
+};
+
+// Entries submitted from the driver portal wait for the operator
+export type AvailabilityStatus = 'approved' | 'requested' | 'declined';
+
+// 1 = Monday … 7 = Sunday, as in Postgres' isodow
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface DriverAvailability {
+  id: string;
+  driver_id: string;
+  kind: AvailabilityKind;
+  // weekly shifts
+  weekday: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  // days off and holidays, both dates inclusive
+  start_date: string | null;
+  end_date: string | null;
+  note: string | null;
+  status: AvailabilityStatus;
+  created_at?: string;
+}
+
+export function isoWeekday(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return ((new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7) + 1;
+}
+
+// Today's date in the browser's time zone, like the trip dates
+export function localToday(now = new Date()) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Monday of the week holding the date
+export function weekStart(date: string) {
+  return addDays(date, 1 - isoWeekday(date));
+}
+
+function minutes(time: string) {
+  const [hours, mins] = time.split(':').map(Number);
+  return hours * 60 + mins;
+}
+
+// A shift ending at or before its start runs past midnight into the next day
+function isOvernight(shift: DriverAvailability) {
+  return minutes(shift.end_time!) <= minutes(shift.start_time!);
+}
+
+function previousWeekday(weekday: number) {
+  return weekday === 1 ? 7 : weekday - 1;
+}
+
+export function shiftCovers(shift: DriverAvailability, date: string, time: string) {
+  if (shift.kind !== 'shift' || !shift.start_time || !shift.end_time) return false;
+  const weekday = isoWeekday(date);
+  const at = minutes(time);
+  const start = minutes(shift.start_time);
+  const end = minutes(shift.end_time);
+  if (isOvernight(shift)) {
+    return (shift.weekday === weekday && at >= start) || (shift.weekday === previousWeekday(weekday) && at < end);
+  }
+  return shift.weekday === weekday && at >= start && at < end;
+}
+
+// Approved shifts starting on the date's weekday
+export function shiftsOn(entries: DriverAvailability[], date: string) {
+  const weekday = isoWeekday(date);
+  return entries
+    .filter((entry) => entry.kind === 'shift' && entry.status === 'approved' && entry.weekday === weekday)
+    .sort((a, b) => (a.start_time ?? '').localeCompare(b.start_time ?? ''));
+}
+
+// Minutes of the day covered by approved shifts, including the part of an
+// overnight shift that started the day before
+export function shiftBandsOn(entries: DriverAvailability[], date: string) {
+  const weekday = isoWeekday(date);
+  const bands: Array<{ start: number; end: number }> = [];
+  for (const shift of entries) {
+    if (shift.kind !== 'shift' || shift.status !== 'approved' || !shift.start_time || !shift.end_time) continue;
+    const start = minutes(shift.start_time);
+    const end = minutes(shift.end_time);
+    if (shift.weekday === weekday) bands.push({ start, end: isOvernight(shift) ? 24 * 60 : end });
+    if (isOvernight(shift) && shift.weekday === previousWeekday(weekday)) bands.push({ start: 0, end });
+  }
+  return bands.sort((a, b) => a.start - b.start);
+}
+
+// The approved day off or holiday covering the date, if any
+export function timeOffOn(entries: DriverAvailability[], date: string) {
+  return entries.find((entry) =>
+    entry.kind !== 'shift' &&
+    entry.status === 'approved' &&
+    !!entry.start_date &&
+    entry.start_date <= date &&
+    date <= (entry.end_date || entry.start_date)
+  );
+}
+
+export interface Availability {
+  available: boolean;
+  // why the driver is not available
+  reason?: AvailabilityKind | 'outside_shift';
+}
+
+// Whether a driver works at the date and time, given their own entries.
+// Drivers without any approved shift have no roster and are never restricted
+// by shifts, only by their time off. Without a time the whole day counts.
+export function availabilityAt(entries: DriverAvailability[], date: string, time?: string): Availability {
+  const off = timeOffOn(entries, date);
+  if (off) return { available: false, reason: off.kind };
+
+  const shifts = entries.filter((entry) => entry.kind === 'shift' && entry.status === 'approved');
+  if (shifts.length === 0) return { available: true };
+
+  const working = time
+    ? shifts.some((shift) => shiftCovers(shift, date, time))
+    : shiftsOn(shifts, date).length > 0;
+  return working ? { available: true } : { available: false, reason: 'outside_shift' };
+}
+
+export function driverAvailabilityAt(
+  driverId: string,
+  entries: DriverAvailability[],
+  date: string,
+  time?: string,
+): Availability {
+  if (!driverId || !date) return { available: true };
+  return availabilityAt(entries.filter((entry) => entry.driver_id === driverId), date, time);
+}
+
+// Warning for a trip given to a driver who is off or outside their shift
+export function availabilityWarning(
+  trip: { driver: string; date: string; time: string },
+  entries: DriverAvailability[],
+  drivers: Array<{ id: string; name: string }>,
+) {
+  const { available, reason } = driverAvailabilityAt(trip.driver, entries, trip.date, trip.time);
+  if (available) return undefined;
+  const name = drivers.find((driver) => driver.id === trip.driver)?.name ?? 'The driver';
+  if (reason === 'outside_shift') {
+    return trip.time
+      ? `${name} is not on shift at ${trip.time.slice(0, 5)} on ${trip.date}`
+      : `${name} has no shift on ${trip.date}`;
+  }
+  return `${name} has a ${AVAILABILITY_KIND_LABELS[reason!].toLowerCase()} on ${trip.date}`;
+}
+
+export function describeAvailability(entry: DriverAvailability) {
+  if (entry.kind === 'shift') {
+    const weekday = entry.weekday ? WEEKDAY_NAMES[entry.weekday - 1] : '';
+    return `${weekday} ${entry.start_time?.slice(0, 5)}–${entry.end_time?.slice(0, 5)}`;
+  }
+  const label = AVAILABILITY_KIND_LABELS[entry.kind];
+  return entry.end_date && entry.end_date !== entry.start_date
+    ? `${label} ${entry.start_date} – ${entry.end_date}`
+    : `${label} ${entry.start_date}`;
+}
+
+// Problems with an entry before it is saved
+export function availabilityProblem(entry: Omit<DriverAvailability, 'id' | 'status'>) {
+  if (entry.kind === 'shift') {
+    if (!entry.weekday) return 'Choose the weekday of the shift';
+    if (!entry.start_time || !entry.end_time) return 'Enter the start and end time of the shift';
+    if (entry.start_time === entry.end_time) return 'The shift must not start and end at the same time';
+    return undefined;
+  }
+  if (!entry.start_date) return 'Choose the first day';
+  if (entry.end_date && entry.end_date < entry.start_date) return 'The last day is before the first day';
+  return undefined;
+}
@@ -0,0 +1,88 @@
+// Positions of addresses from the server's geocoding cache
+// (/api/v1/geocode), which asks the provider only about addresses it has not
+// seen and keeps the pins operators corrected by hand.
+
+import { useEffect, useState } from 'react';
+import { normaliseAddress, type Geocoder, type LatLng } from '@shared/geocoding';
+import { apiRequest } from './api';
+
+// A geocoded_addresses row as the API returns it
+export interface GeocodedAddress {
+  id: string;
+  addressKey: string;
+  address: string;
+  lat: number | null;
+  lng: number | null;
+  source: 'provider' | 'manual';
+  provider: string | null;
+  geocodedAt: string;
+}
+
+interface GeocodeResponse {
+  results: GeocodedAddress[];
+  pending: string[];
+}
+
+// Addresses sent per request; the server answers a few of them from the
+// provider and returns the rest as pending
+const ADDRESSES_PER_REQUEST = 500;
+
+// Positions by normalised address, with null coordinates for addresses that
+// were not found. onProgress gets the share of addresses answered, 0 to 1.
+export async function geocodeAddresses(
+  addresses: string[],
+  onProgress?: (progress: number) => void,
+): Promise<Map<string, GeocodedAddress>> {
+  const positions = new Map<string, GeocodedAddress>();
+  const total = new Set(addresses).size;
+  let remaining = Array.from(new Set(addresses));
+
+  while (remaining.length > 0) {
+    const batch = remaining.slice(0, ADDRESSES_PER_REQUEST);
+    const { results, pending } = await apiRequest<GeocodeResponse>('POST', '/geocode', { addresses: batch });
+    results.forEach(result => positions.set(result.addressKey, result));
+    remaining = [...pending, ...remaining.slice(ADDRESSES_PER_REQUEST)];
+    onProgress?.((total - remaining.length) / total);
+  }
+  return positions;
+}
+
+export function positionOf(positions: Map<string, GeocodedAddress>, address: string): LatLng | null {
+  const position = positions.get(normaliseAddress(address));
+  return position && position.lat != null && position.lng != null
+    ? { lat: position.lat, lng: position.lng }
+    : null;
+}
+
+// Positions of the addresses, filled in once the geocoding cache has
+// answered; addresses not looked up yet are missing from the map
+export function useAddressPositions(addresses: string[]): Map<string, GeocodedAddress> {
+  const [positions, setPositions] = useState<Map<string, GeocodedAddress>>(() => new Map());
+  const key = Array.from(new Set(addresses.filter(address => address.trim()))).sort().join('\n');
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    geocodeAddresses(key.split('\n'))
+      .then(result => {
+        if (!cancelled) setPositions(result);
+      })
+      .catch(err => console.error('Error geocoding addresses:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+  return positions;
+}
+
+// Geocoder for the routing providers
+export const geocoder: Geocoder = async (address) => positionOf(await geocodeAddresses([address]), address);
+
+// Moves the pin of an address by hand
+export function pinAddress(address: string, position: LatLng) {
+  return apiRequest<GeocodedAddress>('PUT', '/geocoded-addresses', { address, ...position });
+}
+
+// Drops a position, so the address is geocoded again when next asked about
+export function forgetAddress(id: string) {
+  return apiRequest<void>('DELETE', `/geocoded-addresses/${id}`);
+}
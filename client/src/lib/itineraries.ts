@@ -0,0 +1,70 @@
+// Itineraries: one booking made of ordered legs, each leg a project with its
+// own time, route and driver. Helpers for entering legs and for the totals
+// shown in the project list and on the voucher.
+
+// The per-leg fields; everything else is taken from the first leg
+export interface LegDraft {
+  date: string;
+  time: string;
+  pickupLocation: string;
+  dropoffLocation: string;
+  driver: string;
+  price: number;
+}
+
+// Loose shape of the DataContext projects the summaries need
+export interface LegProject extends LegDraft {
+  id: string;
+  itineraryId?: string | null;
+  legNumber?: number | null;
+  status: string;
+  paymentStatus: string;
+  passengers: number;
+}
+
+export interface ItinerarySummary {
+  legs: LegProject[];
+  totalPrice: number;
+  // paid only when every leg is paid
+  paymentStatus: 'paid' | 'charge';
+}
+
+// The way back: same route reversed, date and time left for the operator
+export function returnLeg(from: LegDraft): LegDraft {
+  return {
+    date: from.date,
+    time: '',
+    pickupLocation: from.dropoffLocation,
+    dropoffLocation: from.pickupLocation,
+    driver: from.driver,
+    price: from.price,
+  };
+}
+
+// The next stop of a tour starts where the previous leg ended
+export function nextLeg(from: LegDraft): LegDraft {
+  return {
+    date: from.date,
+    time: '',
+    pickupLocation: from.dropoffLocation,
+    dropoffLocation: '',
+    driver: from.driver,
+    price: 0,
+  };
+}
+
+export function compareLegs(a: Pick<LegDraft, 'date' | 'time'>, b: Pick<LegDraft, 'date' | 'time'>) {
+  return `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`);
+}
+
+export function summarizeItinerary<T extends LegProject>(itineraryId: string, projects: T[]): ItinerarySummary & { legs: T[] } {
+  const legs = projects
+    .filter((project) => project.itineraryId === itineraryId)
+    .sort((a, b) => (a.legNumber ?? 0) - (b.legNumber ?? 0) || compareLegs(a, b));
+
+  return {
+    legs,
+    totalPrice: legs.reduce((sum, leg) => sum + (Number(leg.price) || 0), 0),
+    paymentStatus: legs.every((leg) => leg.paymentStatus === 'paid') ? 'paid' : 'charge',
+  };
+}
@@ -0,0 +1,84 @@
+// Saved places (Settings → Places) and the free-text trip addresses that
+// belong to them. An address belongs to a place when it matches the place's
+// address or one of its aliases once normalised, see normaliseAddress.
+
+import { normaliseAddress } from '@shared/geocoding';
+
+// A places row as Supabase returns it
+export interface Place {
+  id: string;
+  name: string;
+  address: string;
+  lat: number | null;
+  lng: number | null;
+  aliases: string[];
+  driver_instructions: string | null;
+}
+
+interface AddressedTrip {
+  pickupLocation: string;
+  dropoffLocation: string;
+}
+
+function placeKeys(place: Place) {
+  return [place.address, ...(place.aliases ?? [])].map(normaliseAddress);
+}
+
+// Looks addresses up by their place; build it once per list of places
+export function placeMatcher(places: Place[]): (address: string | null | undefined) => Place | undefined {
+  const byKey = new Map<string, Place>();
+  places.forEach(place => placeKeys(place).forEach(key => {
+    if (key && !byKey.has(key)) byKey.set(key, place);
+  }));
+  return (address) => (address ? byKey.get(normaliseAddress(address)) : undefined);
+}
+
+export function placeFor(places: Place[], address: string | null | undefined) {
+  return placeMatcher(places)(address);
+}
+
+// Places whose name, address or aliases contain the text, the ones whose
+// name starts with it first
+export function searchPlaces(places: Place[], text: string, limit = 8): Place[] {
+  const query = normaliseAddress(text);
+  if (!query) return [];
+  const name = (place: Place) => normaliseAddress(place.name);
+  return places
+    .filter(place => name(place).includes(query) || placeKeys(place).some(key => key.includes(query)))
+    .sort((a, b) => Number(name(b).startsWith(query)) - Number(name(a).startsWith(query)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+export interface AddressUse {
+  address: string;
+  trips: number;
+}
+
+// Trip addresses that belong to no place yet, as typed, with how many trips
+// use them; the most used first
+export function unplacedAddresses(trips: AddressedTrip[], places: Place[]): AddressUse[] {
+  const matchPlace = placeMatcher(places);
+  const uses = new Map<string, number>();
+  trips.forEach(trip => {
+    [trip.pickupLocation, trip.dropoffLocation].forEach(address => {
+      if (address?.trim() && !matchPlace(address)) uses.set(address, (uses.get(address) ?? 0) + 1);
+    });
+  });
+  return Array.from(uses, ([address, trips]) => ({ address, trips }))
+    .sort((a, b) => b.trips - a.trips || a.address.localeCompare(b.address));
+}
+
+// The aliases of a place once the addresses are folded into it; spellings it
+// already matches are not added again
+export function withAliases(place: Place, addresses: string[]): string[] {
+  const keys = new Set(placeKeys(place));
+  const aliases = [...(place.aliases ?? [])];
+  addresses.forEach(address => {
+    const key = normaliseAddress(address);
+    if (key && !keys.has(key)) {
+      keys.add(key);
+      aliases.push(address.trim());
+    }
+  });
+  return aliases;
+}
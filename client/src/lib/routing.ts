@@ -0,0 +1,83 @@
+// Distance and duration of trips, looked up with the routing provider set by
+// VITE_ROUTING_PROVIDER (osrm, graphhopper or offline; none by default),
+// VITE_ROUTING_URL and VITE_ROUTING_API_KEY; see shared/routing.ts. Addresses
+// are geocoded through the server's geocoding cache.
+
+import { useEffect } from 'react';
+import { createRoutingProvider, estimateRoute, type Route, type RoutedTrip, type RoutingProvider } from '@shared/routing';
+import { geocoder } from './geocoding';
+
+// An unknown provider name is reported and leaves trips without a route,
+// rather than stopping the whole app from loading
+function configuredRouting(): RoutingProvider | null {
+  try {
+    return createRoutingProvider({
+      provider: import.meta.env.VITE_ROUTING_PROVIDER,
+      url: import.meta.env.VITE_ROUTING_URL,
+      apiKey: import.meta.env.VITE_ROUTING_API_KEY,
+      geocode: geocoder,
+    });
+  } catch (err) {
+    console.error(err);
+    return null;
+  }
+}
+
+export const routing = configuredRouting();
+
+// Routes already looked up in this session, by pickup and drop-off
+const routeCache = new Map<string, Promise<Route | null>>();
+
+export function tripRoute(trip: RoutedTrip): Promise<Route | null> {
+  const key = `${trip.pickupLocation?.trim().toLowerCase()}|${trip.dropoffLocation?.trim().toLowerCase()}`;
+  let route = routeCache.get(key);
+  if (!route) {
+    route = estimateRoute(routing, trip);
+    routeCache.set(key, route);
+    // failed lookups are tried again next time
+    route.then(result => result || routeCache.delete(key));
+  }
+  return route;
+}
+
+interface RoutableProject extends RoutedTrip {
+  distanceKm?: number | null;
+  durationMinutes?: number | null;
+}
+
+// The project with its distance and duration filled in, unless it already
+// has a distance. Unknown routes are saved as null.
+export async function withRoute<T extends RoutableProject>(project: T): Promise<T> {
+  if (project.distanceKm != null) return project;
+  const route = await tripRoute(project);
+  return { ...project, distanceKm: route?.distanceKm ?? null, durationMinutes: route?.durationMinutes ?? null };
+}
+
+// Wait for the addresses to stop changing before looking the route up
+const LOOKUP_DELAY_MS = 800;
+
+// Looks up the route of a trip being entered whose route is not known yet;
+// clearing the distance when an address changes looks it up again
+export function useTripRoute(trip: RoutableProject, onRoute: (route: Route | null) => void) {
+  const { pickupLocation, dropoffLocation, distanceKm } = trip;
+  useEffect(() => {
+    if (distanceKm != null || !pickupLocation?.trim() || !dropoffLocation?.trim()) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      tripRoute({ pickupLocation, dropoffLocation }).then(route => {
+        if (!cancelled) onRoute(route);
+      });
+    }, LOOKUP_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pickupLocation, dropoffLocation, distanceKm, onRoute]);
+}
+
+export function describeRoute(route: { distanceKm?: number | null; durationMinutes?: number | null }) {
+  if (route.distanceKm == null) return '';
+  return route.durationMinutes != null
+    ? `${route.distanceKm} km, about ${route.durationMinutes} min`
+    : `${route.distanceKm} km`;
+}
@@ -0,0 +1,60 @@
+// Adapts the tariffs rows to the quoting in shared/tariffs.ts
+
+import { quoteTrip, type FixedRoute, type Quote } from '@shared/tariffs';
+
+// A tariffs row as Supabase returns it
+export interface Tariff {
+  id: string;
+  company_id: string;
+  car_type_id: string;
+  base_fare: number;
+  per_km: number;
+  per_minute: number;
+  minimum_fare: number;
+  night_surcharge_percent: number;
+  night_start: string;
+  night_end: string;
+  holiday_surcharge_percent: number;
+  holiday_dates: string[];
+  fixed_routes: FixedRoute[];
+  driver_fee_percent: number;
+}
+
+// Loose shape of the trip form
+export interface QuotedProject {
+  company: string;
+  carType: string;
+  date: string;
+  time: string;
+  pickupLocation: string;
+  dropoffLocation: string;
+  distanceKm?: number | null;
+  durationMinutes?: number | null;
+}
+
+export function tariffFor(tariffs: Tariff[], companyId: string, carTypeId: string) {
+  return tariffs.find(tariff => tariff.company_id === companyId && tariff.car_type_id === carTypeId);
+}
+
+// Price and driver fee of a trip from its company's tariff for the car type,
+// null when there is no such tariff
+export function quoteProject(project: QuotedProject, tariffs: Tariff[]): Quote | null {
+  const tariff = tariffFor(tariffs, project.company, project.carType);
+  if (!tariff) return null;
+  return quoteTrip(
+    {
+      baseFare: Number(tariff.base_fare),
+      perKm: Number(tariff.per_km),
+      perMinute: Number(tariff.per_minute),
+      minimumFare: Number(tariff.minimum_fare),
+      nightSurchargePercent: Number(tariff.night_surcharge_percent),
+      nightStart: tariff.night_start,
+      nightEnd: tariff.night_end,
+      holidaySurchargePercent: Number(tariff.holiday_surcharge_percent),
+      holidayDates: tariff.holiday_dates ?? [],
+      fixedRoutes: tariff.fixed_routes ?? [],
+      driverFeePercent: Number(tariff.driver_fee_percent),
+    },
+    project,
+  );
+}
@@ -0,0 +1,344 @@
+import { normalizeDate, normalizeTime, type DateOrder } from '@shared/dateTime';
+
+// Spreadsheet import of trips: reading CSV/XLSX files, mapping their columns
+// onto project fields and working out what an import would change before
+// anything is written.
+
+export const importFields = [
+  'date',
+  'time',
+  'pickupLocation',
+  'dropoffLocation',
+  'clientName',
+  'clientPhone',
+  'passengers',
+  'luggage',
+  'company',
+  'driver',
+  'carType',
+  'price',
+  'driverFee',
+  'paymentStatus',
+  'bookingId',
+  'description',
+] as const;
+
+export type ImportField = (typeof importFields)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  time: 'Time',
+  pickupLocation: 'Pick-up Location',
+  dropoffLocation: 'Drop-off Location',
+  clientName: 'Client Name',
+  clientPhone: 'Client Phone',
+  passengers: 'Passengers',
+  luggage: 'Luggage',
+  company: 'Company',
+  driver: 'Driver',
+  carType: 'Car Type',
+  price: 'Total Price',
+  driverFee: 'Trip Fee for Driver',
+  paymentStatus: 'Payment Status',
+  bookingId: 'Booking Reference',
+  description: 'Description',
+};
+
+// Header names recognised when guessing the mapping, compared lowercased
+// with everything but letters and digits removed
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  date: ['date', 'pickupdate', 'traveldate', 'servicedate', 'transferdate', 'datum'],
+  time: ['time', 'pickuptime', 'departuretime', 'servicetime', 'hour', 'ura'],
+  pickupLocation: ['pickup', 'pickuplocation', 'pickupaddress', 'from', 'origin'],
+  dropoffLocation: ['dropoff', 'dropofflocation', 'dropoffaddress', 'to', 'destination'],
+  clientName: ['client', 'clientname', 'customer', 'customername', 'name', 'guest', 'passenger', 'passengername', 'leadtraveller', 'leadtraveler'],
+  clientPhone: ['phone', 'clientphone', 'mobile', 'telephone', 'tel', 'contact'],
+  passengers: ['passengers', 'pax', 'persons', 'people', 'guests', 'adults'],
+  luggage: ['luggage', 'bags', 'baggage', 'suitcases', 'pieces'],
+  company: ['company', 'partner', 'agency', 'touroperator', 'operator'],
+  driver: ['driver', 'drivername', 'chauffeur'],
+  carType: ['cartype', 'car', 'vehicle', 'vehicletype'],
+  price: ['price', 'totalprice', 'amount', 'total', 'fare'],
+  driverFee: ['driverfee', 'tripfee', 'fee'],
+  paymentStatus: ['payment', 'paymentstatus', 'paid'],
+  bookingId: ['booking', 'bookingid', 'bookingref', 'bookingreference', 'reference', 'ref', 'reservation', 'confirmation'],
+  description: ['description', 'notes', 'note', 'comments', 'remarks'],
+};
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface Sheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Loose shapes of the DataContext records the import needs
+interface NamedRecord {
+  id: string;
+  name: string;
+}
+
+export type ExistingProject = {
+  id: string;
+  status: 'active' | 'completed';
+} & Partial<Record<ImportField, unknown>>;
+
+export interface ImportedProject {
+  company: string;
+  driver: string;
+  carType: string;
+  date: string;
+  time: string;
+  pickupLocation: string;
+  dropoffLocation: string;
+  clientName: string;
+  clientPhone: string;
+  passengers: number;
+  luggage: number;
+  price: number;
+  driverFee: number | null;
+  paymentStatus: 'paid' | 'charge';
+  bookingId: string;
+  description: string;
+}
+
+export interface FieldChange {
+  field: ImportField;
+  from: unknown;
+  to: unknown;
+}
+
+// 'skip' is an existing trip that differs but is left alone: updates are
+// turned off or the trip is completed
+export type ImportRowStatus = 'create' | 'update' | 'unchanged' | 'skip' | 'error';
+
+export interface ImportRow {
+  // 1-based line in the file, counting the header
+  line: number;
+  status: ImportRowStatus;
+  project?: ImportedProject;
+  existingId?: string;
+  changes: FieldChange[];
+  errors: string[];
+}
+
+export interface ImportOptions {
+  dateOrder: DateOrder;
+  // rows whose booking reference already exists for the company update
+  // that trip instead of being skipped
+  updateExisting: boolean;
+}
+
+export async function readSheet(file: File): Promise<Sheet> {
+  let rows: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    // loaded on demand, the parser is only needed here
+    const { default: readXlsxFile } = await import('read-excel-file');
+    const cells = await readXlsxFile(file);
+    rows = cells.map((row) => row.map(cellToString));
+  } else {
+    rows = parseCsv(await file.text());
+  }
+
+  rows = rows.filter((row) => row.some((cell) => cell.trim() !== ''));
+  const [headers = [], ...body] = rows;
+  return { headers: headers.map((header) => header.trim()), rows: body };
+}
+
+function cellToString(cell: unknown): string {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) {
+    // Excel stores times of day as dates on 1899-12-30
+    if (cell.getUTCFullYear() < 1901) return cell.toISOString().slice(11, 16);
+    const time = cell.toISOString().slice(11, 16);
+    return time === '00:00' ? cell.toISOString().slice(0, 10) : `${cell.toISOString().slice(0, 10)} ${time}`;
+  }
+  return String(cell);
+}
+
+// RFC 4180 CSV with the delimiter (comma, semicolon or tab) taken from the
+// header line, as spreadsheets in some locales export with semicolons
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.indexOf('\n') === -1 ? undefined : source.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const simplified = headers.map((header) => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+
+  for (const field of importFields) {
+    const index = simplified.findIndex(
+      (header, i) => HEADER_SYNONYMS[field].includes(header) && !Object.values(mapping).includes(i),
+    );
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+}
+
+// Same rule as isDateTimeValid in NewProject
+function isFutureDateTime(date: string, time: string) {
+  return new Date(`${date}T${time}`) > new Date();
+}
+
+function parseAmount(value: string): number | undefined {
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  // "1.234,50" and "12,5" use a decimal comma
+  if (/,\d{1,2}$/.test(cleaned)) cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  else cleaned = cleaned.replace(/,/g, '');
+  const amount = parseFloat(cleaned);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+function resolveByName(records: NamedRecord[], value: string) {
+  const wanted = value.trim().toLowerCase();
+  return records.find((record) => record.id === value.trim() || record.name.trim().toLowerCase() === wanted);
+}
+
+// Compared fields when a row matches an existing trip
+const COMPARED_FIELDS = importFields.filter((field) => field !== 'bookingId');
+
+export function buildImportPlan(
+  sheet: Sheet,
+  mapping: ColumnMapping,
+  lookups: { companies: NamedRecord[]; drivers: NamedRecord[]; carTypes: NamedRecord[] },
+  existingProjects: ExistingProject[],
+  options: ImportOptions,
+): ImportRow[] {
+  const seenBookings = new Set<string>();
+
+  return sheet.rows.map((cells, index): ImportRow => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    const date = normalizeDate(value('date'), options.dateOrder);
+    // a combined "date time" column also provides the time
+    const time = normalizeTime(value('time') || (mapping.time === undefined ? value('date').replace(/^\S+/, '') : ''));
+    if (!date) errors.push(value('date') ? `Unreadable date "${value('date')}"` : 'Date is missing');
+    if (!time) errors.push(value('time') ? `Unreadable time "${value('time')}"` : 'Time is missing');
+    if (date && time && !isFutureDateTime(date, time)) {
+      errors.push('Project date and time must be in the future');
+    }
+
+    const resolve = (field: 'company' | 'driver' | 'carType', records: NamedRecord[]) => {
+      const name = value(field);
+      if (!name) return '';
+      const record = resolveByName(records, name);
+      if (!record) errors.push(`Unknown ${IMPORT_FIELD_LABELS[field].toLowerCase()} "${name}"`);
+      return record?.id ?? '';
+    };
+    const company = resolve('company', lookups.companies);
+    const driver = resolve('driver', lookups.drivers);
+    const carType = resolve('carType', lookups.carTypes);
+
+    const passengers = value('passengers') ? parseInt(value('passengers'), 10) : 1;
+    if (!(passengers >= 1)) errors.push(`Invalid passenger count "${value('passengers')}"`);
+    const luggage = value('luggage') ? parseInt(value('luggage'), 10) : 0;
+    if (!(luggage >= 0)) errors.push(`Invalid luggage count "${value('luggage')}"`);
+
+    const price = value('price') ? parseAmount(value('price')) : 0;
+    if (price === undefined || price < 0) errors.push(`Invalid price "${value('price')}"`);
+    const driverFee = value('driverFee') ? parseAmount(value('driverFee')) : undefined;
+    if (value('driverFee') && (driverFee === undefined || driverFee < 0)) {
+      errors.push(`Invalid driver fee "${value('driverFee')}"`);
+    }
+
+    const bookingId = value('bookingId');
+    if (bookingId) {
+      const key = `${company}|${bookingId}`;
+      if (seenBookings.has(key)) errors.push(`Booking reference "${bookingId}" appears more than once in the file`);
+      seenBookings.add(key);
+    }
+
+    if (errors.length > 0) return { line, status: 'error' as const, changes: [], errors };
+
+    const project: ImportedProject = {
+      company,
+      driver,
+      carType,
+      date: date!,
+      time: time!,
+      pickupLocation: value('pickupLocation'),
+      dropoffLocation: value('dropoffLocation'),
+      clientName: value('clientName'),
+      clientPhone: value('clientPhone'),
+      passengers,
+      luggage,
+      price: price!,
+      driverFee: driverFee && driverFee > 0 ? driverFee : null,
+      paymentStatus: /^(paid|yes|y|true|1|already paid)$/i.test(value('paymentStatus')) ? 'paid' : 'charge',
+      bookingId,
+      description: value('description'),
+    };
+
+    const existing = bookingId
+      ? existingProjects.find((p) => p.bookingId === bookingId && (p.company ?? '') === company)
+      : undefined;
+    if (!existing) return { line, status: 'create' as const, project, changes: [], errors };
+
+    // only mapped columns can change an existing trip
+    const changes = COMPARED_FIELDS.filter((field) => mapping[field] !== undefined)
+      .filter((field) => !sameValue(field, existing[field], project[field]))
+      .map((field) => ({ field, from: existing[field], to: project[field] }));
+
+    // completed trips are history and are never changed by an import
+    let status: ImportRowStatus = 'unchanged';
+    if (changes.length > 0) {
+      status = options.updateExisting && existing.status === 'active' ? 'update' : 'skip';
+    }
+    return { line, status, project, existingId: existing.id, changes, errors };
+  });
+}
+
+function sameValue(field: ImportField, current: unknown, imported: unknown) {
+  const empty = (value: unknown) => value === null || value === undefined || value === '';
+  if (empty(current) && empty(imported)) return true;
+  // the database returns times as HH:MM:SS
+  if (field === 'time') return String(current).slice(0, 5) === String(imported).slice(0, 5);
+  if (typeof imported === 'number') return Number(current) === imported;
+  return String(current ?? '') === String(imported ?? '');
+}
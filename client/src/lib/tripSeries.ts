@@ -0,0 +1,204 @@
+import { supabase } from './supabase';
+import {
+  addDays,
+  formatRRule,
+  lastOccurrence,
+  occurrences,
+  parseRRule,
+} from '@shared/recurrence';
+
+// Recurring trips. A series row keeps the trip details and the schedule;
+// its trips are generated as ordinary projects rows up to SERIES_HORIZON_DAYS
+// ahead and topped up whenever the app loads, so the dashboard, the driver
+// portal and the reports see them like any other trip.
+
+export const SERIES_HORIZON_DAYS = 60;
+
+const INSERT_BATCH_SIZE = 100;
+
+// Project columns copied from the series to each trip
+const TEMPLATE_COLUMNS = [
+  'company_id',
+  'driver_id',
+  'car_type_id',
+  'vehicle_id',
+  'client_name',
+  'client_phone',
+  'customer_id',
+  'pickup_location',
+  'dropoff_location',
+  'time',
+  'passengers',
+  'luggage',
+  'distance_km',
+  'duration_minutes',
+  'price',
+  'driver_fee',
+  'price_overridden',
+  'payment_status',
+  'description',
+] as const;
+
+export interface TripSeries {
+  id: string;
+  rule: string;
+  start_date: string;
+  generated_until: string | null;
+  time: string;
+  user_id: string;
+  [column: string]: unknown;
+}
+
+type Row = Record<string, unknown>;
+
+function localToday() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function pickTemplate(row: Row): Row {
+  const template: Row = {};
+  for (const column of TEMPLATE_COLUMNS) {
+    if (column in row) template[column] = row[column];
+  }
+  return template;
+}
+
+export async function fetchSeries(id: string): Promise<TripSeries | null> {
+  const { data, error } = await supabase.from('trip_series').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Inserts the trips of a series between its generated_until and the horizon.
+// Occurrences that are already over, and dates the series already has a trip
+// on, are skipped. Returns the number of trips created.
+export async function extendSeries(series: TripSeries): Promise<number> {
+  const rule = parseRRule(series.rule);
+  const today = localToday();
+  const horizon = addDays(today, SERIES_HORIZON_DAYS);
+  const from = series.generated_until ? addDays(series.generated_until, 1) : series.start_date;
+  if (from > horizon) return 0;
+
+  const now = new Date();
+  const dates = occurrences(rule, series.start_date, { from, to: horizon })
+    .filter((date) => new Date(`${date}T${series.time}`) > now);
+
+  const rows = dates.map((date) => ({
+    ...pickTemplate(series),
+    date,
+    series_id: series.id,
+    booking_id: Math.floor(Math.random() * 1000000000).toString(),
+    status: 'active',
+    source: 'manual',
+    // generated trips send their passengers no booking messages
+    bulk_inserted: true,
+    user_id: series.user_id,
+  }));
+  // another open session may be generating the same trips; the unique
+  // (series_id, date) index lets only one of them through
+  let created = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('projects')
+      .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'series_id,date', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw error;
+    created += data?.length ?? 0;
+  }
+
+  const { error } = await supabase
+    .from('trip_series')
+    .update({ generated_until: horizon })
+    .eq('id', series.id);
+  if (error) throw error;
+
+  return created;
+}
+
+// Tops up every series of the user that has not reached the horizon yet
+export async function extendAllSeries(userId: string): Promise<number> {
+  const horizon = addDays(localToday(), SERIES_HORIZON_DAYS);
+  const { data, error } = await supabase
+    .from('trip_series')
+    .select('*')
+    .eq('user_id', userId)
+    .or(`generated_until.is.null,generated_until.lt.${horizon}`);
+  if (error) throw error;
+
+  let created = 0;
+  for (const series of (data || []) as TripSeries[]) {
+    // finished series are left alone
+    const last = lastOccurrence(parseRRule(series.rule), series.start_date);
+    if (last && series.generated_until && series.generated_until >= last) continue;
+    try {
+      created += await extendSeries(series);
+    } catch (err) {
+      console.error(`Error generating trips of series ${series.id}:`, err);
+    }
+  }
+  return created;
+}
+
+// Creates a series from a projects insert row (as built for a single trip)
+// whose date is the first day of the schedule, and generates its trips
+export async function createSeries(projectRow: Row, rule: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('trip_series')
+    .insert([{
+      ...pickTemplate(projectRow),
+      rule: formatRRule(parseRRule(rule)),
+      start_date: projectRow.date,
+      user_id: projectRow.user_id,
+    }])
+    .select()
+    .single();
+  if (error) throw error;
+
+  try {
+    return await extendSeries(data);
+  } catch (err) {
+    await supabase.from('trip_series').delete().eq('id', data.id);
+    throw err;
+  }
+}
+
+// Applies trip changes (projects columns) to the series and to all of its
+// upcoming active trips. Dates stay as scheduled.
+export async function updateSeries(seriesId: string, changes: Row): Promise<void> {
+  const template = pickTemplate(changes);
+  if (Object.keys(template).length === 0) return;
+
+  const { error } = await supabase.from('trip_series').update(template).eq('id', seriesId);
+  if (error) throw error;
+
+  const { error: tripsError } = await supabase
+    .from('projects')
+    .update(template)
+    .eq('series_id', seriesId)
+    .eq('status', 'active')
+    .gte('date', localToday());
+  if (tripsError) throw tripsError;
+}
+
+// Ends the series on lastDate: later active trips are deleted and no new
+// ones are generated. Completed trips stay in the history.
+export async function endSeries(series: TripSeries, lastDate: string): Promise<void> {
+  const rule = parseRRule(series.rule);
+  const { error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('series_id', series.id)
+    .eq('status', 'active')
+    .gt('date', lastDate);
+  if (error) throw error;
+
+  const { error: seriesError } = await supabase
+    .from('trip_series')
+    .update({
+      rule: formatRRule({ ...rule, count: undefined, until: lastDate }),
+      generated_until: lastDate,
+    })
+    .eq('id', series.id);
+  if (seriesError) throw seriesError;
+}
@@ -0,0 +1,101 @@
+// Vehicle documents and their expiry warnings, shown in settings
+
+export const vehicleDocuments = ['insurance', 'inspection', 'registration'] as const;
+
+export type VehicleDocument = (typeof vehicleDocuments)[number];
+
+export const VEHICLE_DOCUMENT_LABELS: Record<VehicleDocument, string> = {
+  insurance: 'Insurance',
+  inspection: 'Inspection',
+  registration: 'Registration',
+};
+
+// Column holding each document's expiry date
+export const VEHICLE_DOCUMENT_COLUMNS = {
+  insurance: 'insurance_expires_on',
+  inspection: 'inspection_expires_on',
+  registration: 'registration_expires_on',
+} as const satisfies Record<VehicleDocument, string>;
+
+// Documents expiring within this many days are warned about
+export const EXPIRY_WARNING_DAYS = 30;
+
+type VehicleDocumentDates = {
+  [D in VehicleDocument as (typeof VEHICLE_DOCUMENT_COLUMNS)[D]]: string | null;
+};
+
+export interface DocumentExpiry {
+  document: VehicleDocument;
+  expiresOn: string;
+  // negative once expired
+  daysLeft: number;
+}
+
+function daysUntil(isoDate: string, today: Date) {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((Date.UTC(year, month - 1, day) - start) / 86400000);
+}
+
+// Expired documents and those expiring within the warning window, soonest first
+export function documentExpiries(vehicle: VehicleDocumentDates, today = new Date()): DocumentExpiry[] {
+  return vehicleDocuments
+    .map((document) => {
+      const expiresOn = vehicle[VEHICLE_DOCUMENT_COLUMNS[document]];
+      return expiresOn ? { document, expiresOn, daysLeft: daysUntil(expiresOn, today) } : undefined;
+    })
+    .filter((expiry): expiry is DocumentExpiry => !!expiry && expiry.daysLeft <= EXPIRY_WARNING_DAYS)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+export function describeExpiry({ document, daysLeft }: DocumentExpiry) {
+  const label = VEHICLE_DOCUMENT_LABELS[document];
+  if (daysLeft < 0) return `${label} expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`;
+  if (daysLeft === 0) return `${label} expires today`;
+  return `${label} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+}
+
+// Loose shape of the DataContext vehicles the trip forms need
+interface VehicleLike extends VehicleDocumentDates {
+  id: string;
+  plate: string;
+  model: string | null;
+  car_type_id: string | null;
+  seats: number;
+  default_driver_id: string | null;
+}
+
+export function vehicleLabel(vehicle: VehicleLike, today = new Date()) {
+  const expired = documentExpiries(vehicle, today).filter((expiry) => expiry.daysLeft < 0);
+  return [
+    vehicle.plate,
+    vehicle.model ? ` · ${vehicle.model}` : '',
+    ` (${vehicle.seats} seats)`,
+    expired.length > 0
+      ? ` — ${expired.map((expiry) => VEHICLE_DOCUMENT_LABELS[expiry.document].toLowerCase()).join(', ')} expired`
+      : '',
+  ].join('');
+}
+
+// Picking a vehicle for a trip also sets its car type, and its default driver
+// unless a driver is already chosen
+export function assignVehicle<T extends { vehicle?: string | null; carType: string; driver: string }>(
+  trip: T,
+  vehicleId: string,
+  vehicles: VehicleLike[],
+): T {
+  const vehicle = vehicles.find((v) => v.id === vehicleId);
+  return {
+    ...trip,
+    vehicle: vehicleId,
+    carType: vehicle?.car_type_id || trip.carType,
+    driver: trip.driver || vehicle?.default_driver_id || '',
+  };
+}
+
+export function vehicleSeatProblem(passengers: number, vehicleId: string | null | undefined, vehicles: VehicleLike[]) {
+  const vehicle = vehicles.find((v) => v.id === vehicleId);
+  return vehicle && passengers > vehicle.seats
+    ? `${passengers} passengers exceed the ${vehicle.seats} seats of ${vehicle.plate}`
+    : undefined;
+}
@@ -7,6 +7,8 @@ if (!process.env.DATABASE_URL) {
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
+  // connect-pg-simple owns the session table
+  tablesFilter: ["!session"],
   dialect: "postgresql",
   dbCredentials: {
     url: process.env.DATABASE_URL,
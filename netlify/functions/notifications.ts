@@ -0,0 +1,14 @@
+import { schedule } from '@netlify/functions';
+import { initStorage } from '../../server/storage.js';
+import { queueDuePaymentNotifications, sendDueNotifications } from '../../server/notifications.js';
+
+const ready = initStorage();
+
+// Due payments are announced, and queued email and push notifications sent,
+// once a minute
+export const handler = schedule('* * * * *', async () => {
+  await ready;
+  await queueDuePaymentNotifications();
+  await sendDueNotifications();
+  return { statusCode: 200 };
+});
@@ -0,0 +1,14 @@
+import { schedule } from '@netlify/functions';
+import { initStorage } from '../../server/storage.js';
+import { queueDueReminders, sendDuePassengerMessages } from '../../server/passengerMessages.js';
+
+const ready = initStorage();
+
+// Like webhook deliveries, pickup reminders and queued passenger messages
+// are worked off once a minute
+export const handler = schedule('* * * * *', async () => {
+  await ready;
+  await queueDueReminders();
+  await sendDuePassengerMessages();
+  return { statusCode: 200 };
+});
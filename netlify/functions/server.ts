@@ -1,18 +1,36 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
 import serverless from 'serverless-http';
-import express from 'express';
+import express, { type Request, Response, NextFunction } from 'express';
 import { registerRoutes } from '../../server/routes.js';
 
 const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+
+// netlify.toml rewrites /api/* to this function; depending on how it was
+// invoked the path may still carry the function prefix
+app.use((req, _res, next) => {
+  req.url = req.url.replace(/^\/\.netlify\/functions\/server\//, '/api/');
+  next();
+});
 
 // Initialize routes
-registerRoutes(app);
+const ready = registerRoutes(app).then(() => {
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    const message = err.message || 'Internal Server Error';
+
+    console.error(err);
+    res.status(status).json({ message });
+  });
+});
 
 // Create serverless handler
 const serverlessHandler = serverless(app);
 
 // Export as Netlify function
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  await ready;
   const result = await serverlessHandler(event, context);
   return result;
-};
\ No newline at end of file
+};
@@ -0,0 +1,13 @@
+import { schedule } from '@netlify/functions';
+import { initStorage } from '../../server/storage.js';
+import { deliverDueWebhooks } from '../../server/webhooks.js';
+
+const ready = initStorage();
+
+// Functions do not stay alive between requests, so queued webhook
+// deliveries and their retries are worked off once a minute instead
+export const handler = schedule('* * * * *', async () => {
+  await ready;
+  await deliverDueWebhooks();
+  return { statusCode: 200 };
+});
@@ -0,0 +1,235 @@
+import { type Express, type Request, type RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { type User as SelectUser, type ApiKey } from "@shared/schema";
+import { API_KEY_PREFIX, hashApiKey } from "@shared/apiKeys";
+import { storage } from "./storage";
+import { verifySupabaseToken, type SupabaseUser } from "./supabaseAuth";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      // set when the request was authenticated with a personal API key
+      apiKey?: ApiKey;
+      // set when the dashboard called with its Supabase access token
+      supabaseUser?: SupabaseUser;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const credentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash back to the client
+function toPublicUser({ password: _password, ...user }: SelectUser) {
+  return user;
+}
+
+// Accepts "Authorization: Bearer rp_..." (a personal API key) or a Supabase
+// access token as alternatives to the session cookie. Requests without
+// either fall through to the session.
+const authenticateBearer: RequestHandler = async (req, res, next) => {
+  const [scheme, token] = req.headers.authorization?.split(" ") ?? [];
+  if (scheme !== "Bearer" || !token) return next();
+
+  try {
+    if (isJwt(token)) {
+      const supabaseUser = await verifySupabaseToken(token);
+      if (!supabaseUser) {
+        return res.status(401).json({ message: "Invalid or expired session" });
+      }
+      req.supabaseUser = supabaseUser;
+      return next();
+    }
+    if (!token.startsWith(API_KEY_PREFIX)) return next();
+
+    const apiKey = await storage.getApiKeyByHash(await hashApiKey(token));
+    if (!apiKey || apiKey.revokedAt) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+    req.apiKey = apiKey;
+    await storage.touchApiKey(apiKey.id);
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
+
+function isJwt(token: string) {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.supabaseUser) return next();
+  if (req.apiKey) {
+    if (req.apiKey.scope === "read" && req.method !== "GET" && req.method !== "HEAD") {
+      return res.status(403).json({ message: "This API key is read-only" });
+    }
+    return next();
+  }
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+};
+
+// For routes that manage the account itself (such as API keys), which a key
+// must not be able to do on its own behalf
+export const requireSession: RequestHandler = (req, res, next) => {
+  if (req.supabaseUser) return next();
+  if (req.apiKey || !req.isAuthenticated()) {
+    return res.status(401).json({ message: "Sign in to manage this account" });
+  }
+  next();
+};
+
+// The account a request acts for, after requireAuth has run. Throws a 401
+// rather than acting for no one when it has not.
+export function currentUserId(req: Request): string {
+  const userId = req.user?.id ?? req.supabaseUser?.id ?? req.apiKey?.userId;
+  if (!userId) throw Object.assign(new Error("Not authenticated"), { status: 401 });
+  return userId;
+}
+
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (app.get("env") === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    // Sessions will not survive a restart, which is fine for local development
+    console.warn("SESSION_SECRET is not set, using a random session secret");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret,
+      resave: false,
+      saveUninitialized: false,
+      store: storage.sessionStore,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: 1000 * 60 * 60 * 24 * 7, // one week
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateBearer);
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(email);
+        if (!user?.password || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const credentials = credentialsSchema.safeParse(req.body);
+      if (!credentials.success) {
+        return res.status(400).json({ message: credentials.error.errors[0].message });
+      }
+
+      const { email, password } = credentials.data;
+      if (await storage.getUserByUsername(email)) {
+        return res.status(400).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.createUser({
+        email,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  // Works for every way requireAuth accepts; only session logins set
+  // req.user, so the account is looked up by id. Dashboard accounts live in
+  // Supabase Auth and may have no users row.
+  app.get("/api/me", requireAuth, async (req, res, next) => {
+    try {
+      const user = req.user ?? (await storage.getUser(currentUserId(req)));
+      if (user) return res.json(toPublicUser(user));
+      if (req.supabaseUser) {
+        return res.json({ id: req.supabaseUser.id, email: req.supabaseUser.email ?? null });
+      }
+      res.status(404).json({ message: "Account not found" });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
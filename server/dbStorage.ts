@@ -0,0 +1,793 @@
+import { and, asc, desc, eq, gte, inArray, isNull, lte, ne, notExists, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import {
+  users,
+  companies,
+  carTypes,
+  drivers,
+  vehicles,
+  projects,
+  payments,
+  apiKeys,
+  webhooks,
+  webhookDeliveries,
+  emailTemplates,
+  geocodedAddresses,
+  customers,
+  messageTemplates,
+  passengerMessages,
+  notificationPreferences,
+  notifications,
+  type User,
+  type InsertUser,
+  type Company,
+  type InsertCompany,
+  type CarType,
+  type InsertCarType,
+  type Driver,
+  type InsertDriver,
+  type Vehicle,
+  type InsertVehicle,
+  type Project,
+  type InsertProject,
+  type Payment,
+  type InsertPayment,
+  type ApiKey,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type EmailTemplate,
+  type InsertEmailTemplate,
+  type GeocodedAddress,
+  type Customer,
+  type MessageTemplate,
+  type InsertMessageTemplate,
+  type PassengerMessage,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type Notification,
+} from "@shared/schema";
+import { db, pool } from "./db";
+import {
+  generateBookingId,
+  type IStorage,
+  type NewApiKey,
+  type NewWebhook,
+  type NewGeocodedAddress,
+  type NewPassengerMessage,
+  type NewNotification,
+  type ProjectFilters,
+  NOTIFICATION_CLAIM_LEASE_MS,
+  NOTIFICATION_LOG_LIMIT,
+  PASSENGER_MESSAGE_CLAIM_LEASE_MS,
+  PASSENGER_MESSAGE_LOG_LIMIT,
+  WEBHOOK_CLAIM_LEASE_MS,
+  WEBHOOK_DELIVERY_LOG_LIMIT,
+} from "./storage";
+
+const PostgresSessionStore = connectPg(session);
+
+// IStorage over the Postgres database behind DATABASE_URL (the Supabase
+// instance in production). Triggers such as update_driver_earnings keep
+// doing their work, so this class does not repeat them.
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getCompanies(userId: string): Promise<Company[]> {
+    return db.select().from(companies).where(eq(companies.userId, userId));
+  }
+
+  async getCompany(userId: string, id: string): Promise<Company | undefined> {
+    const [company] = await db
+      .select()
+      .from(companies)
+      .where(and(eq(companies.id, id), eq(companies.userId, userId)));
+    return company;
+  }
+
+  async createCompany(userId: string, insertCompany: InsertCompany): Promise<Company> {
+    const [company] = await db
+      .insert(companies)
+      .values({ ...insertCompany, userId })
+      .returning();
+    return company;
+  }
+
+  async updateCompany(userId: string, id: string, updates: Partial<InsertCompany>): Promise<Company | undefined> {
+    if (isEmpty(updates)) return this.getCompany(userId, id);
+    const [company] = await db
+      .update(companies)
+      .set(updates)
+      .where(and(eq(companies.id, id), eq(companies.userId, userId)))
+      .returning();
+    return company;
+  }
+
+  async deleteCompany(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(companies)
+      .where(and(eq(companies.id, id), eq(companies.userId, userId)))
+      .returning({ id: companies.id });
+    return deleted.length > 0;
+  }
+
+  async getCompanyByInboundToken(token: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.inboundToken, token));
+    return company;
+  }
+
+  async rotateCompanyInboundToken(userId: string, id: string): Promise<Company | undefined> {
+    const [company] = await db
+      .update(companies)
+      .set({ inboundToken: sql`gen_random_uuid()` })
+      .where(and(eq(companies.id, id), eq(companies.userId, userId)))
+      .returning();
+    return company;
+  }
+
+  async getCarTypes(userId: string): Promise<CarType[]> {
+    return db.select().from(carTypes).where(eq(carTypes.userId, userId));
+  }
+
+  async getCarType(userId: string, id: string): Promise<CarType | undefined> {
+    const [carType] = await db
+      .select()
+      .from(carTypes)
+      .where(and(eq(carTypes.id, id), eq(carTypes.userId, userId)));
+    return carType;
+  }
+
+  async createCarType(userId: string, insertCarType: InsertCarType): Promise<CarType> {
+    const [carType] = await db
+      .insert(carTypes)
+      .values({ ...insertCarType, userId })
+      .returning();
+    return carType;
+  }
+
+  async updateCarType(userId: string, id: string, updates: Partial<InsertCarType>): Promise<CarType | undefined> {
+    if (isEmpty(updates)) return this.getCarType(userId, id);
+    const [carType] = await db
+      .update(carTypes)
+      .set(updates)
+      .where(and(eq(carTypes.id, id), eq(carTypes.userId, userId)))
+      .returning();
+    return carType;
+  }
+
+  async deleteCarType(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(carTypes)
+      .where(and(eq(carTypes.id, id), eq(carTypes.userId, userId)))
+      .returning({ id: carTypes.id });
+    return deleted.length > 0;
+  }
+
+  async getDrivers(userId: string): Promise<Driver[]> {
+    return db.select().from(drivers).where(eq(drivers.userId, userId));
+  }
+
+  async getDriver(userId: string, id: string): Promise<Driver | undefined> {
+    const [driver] = await db
+      .select()
+      .from(drivers)
+      .where(and(eq(drivers.id, id), eq(drivers.userId, userId)));
+    return driver;
+  }
+
+  async createDriver(userId: string, insertDriver: InsertDriver): Promise<Driver> {
+    const [driver] = await db
+      .insert(drivers)
+      .values({ ...insertDriver, userId })
+      .returning();
+    return driver;
+  }
+
+  async updateDriver(userId: string, id: string, updates: Partial<InsertDriver>): Promise<Driver | undefined> {
+    if (isEmpty(updates)) return this.getDriver(userId, id);
+    const [driver] = await db
+      .update(drivers)
+      .set(updates)
+      .where(and(eq(drivers.id, id), eq(drivers.userId, userId)))
+      .returning();
+    return driver;
+  }
+
+  async deleteDriver(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(drivers)
+      .where(and(eq(drivers.id, id), eq(drivers.userId, userId)))
+      .returning({ id: drivers.id });
+    return deleted.length > 0;
+  }
+
+  async getVehicles(userId: string): Promise<Vehicle[]> {
+    return db.select().from(vehicles).where(eq(vehicles.userId, userId)).orderBy(asc(vehicles.plate));
+  }
+
+  async getVehicle(userId: string, id: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await db
+      .select()
+      .from(vehicles)
+      .where(and(eq(vehicles.id, id), eq(vehicles.userId, userId)));
+    return vehicle;
+  }
+
+  async createVehicle(userId: string, insertVehicle: InsertVehicle): Promise<Vehicle> {
+    const [vehicle] = await db
+      .insert(vehicles)
+      .values({ ...insertVehicle, userId })
+      .returning();
+    return vehicle;
+  }
+
+  async updateVehicle(userId: string, id: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    if (isEmpty(updates)) return this.getVehicle(userId, id);
+    const [vehicle] = await db
+      .update(vehicles)
+      .set(updates)
+      .where(and(eq(vehicles.id, id), eq(vehicles.userId, userId)))
+      .returning();
+    return vehicle;
+  }
+
+  async deleteVehicle(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(vehicles)
+      .where(and(eq(vehicles.id, id), eq(vehicles.userId, userId)))
+      .returning({ id: vehicles.id });
+    return deleted.length > 0;
+  }
+
+  async getProjects(userId: string, filters: ProjectFilters = {}): Promise<Project[]> {
+    const conditions: SQL[] = [eq(projects.userId, userId)];
+    if (filters.status) conditions.push(eq(projects.status, filters.status));
+    if (filters.driverId) conditions.push(eq(projects.driverId, filters.driverId));
+    if (filters.companyId) conditions.push(eq(projects.companyId, filters.companyId));
+    if (filters.date) conditions.push(eq(projects.date, filters.date));
+    if (filters.bookingId) conditions.push(eq(projects.bookingId, filters.bookingId));
+
+    return db
+      .select()
+      .from(projects)
+      .where(and(...conditions))
+      .orderBy(desc(projects.createdAt));
+  }
+
+  async getProject(userId: string, id: string): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.userId, userId)));
+    return project;
+  }
+
+  async createProject(userId: string, insertProject: InsertProject): Promise<Project> {
+    const [project] = await db
+      .insert(projects)
+      .values({
+        ...insertProject,
+        bookingId: insertProject.bookingId || generateBookingId(),
+        userId,
+      })
+      .returning();
+    return project;
+  }
+
+  async updateProject(userId: string, id: string, updates: Partial<InsertProject>): Promise<Project | undefined> {
+    if (isEmpty(updates)) return this.getProject(userId, id);
+    const [project] = await db
+      .update(projects)
+      .set(updates)
+      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(projects)
+      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
+      .returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+
+  async getPayments(userId: string): Promise<Payment[]> {
+    return db
+      .select()
+      .from(payments)
+      .where(eq(payments.userId, userId))
+      .orderBy(desc(payments.date));
+  }
+
+  async getPayment(userId: string, id: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.id, id), eq(payments.userId, userId)));
+    return payment;
+  }
+
+  async createPayment(userId: string, insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await db
+      .insert(payments)
+      .values({ ...insertPayment, userId })
+      .returning();
+    return payment;
+  }
+
+  async updatePayment(userId: string, id: string, updates: Partial<InsertPayment>): Promise<Payment | undefined> {
+    if (isEmpty(updates)) return this.getPayment(userId, id);
+    const [payment] = await db
+      .update(payments)
+      .set(updates)
+      .where(and(eq(payments.id, id), eq(payments.userId, userId)))
+      .returning();
+    return payment;
+  }
+
+  async deletePayment(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(payments)
+      .where(and(eq(payments.id, id), eq(payments.userId, userId)))
+      .returning({ id: payments.id });
+    return deleted.length > 0;
+  }
+
+  async completePayment(userId: string, id: string): Promise<Payment | undefined> {
+    // Same update as the mark_payment_paid RPC; the driver's total_earnings
+    // are bumped by the update_driver_earnings_on_payment trigger
+    const [payment] = await db
+      .update(payments)
+      .set({ status: "paid", completedAt: new Date() })
+      .where(
+        and(
+          eq(payments.id, id),
+          eq(payments.userId, userId),
+          eq(payments.status, "pending"),
+        ),
+      )
+      .returning();
+    return payment ?? this.getPayment(userId, id);
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async createApiKey(userId: string, newApiKey: NewApiKey): Promise<ApiKey> {
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({ ...newApiKey, userId })
+      .returning();
+    return apiKey;
+  }
+
+  async revokeApiKey(userId: string, id: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning();
+    if (apiKey) return apiKey;
+
+    // Already revoked (or not ours): report the stored row unchanged
+    const [existing] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)));
+    return existing;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
+  async getWebhooks(userId: string): Promise<Webhook[]> {
+    return db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(desc(webhooks.createdAt));
+  }
+
+  async getWebhook(userId: string, id: string): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+    return webhook;
+  }
+
+  async createWebhook(userId: string, newWebhook: NewWebhook): Promise<Webhook> {
+    const [webhook] = await db
+      .insert(webhooks)
+      .values({ ...newWebhook, userId })
+      .returning();
+    return webhook;
+  }
+
+  async updateWebhook(userId: string, id: string, updates: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    if (isEmpty(updates)) return this.getWebhook(userId, id);
+    const [webhook] = await db
+      .update(webhooks)
+      .set(updates)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+      .returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  async getWebhookDeliveries(userId: string, webhookId?: string): Promise<WebhookDelivery[]> {
+    const conditions: SQL[] = [eq(webhookDeliveries.userId, userId)];
+    if (webhookId) conditions.push(eq(webhookDeliveries.webhookId, webhookId));
+
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(WEBHOOK_DELIVERY_LOG_LIMIT);
+  }
+
+  async claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.status, "pending"),
+          lte(webhookDeliveries.nextAttemptAt, new Date()),
+        ),
+      )
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(Date.now() + WEBHOOK_CLAIM_LEASE_MS) })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void> {
+    await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id));
+  }
+
+  async getEmailTemplates(userId: string): Promise<EmailTemplate[]> {
+    return db.select().from(emailTemplates).where(eq(emailTemplates.userId, userId));
+  }
+
+  async getEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(emailTemplates)
+      .where(and(eq(emailTemplates.id, id), eq(emailTemplates.userId, userId)));
+    return template;
+  }
+
+  async createEmailTemplate(userId: string, insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [template] = await db
+      .insert(emailTemplates)
+      .values({ ...insertTemplate, userId })
+      .returning();
+    return template;
+  }
+
+  async updateEmailTemplate(userId: string, id: string, updates: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
+    if (isEmpty(updates)) return this.getEmailTemplate(userId, id);
+    const [template] = await db
+      .update(emailTemplates)
+      .set(updates)
+      .where(and(eq(emailTemplates.id, id), eq(emailTemplates.userId, userId)))
+      .returning();
+    return template;
+  }
+
+  async deleteEmailTemplate(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(emailTemplates)
+      .where(and(eq(emailTemplates.id, id), eq(emailTemplates.userId, userId)))
+      .returning({ id: emailTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getGeocodedAddresses(userId: string, addressKeys?: string[]): Promise<GeocodedAddress[]> {
+    const conditions: SQL[] = [eq(geocodedAddresses.userId, userId)];
+    if (addressKeys) conditions.push(inArray(geocodedAddresses.addressKey, addressKeys));
+    return db.select().from(geocodedAddresses).where(and(...conditions));
+  }
+
+  async saveGeocodedAddress(userId: string, newAddress: NewGeocodedAddress): Promise<GeocodedAddress> {
+    const { lat, lng, source, provider } = newAddress;
+    const [saved] = await db
+      .insert(geocodedAddresses)
+      .values({ ...newAddress, userId })
+      .onConflictDoUpdate({
+        target: [geocodedAddresses.userId, geocodedAddresses.addressKey],
+        set: { lat, lng, source, provider, geocodedAt: new Date() },
+        // a provider answer never replaces a manual pin
+        setWhere:
+          source === "manual" ? undefined : sql`${geocodedAddresses.source} <> 'manual'`,
+      })
+      .returning();
+    if (saved) return saved;
+
+    const [existing] = await this.getGeocodedAddresses(userId, [newAddress.addressKey]);
+    return existing;
+  }
+
+  async deleteGeocodedAddress(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(geocodedAddresses)
+      .where(and(eq(geocodedAddresses.id, id), eq(geocodedAddresses.userId, userId)))
+      .returning({ id: geocodedAddresses.id });
+    return deleted.length > 0;
+  }
+
+  async getCustomer(userId: string, id: string): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(and(eq(customers.id, id), eq(customers.userId, userId)));
+    return customer;
+  }
+
+  async getMessageTemplates(userId: string): Promise<MessageTemplate[]> {
+    return db.select().from(messageTemplates).where(eq(messageTemplates.userId, userId));
+  }
+
+  async saveMessageTemplate(userId: string, insertTemplate: InsertMessageTemplate): Promise<MessageTemplate> {
+    const { channel, body, enabled } = insertTemplate;
+    const [template] = await db
+      .insert(messageTemplates)
+      .values({ ...insertTemplate, userId })
+      .onConflictDoUpdate({
+        target: [messageTemplates.companyId, messageTemplates.event],
+        set: { channel, body, enabled },
+      })
+      .returning();
+    return template;
+  }
+
+  async deleteMessageTemplate(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(messageTemplates)
+      .where(and(eq(messageTemplates.id, id), eq(messageTemplates.userId, userId)))
+      .returning({ id: messageTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getPassengerMessages(userId: string, projectId?: string): Promise<PassengerMessage[]> {
+    const conditions: SQL[] = [eq(passengerMessages.userId, userId)];
+    if (projectId) conditions.push(eq(passengerMessages.projectId, projectId));
+
+    return db
+      .select()
+      .from(passengerMessages)
+      .where(and(...conditions))
+      .orderBy(desc(passengerMessages.createdAt))
+      .limit(PASSENGER_MESSAGE_LOG_LIMIT);
+  }
+
+  async getTripsAwaitingReminder(fromDate: string, toDate: string): Promise<Project[]> {
+    const rows = await db
+      .select({ project: projects })
+      .from(projects)
+      .innerJoin(
+        messageTemplates,
+        and(
+          eq(messageTemplates.companyId, projects.companyId),
+          eq(messageTemplates.userId, projects.userId),
+          eq(messageTemplates.event, "pickup.reminder"),
+          eq(messageTemplates.enabled, true),
+        ),
+      )
+      .where(
+        and(
+          or(isNull(projects.status), ne(projects.status, "completed")),
+          gte(projects.date, fromDate),
+          lte(projects.date, toDate),
+          notExists(
+            db
+              .select({ id: passengerMessages.id })
+              .from(passengerMessages)
+              .where(
+                and(
+                  eq(passengerMessages.projectId, projects.id),
+                  eq(passengerMessages.event, "pickup.reminder"),
+                ),
+              ),
+          ),
+        ),
+      );
+    return rows.map((row) => row.project);
+  }
+
+  async queuePassengerMessage(message: NewPassengerMessage): Promise<void> {
+    // passenger_messages_one_reminder_idx turns a second reminder into a no-op
+    await db.insert(passengerMessages).values(message).onConflictDoNothing();
+  }
+
+  async claimDuePassengerMessages(limit: number): Promise<PassengerMessage[]> {
+    const due = db
+      .select({ id: passengerMessages.id })
+      .from(passengerMessages)
+      .where(
+        and(
+          eq(passengerMessages.status, "pending"),
+          lte(passengerMessages.nextAttemptAt, new Date()),
+        ),
+      )
+      .orderBy(asc(passengerMessages.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db
+      .update(passengerMessages)
+      .set({ nextAttemptAt: new Date(Date.now() + PASSENGER_MESSAGE_CLAIM_LEASE_MS) })
+      .where(inArray(passengerMessages.id, due))
+      .returning();
+  }
+
+  async updatePassengerMessage(id: string, updates: Partial<PassengerMessage>): Promise<void> {
+    await db.update(passengerMessages).set(updates).where(eq(passengerMessages.id, id));
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(
+    userId: string,
+    insertPreferences: InsertNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    // a save replaces the whole row, as a PUT does
+    const values = {
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timeZone: null,
+      email: null,
+      pushTopic: null,
+      ...insertPreferences,
+      updatedAt: new Date(),
+    };
+    const [preferences] = await db
+      .insert(notificationPreferences)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return preferences;
+  }
+
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(NOTIFICATION_LOG_LIMIT);
+  }
+
+  async markNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.channel, "in_app"),
+          isNull(notifications.readAt),
+        ),
+      );
+  }
+
+  async getPaymentsAwaitingDueNotice(fromDate: string, toDate: string): Promise<Payment[]> {
+    return db
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.status, "pending"),
+          gte(payments.date, fromDate),
+          lte(payments.date, toDate),
+          notExists(
+            db
+              .select({ id: notifications.id })
+              .from(notifications)
+              .where(and(eq(notifications.paymentId, payments.id), eq(notifications.event, "payment.due"))),
+          ),
+          // accounts without saved preferences get payment.due in-app
+          notExists(
+            db
+              .select({ userId: notificationPreferences.userId })
+              .from(notificationPreferences)
+              .where(
+                and(
+                  eq(notificationPreferences.userId, payments.userId),
+                  sql`coalesce(jsonb_array_length(${notificationPreferences.channels} -> 'payment.due'), 0) = 0`,
+                ),
+              ),
+          ),
+        ),
+      );
+  }
+
+  async queueNotification(notification: NewNotification): Promise<void> {
+    const inApp = notification.channel === "in_app";
+    // notifications_one_payment_due_idx turns a second payment.due into a no-op
+    await db
+      .insert(notifications)
+      .values({ ...notification, status: inApp ? "sent" : "pending", sentAt: inApp ? new Date() : null })
+      .onConflictDoNothing();
+  }
+
+  async claimDueNotifications(limit: number): Promise<Notification[]> {
+    const due = db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(eq(notifications.status, "pending"), lte(notifications.nextAttemptAt, new Date())))
+      .orderBy(asc(notifications.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db
+      .update(notifications)
+      .set({ nextAttemptAt: new Date(Date.now() + NOTIFICATION_CLAIM_LEASE_MS) })
+      .where(inArray(notifications.id, due))
+      .returning();
+  }
+
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<void> {
+    await db.update(notifications).set(updates).where(eq(notifications.id, id));
+  }
+}
+
+// drizzle rejects an UPDATE without columns, which an empty PATCH would produce
+function isEmpty(updates: object): boolean {
+  return Object.values(updates).every((value) => value === undefined);
+}
@@ -0,0 +1,378 @@
+import { type EmailTemplate } from "@shared/schema";
+import { normalizeDate, normalizeTime, type DateOrder } from "@shared/dateTime";
+import {
+  emailDraftFields,
+  type EmailDraft,
+  type EmailDraftField,
+  type EmailDraftProject,
+} from "@shared/emailDrafts";
+
+// Turns a forwarded booking confirmation (raw RFC 822 text, as saved in an
+// .eml file) into a draft trip. Company templates decide how fields are
+// found; without one a set of common labels ("Pickup:", "Passengers:", ...)
+// is tried.
+
+export interface ParsedEmail {
+  from: string;
+  subject: string;
+  // plain-text body; HTML-only messages are converted
+  text: string;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+export function parseRawEmail(raw: string): ParsedEmail {
+  const message = splitPart(raw.replace(/\r\n?/g, "\n"));
+  return {
+    from: decodeEncodedWords(message.headers.get("from") ?? ""),
+    subject: decodeEncodedWords(message.headers.get("subject") ?? ""),
+    text: extractText(message) ?? "",
+  };
+}
+
+export function draftFromEmail(
+  raw: string,
+  templates: EmailTemplate[],
+  companyId?: string,
+): EmailDraft {
+  const email = parseRawEmail(raw);
+  const { text, forwardedSenders } = stripForwardedHeaders(email.text);
+  const template = findTemplate(templates, email, forwardedSenders, companyId);
+
+  // Template patterns also see the subject line, which often carries the
+  // booking reference
+  const searchable = `Subject: ${email.subject}\n${text}`;
+  const dateOrder = template?.dateOrder ?? "DMY";
+
+  const project: EmailDraftProject = {
+    companyId: template?.companyId ?? companyId ?? null,
+    description: email.subject ? `From email: ${email.subject}` : undefined,
+  };
+
+  // A template's pattern wins; the common labels fill whatever it misses
+  const find = (field: EmailDraftField) => {
+    const pattern = template?.fields[field];
+    return (
+      (pattern ? matchPattern(new RegExp(pattern, "im"), searchable) : undefined) ??
+      matchDefault(field, text, email.subject)
+    );
+  };
+
+  for (const field of emailDraftFields) {
+    const value = find(field);
+    if (value) assignField(project, field, value, dateOrder);
+  }
+
+  // "Date: 02.11.2026 14:30" carries both
+  if (!project.time && project.date) {
+    project.time = normalizeTime(find("date")!);
+  }
+
+  return {
+    from: email.from,
+    subject: email.subject,
+    templateId: template?.id ?? null,
+    project,
+    missing: emailDraftFields.filter((field) => project[field] === undefined),
+  };
+}
+
+function findTemplate(
+  templates: EmailTemplate[],
+  email: ParsedEmail,
+  forwardedSenders: string[],
+  companyId?: string,
+): EmailTemplate | undefined {
+  const candidates = companyId
+    ? templates.filter((template) => template.companyId === companyId)
+    : templates;
+  const haystack = [email.from, email.subject, ...forwardedSenders].join("\n").toLowerCase();
+
+  return (
+    candidates.find((template) => haystack.includes(template.senderMatch.toLowerCase())) ??
+    // an explicitly chosen company falls back to its first template
+    (companyId ? candidates[0] : undefined)
+  );
+}
+
+function assignField(
+  project: EmailDraftProject,
+  field: EmailDraftField,
+  value: string,
+  dateOrder: DateOrder,
+) {
+  switch (field) {
+    case "date":
+      project.date = normalizeDate(value, dateOrder);
+      break;
+    case "time":
+      project.time = normalizeTime(value);
+      break;
+    case "passengers": {
+      const passengers = parseInt(value.replace(/\D+/g, " ").trim(), 10);
+      project.passengers = passengers > 0 ? passengers : undefined;
+      break;
+    }
+    case "clientPhone":
+      project.clientPhone = value.replace(/[^\d+()\s/-]/g, "").trim() || undefined;
+      break;
+    default:
+      project[field] = value.replace(/\s+/g, " ").trim() || undefined;
+  }
+}
+
+function matchPattern(pattern: RegExp, text: string): string | undefined {
+  const match = pattern.exec(text);
+  const value = (match?.[1] ?? match?.[0])?.trim();
+  return value || undefined;
+}
+
+// Label-based fallbacks, most specific first. Values run to the end of the
+// line; a tab stands in for a table cell boundary in converted HTML.
+const LABEL = String.raw`\s*[:\t]\s*`;
+const DEFAULT_PATTERNS: Record<EmailDraftField, RegExp[]> = {
+  clientName: [
+    new RegExp(String.raw`^\s*(?:lead\s+)?(?:client|customer|passenger|guest|travell?er|booker)(?:'s)?\s+(?:full\s+)?name${LABEL}(.+)$`, "im"),
+    new RegExp(String.raw`^\s*(?:lead\s+travell?er|lead\s+passenger|main\s+contact|client|customer|passenger|guest|name)${LABEL}(.+)$`, "im"),
+  ],
+  clientPhone: [
+    new RegExp(String.raw`^\s*(?:client\s+|customer\s+|contact\s+|passenger\s+|guest\s+)?(?:phone|mobile|tel(?:ephone)?|cell)(?:\s+(?:number|no\.?))?${LABEL}(\+?[\d\s()./-]{6,})$`, "im"),
+  ],
+  pickupLocation: [
+    new RegExp(String.raw`^\s*pick[\s-]?up(?:\s+(?:location|address|point|place))?${LABEL}(.+)$`, "im"),
+    new RegExp(String.raw`^\s*(?:from|origin|departure(?:\s+point)?)${LABEL}([^@\n]+)$`, "im"),
+  ],
+  dropoffLocation: [
+    new RegExp(String.raw`^\s*drop[\s-]?off(?:\s+(?:location|address|point|place))?${LABEL}(.+)$`, "im"),
+    new RegExp(String.raw`^\s*(?:to|destination)${LABEL}([^@\n]+)$`, "im"),
+  ],
+  date: [
+    new RegExp(String.raw`^\s*(?:pick[\s-]?up|travel|service|transfer|tour|departure|arrival)\s+date(?:\s*(?:&|and)\s*time)?${LABEL}(.+)$`, "im"),
+    new RegExp(String.raw`^\s*date(?:\s+of\s+(?:travel|service))?(?:\s*(?:&|and)\s*time)?${LABEL}(.+)$`, "im"),
+  ],
+  time: [
+    new RegExp(String.raw`^\s*(?:pick[\s-]?up|departure|service|transfer|start|arrival)\s+time${LABEL}(.+)$`, "im"),
+    new RegExp(String.raw`^\s*time${LABEL}(.+)$`, "im"),
+  ],
+  passengers: [
+    new RegExp(String.raw`^\s*(?:number\s+of\s+|no\.?\s+of\s+)?(?:passengers|pax|travell?ers|guests|persons|people|adults)${LABEL}(\d+)`, "im"),
+    /\b(\d+)\s*(?:passengers|pax|adults|travell?ers|guests|persons)\b/i,
+  ],
+  bookingId: [
+    new RegExp(String.raw`^\s*(?:booking|reservation|confirmation|order)\s*(?:ref(?:erence)?|number|no\.?|id|code|#)?\.?\s*[:#\t]\s*#?([A-Z0-9][A-Z0-9-]{2,})`, "im"),
+  ],
+};
+
+function matchDefault(field: EmailDraftField, text: string, subject: string): string | undefined {
+  for (const pattern of DEFAULT_PATTERNS[field]) {
+    const value = matchPattern(pattern, text);
+    if (value) return value;
+  }
+  if (field === "bookingId") {
+    return matchPattern(/(?:booking|reservation|confirmation|order)\b[^#\n]*#\s*([A-Z0-9-]{4,})/i, subject);
+  }
+  return undefined;
+}
+
+// Forwarding clients quote the original headers ("From: ...", "Date: ...")
+// in the body. They would be mistaken for trip fields, so they are removed;
+// the quoted senders still count for picking a template.
+function stripForwardedHeaders(text: string) {
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  const forwardedSenders: string[] = [];
+  const headerLine = /^\s*(?:from|sent|date|to|cc|subject|reply-to|von|gesendet|an|betreff|de|envoyé|à|objet)\s*:/i;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(?:from|von|de)\s*:/i.test(lines[i]) && headerLine.test(lines[i + 1] ?? "")) {
+      while (i < lines.length && headerLine.test(lines[i])) {
+        if (/^\s*(?:from|von|de|subject|betreff|objet)\s*:/i.test(lines[i])) {
+          forwardedSenders.push(lines[i]);
+        }
+        i++;
+      }
+      i--;
+      continue;
+    }
+    kept.push(lines[i]);
+  }
+  return { text: kept.join("\n"), forwardedSenders };
+}
+
+function splitPart(raw: string): MimePart {
+  const separator = raw.indexOf("\n\n");
+  const head = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? "" : raw.slice(separator + 2);
+
+  const headers = new Map<string, string>();
+  // folded header lines continue with leading whitespace
+  for (const line of head.replace(/\n[ \t]+/g, " ").split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+// Returns the readable text of a (possibly multipart) message. Of
+// alternatives the text/plain one wins over HTML, which is converted.
+function extractText(part: MimePart): string | undefined {
+  const { type, params } = parseContentType(part.headers.get("content-type"));
+
+  if (type.startsWith("multipart/") && params.boundary) {
+    const parts = splitMultipart(part.body, params.boundary).map(splitPart);
+    const texts = parts.map((child) => ({
+      type: parseContentType(child.headers.get("content-type")).type,
+      text: extractText(child),
+    }));
+    if (type === "multipart/alternative") {
+      return (
+        texts.find((child) => child.text && child.type !== "text/html")?.text ??
+        texts.find((child) => child.text)?.text
+      );
+    }
+    // a forward with the original attached has text in several parts
+    const joined = texts.map((child) => child.text).filter(Boolean).join("\n\n");
+    return joined || undefined;
+  }
+
+  if (type === "message/rfc822") {
+    const inner = splitPart(part.body);
+    const text = extractText(inner) ?? "";
+    // keep the attached message's sender visible for template matching
+    return [
+      `From: ${decodeEncodedWords(inner.headers.get("from") ?? "")}`,
+      `Subject: ${decodeEncodedWords(inner.headers.get("subject") ?? "")}`,
+      "",
+      text,
+    ].join("\n");
+  }
+
+  if (type !== "text/plain" && type !== "text/html") return undefined;
+  if (/attachment/i.test(part.headers.get("content-disposition") ?? "")) return undefined;
+
+  const text = decodeBody(part.body, part.headers.get("content-transfer-encoding"), params.charset);
+  return type === "text/html" ? htmlToText(text) : text;
+}
+
+function parseContentType(header = "text/plain") {
+  const [type, ...rest] = header.split(";");
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    params[param.slice(0, eq).trim().toLowerCase()] = param
+      .slice(eq + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  for (const chunk of body.split(delimiter).slice(1)) {
+    if (chunk.startsWith("--")) break; // closing delimiter
+    parts.push(chunk.replace(/^[ \t]*\n/, ""));
+  }
+  return parts;
+}
+
+function decodeBody(body: string, encoding = "7bit", charset = "utf-8"): string {
+  switch (encoding.trim().toLowerCase()) {
+    case "base64":
+      return decodeBytes(Buffer.from(body.replace(/\s+/g, ""), "base64"), charset);
+    case "quoted-printable":
+      return decodeBytes(decodeQuotedPrintable(body), charset);
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(text: string, underscoreIsSpace = false): Buffer {
+  const source = text.replace(/=\n/g, ""); // soft line breaks
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "=" && /^[0-9A-F]{2}$/i.test(source.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(source.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else if (char === "_" && underscoreIsSpace) {
+      bytes.push(0x20);
+    } else {
+      bytes.push(...Array.from(Buffer.from(char, "utf8")));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeBytes(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+// RFC 2047 words such as =?UTF-8?Q?Gr=C3=BC=C3=9Fe?= in From and Subject
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BQ]\?[^?]*\?=)\s+(?==\?)/gi, "$1")
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_word, charset: string, encoding: string, text: string) =>
+      encoding.toUpperCase() === "B"
+        ? decodeBytes(Buffer.from(text, "base64"), charset)
+        : decodeBytes(decodeQuotedPrintable(text, true), charset),
+    );
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  szlig: "ß",
+  euro: "€",
+  ndash: "–",
+  mdash: "—",
+};
+
+// &eacute;, &uuml;, &ccedil; ... as letter plus combining mark
+const ACCENTS: Record<string, string> = {
+  acute: "\u0301",
+  grave: "\u0300",
+  circ: "\u0302",
+  tilde: "\u0303",
+  uml: "\u0308",
+  ring: "\u030a",
+  cedil: "\u0327",
+};
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h\d|table)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // out-of-range references are left as written
+        return Number.isInteger(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      const accented = /^([a-z])(acute|grave|circ|tilde|uml|ring|cedil)$/i.exec(code);
+      if (accented) return (accented[1] + ACCENTS[accented[2].toLowerCase()]).normalize("NFC");
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .split("\n")
+    .map((line) => line.replace(/[  ]+/g, " ").replace(/\t\s*/g, "\t").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n");
+}
@@ -0,0 +1,123 @@
+import { readFileSync } from "fs";
+import {
+  createGeocodingProvider,
+  normaliseAddress,
+  type Geocoder,
+  type LatLng,
+} from "@shared/geocoding";
+import { type GeocodedAddress } from "@shared/schema";
+import { storage } from "./storage";
+
+// Chosen with GEOCODING_PROVIDER (nominatim or fixture). Nominatim is reached
+// at GEOCODING_URL; the fixture provider answers from the JSON file named by
+// GEOCODING_FIXTURES, { "<address>": { "lat": 0, "lng": 0 } | null, ... }.
+export const geocodingProvider = createGeocodingProvider({
+  provider: process.env.GEOCODING_PROVIDER,
+  url: process.env.GEOCODING_URL,
+  headers: { "User-Agent": "RidePilot" },
+  fixtures: process.env.GEOCODING_FIXTURES
+    ? JSON.parse(readFileSync(process.env.GEOCODING_FIXTURES, "utf8"))
+    : undefined,
+});
+
+// Addresses sent to the provider per request; the rest are returned as
+// pending for the caller to ask about again
+export const GEOCODE_BATCH_SIZE = 10;
+
+// Addresses the provider could not find are asked about again after this long
+const NOT_FOUND_RETRY_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Provider requests are made one at a time for the whole server, spaced by
+// the provider's minIntervalMs, so busy accounts cannot get it rate limited
+let queue: Promise<unknown> = Promise.resolve();
+let lastRequestAt = 0;
+
+function throttledGeocode(address: string): Promise<LatLng | null> {
+  const request = queue.then(async () => {
+    const wait = lastRequestAt + geocodingProvider.minIntervalMs - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastRequestAt = Date.now();
+    return geocodingProvider.geocode(address);
+  });
+  queue = request.catch(() => undefined);
+  return request;
+}
+
+function isFresh(cached: GeocodedAddress) {
+  return cached.lat !== null || Date.now() - cached.geocodedAt.getTime() < NOT_FOUND_RETRY_MS;
+}
+
+// Asks the provider and caches the answer, "not found" included. Provider
+// errors are logged and not cached, so the address is tried again next time.
+async function lookUp(userId: string, addressKey: string, address: string) {
+  try {
+    const position = await throttledGeocode(address);
+    return await storage.saveGeocodedAddress(userId, {
+      addressKey,
+      address,
+      lat: position?.lat ?? null,
+      lng: position?.lng ?? null,
+      source: "provider",
+      provider: geocodingProvider.name,
+    });
+  } catch (err) {
+    console.error(`Geocoding with ${geocodingProvider.name} failed:`, err);
+    return undefined;
+  }
+}
+
+export interface GeocodeResult {
+  // one row per address that is known, with null coordinates when it was
+  // not found
+  results: GeocodedAddress[];
+  // addresses left for a later request
+  pending: string[];
+}
+
+// Positions of the addresses, from the cache where possible. At most
+// batchSize of them are sent to the provider; the others come back pending.
+export async function geocodeAddresses(
+  userId: string,
+  addresses: string[],
+  batchSize = GEOCODE_BATCH_SIZE,
+): Promise<GeocodeResult> {
+  const byKey = new Map<string, string>();
+  for (const address of addresses) {
+    const key = normaliseAddress(address);
+    if (key && !byKey.has(key)) byKey.set(key, address);
+  }
+
+  const results = (await storage.getGeocodedAddresses(userId, Array.from(byKey.keys()))).filter(isFresh);
+  const known = new Set(results.map((result) => result.addressKey));
+  const missing = Array.from(byKey).filter(([key]) => !known.has(key));
+
+  for (const [key, address] of missing.slice(0, batchSize)) {
+    const result = await lookUp(userId, key, address);
+    if (result) results.push(result);
+  }
+
+  return { results, pending: missing.slice(batchSize).map(([, address]) => address) };
+}
+
+// Geocoder over the account's cache, for the routing providers
+export function cachedGeocoder(userId: string): Geocoder {
+  return async (address) => {
+    const {
+      results: [result],
+    } = await geocodeAddresses(userId, [address]);
+    return result?.lat != null && result.lng != null ? { lat: result.lat, lng: result.lng } : null;
+  };
+}
+
+// An operator's correction of where an address is; kept over any later
+// provider answer until it is deleted
+export function pinAddress(userId: string, address: string, position: LatLng) {
+  return storage.saveGeocodedAddress(userId, {
+    addressKey: normaliseAddress(address),
+    address,
+    lat: position.lat,
+    lng: position.lng,
+    source: "manual",
+    provider: null,
+  });
+}
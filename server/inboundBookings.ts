@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { type CarType, type Company, type InsertProject } from "@shared/schema";
+import { capacityIssues } from "@shared/vehicleCapacity";
+
+// The booking payload partners POST to /api/inbound/companies/:id/bookings.
+// Field names follow Project so a partner integration reads like the API.
+export const inboundBookingSchema = z.object({
+  bookingId: z.string().trim().min(1),
+  clientName: z.string().trim().min(1),
+  clientPhone: z.string().trim().optional(),
+  pickupLocation: z.string().trim().min(1),
+  dropoffLocation: z.string().trim().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  time: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Expected HH:MM"),
+  passengers: z.number().int().min(1).optional(),
+  luggage: z.number().int().min(0).optional(),
+  price: z.number().min(0).optional(),
+  paymentStatus: z.enum(["paid", "charge"]).optional(),
+  // car type name as configured in settings, matched case-insensitively
+  carType: z.string().trim().optional(),
+  notes: z.string().optional(),
+});
+
+export type InboundBooking = z.infer<typeof inboundBookingSchema>;
+
+// Maps a partner booking onto a new trip for the receiving company
+export function toInboundProject(
+  booking: InboundBooking,
+  company: Company,
+  carTypes: CarType[],
+): InsertProject {
+  const carType = booking.carType
+    ? carTypes.find((type) => type.name.toLowerCase() === booking.carType!.toLowerCase())
+    : undefined;
+
+  // keep a car type we do not know about, or one the booking does not fit,
+  // visible to the dispatcher
+  const issues = carType
+    ? capacityIssues({ passengers: booking.passengers ?? 1, luggage: booking.luggage }, carType)
+    : [];
+  const notes = [
+    booking.notes,
+    booking.carType && !carType ? `Requested car type: ${booking.carType}` : undefined,
+    issues.length > 0 ? `Does not fit the ${carType!.name}: ${issues.join("; ")}` : undefined,
+  ].filter(Boolean);
+
+  return {
+    companyId: company.id,
+    carTypeId: carType?.id ?? null,
+    clientName: booking.clientName,
+    clientPhone: booking.clientPhone || null,
+    pickupLocation: booking.pickupLocation,
+    dropoffLocation: booking.dropoffLocation,
+    date: booking.date,
+    time: booking.time,
+    passengers: booking.passengers ?? 1,
+    luggage: booking.luggage ?? 0,
+    price: booking.price ?? 0,
+    paymentStatus: booking.paymentStatus ?? "charge",
+    description: notes.length > 0 ? notes.join("\n") : null,
+    bookingId: booking.bookingId,
+    source: "inbound",
+  };
+}
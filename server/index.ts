@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startWebhookWorker } from "./webhooks";
+import { startPassengerMessageWorker } from "./passengerMessages";
+import { startNotificationWorker } from "./notifications";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -21,6 +24,9 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (req.apiKey) {
+        logLine += ` [key ${req.apiKey.prefix}]`;
+      }
       if (capturedJsonResponse) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
@@ -38,6 +44,9 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  startWebhookWorker();
+  startPassengerMessageWorker();
+  startNotificationWorker();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
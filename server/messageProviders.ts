@@ -0,0 +1,146 @@
+import { appendFile } from "fs/promises";
+import { MESSAGE_CHANNEL_LABELS, type MessageChannel } from "@shared/messaging";
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  // a phone number for SMS and WhatsApp, a chat id for Telegram
+  to: string;
+  body: string;
+}
+
+export interface MessagingProvider {
+  name: string;
+  // Resolves with the provider's id for the message, if it gives one;
+  // rejects when the message was not accepted
+  send(message: OutgoingMessage): Promise<string | null>;
+}
+
+export const messagingProviderNames = ["console", "file", "live"] as const;
+
+const SEND_TIMEOUT_MS = 10 * 1000;
+const TWILIO_API_URL = "https://api.twilio.com/2010-04-01";
+const TELEGRAM_API_URL = "https://api.telegram.org";
+
+// Prints messages instead of sending them, for local development
+export function consoleMessagingProvider(): MessagingProvider {
+  return {
+    name: "console",
+    async send({ channel, to, body }) {
+      console.log(`[${MESSAGE_CHANNEL_LABELS[channel]} to ${to}] ${body}`);
+      return null;
+    },
+  };
+}
+
+// Appends messages to a file, one JSON object per line, for tests
+export function fileMessagingProvider(path: string): MessagingProvider {
+  return {
+    name: "file",
+    async send(message) {
+      await appendFile(path, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`);
+      return null;
+    },
+  };
+}
+
+// SMS and WhatsApp through Twilio's Messages API; WhatsApp numbers are the
+// same API with a whatsapp: prefix
+export function twilioProvider(
+  accountSid: string,
+  authToken: string,
+  from: string,
+  channel: "sms" | "whatsapp",
+): MessagingProvider {
+  const prefix = channel === "whatsapp" ? "whatsapp:" : "";
+  return {
+    name: "twilio",
+    async send({ to, body }) {
+      const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ From: prefix + from, To: prefix + to, Body: body }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.message || `Twilio responded with ${response.status}`);
+      return result.sid ?? null;
+    },
+  };
+}
+
+export function telegramProvider(botToken: string): MessagingProvider {
+  return {
+    name: "telegram",
+    async send({ to, body }) {
+      const response = await fetch(`${TELEGRAM_API_URL}/bot${botToken}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: to, text: body }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.ok) {
+        throw new Error(result.description || `Telegram responded with ${response.status}`);
+      }
+      return result.result?.message_id?.toString() ?? null;
+    },
+  };
+}
+
+export interface MessagingConfig {
+  provider?: string;
+  file?: string;
+  twilioAccountSid?: string;
+  twilioAuthToken?: string;
+  smsFrom?: string;
+  whatsappFrom?: string;
+  telegramBotToken?: string;
+}
+
+// Sends each channel through its own provider. A channel that is not
+// configured fails its messages with a note on what to set.
+function liveMessagingProvider(config: MessagingConfig): MessagingProvider {
+  const { twilioAccountSid: sid, twilioAuthToken: token } = config;
+  const providers: Partial<Record<MessageChannel, MessagingProvider>> = {};
+  if (sid && token && config.smsFrom) providers.sms = twilioProvider(sid, token, config.smsFrom, "sms");
+  if (sid && token && config.whatsappFrom) {
+    providers.whatsapp = twilioProvider(sid, token, config.whatsappFrom, "whatsapp");
+  }
+  if (config.telegramBotToken) providers.telegram = telegramProvider(config.telegramBotToken);
+
+  const setting: Record<MessageChannel, string> = {
+    sms: "TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and SMS_FROM",
+    whatsapp: "TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and WHATSAPP_FROM",
+    telegram: "TELEGRAM_BOT_TOKEN",
+  };
+
+  return {
+    name: "live",
+    async send(message) {
+      const provider = providers[message.channel];
+      if (!provider) {
+        throw new Error(`${MESSAGE_CHANNEL_LABELS[message.channel]} is not configured, set ${setting[message.channel]}`);
+      }
+      return provider.send(message);
+    },
+  };
+}
+
+// The provider named in configuration; the console when none is named
+export function createMessagingProvider(config: MessagingConfig): MessagingProvider {
+  switch (config.provider || "console") {
+    case "console":
+      return consoleMessagingProvider();
+    case "file":
+      return fileMessagingProvider(config.file || "messages.log");
+    case "live":
+      return liveMessagingProvider(config);
+    default:
+      throw new Error(
+        `Unknown messaging provider "${config.provider}", expected one of ${messagingProviderNames.join(", ")}`,
+      );
+  }
+}
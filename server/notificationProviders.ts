@@ -0,0 +1,126 @@
+import { appendFile } from "fs/promises";
+import { NOTIFICATION_CHANNEL_LABELS } from "@shared/notifications";
+
+export interface OutgoingNotification {
+  // in-app notifications are not sent, they are read from the notifications table
+  channel: "email" | "push";
+  // an email address, or the ntfy topic for push
+  to: string;
+  title: string;
+  body: string;
+}
+
+export interface NotificationProvider {
+  name: string;
+  // Rejects when the notification was not accepted
+  send(notification: OutgoingNotification): Promise<void>;
+}
+
+export const notificationProviderNames = ["console", "file", "live"] as const;
+
+const SEND_TIMEOUT_MS = 10 * 1000;
+const RESEND_API_URL = "https://api.resend.com/emails";
+const NTFY_URL = "https://ntfy.sh";
+
+// Prints notifications instead of sending them, for local development
+export function consoleNotificationProvider(): NotificationProvider {
+  return {
+    name: "console",
+    async send({ channel, to, title, body }) {
+      console.log(`[${NOTIFICATION_CHANNEL_LABELS[channel]} to ${to}] ${title}: ${body}`);
+    },
+  };
+}
+
+// Appends notifications to a file, one JSON object per line, for tests
+export function fileNotificationProvider(path: string): NotificationProvider {
+  return {
+    name: "file",
+    async send(notification) {
+      await appendFile(path, `${JSON.stringify({ ...notification, sentAt: new Date().toISOString() })}\n`);
+    },
+  };
+}
+
+// Email through Resend's HTTP API
+export function resendProvider(apiKey: string, from: string): NotificationProvider {
+  return {
+    name: "resend",
+    async send({ to, title, body }) {
+      const response = await fetch(RESEND_API_URL, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to, subject: title, text: body }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || `Resend responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+// Push notifications published to an ntfy topic; the operator subscribes to
+// the topic in the ntfy app
+export function ntfyProvider(serverUrl: string, token?: string): NotificationProvider {
+  return {
+    name: "ntfy",
+    async send({ to, title, body }) {
+      const response = await fetch(`${serverUrl.replace(/\/+$/, "")}/${encodeURIComponent(to)}`, {
+        method: "POST",
+        headers: {
+          // HTTP headers are Latin-1; ntfy decodes RFC 2047 encoded words
+          Title: `=?UTF-8?B?${Buffer.from(title).toString("base64")}?=`,
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body,
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`ntfy responded with ${response.status}`);
+    },
+  };
+}
+
+export interface NotificationConfig {
+  provider?: string;
+  file?: string;
+  resendApiKey?: string;
+  emailFrom?: string;
+  ntfyUrl?: string;
+  ntfyToken?: string;
+}
+
+// Sends each channel through its own provider. Email fails its
+// notifications with a note on what to set until it is configured.
+function liveNotificationProvider(config: NotificationConfig): NotificationProvider {
+  const email = config.resendApiKey && config.emailFrom
+    ? resendProvider(config.resendApiKey, config.emailFrom)
+    : undefined;
+  const push = ntfyProvider(config.ntfyUrl || NTFY_URL, config.ntfyToken);
+
+  return {
+    name: "live",
+    async send(notification) {
+      if (notification.channel === "push") return push.send(notification);
+      if (!email) throw new Error("Email is not configured, set RESEND_API_KEY and EMAIL_FROM");
+      return email.send(notification);
+    },
+  };
+}
+
+// The provider named in configuration; the console when none is named
+export function createNotificationProvider(config: NotificationConfig): NotificationProvider {
+  switch (config.provider || "console") {
+    case "console":
+      return consoleNotificationProvider();
+    case "file":
+      return fileNotificationProvider(config.file || "notifications.log");
+    case "live":
+      return liveNotificationProvider(config);
+    default:
+      throw new Error(
+        `Unknown notification provider "${config.provider}", expected one of ${notificationProviderNames.join(", ")}`,
+      );
+  }
+}
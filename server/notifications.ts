@@ -0,0 +1,167 @@
+import {
+  PAYMENT_DUE_LOOKBACK_DAYS,
+  channelsFor,
+  notificationText,
+  paymentDue,
+  quietHoursEnd,
+  type NotificationDetails,
+} from "@shared/notifications";
+import { type Notification } from "@shared/schema";
+import { createNotificationProvider } from "./notificationProviders";
+import { storage } from "./storage";
+
+// Chosen with NOTIFICATION_PROVIDER: console (the default) prints
+// notifications, file appends them to NOTIFICATION_FILE, and live sends email
+// through Resend and push notifications through ntfy, see
+// server/notificationProviders.ts.
+export const notificationProvider = createNotificationProvider({
+  provider: process.env.NOTIFICATION_PROVIDER,
+  file: process.env.NOTIFICATION_FILE,
+  resendApiKey: process.env.RESEND_API_KEY,
+  emailFrom: process.env.EMAIL_FROM,
+  ntfyUrl: process.env.NTFY_URL,
+  ntfyToken: process.env.NTFY_TOKEN,
+});
+
+// Delay before each retry; after the last one the notification is marked failed
+export const NOTIFICATION_RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000];
+
+const NOTIFICATIONS_PER_RUN = 25;
+
+function localDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// Queues payment.due for pending payments whose date has been reached, on
+// the channels each account chose. Returns how many payments were announced.
+export async function queueDuePaymentNotifications(now = new Date()): Promise<number> {
+  const today = localDate(now);
+  const earliest = new Date(now);
+  earliest.setDate(earliest.getDate() - PAYMENT_DUE_LOOKBACK_DAYS);
+  const payments = await storage.getPaymentsAwaitingDueNotice(localDate(earliest), today);
+
+  let announced = 0;
+  for (const payment of payments.filter((payment) => paymentDue(payment, today))) {
+    const userId = payment.userId!;
+    const channels = channelsFor(await storage.getNotificationPreferences(userId), "payment.due");
+    for (const channel of channels) {
+      await storage.queueNotification({ event: "payment.due", channel, projectId: null, paymentId: payment.id, userId });
+    }
+    if (channels.length > 0) announced++;
+  }
+  return announced;
+}
+
+// What the notification is about, as its trip or payment is now; undefined
+// when that was deleted, or the payment was paid
+async function notificationDetails(notification: Notification): Promise<NotificationDetails | undefined> {
+  const { userId } = notification;
+  if (notification.paymentId) {
+    const payment = await storage.getPayment(userId, notification.paymentId);
+    if (!payment || payment.status === "paid") return undefined;
+    const driver = await storage.getDriver(userId, payment.driverId);
+    return { amount: payment.amount, date: payment.date, driverName: driver?.name };
+  }
+
+  const trip = notification.projectId ? await storage.getProject(userId, notification.projectId) : undefined;
+  if (!trip) return undefined;
+  const driver = trip.driverId ? await storage.getDriver(userId, trip.driverId) : undefined;
+  return {
+    clientName: trip.clientName,
+    date: trip.date,
+    time: trip.time,
+    pickupLocation: trip.pickupLocation,
+    dropoffLocation: trip.dropoffLocation,
+    driverName: driver?.name,
+  };
+}
+
+// Sends every email and push notification that is due. Called on an
+// interval by the server and by the scheduled Netlify function; returns how
+// many were attempted.
+export async function sendDueNotifications(): Promise<number> {
+  const due = await storage.claimDueNotifications(NOTIFICATIONS_PER_RUN);
+  for (const notification of due) {
+    await attemptSend(notification);
+  }
+  return due.length;
+}
+
+async function attemptSend(notification: Notification) {
+  const { userId, event, channel } = notification;
+  const attemptedAt = new Date();
+  const attempts = notification.attempts + 1;
+
+  // preferences are read again, so changes made since the notification was
+  // queued are respected
+  const preferences = await storage.getNotificationPreferences(userId);
+  const skip = (reason: string) =>
+    storage.updateNotification(notification.id, { status: "skipped", lastError: reason, lastAttemptAt: attemptedAt });
+
+  if (channel === "in_app" || !channelsFor(preferences, event).includes(channel)) {
+    return skip("Turned off in the notification settings");
+  }
+
+  const details = await notificationDetails(notification);
+  if (!details) return skip(notification.paymentId ? "The payment was paid or deleted" : "The trip was deleted");
+
+  const quietUntil = preferences && quietHoursEnd(preferences, attemptedAt);
+  if (quietUntil) {
+    // held back without counting as an attempt
+    return storage.updateNotification(notification.id, { nextAttemptAt: quietUntil });
+  }
+
+  const recipient = (channel === "email" ? preferences?.email : preferences?.pushTopic)?.trim();
+  if (!recipient) {
+    return storage.updateNotification(notification.id, {
+      status: "failed",
+      attempts,
+      lastAttemptAt: attemptedAt,
+      lastError: channel === "email"
+        ? "No email address in the notification settings"
+        : "No push topic in the notification settings",
+    });
+  }
+
+  try {
+    await notificationProvider.send({ channel, to: recipient, ...notificationText(event, details) });
+    await storage.updateNotification(notification.id, {
+      status: "sent",
+      attempts,
+      lastAttemptAt: attemptedAt,
+      lastError: null,
+      provider: notificationProvider.name,
+      sentAt: attemptedAt,
+    });
+  } catch (err) {
+    const retryDelay = NOTIFICATION_RETRY_DELAYS_MS[attempts - 1];
+    await storage.updateNotification(notification.id, {
+      status: retryDelay === undefined ? "failed" : "pending",
+      attempts,
+      lastAttemptAt: attemptedAt,
+      nextAttemptAt: new Date(attemptedAt.getTime() + (retryDelay ?? 0)),
+      lastError: err instanceof Error ? err.message : String(err),
+      provider: notificationProvider.name,
+    });
+  }
+}
+
+// Queues due payments and sends due notifications in a long-running server
+// (npm run dev / start)
+export function startNotificationWorker(intervalMs = 15 * 1000) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await queueDuePaymentNotifications();
+      await sendDueNotifications();
+    } catch (err) {
+      console.error("Notification run failed:", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,185 @@
+import {
+  REMINDER_LEAD_HOURS,
+  pickupAt,
+  reminderDue,
+  renderMessage,
+  type MessageValues,
+} from "@shared/messaging";
+import { type PassengerMessage, type Project } from "@shared/schema";
+import { createMessagingProvider } from "./messageProviders";
+import { storage } from "./storage";
+
+// Chosen with MESSAGING_PROVIDER: console (the default) prints messages,
+// file appends them to MESSAGING_FILE, and live sends SMS and WhatsApp
+// through Twilio and Telegram through a bot, see server/messageProviders.ts.
+export const messagingProvider = createMessagingProvider({
+  provider: process.env.MESSAGING_PROVIDER,
+  file: process.env.MESSAGING_FILE,
+  twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
+  twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
+  smsFrom: process.env.SMS_FROM,
+  whatsappFrom: process.env.WHATSAPP_FROM,
+  telegramBotToken: process.env.TELEGRAM_BOT_TOKEN,
+});
+
+// Delay before each retry; passenger messages are only useful close to the
+// trip, so a message is marked failed after four attempts in about a quarter
+// of an hour
+export const MESSAGE_RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000];
+
+const MESSAGES_PER_RUN = 25;
+
+function localDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// Queues the reminders of trips whose pickup is less than REMINDER_LEAD_HOURS
+// away. Returns how many were queued.
+export async function queueDueReminders(now = new Date()): Promise<number> {
+  const until = new Date(now.getTime() + REMINDER_LEAD_HOURS * 60 * 60 * 1000);
+  const trips = await storage.getTripsAwaitingReminder(localDate(now), localDate(until));
+
+  let queued = 0;
+  for (const trip of trips.filter((trip) => reminderDue(trip, now))) {
+    const templates = await storage.getMessageTemplates(trip.userId!);
+    const template = templates.find(
+      (template) => template.companyId === trip.companyId && template.event === "pickup.reminder",
+    );
+    if (!template) continue;
+    await storage.queuePassengerMessage({
+      projectId: trip.id,
+      event: "pickup.reminder",
+      channel: template.channel,
+      userId: trip.userId!,
+    });
+    queued++;
+  }
+  return queued;
+}
+
+// The placeholders of a trip's messages, as the trip is now
+async function messageValues(userId: string, trip: Project): Promise<MessageValues> {
+  const [company, driver, vehicle] = await Promise.all([
+    trip.companyId ? storage.getCompany(userId, trip.companyId) : undefined,
+    trip.driverId ? storage.getDriver(userId, trip.driverId) : undefined,
+    trip.vehicleId ? storage.getVehicle(userId, trip.vehicleId) : undefined,
+  ]);
+  return {
+    clientName: trip.clientName,
+    companyName: company?.name,
+    bookingId: trip.bookingId ?? undefined,
+    date: trip.date,
+    time: trip.time.slice(0, 5),
+    pickupLocation: trip.pickupLocation,
+    dropoffLocation: trip.dropoffLocation,
+    passengers: trip.passengers.toString(),
+    driverName: driver?.name,
+    driverPhone: driver?.phone ?? undefined,
+    vehicle: vehicle ? [vehicle.model, vehicle.plate].filter(Boolean).join(" ") : undefined,
+  };
+}
+
+// The client phone, or for Telegram the chat of the trip's customer
+async function recipientFor(userId: string, trip: Project, channel: PassengerMessage["channel"]) {
+  if (channel !== "telegram") return trip.clientPhone?.trim() || null;
+  const customer = trip.customerId ? await storage.getCustomer(userId, trip.customerId) : undefined;
+  return customer?.telegramChatId?.trim() || null;
+}
+
+// Sends every message that is due. Called on an interval by the server and
+// by the scheduled Netlify function; returns how many were attempted.
+export async function sendDuePassengerMessages(): Promise<number> {
+  const messages = await storage.claimDuePassengerMessages(MESSAGES_PER_RUN);
+  for (const message of messages) {
+    await attemptSend(message);
+  }
+  return messages.length;
+}
+
+async function attemptSend(message: PassengerMessage) {
+  const { userId } = message;
+  const attempts = message.attempts + 1;
+  const attemptedAt = new Date();
+
+  // the template and trip are read again, so changes made since the
+  // message was queued are respected
+  const [trip, templates] = await Promise.all([
+    storage.getProject(userId, message.projectId),
+    storage.getMessageTemplates(userId),
+  ]);
+  const template = templates.find(
+    (template) => template.companyId === trip?.companyId && template.event === message.event,
+  );
+  const skip = (reason: string) =>
+    storage.updatePassengerMessage(message.id, { status: "skipped", lastError: reason, lastAttemptAt: attemptedAt });
+
+  if (!trip) return skip("The trip was deleted");
+  if (!template?.enabled) return skip("The company no longer sends this message");
+  if (trip.status === "completed") return skip("The trip is completed");
+  // updates such as the driver setting off still matter to a late trip
+  if (message.event === "pickup.reminder" && pickupAt(trip) <= attemptedAt) {
+    return skip("The pickup time has passed");
+  }
+
+  const channel = template.channel;
+  const recipient = await recipientFor(userId, trip, channel);
+  if (!recipient) {
+    return storage.updatePassengerMessage(message.id, {
+      status: "failed",
+      channel,
+      attempts,
+      lastAttemptAt: attemptedAt,
+      lastError: channel === "telegram" ? "The customer has no Telegram chat" : "The trip has no client phone",
+    });
+  }
+
+  const body = renderMessage(template.body, await messageValues(userId, trip));
+  try {
+    const providerMessageId = await messagingProvider.send({ channel, to: recipient, body });
+    await storage.updatePassengerMessage(message.id, {
+      status: "sent",
+      channel,
+      recipient,
+      body,
+      attempts,
+      lastAttemptAt: attemptedAt,
+      lastError: null,
+      provider: messagingProvider.name,
+      providerMessageId,
+      sentAt: attemptedAt,
+    });
+  } catch (err) {
+    const retryDelay = MESSAGE_RETRY_DELAYS_MS[attempts - 1];
+    await storage.updatePassengerMessage(message.id, {
+      status: retryDelay === undefined ? "failed" : "pending",
+      channel,
+      recipient,
+      body,
+      attempts,
+      lastAttemptAt: attemptedAt,
+      nextAttemptAt: new Date(attemptedAt.getTime() + (retryDelay ?? 0)),
+      lastError: err instanceof Error ? err.message : String(err),
+      provider: messagingProvider.name,
+    });
+  }
+}
+
+// Queues due reminders and sends due messages in a long-running server
+// (npm run dev / start)
+export function startPassengerMessageWorker(intervalMs = 15 * 1000) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await queueDueReminders();
+      await sendDuePassengerMessages();
+    } catch (err) {
+      console.error("Passenger message run failed:", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
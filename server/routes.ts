@@ -1,15 +1,706 @@
-import type { Express } from "express";
+import express, {
+  Router,
+  type Express,
+  type Request,
+  type Response,
+  type NextFunction,
+  type RequestHandler,
+} from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { generateApiKey, hashApiKey } from "@shared/apiKeys";
+import { generateWebhookSecret } from "@shared/webhooks";
+import { describeConflict, findDriverConflicts } from "@shared/driverConflicts";
+import { capacityIssues } from "@shared/vehicleCapacity";
+import { DEFAULT_NOTIFICATION_CHANNELS } from "@shared/notifications";
+import { z, ZodError, type ZodTypeAny } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertCompanySchema,
+  insertCarTypeSchema,
+  insertDriverSchema,
+  insertVehicleSchema,
+  insertProjectSchema,
+  insertPaymentSchema,
+  insertApiKeySchema,
+  insertWebhookSchema,
+  insertEmailTemplateSchema,
+  insertMessageTemplateSchema,
+  insertNotificationPreferencesSchema,
+  type ApiKey,
+  type Company,
+  type Driver,
+  type Project,
+  type Webhook,
+} from "@shared/schema";
+import { storage, initStorage, type ProjectFilters } from "./storage";
+import { routeFields } from "./routing";
+import { geocodeAddresses, pinAddress } from "./geocoding";
+import { setupAuth, requireAuth, requireSession, currentUserId } from "./auth";
+import { inboundBookingSchema, toInboundProject } from "./inboundBookings";
+import { draftFromEmail } from "./emailParser";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  await initStorage();
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  // sets up /api/register, /api/login, /api/logout and /api/me
+  setupAuth(app);
+
+  // partner booking ingestion, authenticated per company rather than per user
+  app.use("/api/inbound", createInboundRouter());
+
+  // all application routes are versioned under /api/v1 and scoped to the
+  // signed-in account
+  app.use("/api/v1", createApiRouter());
 
   const httpServer = createServer(app);
 
   return httpServer;
 }
+
+function createApiRouter(): Router {
+  const api = Router();
+  // checked by the router itself, so it cannot be mounted without it
+  api.use(requireAuth);
+
+  registerResource(api, "/companies", "Company", insertCompanySchema, {
+    list: (userId) => storage.getCompanies(userId),
+    get: (userId, id) => storage.getCompany(userId, id),
+    create: (userId, data) => storage.createCompany(userId, data),
+    update: (userId, id, data) => storage.updateCompany(userId, id, data),
+    remove: (userId, id) => storage.deleteCompany(userId, id),
+    toPublic: toPublicCompany,
+  });
+
+  registerResource(api, "/car-types", "Car type", insertCarTypeSchema, {
+    list: (userId) => storage.getCarTypes(userId),
+    get: (userId, id) => storage.getCarType(userId, id),
+    create: (userId, data) => storage.createCarType(userId, data),
+    update: (userId, id, data) => storage.updateCarType(userId, id, data),
+    remove: (userId, id) => storage.deleteCarType(userId, id),
+  });
+
+  registerResource(api, "/drivers", "Driver", insertDriverSchema, {
+    list: (userId) => storage.getDrivers(userId),
+    get: (userId, id) => storage.getDriver(userId, id),
+    create: (userId, data) => storage.createDriver(userId, data),
+    update: (userId, id, data) => storage.updateDriver(userId, id, data),
+    remove: (userId, id) => storage.deleteDriver(userId, id),
+    toPublic: toPublicDriver,
+  });
+
+  registerResource(api, "/vehicles", "Vehicle", insertVehicleSchema, {
+    list: (userId) => storage.getVehicles(userId),
+    get: (userId, id) => storage.getVehicle(userId, id),
+    create: (userId, data) => storage.createVehicle(userId, data),
+    update: (userId, id, data) => storage.updateVehicle(userId, id, data),
+    remove: (userId, id) => storage.deleteVehicle(userId, id),
+  });
+
+  registerResource(api, "/projects", "Project", insertProjectSchema, {
+    list: (userId, req) => storage.getProjects(userId, parseProjectFilters(req)),
+    get: (userId, id) => storage.getProject(userId, id),
+    create: async (userId, data, req) => {
+      assertFutureDateTime(data.date, data.time);
+      if (data.companyId) await assertOwnCompany(userId, data.companyId);
+      if (data.driverId) await assertOwnDriver(userId, data.driverId);
+      await assertFitsCarType(userId, data);
+      await assertFitsVehicle(userId, data);
+      // routed first, the trip's duration decides what it overlaps
+      const routed = { ...data, ...(await routeFields(userId, data)) };
+      if (!overridesConflicts(req)) await assertNoDriverConflicts(userId, routed);
+      return storage.createProject(userId, routed);
+    },
+    update: async (userId, id, data, req) => {
+      const project = await storage.getProject(userId, id);
+      if (!project) return undefined;
+
+      // Same rule as DataContext.updateProject: completing a trip may happen
+      // after its pickup time, any other change to an active trip may not
+      if (data.status !== "completed" && project.status === "active") {
+        assertFutureDateTime(data.date ?? project.date, data.time ?? project.time);
+      }
+      if (data.companyId) await assertOwnCompany(userId, data.companyId);
+      if (data.driverId) await assertOwnDriver(userId, data.driverId);
+      if (data.carTypeId !== undefined || data.passengers !== undefined || data.luggage !== undefined) {
+        await assertFitsCarType(userId, { ...project, ...data });
+      }
+      if (data.vehicleId !== undefined || data.passengers !== undefined) {
+        await assertFitsVehicle(userId, { ...project, ...data });
+      }
+      // a new pickup or drop-off gets its route looked up again
+      const routed =
+        data.pickupLocation !== undefined || data.dropoffLocation !== undefined
+          ? { ...data, ...(await routeFields(userId, { ...project, ...data, distanceKm: data.distanceKm })) }
+          : data;
+      // only re-check when the assignment, the schedule or the route changes
+      if (
+        (routed.driverId !== undefined ||
+          routed.date !== undefined ||
+          routed.time !== undefined ||
+          routed.durationMinutes !== undefined) &&
+        !overridesConflicts(req)
+      ) {
+        await assertNoDriverConflicts(userId, { ...project, ...routed });
+      }
+      return storage.updateProject(userId, id, routed);
+    },
+    remove: (userId, id) => storage.deleteProject(userId, id),
+  });
+
+  registerResource(api, "/payments", "Payment", insertPaymentSchema, {
+    list: (userId) => storage.getPayments(userId),
+    get: (userId, id) => storage.getPayment(userId, id),
+    create: async (userId, data) => {
+      await assertOwnDriver(userId, data.driverId);
+      return storage.createPayment(userId, data);
+    },
+    update: async (userId, id, data) => {
+      if (data.driverId) await assertOwnDriver(userId, data.driverId);
+      return storage.updatePayment(userId, id, data);
+    },
+    remove: (userId, id) => storage.deletePayment(userId, id),
+  });
+
+  // The only response with the inbound token, which lets anyone holding it
+  // create trips; like API keys it is managed with a session only
+  api.post(
+    "/companies/:id/inbound-token",
+    requireSession,
+    handle(async (req, res) => {
+      const company = await storage.rotateCompanyInboundToken(currentUserId(req), req.params.id);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json(company);
+    }),
+  );
+
+  api.post(
+    "/payments/:id/complete",
+    handle(async (req, res) => {
+      const payment = await storage.completePayment(currentUserId(req), req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.json(payment);
+    }),
+  );
+
+  registerResource(api, "/webhooks", "Webhook", insertWebhookSchema, {
+    list: (userId) => storage.getWebhooks(userId),
+    get: (userId, id) => storage.getWebhook(userId, id),
+    create: (userId, data) =>
+      storage.createWebhook(userId, { ...data, secret: generateWebhookSecret() }),
+    update: (userId, id, data) => storage.updateWebhook(userId, id, data),
+    remove: (userId, id) => storage.deleteWebhook(userId, id),
+    toPublic: toPublicWebhook,
+    // the secret is shown once, to whoever registered the endpoint
+    toCreated: (webhook) => webhook,
+  });
+
+  api.get(
+    "/webhooks/:id/deliveries",
+    handle(async (req, res) => {
+      const userId = currentUserId(req);
+      if (!(await storage.getWebhook(userId, req.params.id))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(await storage.getWebhookDeliveries(userId, req.params.id));
+    }),
+  );
+
+  registerResource(api, "/email-templates", "Email template", insertEmailTemplateSchema, {
+    list: (userId) => storage.getEmailTemplates(userId),
+    get: (userId, id) => storage.getEmailTemplate(userId, id),
+    create: async (userId, data) => {
+      await assertOwnCompany(userId, data.companyId);
+      return storage.createEmailTemplate(userId, data);
+    },
+    update: async (userId, id, data) => {
+      if (data.companyId) await assertOwnCompany(userId, data.companyId);
+      return storage.updateEmailTemplate(userId, id, data);
+    },
+    remove: (userId, id) => storage.deleteEmailTemplate(userId, id),
+  });
+
+  // Accepts the raw message either as a message/rfc822 body (with
+  // ?companyId=) or as JSON { raw, companyId }. Nothing is saved: the draft
+  // is reviewed and then created like any other trip.
+  api.post(
+    "/email-drafts",
+    express.text({ type: ["message/rfc822", "text/plain"], limit: "10mb" }),
+    handle(async (req, res) => {
+      const { raw, companyId } = emailDraftRequestSchema.parse(
+        typeof req.body === "string" ? { raw: req.body, companyId: req.query.companyId } : req.body,
+      );
+      const userId = currentUserId(req);
+      if (companyId) await assertOwnCompany(userId, companyId);
+
+      const templates = await storage.getEmailTemplates(userId);
+      res.json(draftFromEmail(raw, templates, companyId));
+    }),
+  );
+
+  // Positions for the map view, cached per account. Addresses beyond the
+  // batch come back as pending and are asked about again by the client.
+  api.post(
+    "/geocode",
+    handle(async (req, res) => {
+      const { addresses } = geocodeRequestSchema.parse(req.body);
+      res.json(await geocodeAddresses(currentUserId(req), addresses));
+    }),
+  );
+
+  api.get(
+    "/geocoded-addresses",
+    handle(async (req, res) => {
+      res.json(await storage.getGeocodedAddresses(currentUserId(req)));
+    }),
+  );
+
+  // Moves the pin of an address by hand
+  api.put(
+    "/geocoded-addresses",
+    handle(async (req, res) => {
+      const { address, lat, lng } = geocodePinSchema.parse(req.body);
+      res.json(await pinAddress(currentUserId(req), address, { lat, lng }));
+    }),
+  );
+
+  // Forgets a position, manual or not; the address is geocoded again when
+  // next asked about
+  api.delete(
+    "/geocoded-addresses/:id",
+    handle(async (req, res) => {
+      const deleted = await storage.deleteGeocodedAddress(currentUserId(req), req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Geocoded address not found" });
+      }
+      res.status(204).end();
+    }),
+  );
+
+  api.get(
+    "/message-templates",
+    handle(async (req, res) => {
+      res.json(await storage.getMessageTemplates(currentUserId(req)));
+    }),
+  );
+
+  // Saves the template of a company's event, replacing the one it had
+  api.put(
+    "/message-templates",
+    handle(async (req, res) => {
+      const data = insertMessageTemplateSchema.parse(req.body);
+      const userId = currentUserId(req);
+      await assertOwnCompany(userId, data.companyId);
+      res.json(await storage.saveMessageTemplate(userId, data));
+    }),
+  );
+
+  api.delete(
+    "/message-templates/:id",
+    handle(async (req, res) => {
+      const deleted = await storage.deleteMessageTemplate(currentUserId(req), req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Message template not found" });
+      }
+      res.status(204).end();
+    }),
+  );
+
+  api.get(
+    "/passenger-messages",
+    handle(async (req, res) => {
+      const projectId = typeof req.query.projectId === "string" ? req.query.projectId : undefined;
+      res.json(await storage.getPassengerMessages(currentUserId(req), projectId));
+    }),
+  );
+
+  // An account that saved no preferences gets the defaults
+  api.get(
+    "/notification-preferences",
+    handle(async (req, res) => {
+      const userId = currentUserId(req);
+      const preferences = await storage.getNotificationPreferences(userId);
+      res.json(preferences ?? {
+        userId,
+        channels: DEFAULT_NOTIFICATION_CHANNELS,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        timeZone: null,
+        email: null,
+        pushTopic: null,
+        updatedAt: null,
+      });
+    }),
+  );
+
+  api.put(
+    "/notification-preferences",
+    handle(async (req, res) => {
+      const data = insertNotificationPreferencesSchema.parse(req.body);
+      res.json(await storage.saveNotificationPreferences(currentUserId(req), data));
+    }),
+  );
+
+  api.get(
+    "/notifications",
+    handle(async (req, res) => {
+      res.json(await storage.getNotifications(currentUserId(req)));
+    }),
+  );
+
+  api.post(
+    "/notifications/read",
+    handle(async (req, res) => {
+      await storage.markNotificationsRead(currentUserId(req));
+      res.status(204).end();
+    }),
+  );
+
+  // Keys are managed with a session only, so a leaked key cannot mint more
+  api.get(
+    "/api-keys",
+    requireSession,
+    handle(async (req, res) => {
+      const apiKeys = await storage.getApiKeys(currentUserId(req));
+      res.json(apiKeys.map(toPublicApiKey));
+    }),
+  );
+
+  api.post(
+    "/api-keys",
+    requireSession,
+    handle(async (req, res) => {
+      const data = insertApiKeySchema.parse(req.body);
+      const { key, prefix } = generateApiKey();
+      const apiKey = await storage.createApiKey(currentUserId(req), {
+        ...data,
+        prefix,
+        keyHash: await hashApiKey(key),
+      });
+      // The only time the full key is ever returned
+      res.status(201).json({ ...toPublicApiKey(apiKey), key });
+    }),
+  );
+
+  api.post(
+    "/api-keys/:id/revoke",
+    requireSession,
+    handle(async (req, res) => {
+      const apiKey = await storage.revokeApiKey(currentUserId(req), req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      res.json(toPublicApiKey(apiKey));
+    }),
+  );
+
+  api.use(notFoundHandler);
+  api.use(validationErrorHandler);
+
+  return api;
+}
+
+function createInboundRouter(): Router {
+  const inbound = Router();
+
+  // Partners send the company's inbound token as a bearer token. Resending a
+  // booking is safe: a bookingId the company already sent returns that trip.
+  inbound.post(
+    "/companies/:companyId/bookings",
+    handle(async (req, res) => {
+      const [scheme, token] = req.headers.authorization?.split(" ") ?? [];
+      const company =
+        scheme === "Bearer" && UUID_PATTERN.test(token ?? "")
+          ? await storage.getCompanyByInboundToken(token)
+          : undefined;
+      if (!company?.userId || company.id !== req.params.companyId) {
+        return res.status(401).json({ message: "Invalid inbound token" });
+      }
+
+      const userId = company.userId;
+      const booking = inboundBookingSchema.parse(req.body);
+      const findExisting = async () => {
+        const [existing] = await storage.getProjects(userId, {
+          companyId: company.id,
+          bookingId: booking.bookingId,
+        });
+        return existing;
+      };
+
+      const existing = await findExisting();
+      if (existing) return res.json(existing);
+
+      assertFutureDateTime(booking.date, booking.time);
+      const carTypes = await storage.getCarTypes(userId);
+      try {
+        const trip = toInboundProject(booking, company, carTypes);
+        const project = await storage.createProject(userId, { ...trip, ...(await routeFields(userId, trip)) });
+        res.status(201).json(project);
+      } catch (err: any) {
+        // the same booking arrived twice at once and lost the race on the
+        // projects_inbound_booking_id_key unique index
+        if (err?.code !== "23505") throw err;
+        res.json(await findExisting());
+      }
+    }),
+  );
+
+  inbound.use(notFoundHandler);
+  inbound.use(validationErrorHandler);
+
+  return inbound;
+}
+
+const emailDraftRequestSchema = z.object({
+  raw: z.string().min(1, "Email is empty"),
+  companyId: z.string().optional(),
+});
+
+const geocodeRequestSchema = z.object({
+  addresses: z.array(z.string()).max(1000),
+});
+
+const geocodePinSchema = z.object({
+  address: z.string().trim().min(1, "Address is empty"),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function notFoundHandler(_req: Request, res: Response) {
+  res.status(404).json({ message: "Not found" });
+}
+
+function validationErrorHandler(err: any, _req: Request, res: Response, next: NextFunction) {
+  if (err instanceof ZodError) {
+    return res.status(400).json({ message: fromZodError(err).toString() });
+  }
+  if (err.status === 409 && Array.isArray(err.conflicts)) {
+    return res.status(409).json({ message: err.message, conflicts: err.conflicts });
+  }
+  next(err);
+}
+
+function toPublicApiKey({ keyHash: _keyHash, ...apiKey }: ApiKey) {
+  return apiKey;
+}
+
+// The inbound token creates trips, so it is not readable with a read-only key
+function toPublicCompany({ inboundToken: _inboundToken, ...company }: Company) {
+  return company;
+}
+
+// The secret signs deliveries, so anyone reading it could forge them
+function toPublicWebhook({ secret: _secret, ...webhook }: Webhook) {
+  return webhook;
+}
+
+// The portal token and PIN sign a driver in
+function toPublicDriver({ authToken: _authToken, pin: _pin, ...driver }: Driver) {
+  return driver;
+}
+
+interface ResourceHandlers<S extends ZodTypeAny, T> {
+  list: (userId: string, req: Request) => Promise<T[]>;
+  get: (userId: string, id: string) => Promise<T | undefined>;
+  create: (userId: string, data: z.infer<S>, req: Request) => Promise<T>;
+  update: (userId: string, id: string, data: Partial<z.infer<S>>, req: Request) => Promise<T | undefined>;
+  remove: (userId: string, id: string) => Promise<boolean>;
+  // what responses show of an item, all of it by default
+  toPublic?: (item: T) => unknown;
+  // what the create response shows, toPublic by default
+  toCreated?: (item: T) => unknown;
+}
+
+// Registers the standard list/get/create/update/delete routes for a resource.
+// Bodies are validated with the insert schema (partially for PATCH).
+function registerResource<S extends z.AnyZodObject, T>(
+  router: Router,
+  path: string,
+  label: string,
+  schema: S,
+  handlers: ResourceHandlers<S, T>,
+) {
+  const notFound = (res: Response) =>
+    res.status(404).json({ message: `${label} not found` });
+  const toPublic = handlers.toPublic ?? ((item: T) => item);
+  const toCreated = handlers.toCreated ?? toPublic;
+
+  router.get(
+    path,
+    handle(async (req, res) => {
+      const items = await handlers.list(currentUserId(req), req);
+      res.json(items.map(toPublic));
+    }),
+  );
+
+  router.get(
+    `${path}/:id`,
+    handle(async (req, res) => {
+      const item = await handlers.get(currentUserId(req), req.params.id);
+      if (!item) return notFound(res);
+      res.json(toPublic(item));
+    }),
+  );
+
+  router.post(
+    path,
+    handle(async (req, res) => {
+      const item = await handlers.create(currentUserId(req), schema.parse(req.body), req);
+      res.status(201).json(toCreated(item));
+    }),
+  );
+
+  router.patch(
+    `${path}/:id`,
+    handle(async (req, res) => {
+      const item = await handlers.update(
+        currentUserId(req),
+        req.params.id,
+        schema.partial().parse(req.body),
+        req,
+      );
+      if (!item) return notFound(res);
+      res.json(toPublic(item));
+    }),
+  );
+
+  router.delete(
+    `${path}/:id`,
+    handle(async (req, res) => {
+      const deleted = await handlers.remove(currentUserId(req), req.params.id);
+      if (!deleted) return notFound(res);
+      res.status(204).end();
+    }),
+  );
+}
+
+function parseProjectFilters(req: Request): ProjectFilters {
+  const { status, driverId, companyId, date, bookingId } = req.query;
+  return {
+    status:
+      status === "active" || status === "completed"
+        ? (status as Project["status"])
+        : undefined,
+    driverId: typeof driverId === "string" ? driverId : undefined,
+    companyId: typeof companyId === "string" ? companyId : undefined,
+    date: typeof date === "string" ? date : undefined,
+    bookingId: typeof bookingId === "string" ? bookingId : undefined,
+  };
+}
+
+function assertFutureDateTime(date: string, time: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+
+  if (new Date(year, month - 1, day, hours, minutes) <= new Date()) {
+    throw Object.assign(
+      new Error("Project date and time must be in the future"),
+      { status: 400 },
+    );
+  }
+}
+
+async function assertFitsCarType(
+  userId: string,
+  trip: { carTypeId?: string | null; passengers?: number; luggage?: number },
+) {
+  if (!trip.carTypeId) return;
+
+  const carType = await storage.getCarType(userId, trip.carTypeId);
+  if (!carType) {
+    throw Object.assign(new Error("Car type not found"), { status: 400 });
+  }
+  const issues = capacityIssues({ passengers: trip.passengers ?? 1, luggage: trip.luggage }, carType);
+  if (issues.length > 0) {
+    throw Object.assign(
+      new Error(`The trip does not fit the ${carType.name}: ${issues.join("; ")}`),
+      { status: 400 },
+    );
+  }
+}
+
+async function assertFitsVehicle(
+  userId: string,
+  trip: { vehicleId?: string | null; passengers?: number },
+) {
+  if (!trip.vehicleId) return;
+
+  const vehicle = await storage.getVehicle(userId, trip.vehicleId);
+  if (!vehicle) {
+    throw Object.assign(new Error("Vehicle not found"), { status: 400 });
+  }
+  const passengers = trip.passengers ?? 1;
+  if (passengers > vehicle.seats) {
+    throw Object.assign(
+      new Error(`${passengers} passengers exceed the ${vehicle.seats} seats of ${vehicle.plate}`),
+      { status: 400 },
+    );
+  }
+}
+
+// Assigning a driver who is offline or already busy at that time is refused
+// unless the request explicitly overrides it with ?overrideConflicts=true
+function overridesConflicts(req: Request) {
+  return req.query.overrideConflicts === "true";
+}
+
+async function assertNoDriverConflicts(
+  userId: string,
+  trip: {
+    id?: string;
+    driverId?: string | null;
+    date: string;
+    time: string;
+    status?: string | null;
+    durationMinutes?: number | null;
+    distanceKm?: number | null;
+  },
+) {
+  if (!trip.driverId) return;
+
+  const [drivers, driverTrips] = await Promise.all([
+    storage.getDrivers(userId),
+    storage.getProjects(userId, { driverId: trip.driverId }),
+  ]);
+  const conflicts = findDriverConflicts(trip, drivers, driverTrips);
+  if (conflicts.length === 0) return;
+
+  const driverName = drivers.find((driver) => driver.id === trip.driverId)?.name ?? "The driver";
+  throw Object.assign(
+    new Error("The driver has a conflicting assignment"),
+    {
+      status: 409,
+      conflicts: conflicts.map((conflict) => ({
+        type: conflict.type,
+        projectId: conflict.type === "overlap" ? conflict.trip.id : undefined,
+        message: describeConflict(conflict, driverName),
+      })),
+    },
+  );
+}
+
+async function assertOwnCompany(userId: string, companyId: string) {
+  if (!(await storage.getCompany(userId, companyId))) {
+    throw Object.assign(new Error("Company not found"), { status: 400 });
+  }
+}
+
+async function assertOwnDriver(userId: string, driverId: string) {
+  if (!(await storage.getDriver(userId, driverId))) {
+    throw Object.assign(new Error("Driver not found"), { status: 400 });
+  }
+}
+
+// Express 4 does not forward rejected promises, so route handlers are wrapped
+function handle(
+  fn: (req: Request, res: Response) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+}
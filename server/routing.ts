@@ -0,0 +1,30 @@
+import { createRoutingProvider, estimateRoute, routingProviderName, type RoutedTrip } from "@shared/routing";
+import { cachedGeocoder } from "./geocoding";
+
+// Checked at startup, so an unknown name stops the server instead of the
+// first trip saved
+const ROUTING_PROVIDER = routingProviderName(process.env.ROUTING_PROVIDER) ?? undefined;
+
+// Chosen with ROUTING_PROVIDER (osrm, graphhopper or offline; none by
+// default) and pointed at a server with ROUTING_URL; ROUTING_API_KEY is passed
+// to GraphHopper. Addresses are geocoded through the account's geocoding cache.
+export function routingFor(userId: string) {
+  return createRoutingProvider({
+    provider: ROUTING_PROVIDER,
+    url: process.env.ROUTING_URL,
+    apiKey: process.env.ROUTING_API_KEY,
+    geocode: cachedGeocoder(userId),
+  });
+}
+
+// Distance and duration of a trip being saved. A distance sent with the trip
+// is kept as it is; otherwise the route is looked up, and stored as null
+// when it cannot be found or no provider is configured.
+export async function routeFields(
+  userId: string,
+  trip: RoutedTrip & { distanceKm?: number | null },
+): Promise<{ distanceKm?: number | null; durationMinutes?: number | null }> {
+  if (trip.distanceKm !== undefined) return {};
+  const route = await estimateRoute(routingFor(userId), trip);
+  return { distanceKm: route?.distanceKm ?? null, durationMinutes: route?.durationMinutes ?? null };
+}
@@ -1,39 +1,1027 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { getTableColumns, type Table } from "drizzle-orm";
+import {
+  users,
+  projects,
+  payments,
+  type User,
+  type InsertUser,
+  type Company,
+  type InsertCompany,
+  type CarType,
+  type InsertCarType,
+  type Driver,
+  type InsertDriver,
+  type Vehicle,
+  type InsertVehicle,
+  type Project,
+  type InsertProject,
+  type Payment,
+  type InsertPayment,
+  type ApiKey,
+  type InsertApiKey,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type EmailTemplate,
+  type InsertEmailTemplate,
+  type GeocodedAddress,
+  type Customer,
+  type MessageTemplate,
+  type InsertMessageTemplate,
+  type PassengerMessage,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type Notification,
+} from "@shared/schema";
+import { paymentEvents, tripEvents, type WebhookEvent } from "@shared/webhooks";
+import { passengerMessageEvents } from "@shared/messaging";
+import { channelsFor, tripNotificationEvents } from "@shared/notifications";
 
-// modify the interface with any CRUD methods
-// you might need
+const MemoryStore = createMemoryStore(session);
 
+export interface ProjectFilters {
+  status?: Project["status"];
+  driverId?: string;
+  companyId?: string;
+  date?: string;
+  bookingId?: string;
+}
+
+export type NewApiKey = InsertApiKey & Pick<ApiKey, "prefix" | "keyHash">;
+export type NewWebhook = InsertWebhook & Pick<Webhook, "secret">;
+export type NewGeocodedAddress = Pick<
+  GeocodedAddress,
+  "addressKey" | "address" | "lat" | "lng" | "source" | "provider"
+>;
+
+export type NewPassengerMessage = Pick<PassengerMessage, "projectId" | "event" | "channel" | "userId">;
+export type NewNotification = Pick<Notification, "event" | "channel" | "projectId" | "paymentId" | "userId">;
+
+// How many deliveries the log keeps showing per account
+export const WEBHOOK_DELIVERY_LOG_LIMIT = 100;
+
+// How many passenger messages the log keeps showing per account
+export const PASSENGER_MESSAGE_LOG_LIMIT = 100;
+
+// How many notifications the log keeps showing per account
+export const NOTIFICATION_LOG_LIMIT = 100;
+
+// Every domain method is scoped to the owning account (the user_id column),
+// the same boundary the Supabase RLS policies enforce for the browser.
 export interface IStorage {
-  getUser(id: number): Promise<User | undefined>;
+  sessionStore: session.Store;
+
+  getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getCompanies(userId: string): Promise<Company[]>;
+  getCompany(userId: string, id: string): Promise<Company | undefined>;
+  createCompany(userId: string, company: InsertCompany): Promise<Company>;
+  updateCompany(userId: string, id: string, company: Partial<InsertCompany>): Promise<Company | undefined>;
+  deleteCompany(userId: string, id: string): Promise<boolean>;
+  // Unscoped: resolves the company a partner's inbound booking is for
+  getCompanyByInboundToken(token: string): Promise<Company | undefined>;
+  rotateCompanyInboundToken(userId: string, id: string): Promise<Company | undefined>;
+
+  getCarTypes(userId: string): Promise<CarType[]>;
+  getCarType(userId: string, id: string): Promise<CarType | undefined>;
+  createCarType(userId: string, carType: InsertCarType): Promise<CarType>;
+  updateCarType(userId: string, id: string, carType: Partial<InsertCarType>): Promise<CarType | undefined>;
+  deleteCarType(userId: string, id: string): Promise<boolean>;
+
+  getDrivers(userId: string): Promise<Driver[]>;
+  getDriver(userId: string, id: string): Promise<Driver | undefined>;
+  createDriver(userId: string, driver: InsertDriver): Promise<Driver>;
+  updateDriver(userId: string, id: string, driver: Partial<InsertDriver>): Promise<Driver | undefined>;
+  deleteDriver(userId: string, id: string): Promise<boolean>;
+
+  getVehicles(userId: string): Promise<Vehicle[]>;
+  getVehicle(userId: string, id: string): Promise<Vehicle | undefined>;
+  createVehicle(userId: string, vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(userId: string, id: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined>;
+  deleteVehicle(userId: string, id: string): Promise<boolean>;
+
+  getProjects(userId: string, filters?: ProjectFilters): Promise<Project[]>;
+  getProject(userId: string, id: string): Promise<Project | undefined>;
+  createProject(userId: string, project: InsertProject): Promise<Project>;
+  updateProject(userId: string, id: string, project: Partial<InsertProject>): Promise<Project | undefined>;
+  deleteProject(userId: string, id: string): Promise<boolean>;
+
+  getPayments(userId: string): Promise<Payment[]>;
+  getPayment(userId: string, id: string): Promise<Payment | undefined>;
+  createPayment(userId: string, payment: InsertPayment): Promise<Payment>;
+  updatePayment(userId: string, id: string, payment: Partial<InsertPayment>): Promise<Payment | undefined>;
+  deletePayment(userId: string, id: string): Promise<boolean>;
+  completePayment(userId: string, id: string): Promise<Payment | undefined>;
+
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  createApiKey(userId: string, apiKey: NewApiKey): Promise<ApiKey>;
+  revokeApiKey(userId: string, id: string): Promise<ApiKey | undefined>;
+  // Unscoped: resolves the owner of a bearer token
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string): Promise<void>;
+
+  getWebhooks(userId: string): Promise<Webhook[]>;
+  getWebhook(userId: string, id: string): Promise<Webhook | undefined>;
+  createWebhook(userId: string, webhook: NewWebhook): Promise<Webhook>;
+  updateWebhook(userId: string, id: string, webhook: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(userId: string, id: string): Promise<boolean>;
+  getWebhookDeliveries(userId: string, webhookId?: string): Promise<WebhookDelivery[]>;
+  // Unscoped: used by the delivery worker. Claiming pushes next_attempt_at
+  // out so concurrent workers do not pick up the same delivery.
+  claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, delivery: Partial<WebhookDelivery>): Promise<void>;
+
+  getEmailTemplates(userId: string): Promise<EmailTemplate[]>;
+  getEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined>;
+  createEmailTemplate(userId: string, template: InsertEmailTemplate): Promise<EmailTemplate>;
+  updateEmailTemplate(userId: string, id: string, template: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined>;
+  deleteEmailTemplate(userId: string, id: string): Promise<boolean>;
+
+  getGeocodedAddresses(userId: string, addressKeys?: string[]): Promise<GeocodedAddress[]>;
+  // Upserts by address key. A provider answer never replaces a manual pin;
+  // the stored row is returned either way.
+  saveGeocodedAddress(userId: string, address: NewGeocodedAddress): Promise<GeocodedAddress>;
+  deleteGeocodedAddress(userId: string, id: string): Promise<boolean>;
+
+  getCustomer(userId: string, id: string): Promise<Customer | undefined>;
+
+  getMessageTemplates(userId: string): Promise<MessageTemplate[]>;
+  // Upserts by company and event
+  saveMessageTemplate(userId: string, template: InsertMessageTemplate): Promise<MessageTemplate>;
+  deleteMessageTemplate(userId: string, id: string): Promise<boolean>;
+  getPassengerMessages(userId: string, projectId?: string): Promise<PassengerMessage[]>;
+  // Unscoped: used by the message worker. Active trips between the dates
+  // whose company sends reminders and that have no reminder queued yet.
+  getTripsAwaitingReminder(fromDate: string, toDate: string): Promise<Project[]>;
+  // A second reminder for the same trip is ignored
+  queuePassengerMessage(message: NewPassengerMessage): Promise<void>;
+  claimDuePassengerMessages(limit: number): Promise<PassengerMessage[]>;
+  updatePassengerMessage(id: string, message: Partial<PassengerMessage>): Promise<void>;
+
+  // Undefined until the account saves preferences, see channelsFor
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(
+    userId: string,
+    preferences: InsertNotificationPreferences,
+  ): Promise<NotificationPreferences>;
+  getNotifications(userId: string): Promise<Notification[]>;
+  // Marks every unread in-app notification read
+  markNotificationsRead(userId: string): Promise<void>;
+  // Unscoped: used by the notification worker. Pending payments dated
+  // between the days that have not been announced as due yet, of accounts
+  // that have payment.due on at least one channel.
+  getPaymentsAwaitingDueNotice(fromDate: string, toDate: string): Promise<Payment[]>;
+  // In-app notifications are sent as they are queued. A second payment.due
+  // for the same payment and channel is ignored.
+  queueNotification(notification: NewNotification): Promise<void>;
+  claimDueNotifications(limit: number): Promise<Notification[]>;
+  updateNotification(id: string, notification: Partial<Notification>): Promise<void>;
 }
 
+// How long a claimed delivery stays invisible to other workers
+export const WEBHOOK_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// The same for passenger messages and notifications
+export const PASSENGER_MESSAGE_CLAIM_LEASE_MS = 5 * 60 * 1000;
+export const NOTIFICATION_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// In-memory stand-in used when no database is configured (local development
+// without Supabase, tests). Defaults mirror the column defaults in Postgres.
 export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  currentId: number;
+  sessionStore: session.Store;
+  private users: Map<string, User>;
+  private companies: Map<string, Company>;
+  private carTypes: Map<string, CarType>;
+  private drivers: Map<string, Driver>;
+  private vehicles: Map<string, Vehicle>;
+  private projects: Map<string, Project>;
+  private payments: Map<string, Payment>;
+  private apiKeys: Map<string, ApiKey>;
+  private webhooks: Map<string, Webhook>;
+  private webhookDeliveries: Map<string, WebhookDelivery>;
+  private emailTemplates: Map<string, EmailTemplate>;
+  private geocodedAddresses: Map<string, GeocodedAddress>;
+  private customers: Map<string, Customer>;
+  private messageTemplates: Map<string, MessageTemplate>;
+  private passengerMessages: Map<string, PassengerMessage>;
+  // keyed by user id, the table's primary key
+  private notificationPreferences: Map<string, NotificationPreferences>;
+  private notifications: Map<string, Notification>;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     this.users = new Map();
-    this.currentId = 1;
+    this.companies = new Map();
+    this.carTypes = new Map();
+    this.drivers = new Map();
+    this.vehicles = new Map();
+    this.projects = new Map();
+    this.payments = new Map();
+    this.apiKeys = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.emailTemplates = new Map();
+    this.geocodedAddresses = new Map();
+    this.customers = new Map();
+    this.messageTemplates = new Map();
+    this.passengerMessages = new Map();
+    this.notificationPreferences = new Map();
+    this.notifications = new Map();
   }
 
-  async getUser(id: number): Promise<User | undefined> {
+  async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
+  // Accounts sign in with their email address, as they do with Supabase Auth
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.username === username,
+      (user) => user.email === username,
     );
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentId++;
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
+    const user: User = {
+      password: null,
+      ...insertUser,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
     return user;
   }
+
+  async getCompanies(userId: string): Promise<Company[]> {
+    return ownedEntries(this.companies, userId);
+  }
+
+  async getCompany(userId: string, id: string): Promise<Company | undefined> {
+    return getEntry(this.companies, userId, id);
+  }
+
+  async createCompany(userId: string, insertCompany: InsertCompany): Promise<Company> {
+    const company: Company = {
+      address: null,
+      phone: null,
+      ...insertCompany,
+      id: randomUUID(),
+      inboundToken: randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.companies.set(company.id, company);
+    return company;
+  }
+
+  async updateCompany(userId: string, id: string, updates: Partial<InsertCompany>): Promise<Company | undefined> {
+    return updateEntry(this.companies, userId, id, updates);
+  }
+
+  async deleteCompany(userId: string, id: string): Promise<boolean> {
+    return deleteEntry(this.companies, userId, id);
+  }
+
+  async getCompanyByInboundToken(token: string): Promise<Company | undefined> {
+    return Array.from(this.companies.values()).find(
+      (company) => company.inboundToken === token,
+    );
+  }
+
+  async rotateCompanyInboundToken(userId: string, id: string): Promise<Company | undefined> {
+    return updateEntry(this.companies, userId, id, { inboundToken: randomUUID() });
+  }
+
+  async getCarTypes(userId: string): Promise<CarType[]> {
+    return ownedEntries(this.carTypes, userId);
+  }
+
+  async getCarType(userId: string, id: string): Promise<CarType | undefined> {
+    return getEntry(this.carTypes, userId, id);
+  }
+
+  async createCarType(userId: string, insertCarType: InsertCarType): Promise<CarType> {
+    const carType: CarType = {
+      capacity: 4,
+      luggageCapacity: 2,
+      description: null,
+      ...insertCarType,
+      id: randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.carTypes.set(carType.id, carType);
+    return carType;
+  }
+
+  async updateCarType(userId: string, id: string, updates: Partial<InsertCarType>): Promise<CarType | undefined> {
+    return updateEntry(this.carTypes, userId, id, updates);
+  }
+
+  async deleteCarType(userId: string, id: string): Promise<boolean> {
+    return deleteEntry(this.carTypes, userId, id);
+  }
+
+  async getDrivers(userId: string): Promise<Driver[]> {
+    return ownedEntries(this.drivers, userId);
+  }
+
+  async getDriver(userId: string, id: string): Promise<Driver | undefined> {
+    return getEntry(this.drivers, userId, id);
+  }
+
+  async createDriver(userId: string, insertDriver: InsertDriver): Promise<Driver> {
+    const driver: Driver = {
+      phone: null,
+      license: null,
+      status: "available",
+      pin: "1234",
+      ...insertDriver,
+      id: randomUUID(),
+      totalEarnings: 0,
+      authToken: randomUUID(),
+      lastLogin: null,
+      userId,
+      createdAt: new Date(),
+    };
+    this.drivers.set(driver.id, driver);
+    return driver;
+  }
+
+  async updateDriver(userId: string, id: string, updates: Partial<InsertDriver>): Promise<Driver | undefined> {
+    return updateEntry(this.drivers, userId, id, updates);
+  }
+
+  async deleteDriver(userId: string, id: string): Promise<boolean> {
+    return deleteEntry(this.drivers, userId, id);
+  }
+
+  async getVehicles(userId: string): Promise<Vehicle[]> {
+    return ownedEntries(this.vehicles, userId).sort((a, b) => a.plate.localeCompare(b.plate));
+  }
+
+  async getVehicle(userId: string, id: string): Promise<Vehicle | undefined> {
+    return getEntry(this.vehicles, userId, id);
+  }
+
+  async createVehicle(userId: string, insertVehicle: InsertVehicle): Promise<Vehicle> {
+    const vehicle: Vehicle = {
+      model: null,
+      carTypeId: null,
+      seats: 4,
+      odometerKm: null,
+      insuranceExpiresOn: null,
+      inspectionExpiresOn: null,
+      registrationExpiresOn: null,
+      defaultDriverId: null,
+      ...insertVehicle,
+      id: randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.vehicles.set(vehicle.id, vehicle);
+    return vehicle;
+  }
+
+  async updateVehicle(userId: string, id: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    return updateEntry(this.vehicles, userId, id, updates);
+  }
+
+  async deleteVehicle(userId: string, id: string): Promise<boolean> {
+    const deleted = deleteEntry(this.vehicles, userId, id);
+    // projects.vehicle_id is set null on delete
+    if (deleted) {
+      ownedEntries(this.projects, userId)
+        .filter((project) => project.vehicleId === id)
+        .forEach((project) => this.projects.set(project.id, { ...project, vehicleId: null }));
+    }
+    return deleted;
+  }
+
+  async getProjects(userId: string, filters: ProjectFilters = {}): Promise<Project[]> {
+    return ownedEntries(this.projects, userId)
+      .filter(
+        (project) =>
+          (!filters.status || project.status === filters.status) &&
+          (!filters.driverId || project.driverId === filters.driverId) &&
+          (!filters.companyId || project.companyId === filters.companyId) &&
+          (!filters.date || project.date === filters.date) &&
+          (!filters.bookingId || project.bookingId === filters.bookingId),
+      )
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getProject(userId: string, id: string): Promise<Project | undefined> {
+    return getEntry(this.projects, userId, id);
+  }
+
+  async createProject(userId: string, insertProject: InsertProject): Promise<Project> {
+    const project: Project = {
+      companyId: null,
+      driverId: null,
+      carTypeId: null,
+      vehicleId: null,
+      clientPhone: null,
+      passengers: 1,
+      luggage: 0,
+      distanceKm: null,
+      durationMinutes: null,
+      price: 0,
+      driverFee: null,
+      priceOverridden: false,
+      status: "active",
+      paymentStatus: "charge",
+      description: null,
+      source: "manual",
+      ...insertProject,
+      bookingId: insertProject.bookingId || generateBookingId(),
+      id: randomUUID(),
+      acceptanceStatus: "pending",
+      acceptedAt: null,
+      acceptedBy: null,
+      startedAt: null,
+      completedAt: null,
+      completedBy: null,
+      customerId: null,
+      seriesId: null,
+      itineraryId: null,
+      legNumber: null,
+      bulkInserted: false,
+      userId,
+      createdAt: new Date(),
+    };
+    this.projects.set(project.id, project);
+    this.queueProjectWebhooks(userId, undefined, project);
+    this.queueProjectMessages(userId, undefined, project);
+    this.queueProjectNotifications(userId, undefined, project);
+    return project;
+  }
+
+  async updateProject(userId: string, id: string, updates: Partial<InsertProject>): Promise<Project | undefined> {
+    const before = getEntry(this.projects, userId, id);
+    const project = updateEntry(this.projects, userId, id, updates);
+    this.queueProjectWebhooks(userId, before, project);
+    if (project) {
+      this.queueProjectMessages(userId, before, project);
+      this.queueProjectNotifications(userId, before, project);
+    }
+    return project;
+  }
+
+  async deleteProject(userId: string, id: string): Promise<boolean> {
+    const before = getEntry(this.projects, userId, id);
+    const deleted = deleteEntry(this.projects, userId, id);
+    if (deleted) {
+      this.queueProjectWebhooks(userId, before, undefined);
+      // passenger_messages.project_id and notifications.project_id cascade
+      // on delete
+      Array.from(this.passengerMessages.values())
+        .filter((message) => message.projectId === id)
+        .forEach((message) => this.passengerMessages.delete(message.id));
+      Array.from(this.notifications.values())
+        .filter((notification) => notification.projectId === id)
+        .forEach((notification) => this.notifications.delete(notification.id));
+    }
+    return deleted;
+  }
+
+  async getPayments(userId: string): Promise<Payment[]> {
+    return ownedEntries(this.payments, userId).sort((a, b) =>
+      b.date.localeCompare(a.date),
+    );
+  }
+
+  async getPayment(userId: string, id: string): Promise<Payment | undefined> {
+    return getEntry(this.payments, userId, id);
+  }
+
+  async createPayment(userId: string, insertPayment: InsertPayment): Promise<Payment> {
+    const payment: Payment = {
+      status: "pending",
+      description: null,
+      ...insertPayment,
+      id: randomUUID(),
+      userId,
+      completedAt: null,
+      createdAt: new Date(),
+    };
+    this.payments.set(payment.id, payment);
+    this.queuePaymentWebhooks(userId, undefined, payment);
+    return payment;
+  }
+
+  async updatePayment(userId: string, id: string, updates: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const before = getEntry(this.payments, userId, id);
+    const payment = updateEntry(this.payments, userId, id, updates);
+    if (payment) this.queuePaymentWebhooks(userId, before, payment);
+    return payment;
+  }
+
+  async deletePayment(userId: string, id: string): Promise<boolean> {
+    const deleted = deleteEntry(this.payments, userId, id);
+    if (deleted) {
+      // notifications.payment_id cascades on delete
+      Array.from(this.notifications.values())
+        .filter((notification) => notification.paymentId === id)
+        .forEach((notification) => this.notifications.delete(notification.id));
+    }
+    return deleted;
+  }
+
+  async completePayment(userId: string, id: string): Promise<Payment | undefined> {
+    const payment = getEntry(this.payments, userId, id);
+    if (!payment) return undefined;
+    if (payment.status === "paid") return payment;
+
+    // Mirrors the update_driver_earnings trigger in the Supabase migrations
+    const driver = getEntry(this.drivers, userId, payment.driverId);
+    if (driver) {
+      driver.totalEarnings = (driver.totalEarnings ?? 0) + payment.amount;
+    }
+
+    const paid = updateEntry(this.payments, userId, id, {
+      status: "paid",
+      completedAt: new Date(),
+    });
+    if (paid) this.queuePaymentWebhooks(userId, payment, paid);
+    return paid;
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return ownedEntries(this.apiKeys, userId);
+  }
+
+  async createApiKey(userId: string, newApiKey: NewApiKey): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      scope: "read",
+      ...newApiKey,
+      id: randomUUID(),
+      lastUsedAt: null,
+      revokedAt: null,
+      userId,
+      createdAt: new Date(),
+    };
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async revokeApiKey(userId: string, id: string): Promise<ApiKey | undefined> {
+    const apiKey = getEntry(this.apiKeys, userId, id);
+    if (!apiKey || apiKey.revokedAt) return apiKey;
+    return updateEntry(this.apiKeys, userId, id, { revokedAt: new Date() });
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(
+      (apiKey) => apiKey.keyHash === keyHash,
+    );
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) apiKey.lastUsedAt = new Date();
+  }
+
+  async getWebhooks(userId: string): Promise<Webhook[]> {
+    return ownedEntries(this.webhooks, userId);
+  }
+
+  async getWebhook(userId: string, id: string): Promise<Webhook | undefined> {
+    return getEntry(this.webhooks, userId, id);
+  }
+
+  async createWebhook(userId: string, newWebhook: NewWebhook): Promise<Webhook> {
+    const webhook: Webhook = {
+      description: null,
+      active: true,
+      ...newWebhook,
+      id: randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(userId: string, id: string, updates: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    return updateEntry(this.webhooks, userId, id, updates);
+  }
+
+  async deleteWebhook(userId: string, id: string): Promise<boolean> {
+    const deleted = deleteEntry(this.webhooks, userId, id);
+    // webhook_deliveries.webhook_id cascades on delete
+    if (deleted) {
+      Array.from(this.webhookDeliveries.values())
+        .filter((delivery) => delivery.webhookId === id)
+        .forEach((delivery) => this.webhookDeliveries.delete(delivery.id));
+    }
+    return deleted;
+  }
+
+  async getWebhookDeliveries(userId: string, webhookId?: string): Promise<WebhookDelivery[]> {
+    return ownedEntries(this.webhookDeliveries, userId)
+      .filter((delivery) => !webhookId || delivery.webhookId === webhookId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, WEBHOOK_DELIVERY_LOG_LIMIT);
+  }
+
+  async claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const now = Date.now();
+    const due = Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt.getTime() <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+
+    for (const delivery of due) {
+      delivery.nextAttemptAt = new Date(now + WEBHOOK_CLAIM_LEASE_MS);
+    }
+    return due.map((delivery) => ({ ...delivery }));
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (delivery) this.webhookDeliveries.set(id, { ...delivery, ...updates, id });
+  }
+
+  async getEmailTemplates(userId: string): Promise<EmailTemplate[]> {
+    return ownedEntries(this.emailTemplates, userId);
+  }
+
+  async getEmailTemplate(userId: string, id: string): Promise<EmailTemplate | undefined> {
+    return getEntry(this.emailTemplates, userId, id);
+  }
+
+  async createEmailTemplate(userId: string, insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const template: EmailTemplate = {
+      fields: {},
+      dateOrder: "DMY",
+      ...insertTemplate,
+      id: randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.emailTemplates.set(template.id, template);
+    return template;
+  }
+
+  async updateEmailTemplate(userId: string, id: string, updates: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
+    return updateEntry(this.emailTemplates, userId, id, updates);
+  }
+
+  async deleteEmailTemplate(userId: string, id: string): Promise<boolean> {
+    return deleteEntry(this.emailTemplates, userId, id);
+  }
+
+  async getGeocodedAddresses(userId: string, addressKeys?: string[]): Promise<GeocodedAddress[]> {
+    const addresses = ownedEntries(this.geocodedAddresses, userId);
+    return addressKeys ? addresses.filter((address) => addressKeys.includes(address.addressKey)) : addresses;
+  }
+
+  async saveGeocodedAddress(userId: string, newAddress: NewGeocodedAddress): Promise<GeocodedAddress> {
+    const [existing] = await this.getGeocodedAddresses(userId, [newAddress.addressKey]);
+    if (existing?.source === "manual" && newAddress.source !== "manual") return existing;
+
+    const address: GeocodedAddress = {
+      ...newAddress,
+      id: existing?.id ?? randomUUID(),
+      // the address keeps the spelling it was first seen with
+      address: existing?.address ?? newAddress.address,
+      geocodedAt: new Date(),
+      userId,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.geocodedAddresses.set(address.id, address);
+    return address;
+  }
+
+  async deleteGeocodedAddress(userId: string, id: string): Promise<boolean> {
+    return deleteEntry(this.geocodedAddresses, userId, id);
+  }
+
+  async getCustomer(userId: string, id: string): Promise<Customer | undefined> {
+    return getEntry(this.customers, userId, id);
+  }
+
+  async getMessageTemplates(userId: string): Promise<MessageTemplate[]> {
+    return ownedEntries(this.messageTemplates, userId);
+  }
+
+  async saveMessageTemplate(userId: string, insertTemplate: InsertMessageTemplate): Promise<MessageTemplate> {
+    const existing = ownedEntries(this.messageTemplates, userId).find(
+      (template) => template.companyId === insertTemplate.companyId && template.event === insertTemplate.event,
+    );
+    const template: MessageTemplate = {
+      channel: "sms",
+      enabled: true,
+      ...existing,
+      ...insertTemplate,
+      id: existing?.id ?? randomUUID(),
+      userId,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.messageTemplates.set(template.id, template);
+    return template;
+  }
+
+  async deleteMessageTemplate(userId: string, id: string): Promise<boolean> {
+    return deleteEntry(this.messageTemplates, userId, id);
+  }
+
+  async getPassengerMessages(userId: string, projectId?: string): Promise<PassengerMessage[]> {
+    return ownedEntries(this.passengerMessages, userId)
+      .filter((message) => !projectId || message.projectId === projectId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, PASSENGER_MESSAGE_LOG_LIMIT);
+  }
+
+  async getTripsAwaitingReminder(fromDate: string, toDate: string): Promise<Project[]> {
+    const reminded = new Set(
+      Array.from(this.passengerMessages.values())
+        .filter((message) => message.event === "pickup.reminder")
+        .map((message) => message.projectId),
+    );
+    return Array.from(this.projects.values()).filter(
+      (project) =>
+        project.status !== "completed" &&
+        project.date >= fromDate &&
+        project.date <= toDate &&
+        !reminded.has(project.id) &&
+        this.enabledTemplate(project, "pickup.reminder") !== undefined,
+    );
+  }
+
+  async queuePassengerMessage(newMessage: NewPassengerMessage): Promise<void> {
+    const duplicate = newMessage.event === "pickup.reminder" &&
+      Array.from(this.passengerMessages.values()).some(
+        (message) => message.projectId === newMessage.projectId && message.event === "pickup.reminder",
+      );
+    if (duplicate) return;
+
+    const message: PassengerMessage = {
+      ...newMessage,
+      id: randomUUID(),
+      recipient: null,
+      body: null,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastAttemptAt: null,
+      lastError: null,
+      provider: null,
+      providerMessageId: null,
+      sentAt: null,
+      createdAt: new Date(),
+    };
+    this.passengerMessages.set(message.id, message);
+  }
+
+  async claimDuePassengerMessages(limit: number): Promise<PassengerMessage[]> {
+    const now = Date.now();
+    const due = Array.from(this.passengerMessages.values())
+      .filter((message) => message.status === "pending" && message.nextAttemptAt.getTime() <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+
+    for (const message of due) {
+      message.nextAttemptAt = new Date(now + PASSENGER_MESSAGE_CLAIM_LEASE_MS);
+    }
+    return due.map((message) => ({ ...message }));
+  }
+
+  async updatePassengerMessage(id: string, updates: Partial<PassengerMessage>): Promise<void> {
+    const message = this.passengerMessages.get(id);
+    if (message) this.passengerMessages.set(id, { ...message, ...updates, id });
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    return this.notificationPreferences.get(userId);
+  }
+
+  async saveNotificationPreferences(
+    userId: string,
+    insertPreferences: InsertNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const preferences: NotificationPreferences = {
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timeZone: null,
+      email: null,
+      pushTopic: null,
+      ...insertPreferences,
+      userId,
+      updatedAt: new Date(),
+    };
+    this.notificationPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return ownedEntries(this.notifications, userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, NOTIFICATION_LOG_LIMIT);
+  }
+
+  async markNotificationsRead(userId: string): Promise<void> {
+    for (const notification of ownedEntries(this.notifications, userId)) {
+      if (notification.channel === "in_app" && !notification.readAt) notification.readAt = new Date();
+    }
+  }
+
+  async getPaymentsAwaitingDueNotice(fromDate: string, toDate: string): Promise<Payment[]> {
+    const announced = new Set(
+      Array.from(this.notifications.values())
+        .filter((notification) => notification.event === "payment.due")
+        .map((notification) => notification.paymentId),
+    );
+    return Array.from(this.payments.values()).filter(
+      (payment) =>
+        payment.status === "pending" &&
+        payment.date >= fromDate &&
+        payment.date <= toDate &&
+        !announced.has(payment.id) &&
+        channelsFor(this.notificationPreferences.get(payment.userId!), "payment.due").length > 0,
+    );
+  }
+
+  async queueNotification(newNotification: NewNotification): Promise<void> {
+    const duplicate = newNotification.event === "payment.due" &&
+      Array.from(this.notifications.values()).some(
+        (notification) =>
+          notification.event === "payment.due" &&
+          notification.paymentId === newNotification.paymentId &&
+          notification.channel === newNotification.channel,
+      );
+    if (duplicate) return;
+
+    const inApp = newNotification.channel === "in_app";
+    const notification: Notification = {
+      ...newNotification,
+      id: randomUUID(),
+      status: inApp ? "sent" : "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastAttemptAt: null,
+      lastError: null,
+      provider: null,
+      sentAt: inApp ? new Date() : null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(notification.id, notification);
+  }
+
+  async claimDueNotifications(limit: number): Promise<Notification[]> {
+    const now = Date.now();
+    const due = Array.from(this.notifications.values())
+      .filter((notification) => notification.status === "pending" && notification.nextAttemptAt.getTime() <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+
+    for (const notification of due) {
+      notification.nextAttemptAt = new Date(now + NOTIFICATION_CLAIM_LEASE_MS);
+    }
+    return due.map((notification) => ({ ...notification }));
+  }
+
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<void> {
+    const notification = this.notifications.get(id);
+    if (notification) this.notifications.set(id, { ...notification, ...updates, id });
+  }
+
+  // Mirrors the queue_project_notifications trigger
+  private queueProjectNotifications(userId: string, before: Project | undefined, after: Project) {
+    const preferences = this.notificationPreferences.get(userId);
+    for (const event of tripNotificationEvents(before, after)) {
+      for (const channel of channelsFor(preferences, event)) {
+        void this.queueNotification({ event, channel, projectId: after.id, paymentId: null, userId });
+      }
+    }
+  }
+
+  private enabledTemplate(project: Project, event: MessageTemplate["event"]) {
+    return Array.from(this.messageTemplates.values()).find(
+      (template) =>
+        template.userId === project.userId &&
+        template.companyId === project.companyId &&
+        template.event === event &&
+        template.enabled,
+    );
+  }
+
+  // Mirrors the queue_passenger_messages trigger
+  private queueProjectMessages(userId: string, before: Project | undefined, after: Project) {
+    for (const event of passengerMessageEvents(before, after)) {
+      const template = this.enabledTemplate(after, event);
+      if (template) {
+        void this.queuePassengerMessage({ projectId: after.id, event, channel: template.channel, userId });
+      }
+    }
+  }
+
+  // Mirrors the queue_project_webhooks and queue_payment_webhooks triggers
+  private queueProjectWebhooks(userId: string, before: Project | undefined, after: Project | undefined) {
+    const row = after ?? before;
+    if (row) this.queueWebhooks(userId, tripEvents(before, after), toColumnRow(projects, row));
+  }
+
+  private queuePaymentWebhooks(userId: string, before: Payment | undefined, after: Payment) {
+    this.queueWebhooks(userId, paymentEvents(before, after), toColumnRow(payments, after));
+  }
+
+  private queueWebhooks(userId: string, events: WebhookEvent[], payload: Record<string, unknown>) {
+    for (const event of events) {
+      for (const webhook of ownedEntries(this.webhooks, userId)) {
+        if (!webhook.active || !webhook.events.includes(event)) continue;
+
+        const delivery: WebhookDelivery = {
+          id: randomUUID(),
+          webhookId: webhook.id,
+          event,
+          payload,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastAttemptAt: null,
+          responseStatus: null,
+          lastError: null,
+          deliveredAt: null,
+          userId,
+          createdAt: new Date(),
+        };
+        this.webhookDeliveries.set(delivery.id, delivery);
+      }
+    }
+  }
+}
+
+type OwnedEntry = { id: string; userId: string | null };
+
+function ownedEntries<T extends OwnedEntry>(entries: Map<string, T>, userId: string): T[] {
+  return Array.from(entries.values()).filter((entry) => entry.userId === userId);
+}
+
+function getEntry<T extends OwnedEntry>(
+  entries: Map<string, T>,
+  userId: string,
+  id: string,
+): T | undefined {
+  const entry = entries.get(id);
+  return entry?.userId === userId ? entry : undefined;
 }
 
-export const storage = new MemStorage();
+function updateEntry<T extends OwnedEntry>(
+  entries: Map<string, T>,
+  userId: string,
+  id: string,
+  updates: Partial<NoInfer<T>>,
+): T | undefined {
+  const existing = getEntry(entries, userId, id);
+  if (!existing) return undefined;
+
+  const updated = { ...existing, ...updates, id, userId };
+  entries.set(id, updated);
+  return updated;
+}
+
+function deleteEntry<T extends OwnedEntry>(
+  entries: Map<string, T>,
+  userId: string,
+  id: string,
+): boolean {
+  return getEntry(entries, userId, id) ? entries.delete(id) : false;
+}
+
+// Renders an entity with its Postgres column names, the same shape
+// to_jsonb(NEW) gives the webhook triggers
+function toColumnRow(table: Table, entity: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    const value = entity[key];
+    row[column.name] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  return row;
+}
+
+// Same format the client falls back to in DataContext.addProject
+export function generateBookingId(): string {
+  return Math.floor(Math.random() * 1000000000).toString();
+}
+
+// Postgres when DATABASE_URL is set, unless STORAGE=memory forces the
+// in-memory store. Assigned by initStorage() before routes handle requests.
+export let storage: IStorage = new MemStorage();
+
+export async function initStorage(): Promise<IStorage> {
+  if (process.env.DATABASE_URL && process.env.STORAGE !== "memory") {
+    // server/db.ts throws without DATABASE_URL, so it is only loaded here
+    const { DbStorage } = await import("./dbStorage");
+    storage = new DbStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Lets the dashboard call the API with the Supabase session it already has,
+// sent as "Authorization: Bearer <access token>".
+
+export interface SupabaseUser {
+  id: string;
+  email?: string;
+}
+
+let supabase: SupabaseClient | undefined;
+
+export async function verifySupabaseToken(token: string): Promise<SupabaseUser | undefined> {
+  // With the project's JWT secret tokens are checked locally; otherwise
+  // Supabase Auth is asked, which also works for asymmetric signing keys
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (secret) return verifyHs256(token, secret);
+
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY ?? process.env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) return undefined;
+
+  supabase ??= createClient(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return undefined;
+  return { id: data.user.id, email: data.user.email };
+}
+
+function verifyHs256(token: string, secret: string): SupabaseUser | undefined {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return undefined;
+
+  const expected = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+  const supplied = Buffer.from(signature, "base64url");
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return undefined;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString("utf8"));
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (alg !== "HS256" || typeof claims.sub !== "string") return undefined;
+    if (typeof claims.exp === "number" && claims.exp * 1000 <= Date.now()) return undefined;
+    // anon keys are signed with the same secret but belong to nobody
+    if (claims.role !== "authenticated") return undefined;
+    return { id: claims.sub, email: claims.email };
+  } catch {
+    return undefined;
+  }
+}
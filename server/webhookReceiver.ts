@@ -0,0 +1,103 @@
+import { createServer } from "http";
+import { type AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { timingSafeEqual } from "crypto";
+import { signWebhookPayload } from "./webhooks";
+
+// Local stand-in for a partner endpoint, for trying webhooks out and for
+// tests. Records every delivery, checks its signature and can be told to
+// fail the first few requests to exercise the retries.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:receiver
+
+export interface ReceivedWebhook {
+  event: string | undefined;
+  deliveryId: string | undefined;
+  // null when the receiver was started without a secret
+  signatureValid: boolean | null;
+  body: unknown;
+  receivedAt: Date;
+}
+
+export interface WebhookReceiverOptions {
+  port?: number;
+  secret?: string;
+  // respond 500 to this many requests before accepting deliveries
+  failFirst?: number;
+  onReceive?: (delivery: ReceivedWebhook) => void;
+}
+
+export async function startWebhookReceiver({
+  port = 0,
+  secret,
+  failFirst = 0,
+  onReceive,
+}: WebhookReceiverOptions = {}) {
+  const received: ReceivedWebhook[] = [];
+  let failuresLeft = failFirst;
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      const timestamp = String(req.headers["x-ridepilot-timestamp"] ?? "");
+      const signature = String(req.headers["x-ridepilot-signature"] ?? "");
+
+      let body: unknown = raw;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // keep the raw text
+      }
+
+      const delivery: ReceivedWebhook = {
+        event: req.headers["x-ridepilot-event"] as string | undefined,
+        deliveryId: req.headers["x-ridepilot-delivery"] as string | undefined,
+        signatureValid: secret ? safeEqual(signature, signWebhookPayload(secret, timestamp, raw)) : null,
+        body,
+        receivedAt: new Date(),
+      };
+      received.push(delivery);
+      onReceive?.(delivery);
+
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        res.writeHead(500).end();
+        return;
+      }
+      res.writeHead(204).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}/`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function safeEqual(a: string, b: string) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startWebhookReceiver({
+    port: Number(process.env.WEBHOOK_RECEIVER_PORT ?? 5050),
+    secret: process.env.WEBHOOK_SECRET,
+    failFirst: Number(process.env.WEBHOOK_FAIL_FIRST ?? 0),
+    onReceive: (delivery) => {
+      const signature =
+        delivery.signatureValid === null ? "unchecked" : delivery.signatureValid ? "valid" : "INVALID";
+      console.log(`${delivery.receivedAt.toISOString()} ${delivery.event} ${delivery.deliveryId} (signature ${signature})`);
+      console.log(JSON.stringify(delivery.body, null, 2));
+    },
+  }).then((receiver) => {
+    console.log(`Webhook receiver listening on ${receiver.url}`);
+  });
+}
@@ -0,0 +1,140 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { type WebhookDelivery } from "@shared/schema";
+import { isPrivateAddress, webhookUrlError } from "@shared/webhooks";
+import { storage } from "./storage";
+
+// Delay before each retry; a delivery is marked failed once these run out
+// (seven attempts over roughly a day)
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERIES_PER_RUN = 25;
+
+// Receivers recompute this over "<timestamp>.<raw body>" with their secret
+// and compare it to the X-RidePilot-Signature header
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Why the endpoint may not be called, or null when it may. Checked before
+// every delivery, as a public name can be pointed at a private address
+// after the webhook was saved. Rejects when the name does not resolve.
+async function blockedEndpoint(url: string): Promise<string | null> {
+  const error = webhookUrlError(url);
+  if (error) return error;
+  const addresses = await lookup(new URL(url).hostname.replace(/^\[|\]$/g, ""), { all: true });
+  return addresses.some(({ address }) => isPrivateAddress(address))
+    ? "Webhook host resolves to a local or private address"
+    : null;
+}
+
+// Attempts every delivery that is due. Called on an interval by the server
+// and by the scheduled Netlify function; returns how many were attempted.
+export async function deliverDueWebhooks(): Promise<number> {
+  const deliveries = await storage.claimDueWebhookDeliveries(DELIVERIES_PER_RUN);
+  for (const delivery of deliveries) {
+    await attemptDelivery(delivery);
+  }
+  return deliveries.length;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery) {
+  const webhook = await storage.getWebhook(delivery.userId, delivery.webhookId);
+  const attempts = delivery.attempts + 1;
+  const attemptedAt = new Date();
+
+  if (!webhook?.active) {
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      lastError: "Webhook is disabled",
+    });
+  }
+
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const blocked = await blockedEndpoint(webhook.url);
+    if (blocked) {
+      return storage.updateWebhookDelivery(delivery.id, {
+        status: "failed",
+        attempts,
+        lastAttemptAt: attemptedAt,
+        lastError: blocked,
+      });
+    }
+
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "RidePilot-Webhooks/1.0",
+        "X-RidePilot-Event": delivery.event,
+        "X-RidePilot-Delivery": delivery.id,
+        "X-RidePilot-Timestamp": timestamp,
+        "X-RidePilot-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Endpoint responded with ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: "delivered",
+      attempts,
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      lastError: null,
+      deliveredAt: attemptedAt,
+    });
+  }
+
+  const retryDelay = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: retryDelay === undefined ? "failed" : "pending",
+    attempts,
+    lastAttemptAt: attemptedAt,
+    nextAttemptAt: new Date(attemptedAt.getTime() + (retryDelay ?? 0)),
+    responseStatus,
+    lastError: error,
+  });
+}
+
+// Polls for due deliveries in a long-running server (npm run dev / start)
+export function startWebhookWorker(intervalMs = 15 * 1000) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await deliverDueWebhooks();
+    } catch (err) {
+      console.error("Webhook delivery run failed:", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,25 @@
+// Helpers shared by the API keys settings page and the server. Both run on
+// the Web Crypto API, which browsers and Node 20 provide as globalThis.crypto.
+
+export const API_KEY_PREFIX = "rp_";
+
+// Length of the visible part of a key, e.g. "rp_3fK9x2Qa"
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export function generateApiKey(): { key: string; prefix: string } {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const secret = btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  const key = `${API_KEY_PREFIX}${secret}`;
+
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
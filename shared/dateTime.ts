@@ -0,0 +1,67 @@
+// Lenient date and time parsing for values typed by people: booking emails
+// and imported spreadsheets.
+
+export const dateOrders = ["DMY", "MDY", "YMD"] as const;
+export type DateOrder = (typeof dateOrders)[number];
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  DMY: "Day / Month / Year",
+  MDY: "Month / Day / Year",
+  YMD: "Year / Month / Day",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_NAME = String.raw`(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?`;
+
+// Returns YYYY-MM-DD, reading numeric dates like 03/04/2026 in the given order
+export function normalizeDate(value: string, order: DateOrder = "DMY"): string | undefined {
+  let year: number, month: number, day: number;
+
+  let match = /(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /(\d{1,4})[./-](\d{1,2})[./-](\d{2,4})/.exec(value))) {
+    const parts = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (match[1].length === 4 || order === "YMD") [year, month, day] = parts;
+    else if (order === "MDY") [month, day, year] = parts;
+    else [day, month, year] = parts;
+  } else if ((match = new RegExp(String.raw`(\d{1,2})(?:st|nd|rd|th)?\.?\s+${MONTH_NAME},?\s+(\d{4})`, "i").exec(value))) {
+    [day, month, year] = [Number(match[1]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[3])];
+  } else if ((match = new RegExp(String.raw`${MONTH_NAME}\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})`, "i").exec(value))) {
+    [month, day, year] = [MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]), Number(match[3])];
+  } else {
+    return undefined;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Returns HH:MM from "14:30", "2:30 PM", "14h30", "14.30" or "2pm"
+export function normalizeTime(value: string): string | undefined {
+  const patterns = [
+    /\b(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?/i,
+    /\b(\d{1,2})h(\d{2})?\b/i,
+    /\b(\d{1,2})()\s*([ap]\.?m\.?)(?![a-z])/i,
+    /(?<![\d.])(\d{1,2})\.(\d{2})(?![\d.])/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(value);
+    if (!match) continue;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    const meridiem = match[3]?.[0]?.toLowerCase();
+    if (meridiem === "p" && hours < 12) hours += 12;
+    if (meridiem === "a" && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) continue;
+
+    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,205 @@
+// Dispatch suggestions for trips without a driver. Every driver who could
+// take the trip (not offline, no overlapping trip, working at that time) is
+// scored from 0 to 100 on four factors:
+//
+// - workload: fewer trips already assigned that day is better
+// - car: their usual car type, the one they drive most, fits the trip
+// - proximity: their previous drop-off that day is close to the pickup
+// - fairness: lower total earnings than the other candidates
+//
+// A batch proposal assigns trips in time order, counting the trips it has
+// already proposed, so one driver does not get the whole day.
+
+import { findDriverConflicts, tripWindow, type ConflictDriver, type ConflictTrip } from "./driverConflicts";
+import { fitsCarType, type CapacityCarType } from "./vehicleCapacity";
+
+export interface DispatchTrip extends ConflictTrip {
+  id: string;
+  carTypeId?: string | null;
+  passengers: number;
+  luggage?: number | null;
+  pickupLocation: string;
+  dropoffLocation: string;
+  // what the driver earns for the trip, counted towards fairness
+  fee?: number | null;
+}
+
+export interface DispatchDriver extends ConflictDriver {
+  totalEarnings?: number | null;
+}
+
+export interface DispatchCarType extends CapacityCarType {
+  id: string;
+}
+
+export const DISPATCH_WEIGHTS = {
+  workload: 0.3,
+  car: 0.25,
+  proximity: 0.25,
+  fairness: 0.2,
+};
+
+export type DispatchFactor = keyof typeof DISPATCH_WEIGHTS;
+
+// Drop-offs this far from the pickup or further score no proximity points
+export const MAX_REPOSITION_KM = 30;
+
+export interface DispatchOptions {
+  // Shifts and time off; every driver is available when left out
+  isAvailable?: (driverId: string, trip: DispatchTrip) => boolean;
+  // Road or straight-line distance between two addresses when known. The
+  // default only recognises identical addresses.
+  distanceKm?: (from: string, to: string) => number | undefined;
+}
+
+export interface DriverSuggestion {
+  driverId: string;
+  // 0..100
+  score: number;
+  // each factor 0..1, before weighting
+  factors: Record<DispatchFactor, number>;
+  reasons: string[];
+}
+
+export interface TripProposal<T extends DispatchTrip = DispatchTrip> {
+  trip: T;
+  // best first; empty when no driver can take the trip
+  suggestions: DriverSuggestion[];
+}
+
+function normaliseAddress(address: string) {
+  return address.trim().toLowerCase().replace(/[\s,]+/g, " ");
+}
+
+export function sameAddressDistance(from: string, to: string) {
+  return from && to && normaliseAddress(from) === normaliseAddress(to) ? 0 : undefined;
+}
+
+// The car type a driver has been assigned most often
+export function usualCarTypeId(driverId: string, trips: DispatchTrip[]) {
+  const counts = new Map<string, number>();
+  for (const trip of trips) {
+    if (trip.driverId !== driverId || !trip.carTypeId) continue;
+    counts.set(trip.carTypeId, (counts.get(trip.carTypeId) ?? 0) + 1);
+  }
+  let usual: string | undefined;
+  counts.forEach((count, carTypeId) => {
+    if (!usual || count > counts.get(usual)!) usual = carTypeId;
+  });
+  return usual;
+}
+
+function carFactor(
+  trip: DispatchTrip,
+  usual: string | undefined,
+  carTypes: DispatchCarType[],
+): { value: number; reason?: string } {
+  const carType = carTypes.find((c) => c.id === usual);
+  if (!carType) return { value: 0.5 };
+  if (usual === trip.carTypeId) return { value: 1, reason: "Usually drives this car type" };
+  return fitsCarType(trip, carType)
+    ? { value: 0.75, reason: "Usual car type fits the trip" }
+    : { value: 0, reason: "Usual car type is too small" };
+}
+
+function proximityFactor(
+  trip: DispatchTrip,
+  sameDay: DispatchTrip[],
+  distanceKm: NonNullable<DispatchOptions["distanceKm"]>,
+): { value: number; reason?: string } {
+  const pickup = tripWindow(trip).start;
+  const previous = sameDay
+    .filter((other) => tripWindow(other).start < pickup)
+    .sort((a, b) => tripWindow(b).start - tripWindow(a).start)[0];
+  if (!previous) return { value: 0.5 };
+
+  const km = distanceKm(previous.dropoffLocation, trip.pickupLocation);
+  if (km === undefined) return { value: 0.5 };
+  if (km === 0) return { value: 1, reason: "Previous drop-off is at the pickup" };
+  const value = Math.max(0, 1 - km / MAX_REPOSITION_KM);
+  return { value, reason: `Previous drop-off ${km.toFixed(1)} km from the pickup` };
+}
+
+// Candidates for `trip`, best first. `trips` are all other trips, assigned
+// or not; only active ones count.
+export function suggestDrivers(
+  trip: DispatchTrip,
+  drivers: DispatchDriver[],
+  trips: DispatchTrip[],
+  carTypes: DispatchCarType[],
+  options: DispatchOptions = {},
+): DriverSuggestion[] {
+  const distanceKm = options.distanceKm ?? sameAddressDistance;
+  const active = trips.filter((other) => other.id !== trip.id && other.status !== "completed");
+
+  const candidates = drivers.filter((driver) =>
+    (driver.status ?? "available") === "available" &&
+    findDriverConflicts({ ...trip, driverId: driver.id }, drivers, active).length === 0 &&
+    (options.isAvailable?.(driver.id, trip) ?? true)
+  );
+  if (candidates.length === 0) return [];
+
+  const earnings = candidates.map((driver) => driver.totalEarnings ?? 0);
+  const lowest = Math.min(...earnings);
+  const highest = Math.max(...earnings);
+
+  return candidates
+    .map((driver) => {
+      const sameDay = active.filter((other) => other.driverId === driver.id && other.date === trip.date);
+      const car = carFactor(trip, usualCarTypeId(driver.id, trips), carTypes);
+      const proximity = proximityFactor(trip, sameDay, distanceKm);
+      const earned = driver.totalEarnings ?? 0;
+      const factors: Record<DispatchFactor, number> = {
+        workload: 1 / (1 + sameDay.length),
+        car: car.value,
+        proximity: proximity.value,
+        fairness: highest > lowest ? (highest - earned) / (highest - lowest) : 1,
+      };
+      const score = (Object.keys(DISPATCH_WEIGHTS) as DispatchFactor[])
+        .reduce((sum, factor) => sum + DISPATCH_WEIGHTS[factor] * factors[factor], 0);
+
+      const reasons = [
+        sameDay.length === 0
+          ? "No other trips that day"
+          : `${sameDay.length} other trip${sameDay.length === 1 ? "" : "s"} that day`,
+        car.reason,
+        proximity.reason,
+        highest > lowest && earned === lowest ? "Lowest earnings so far" : undefined,
+      ].filter((reason): reason is string => !!reason);
+
+      return { driverId: driver.id, score: Math.round(score * 100), factors, reasons };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Proposals for every trip without a driver, in pickup order. Each proposal
+// counts the ones before it as accepted.
+export function proposeAssignments<T extends DispatchTrip>(
+  unassigned: T[],
+  drivers: DispatchDriver[],
+  trips: DispatchTrip[],
+  carTypes: DispatchCarType[],
+  options: DispatchOptions = {},
+): TripProposal<T>[] {
+  const planned = [...trips];
+  let pool = drivers.map((driver) => ({ ...driver }));
+
+  return [...unassigned]
+    .sort((a, b) => tripWindow(a).start - tripWindow(b).start)
+    .map((trip) => {
+      const suggestions = suggestDrivers(trip, pool, planned, carTypes, options);
+      const best = suggestions[0];
+      if (best) {
+        const index = planned.findIndex((other) => other.id === trip.id);
+        const assigned = { ...trip, driverId: best.driverId };
+        if (index >= 0) planned[index] = assigned;
+        else planned.push(assigned);
+        pool = pool.map((driver) =>
+          driver.id === best.driverId
+            ? { ...driver, totalEarnings: (driver.totalEarnings ?? 0) + (trip.fee ?? 0) }
+            : driver
+        );
+      }
+      return { trip, suggestions };
+    });
+}
@@ -0,0 +1,105 @@
+// Driver double-booking detection. A trip occupies its driver from the
+// pickup time for the estimated trip duration plus a turnaround buffer; two
+// active trips of the same driver whose windows overlap conflict, and so
+// does any assignment to a driver marked offline.
+
+export const DEFAULT_TRIP_MINUTES = 60;
+export const TURNAROUND_MINUTES = 15;
+// used when a trip's distance is known but its duration is not
+const AVERAGE_SPEED_KMH = 50;
+const MIN_TRIP_MINUTES = 20;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ConflictTrip {
+  id?: string;
+  driverId?: string | null;
+  date: string;
+  time: string;
+  status?: string | null;
+  durationMinutes?: number | null;
+  distanceKm?: number | null;
+}
+
+export interface ConflictDriver {
+  id: string;
+  status?: string | null;
+}
+
+export type DriverConflict<T extends ConflictTrip = ConflictTrip> =
+  | { type: "offline"; driverId: string }
+  | { type: "overlap"; driverId: string; trip: T };
+
+export function estimateDurationMinutes(trip: ConflictTrip): number {
+  if (trip.durationMinutes && trip.durationMinutes > 0) return Math.round(trip.durationMinutes);
+  if (trip.distanceKm && trip.distanceKm > 0) {
+    return Math.max(MIN_TRIP_MINUTES, Math.round((trip.distanceKm / AVERAGE_SPEED_KMH) * 60));
+  }
+  return DEFAULT_TRIP_MINUTES;
+}
+
+// Start and end of the time the trip keeps its driver busy, in ms. Dates and
+// times are read in local time on both sides, like the rest of the app.
+export function tripWindow(trip: ConflictTrip): { start: number; end: number } {
+  const start = new Date(`${trip.date}T${trip.time.slice(0, 5)}`).getTime();
+  return { start, end: start + (estimateDurationMinutes(trip) + TURNAROUND_MINUTES) * MINUTE_MS };
+}
+
+export function tripsOverlap(a: ConflictTrip, b: ConflictTrip) {
+  const first = tripWindow(a);
+  const second = tripWindow(b);
+  return first.start < second.end && second.start < first.end;
+}
+
+// Conflicts of assigning `trip` to its driver, checked against the other
+// trips (the trip itself is skipped by id). Completed trips never conflict.
+export function findDriverConflicts<T extends ConflictTrip>(
+  trip: ConflictTrip,
+  drivers: ConflictDriver[],
+  otherTrips: T[],
+): DriverConflict<T>[] {
+  const driverId = trip.driverId;
+  if (!driverId || !trip.date || !trip.time || trip.status === "completed") return [];
+
+  const conflicts: DriverConflict<T>[] = [];
+  if (drivers.find((driver) => driver.id === driverId)?.status === "offline") {
+    conflicts.push({ type: "offline", driverId });
+  }
+  for (const other of otherTrips) {
+    if (other.driverId !== driverId || other.status === "completed") continue;
+    if (trip.id && other.id === trip.id) continue;
+    if (!other.date || !other.time) continue;
+    if (tripsOverlap(trip, other)) conflicts.push({ type: "overlap", driverId, trip: other });
+  }
+  return conflicts;
+}
+
+// Conflicts of every trip in the list against the others, keyed by trip id
+export function findAllDriverConflicts<T extends ConflictTrip & { id: string }>(
+  trips: T[],
+  drivers: ConflictDriver[],
+): Map<string, DriverConflict<T>[]> {
+  const byDriver = new Map<string, T[]>();
+  for (const trip of trips) {
+    if (!trip.driverId || trip.status === "completed") continue;
+    byDriver.set(trip.driverId, [...(byDriver.get(trip.driverId) ?? []), trip]);
+  }
+
+  const result = new Map<string, DriverConflict<T>[]>();
+  for (const driverTrips of Array.from(byDriver.values())) {
+    for (const trip of driverTrips) {
+      const conflicts = findDriverConflicts(trip, drivers, driverTrips);
+      if (conflicts.length > 0) result.set(trip.id, conflicts);
+    }
+  }
+  return result;
+}
+
+export function describeConflict<T extends ConflictTrip>(
+  conflict: DriverConflict<T>,
+  driverName: string,
+  describeTrip: (trip: T) => string = (trip) => `${trip.date} ${trip.time.slice(0, 5)}`,
+): string {
+  if (conflict.type === "offline") return `${driverName} is marked offline`;
+  return `${driverName} already has a trip at ${describeTrip(conflict.trip)}`;
+}
@@ -0,0 +1,53 @@
+// Shapes shared by the email-to-trip parser (server/emailParser.ts), the
+// templates settings page and the review screen.
+
+export const emailDraftFields = [
+  "clientName",
+  "clientPhone",
+  "pickupLocation",
+  "dropoffLocation",
+  "date",
+  "time",
+  "passengers",
+  "bookingId",
+] as const;
+
+export type EmailDraftField = (typeof emailDraftFields)[number];
+
+export const EMAIL_DRAFT_FIELD_LABELS: Record<EmailDraftField, string> = {
+  clientName: "Client name",
+  clientPhone: "Client phone",
+  pickupLocation: "Pickup location",
+  dropoffLocation: "Dropoff location",
+  date: "Date",
+  time: "Time",
+  passengers: "Passengers",
+  bookingId: "Booking reference",
+};
+
+// A template's pattern for each field: a regular expression whose first
+// capture group (or whole match) is the value
+export type EmailTemplateFields = Partial<Record<EmailDraftField, string>>;
+
+export interface EmailDraftProject {
+  companyId: string | null;
+  clientName?: string;
+  clientPhone?: string;
+  pickupLocation?: string;
+  dropoffLocation?: string;
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  passengers?: number;
+  bookingId?: string;
+  description?: string;
+}
+
+export interface EmailDraft {
+  from: string;
+  subject: string;
+  // the template that matched the sender, if any
+  templateId: string | null;
+  project: EmailDraftProject;
+  // required or expected fields nothing could be extracted for
+  missing: EmailDraftField[];
+}
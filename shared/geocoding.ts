@@ -0,0 +1,109 @@
+// Turning an address into coordinates, for the map view and for the routing
+// providers that work on coordinates (see shared/routing.ts). The server
+// keeps every answer in geocoded_addresses, keyed by normaliseAddress().
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance between two positions
+export function straightLineKm(from: LatLng, to: LatLng): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(to.lat - from.lat);
+  const dLng = radians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(radians(from.lat)) * Math.cos(radians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Coordinates of an address, null when it cannot be found
+export type Geocoder = (address: string) => Promise<LatLng | null>;
+
+export interface GeocodingProvider {
+  name: string;
+  // the provider's usage policy, waited out between two requests
+  minIntervalMs: number;
+  geocode: Geocoder;
+}
+
+export const geocodingProviderNames = ["nominatim", "fixture"] as const;
+
+// Where a cached position came from: the provider, or an operator who moved
+// the pin by hand. Manual positions are never replaced by the provider.
+export const geocodeSources = ["provider", "manual"] as const;
+
+export const NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+// Lookups give up after this long, so a slow provider does not hold up the
+// geocoding queue
+export const GEOCODING_TIMEOUT_MS = 8000;
+
+// The form addresses are cached under, so "Rue de l'Église 4, Genève" and
+// "rue de l'eglise 4 ,  geneve." are looked up once
+export function normaliseAddress(address: string): string {
+  return address
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s*,[\s,]*/g, ", ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s,.;]+|[\s,.;]+$/g, "");
+}
+
+// Nominatim (OpenStreetMap) search. The public server asks for at most one
+// request per second and an identifying User-Agent, which browsers do not
+// let a page set.
+export function nominatimGeocoder(baseUrl = NOMINATIM_URL, headers: Record<string, string> = {}): Geocoder {
+  return async (address) => {
+    const response = await fetch(
+      `${baseUrl}/search?format=json&limit=1&q=${encodeURIComponent(address)}`,
+      { headers, signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS) },
+    );
+    if (!response.ok) throw new Error(`Geocoding failed: ${response.status}`);
+    const [place] = (await response.json()) as Array<{ lat: string; lon: string }>;
+    return place ? { lat: Number(place.lat), lng: Number(place.lon) } : null;
+  };
+}
+
+export function nominatimProvider(baseUrl = NOMINATIM_URL, headers: Record<string, string> = {}): GeocodingProvider {
+  return { name: "nominatim", minIntervalMs: 1000, geocode: nominatimGeocoder(baseUrl, headers) };
+}
+
+// Answers from a fixed table instead of the network, for tests and local
+// development. Keys are normalised like the cache; any other address is not
+// found.
+export function fixtureGeocodingProvider(fixtures: Record<string, LatLng | null>): GeocodingProvider {
+  const places = new Map(
+    Object.entries(fixtures).map(([address, position]) => [normaliseAddress(address), position]),
+  );
+  return {
+    name: "fixture",
+    minIntervalMs: 0,
+    async geocode(address) {
+      return places.get(normaliseAddress(address)) ?? null;
+    },
+  };
+}
+
+export interface GeocodingConfig {
+  provider?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  fixtures?: Record<string, LatLng | null>;
+}
+
+// The provider named in configuration; Nominatim when none is named
+export function createGeocodingProvider({ provider, url, headers, fixtures }: GeocodingConfig): GeocodingProvider {
+  switch (provider || "nominatim") {
+    case "nominatim":
+      return nominatimProvider(url || NOMINATIM_URL, headers);
+    case "fixture":
+      return fixtureGeocodingProvider(fixtures ?? {});
+    default:
+      throw new Error(
+        `Unknown geocoding provider "${provider}", expected one of ${geocodingProviderNames.join(", ")}`,
+      );
+  }
+}
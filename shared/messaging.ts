@@ -0,0 +1,129 @@
+import type { Project } from "./schema";
+
+// Passenger messages: the events that send them, the channels they go out
+// on and the templates they are written from. Shared by the message
+// templates settings page and the server (server/passengerMessages.ts);
+// kept free of drizzle so the browser bundle does not pull it in.
+
+export const messageChannels = ["sms", "whatsapp", "telegram"] as const;
+export type MessageChannel = (typeof messageChannels)[number];
+
+export const MESSAGE_CHANNEL_LABELS: Record<MessageChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  telegram: "Telegram",
+};
+
+export const messageEvents = [
+  "booking.confirmed",
+  "driver.assigned",
+  "driver.on_the_way",
+  "pickup.reminder",
+] as const;
+export type MessageEvent = (typeof messageEvents)[number];
+
+export const MESSAGE_EVENT_LABELS: Record<MessageEvent, string> = {
+  "booking.confirmed": "Booking confirmed",
+  "driver.assigned": "Driver assigned",
+  "driver.on_the_way": "Driver on the way",
+  "pickup.reminder": "Reminder before pickup",
+};
+
+export const messageStatuses = ["pending", "sent", "failed", "skipped"] as const;
+export type MessageStatus = (typeof messageStatuses)[number];
+
+// The reminder goes out this long before the pickup time
+export const REMINDER_LEAD_HOURS = 24;
+
+// Values a template can use as {name}
+export const messageFields = [
+  "clientName",
+  "companyName",
+  "bookingId",
+  "date",
+  "time",
+  "pickupLocation",
+  "dropoffLocation",
+  "passengers",
+  "driverName",
+  "driverPhone",
+  "vehicle",
+] as const;
+export type MessageField = (typeof messageFields)[number];
+export type MessageValues = Partial<Record<MessageField, string>>;
+
+export const MESSAGE_FIELD_LABELS: Record<MessageField, string> = {
+  clientName: "Client name",
+  companyName: "Company name",
+  bookingId: "Booking reference",
+  date: "Pickup date",
+  time: "Pickup time",
+  pickupLocation: "Pickup location",
+  dropoffLocation: "Dropoff location",
+  passengers: "Passengers",
+  driverName: "Driver name",
+  driverPhone: "Driver phone",
+  vehicle: "Vehicle",
+};
+
+export const DEFAULT_MESSAGE_TEMPLATES: Record<MessageEvent, string> = {
+  "booking.confirmed":
+    "Hello {clientName}, your transfer {bookingId} on {date} at {time} from {pickupLocation} to {dropoffLocation} is confirmed. {companyName}",
+  "driver.assigned":
+    "Your driver for {date} at {time} is {driverName}, phone {driverPhone}. {companyName}",
+  "driver.on_the_way":
+    "{driverName} is on the way to {pickupLocation} in {vehicle}. Phone: {driverPhone}",
+  "pickup.reminder":
+    "Reminder: your transfer from {pickupLocation} is on {date} at {time}. Driver: {driverName}, {driverPhone}. {companyName}",
+};
+
+// Fills in {field} placeholders; a field without a value becomes empty and
+// unknown placeholders are kept as written
+export function renderMessage(template: string, values: MessageValues): string {
+  return template
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      (messageFields as readonly string[]).includes(name) ? values[name as MessageField] ?? "" : placeholder,
+    )
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+// Messages raised by a change to a projects row; before is undefined for an
+// insert. Mirrors the queue_passenger_messages trigger. Reminders are not
+// raised by changes but queued ahead of the pickup, see reminderDue. Bulk
+// inserts raise none.
+export function passengerMessageEvents(before: Project | undefined, after: Project): MessageEvent[] {
+  if (!before) {
+    if (after.bulkInserted) return [];
+    return after.driverId ? ["booking.confirmed", "driver.assigned"] : ["booking.confirmed"];
+  }
+
+  const events: MessageEvent[] = [];
+  if (after.driverId && after.driverId !== before.driverId) {
+    events.push("driver.assigned");
+  }
+  if (after.acceptanceStatus === "started" && before.acceptanceStatus !== "started") {
+    events.push("driver.on_the_way");
+  }
+  return events;
+}
+
+// The pickup as a point in time. Trips store a local date and time, read
+// in the time zone of the process (TZ on the server).
+export function pickupAt(trip: { date: string; time: string }): Date {
+  return new Date(`${trip.date}T${trip.time.slice(0, 5)}:00`);
+}
+
+// Whether the trip's reminder is due at the given moment: its pickup is
+// less than REMINDER_LEAD_HOURS away and it was booked before the reminder
+// would have gone out, so trips booked at short notice get none
+export function reminderDue(
+  trip: { date: string; time: string; status: string | null; createdAt: Date | null },
+  now: Date,
+): boolean {
+  if (trip.status === "completed") return false;
+  const pickup = pickupAt(trip).getTime();
+  const remindAt = pickup - REMINDER_LEAD_HOURS * 60 * 60 * 1000;
+  const bookedAt = trip.createdAt?.getTime() ?? 0;
+  return remindAt <= now.getTime() && now.getTime() < pickup && bookedAt < remindAt;
+}
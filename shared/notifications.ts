@@ -0,0 +1,177 @@
+import type { Payment, Project } from "./schema";
+
+// Notifications to the operator: the events that raise them, the channels
+// they go out on and the quiet hours that hold them back. Each account
+// chooses its own under Settings → Notifications (notification_preferences).
+// Shared by that page and the server (server/notifications.ts); kept free of
+// drizzle so the browser bundle does not pull it in.
+
+export const notificationEvents = [
+  "trip.created",
+  "trip.accepted",
+  "trip.declined",
+  "trip.started",
+  "trip.completed",
+  "payment.due",
+] as const;
+export type NotificationEvent = (typeof notificationEvents)[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  "trip.created": "New trip",
+  "trip.accepted": "Driver accepted",
+  "trip.declined": "Driver declined",
+  "trip.started": "Trip started",
+  "trip.completed": "Trip completed",
+  "payment.due": "Payment due",
+};
+
+export const notificationChannels = ["in_app", "email", "push"] as const;
+export type NotificationChannel = (typeof notificationChannels)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+  push: "Push",
+};
+
+export const notificationStatuses = ["pending", "sent", "failed", "skipped"] as const;
+export type NotificationStatus = (typeof notificationStatuses)[number];
+
+export type NotificationChannelChoices = Partial<Record<NotificationEvent, NotificationChannel[]>>;
+
+// What an account without saved preferences gets; the notification_channels
+// database function has the same default
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationEvent, NotificationChannel[]> = {
+  "trip.created": ["in_app"],
+  "trip.accepted": ["in_app"],
+  "trip.declined": ["in_app"],
+  "trip.started": ["in_app"],
+  "trip.completed": ["in_app"],
+  "payment.due": ["in_app"],
+};
+
+// Pending driver payments are announced once their date is reached, if it
+// is no more than this many days ago
+export const PAYMENT_DUE_LOOKBACK_DAYS = 7;
+
+export interface QuietHours {
+  // HH:MM, or null when there are no quiet hours
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  // IANA name, e.g. Europe/Ljubljana; the server's own zone when null
+  timeZone: string | null;
+}
+
+// The channels an event goes out on for an account; preferences is undefined
+// when the account has saved none
+export function channelsFor(
+  preferences: { channels: NotificationChannelChoices } | undefined,
+  event: NotificationEvent,
+): NotificationChannel[] {
+  if (!preferences) return DEFAULT_NOTIFICATION_CHANNELS[event];
+  return preferences.channels[event] ?? [];
+}
+
+export function isTimeZone(name: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: name });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function minutes(time: string) {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + mins;
+}
+
+// Minutes since midnight on the account's clock
+function minuteOfDay(at: Date, timeZone: string | null) {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timeZone ?? undefined,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+// When the quiet hours the moment falls in end, or null outside quiet hours.
+// A window whose start is after its end runs past midnight, e.g. 22:00–07:00.
+// In-app notifications are listed straight away; quiet hours hold email and
+// push until they end.
+export function quietHoursEnd(quietHours: QuietHours, now: Date): Date | null {
+  const { quietHoursStart, quietHoursEnd: endTime, timeZone } = quietHours;
+  if (!quietHoursStart || !endTime) return null;
+
+  const start = minutes(quietHoursStart);
+  const end = minutes(endTime);
+  if (start === end) return null;
+
+  const at = minuteOfDay(now, timeZone);
+  const quiet = start < end ? at >= start && at < end : at >= start || at < end;
+  if (!quiet) return null;
+
+  const endsAt = new Date(now.getTime() + ((end - at + 24 * 60) % (24 * 60)) * 60 * 1000);
+  endsAt.setSeconds(0, 0);
+  return endsAt;
+}
+
+// Notifications raised by a change to a projects row; before is undefined
+// for an insert. Mirrors the queue_project_notifications trigger.
+export function tripNotificationEvents(before: Project | undefined, after: Project): NotificationEvent[] {
+  if (!before) return ["trip.created"];
+
+  const events: NotificationEvent[] = [];
+  if (after.acceptanceStatus !== before.acceptanceStatus) {
+    if (after.acceptanceStatus === "accepted") events.push("trip.accepted");
+    if (after.acceptanceStatus === "declined") events.push("trip.declined");
+    if (after.acceptanceStatus === "started") events.push("trip.started");
+  }
+  if (after.status === "completed" && before.status !== "completed") {
+    events.push("trip.completed");
+  }
+  return events;
+}
+
+// Whether a payment is announced as due on the given day (YYYY-MM-DD)
+export function paymentDue(payment: Pick<Payment, "status" | "date">, today: string): boolean {
+  if (payment.status !== "pending" || payment.date > today) return false;
+  const earliest = new Date(`${today}T00:00:00Z`);
+  earliest.setUTCDate(earliest.getUTCDate() - PAYMENT_DUE_LOOKBACK_DAYS);
+  return payment.date >= earliest.toISOString().slice(0, 10);
+}
+
+// What a notification is about, from its trip or payment
+export interface NotificationDetails {
+  clientName?: string;
+  date?: string;
+  time?: string;
+  pickupLocation?: string;
+  dropoffLocation?: string;
+  driverName?: string | null;
+  amount?: number;
+}
+
+export function notificationText(
+  event: NotificationEvent,
+  details: NotificationDetails,
+): { title: string; body: string } {
+  const title = NOTIFICATION_EVENT_LABELS[event];
+  if (event === "payment.due") {
+    return {
+      title,
+      body: `€${(details.amount ?? 0).toFixed(2)} to ${details.driverName ?? "a driver"}, due ${details.date ?? ""}`.trim(),
+    };
+  }
+
+  const trip = [
+    details.clientName,
+    details.date && `${details.date}${details.time ? ` at ${details.time.slice(0, 5)}` : ""}`,
+  ].filter(Boolean).join(", ");
+  const route = details.pickupLocation && `${details.pickupLocation} → ${details.dropoffLocation ?? ""}`;
+  const driver = event !== "trip.created" && details.driverName ? `Driver: ${details.driverName}` : "";
+  return { title, body: [trip, route, driver].filter(Boolean).join(" · ") };
+}
@@ -0,0 +1,203 @@
+// Schedule rules of recurring trip series. Rules are stored as iCalendar
+// RRULE strings (RFC 5545); the subset understood here covers what a
+// transfer schedule needs: FREQ=DAILY, WEEKLY or MONTHLY with INTERVAL,
+// BYDAY, BYMONTHDAY and either COUNT or UNTIL. Dates are YYYY-MM-DD strings
+// and all arithmetic is done in UTC, so occurrences never shift with the
+// browser's timezone.
+
+export const weekdays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof weekdays)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+export const frequencies = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type Frequency = (typeof frequencies)[number];
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number[];
+  // an occurrence limit counted from the series start, or the last date
+  count?: number;
+  until?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// how far lastOccurrence looks for the end of a COUNT rule; a rule that has
+// not reached its count by then is rejected
+const MAX_COUNT_SCAN_YEARS = 100;
+
+function toDay(date: string) {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+function fromDay(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 1970-01-01 was a Thursday
+function weekdayOf(day: number): Weekday {
+  return weekdays[(day + 3) % 7];
+}
+
+export function addDays(date: string, days: number) {
+  return fromDay(toDay(date) + days);
+}
+
+export function parseRRule(text: string): RecurrenceRule {
+  const source = text.trim().replace(/^RRULE:/i, "");
+  if (!source) throw new Error("The repeat rule is empty");
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) throw new Error(`Invalid rule part "${part}"`);
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const rule: RecurrenceRule = { freq: "DAILY", interval: 1 };
+  for (const [key, value] of Array.from(parts)) {
+    switch (key) {
+      case "FREQ":
+        if (!(frequencies as readonly string[]).includes(value)) {
+          throw new Error(`Repeating ${value.toLowerCase()} is not supported`);
+        }
+        rule.freq = value as Frequency;
+        break;
+      case "INTERVAL":
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new Error(`Invalid INTERVAL "${value}"`);
+        }
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((day) => {
+          if (!(weekdays as readonly string[]).includes(day)) {
+            throw new Error(`Unsupported BYDAY value "${day}"`);
+          }
+          return day as Weekday;
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = value.split(",").map((day) => {
+          const number = Number(day);
+          if (!Number.isInteger(number) || number < 1 || number > 31) {
+            throw new Error(`Unsupported BYMONTHDAY value "${day}"`);
+          }
+          return number;
+        });
+        break;
+      case "COUNT":
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error(`Invalid COUNT "${value}"`);
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+        if (!match) throw new Error(`Invalid UNTIL "${value}"`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case "WKST":
+        break;
+      default:
+        throw new Error(`Unsupported rule part "${key}"`);
+    }
+  }
+
+  if (!parts.has("FREQ")) throw new Error("The rule needs a FREQ");
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("A rule can end after a count or on a date, not both");
+  }
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+// Dates of the series starting on `start` (DTSTART) that fall between
+// `from` and `to`, both inclusive. COUNT is counted from the start, so
+// occurrences before `from` still use up the count.
+export function occurrences(
+  rule: RecurrenceRule,
+  start: string,
+  range: { from?: string; to: string },
+): string[] {
+  const first = toDay(start);
+  const from = range.from ? toDay(range.from) : first;
+  const last = Math.min(toDay(range.to), rule.until ? toDay(rule.until) : Infinity);
+  const startDate = new Date(first * DAY_MS);
+  const byDay = rule.byDay ?? (rule.freq === "WEEKLY" ? [weekdayOf(first)] : undefined);
+  const byMonthDay = rule.byMonthDay ?? (rule.freq === "MONTHLY" && !rule.byDay ? [startDate.getUTCDate()] : undefined);
+  // weeks are counted from the Monday of the start week
+  const firstMonday = first - ((first + 3) % 7);
+
+  const dates: string[] = [];
+  let matched = 0;
+  // without a COUNT nothing before `from` needs to be counted
+  for (let day = rule.count === undefined ? Math.max(first, from) : first; day <= last; day++) {
+    const date = new Date(day * DAY_MS);
+    let inPeriod: boolean;
+    if (rule.freq === "DAILY") {
+      inPeriod = (day - first) % rule.interval === 0;
+    } else if (rule.freq === "WEEKLY") {
+      inPeriod = Math.floor((day - firstMonday) / 7) % rule.interval === 0;
+    } else {
+      const months = (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + date.getUTCMonth() - startDate.getUTCMonth();
+      inPeriod = months % rule.interval === 0;
+    }
+    if (!inPeriod) continue;
+    if (byDay && !byDay.includes(weekdayOf(day))) continue;
+    if (byMonthDay && !byMonthDay.includes(date.getUTCDate())) continue;
+
+    matched++;
+    if (day >= from) dates.push(fromDay(day));
+    if (rule.count !== undefined && matched >= rule.count) break;
+  }
+  return dates;
+}
+
+// The last date of a finite series, undefined when it repeats forever.
+// Throws for a COUNT the schedule does not reach within MAX_COUNT_SCAN_YEARS.
+export function lastOccurrence(rule: RecurrenceRule, start: string): string | undefined {
+  if (rule.until) return occurrences(rule, start, { to: rule.until }).pop();
+  if (rule.count === undefined) return undefined;
+
+  const dates = occurrences(rule, start, { to: addDays(start, MAX_COUNT_SCAN_YEARS * 366) });
+  if (dates.length < rule.count) {
+    throw new Error(`This schedule does not reach ${rule.count} trips within ${MAX_COUNT_SCAN_YEARS} years`);
+  }
+  return dates.pop();
+}
+
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  const days = rule.byDay ?? [];
+  if (days.length === 5 && weekdays.slice(0, 5).every((day) => days.includes(day)) && rule.interval === 1) {
+    text = "Every weekday";
+  } else if (days.length > 0) {
+    text += ` on ${weekdays.filter((day) => days.includes(day)).map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+  }
+  if (rule.byMonthDay?.length) text += ` on day ${rule.byMonthDay.join(", ")}`;
+
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
+}
@@ -0,0 +1,165 @@
+// Road distance and driving time between a trip's pickup and drop-off. A
+// provider answers for two addresses; the OSRM and GraphHopper adapters
+// geocode them first, the offline provider makes up a stable answer without
+// any network, for tests and local development. With no provider configured
+// trips have no route.
+
+import { normaliseAddress, type Geocoder, type LatLng } from "./geocoding";
+
+export interface Route {
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface RoutingProvider {
+  name: string;
+  // null when either address cannot be found or there is no road between them
+  route(from: string, to: string): Promise<Route | null>;
+}
+
+export const routingProviderNames = ["osrm", "graphhopper", "offline"] as const;
+export type RoutingProviderName = (typeof routingProviderNames)[number];
+
+export const OSRM_URL = "https://router.project-osrm.org";
+export const GRAPHHOPPER_URL = "https://graphhopper.com/api/1";
+
+// Providers give up after this long, so saving a trip is never held up
+export const ROUTING_TIMEOUT_MS = 8000;
+
+function toRoute(meters: number, seconds: number): Route {
+  return {
+    distanceKm: Math.round(meters / 100) / 10,
+    durationMinutes: Math.round(seconds / 60),
+  };
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(ROUTING_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Routing failed: ${response.status}`);
+  return response.json() as Promise<T>;
+}
+
+function geocodedProvider(
+  name: string,
+  geocode: Geocoder,
+  routeBetween: (from: LatLng, to: LatLng) => Promise<Route | null>,
+): RoutingProvider {
+  return {
+    name,
+    async route(from, to) {
+      const [start, end] = await Promise.all([geocode(from), geocode(to)]);
+      return start && end ? routeBetween(start, end) : null;
+    },
+  };
+}
+
+// The OSRM HTTP API (/route/v1), also served by Valhalla's and several
+// hosted routers' OSRM compatibility endpoints
+export function osrmProvider(geocode: Geocoder, baseUrl = OSRM_URL, profile = "driving"): RoutingProvider {
+  return geocodedProvider("osrm", geocode, async (from, to) => {
+    const { code, routes } = await fetchJson<{
+      code: string;
+      routes?: Array<{ distance: number; duration: number }>;
+    }>(`${baseUrl}/route/v1/${profile}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`);
+    return code === "Ok" && routes?.[0] ? toRoute(routes[0].distance, routes[0].duration) : null;
+  });
+}
+
+// The GraphHopper Routing API (/route); self-hosted servers need no key
+export function graphHopperProvider(
+  geocode: Geocoder,
+  baseUrl = GRAPHHOPPER_URL,
+  apiKey?: string,
+  profile = "car",
+): RoutingProvider {
+  return geocodedProvider("graphhopper", geocode, async (from, to) => {
+    const params = new URLSearchParams({ profile, calc_points: "false" });
+    params.append("point", `${from.lat},${from.lng}`);
+    params.append("point", `${to.lat},${to.lng}`);
+    if (apiKey) params.set("key", apiKey);
+    const { paths } = await fetchJson<{ paths?: Array<{ distance: number; time: number }> }>(
+      `${baseUrl}/route?${params}`,
+    );
+    return paths?.[0] ? toRoute(paths[0].distance, paths[0].time / 1000) : null;
+  });
+}
+
+const OFFLINE_MIN_KM = 2;
+const OFFLINE_MAX_KM = 60;
+const OFFLINE_SPEED_KMH = 40;
+
+// FNV-1a, enough to spread addresses evenly
+function hash(text: string) {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+// The same pair of addresses always gets the same route, in either
+// direction; an address to itself is 0 km
+export function offlineRoutingProvider(): RoutingProvider {
+  return {
+    name: "offline",
+    async route(from, to) {
+      const [a, b] = [normaliseAddress(from), normaliseAddress(to)].sort();
+      if (!a || !b) return null;
+      if (a === b) return { distanceKm: 0, durationMinutes: 0 };
+      const spread = (hash(`${a}|${b}`) % 1000) / 1000;
+      const distanceKm = Math.round((OFFLINE_MIN_KM + spread * (OFFLINE_MAX_KM - OFFLINE_MIN_KM)) * 10) / 10;
+      return { distanceKm, durationMinutes: Math.round((distanceKm / OFFLINE_SPEED_KMH) * 60) };
+    },
+  };
+}
+
+export interface RoutingConfig {
+  provider?: string;
+  url?: string;
+  apiKey?: string;
+  geocode: Geocoder;
+}
+
+// The provider name from configuration, null when none is given
+export function routingProviderName(provider?: string): RoutingProviderName | null {
+  if (!provider) return null;
+  if (!(routingProviderNames as readonly string[]).includes(provider)) {
+    throw new Error(`Unknown routing provider "${provider}", expected one of ${routingProviderNames.join(", ")}`);
+  }
+  return provider as RoutingProviderName;
+}
+
+// The provider named in configuration, null when none is named: addresses
+// only leave the app when asked for, and the offline provider's made-up
+// distances never end up priced unless it is chosen explicitly
+export function createRoutingProvider({ provider, url, apiKey, geocode }: RoutingConfig): RoutingProvider | null {
+  switch (routingProviderName(provider)) {
+    case "osrm":
+      return osrmProvider(geocode, url || OSRM_URL);
+    case "graphhopper":
+      return graphHopperProvider(geocode, url || GRAPHHOPPER_URL, apiKey);
+    case "offline":
+      return offlineRoutingProvider();
+    case null:
+      return null;
+  }
+}
+
+export interface RoutedTrip {
+  pickupLocation?: string | null;
+  dropoffLocation?: string | null;
+}
+
+// The route of a trip, or null when it cannot be worked out or there is no
+// provider. Provider errors are logged rather than thrown: a trip is saved
+// without its route instead.
+export async function estimateRoute(provider: RoutingProvider | null, trip: RoutedTrip): Promise<Route | null> {
+  if (!provider || !trip.pickupLocation?.trim() || !trip.dropoffLocation?.trim()) return null;
+  try {
+    return await provider.route(trip.pickupLocation, trip.dropoffLocation);
+  } catch (err) {
+    console.error(`Routing with ${provider.name} failed:`, err);
+    return null;
+  }
+}
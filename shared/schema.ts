@@ -1,17 +1,657 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import {
+  pgTable,
+  text,
+  integer,
+  real,
+  doublePrecision,
+  boolean,
+  jsonb,
+  uuid,
+  date,
+  time,
+  timestamp,
+  customType,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { webhookEvents, webhookUrlError } from "./webhooks";
+import { emailDraftFields, type EmailTemplateFields } from "./emailDrafts";
+import { dateOrders } from "./dateTime";
+import type { FixedRoute } from "./tariffs";
+import { geocodeSources } from "./geocoding";
+import { messageChannels, messageEvents, messageStatuses } from "./messaging";
+import {
+  notificationChannels,
+  notificationEvents,
+  notificationStatuses,
+  isTimeZone,
+  type NotificationChannelChoices,
+} from "./notifications";
+
+// Tables mirror supabase/migrations. Column names stay snake_case in
+// Postgres; the TypeScript keys are camelCase like the client's Project.
+
+// numeric(10,2) money columns, read back as numbers rather than strings
+const money = customType<{ data: number; driverData: string }>({
+  dataType() {
+    return "numeric(10, 2)";
+  },
+  toDriver(value) {
+    return value.toFixed(2);
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+});
+
+// numeric(5,2) percentages, e.g. surcharges and the driver's share
+const percent = customType<{ data: number; driverData: string }>({
+  dataType() {
+    return "numeric(5, 2)";
+  },
+  toDriver(value) {
+    return value.toFixed(2);
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+});
+
+const createdAt = () => timestamp("created_at", { withTimezone: true }).defaultNow();
+
+// Owner of a row: the Supabase auth user id (auth.uid() in the RLS policies)
+const ownerId = () => uuid("user_id");
 
 export const users = pgTable("users", {
-  id: serial("id").primaryKey(),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  id: uuid("id").primaryKey().defaultRandom(),
+  email: text("email").notNull().unique(),
+  // scrypt hash for the server API login; null for accounts that only use
+  // Supabase Auth in the browser
+  password: text("password"),
+  createdAt: createdAt(),
+});
+
+export const companies = pgTable("companies", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  address: text("address"),
+  phone: text("phone"),
+  // shared secret partners send to the company's inbound booking endpoint
+  inboundToken: uuid("inbound_token").defaultRandom(),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+export const carTypes = pgTable("car_types", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  capacity: integer("capacity").notNull().default(4),
+  luggageCapacity: integer("luggage_capacity").notNull().default(2),
+  description: text("description"),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+export const drivers = pgTable("drivers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  license: text("license"),
+  status: text("status", { enum: ["available", "busy", "offline"] }).default("available"),
+  pin: text("pin").default("1234"),
+  totalEarnings: money("total_earnings").default(0),
+  authToken: uuid("auth_token").defaultRandom(),
+  lastLogin: timestamp("last_login", { withTimezone: true }),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// Weekly shifts, days off and holidays of a driver. Entries the driver
+// submits from the portal stay "requested" until the operator approves them;
+// only approved entries limit which trips the driver is offered for.
+export const driverAvailability = pgTable("driver_availability", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  driverId: uuid("driver_id").notNull().references(() => drivers.id, { onDelete: "cascade" }),
+  kind: text("kind", { enum: ["shift", "day_off", "holiday"] }).notNull(),
+  // 1 = Monday … 7 = Sunday
+  weekday: integer("weekday"),
+  startTime: time("start_time"),
+  endTime: time("end_time"),
+  startDate: date("start_date"),
+  endDate: date("end_date"),
+  note: text("note"),
+  status: text("status", { enum: ["approved", "requested", "declined"] }).notNull().default("approved"),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// A physical vehicle of the fleet. Document expiry dates are warned about in
+// settings ahead of time; the default driver is preselected when the vehicle
+// is assigned to a trip.
+export const vehicles = pgTable("vehicles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  plate: text("plate").notNull(),
+  model: text("model"),
+  carTypeId: uuid("car_type_id").references(() => carTypes.id, { onDelete: "set null" }),
+  seats: integer("seats").notNull().default(4),
+  odometerKm: integer("odometer_km"),
+  insuranceExpiresOn: date("insurance_expires_on"),
+  inspectionExpiresOn: date("inspection_expires_on"),
+  registrationExpiresOn: date("registration_expires_on"),
+  defaultDriverId: uuid("default_driver_id").references(() => drivers.id, { onDelete: "set null" }),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// How a company's trips in a car type are priced, see shared/tariffs.ts.
+// The trip form fills in the price and driver fee from it unless the price
+// was entered by hand (projects.priceOverridden).
+export const tariffs = pgTable("tariffs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  companyId: uuid("company_id")
+    .notNull()
+    .references(() => companies.id, { onDelete: "cascade" }),
+  carTypeId: uuid("car_type_id")
+    .notNull()
+    .references(() => carTypes.id, { onDelete: "cascade" }),
+  baseFare: money("base_fare").notNull().default(0),
+  perKm: money("per_km").notNull().default(0),
+  perMinute: money("per_minute").notNull().default(0),
+  minimumFare: money("minimum_fare").notNull().default(0),
+  nightSurchargePercent: percent("night_surcharge_percent").notNull().default(0),
+  nightStart: time("night_start").notNull().default("22:00"),
+  nightEnd: time("night_end").notNull().default("06:00"),
+  holidaySurchargePercent: percent("holiday_surcharge_percent").notNull().default(0),
+  holidayDates: date("holiday_dates").array().notNull().default([]),
+  fixedRoutes: jsonb("fixed_routes").$type<FixedRoute[]>().notNull().default([]),
+  driverFeePercent: percent("driver_fee_percent").notNull().default(0),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// The address book of pickups and drop-offs. Trips keep the address as
+// text; an address matching the place's address or one of its aliases
+// (compared normalised) belongs to the place.
+export const places = pgTable("places", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  address: text("address").notNull(),
+  lat: doublePrecision("lat"),
+  lng: doublePrecision("lng"),
+  aliases: text("aliases").array().notNull().default([]),
+  driverInstructions: text("driver_instructions"),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// The people trips are booked for. phoneKey is the phone's digits without a
+// leading 00 (see client/src/lib/customers.ts); it and the email are unique
+// per account, so a customer is found again whichever way the number is
+// written.
+export const customers = pgTable("customers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  phoneKey: text("phone_key"),
+  email: text("email"),
+  language: text("language"),
+  childSeat: boolean("child_seat").notNull().default(false),
+  notes: text("notes"),
+  // the chat passenger messages on Telegram go to
+  telegramChatId: text("telegram_chat_id"),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// A booking made of several trips, e.g. an airport transfer and its return.
+// Each leg is a projects row pointing here, numbered in travel order.
+export const itineraries = pgTable("itineraries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  reference: text("reference").notNull(),
+  companyId: uuid("company_id").references(() => companies.id),
+  clientName: text("client_name").notNull(),
+  clientPhone: text("client_phone"),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// A recurring trip. The series keeps the trip details and the schedule rule
+// (an RRULE, see shared/recurrence.ts); the trips themselves are generated
+// as projects rows ahead of time, up to generatedUntil.
+export const tripSeries = pgTable("trip_series", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  rule: text("rule").notNull(),
+  startDate: date("start_date").notNull(),
+  generatedUntil: date("generated_until"),
+  companyId: uuid("company_id").references(() => companies.id),
+  driverId: uuid("driver_id").references(() => drivers.id),
+  carTypeId: uuid("car_type_id").references(() => carTypes.id),
+  vehicleId: uuid("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  clientName: text("client_name").notNull(),
+  clientPhone: text("client_phone"),
+  customerId: uuid("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  pickupLocation: text("pickup_location").notNull(),
+  dropoffLocation: text("dropoff_location").notNull(),
+  time: time("time").notNull(),
+  passengers: integer("passengers").notNull().default(1),
+  luggage: integer("luggage").notNull().default(0),
+  // road distance and driving time, see shared/routing.ts
+  distanceKm: real("distance_km"),
+  durationMinutes: integer("duration_minutes"),
+  price: money("price").notNull().default(0),
+  driverFee: money("driver_fee"),
+  priceOverridden: boolean("price_overridden").notNull().default(false),
+  paymentStatus: text("payment_status", { enum: ["paid", "charge"] }).default("charge"),
+  description: text("description"),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
+export const projects = pgTable("projects", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  companyId: uuid("company_id").references(() => companies.id),
+  driverId: uuid("driver_id").references(() => drivers.id),
+  carTypeId: uuid("car_type_id").references(() => carTypes.id),
+  vehicleId: uuid("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  clientName: text("client_name").notNull(),
+  clientPhone: text("client_phone"),
+  customerId: uuid("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  pickupLocation: text("pickup_location").notNull(),
+  dropoffLocation: text("dropoff_location").notNull(),
+  date: date("date").notNull(),
+  time: time("time").notNull(),
+  passengers: integer("passengers").notNull().default(1),
+  luggage: integer("luggage").notNull().default(0),
+  // road distance and driving time, see shared/routing.ts
+  distanceKm: real("distance_km"),
+  durationMinutes: integer("duration_minutes"),
+  price: money("price").notNull().default(0),
+  driverFee: money("driver_fee"),
+  priceOverridden: boolean("price_overridden").notNull().default(false),
+  status: text("status", { enum: ["active", "completed"] }).default("active"),
+  paymentStatus: text("payment_status", { enum: ["paid", "charge"] }).default("charge"),
+  description: text("description"),
+  bookingId: text("booking_id"),
+  // how the trip was entered; inbound bookings carry the partner's companyId
+  source: text("source", { enum: ["manual", "inbound", "email"] }).default("manual"),
+  acceptanceStatus: text("acceptance_status", {
+    enum: ["pending", "accepted", "started", "declined"],
+  }).default("pending"),
+  acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+  acceptedBy: uuid("accepted_by"),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  completedBy: uuid("completed_by"),
+  seriesId: uuid("series_id").references(() => tripSeries.id, { onDelete: "set null" }),
+  itineraryId: uuid("itinerary_id").references(() => itineraries.id, { onDelete: "set null" }),
+  legNumber: integer("leg_number"),
+  // added by an account restore, an import or a recurring series rather than
+  // booked one by one; no passenger messages are queued when it is inserted
+  bulkInserted: boolean("bulk_inserted").notNull().default(false),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+export const payments = pgTable("payments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  driverId: uuid("driver_id").notNull().references(() => drivers.id),
+  amount: money("amount").notNull(),
+  date: date("date").notNull(),
+  status: text("status", { enum: ["pending", "paid"] }).notNull().default("pending"),
+  description: text("description"),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  userId: ownerId(),
+  createdAt: createdAt(),
+});
+
+// Personal API keys for scripts and integrations. Only a SHA-256 hash of the
+// key is stored; the prefix is kept so operators can tell keys apart.
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scope: text("scope", { enum: ["read", "write"] }).notNull().default("read"),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// Outbound webhook endpoints. The secret signs every delivery (HMAC-SHA256)
+// and is kept in plain text because the server needs it to sign.
+export const webhooks = pgTable("webhooks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(),
+  events: text("events", { enum: webhookEvents }).array().notNull(),
+  active: boolean("active").notNull().default(true),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// One row per event per webhook, queued by the database triggers (or
+// MemStorage) and worked off by server/webhooks.ts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  webhookId: uuid("webhook_id")
+    .notNull()
+    .references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event", { enum: webhookEvents }).notNull(),
+  // the affected row as Postgres' to_jsonb() renders it (snake_case keys)
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status", { enum: ["pending", "delivered", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// Per-company rules for turning a forwarded booking confirmation into a trip.
+// A template applies when senderMatch occurs in the email's From or Subject.
+export const emailTemplates = pgTable("email_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  companyId: uuid("company_id")
+    .notNull()
+    .references(() => companies.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  senderMatch: text("sender_match").notNull(),
+  fields: jsonb("fields").$type<EmailTemplateFields>().notNull().default({}),
+  dateOrder: text("date_order", { enum: dateOrders }).notNull().default("DMY"),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// What a company's passengers are sent for an event, one row per company
+// and event; see shared/messaging.ts for the events and placeholders
+export const messageTemplates = pgTable("message_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  companyId: uuid("company_id")
+    .notNull()
+    .references(() => companies.id, { onDelete: "cascade" }),
+  event: text("event", { enum: messageEvents }).notNull(),
+  channel: text("channel", { enum: messageChannels }).notNull().default("sms"),
+  body: text("body").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// Outbox and log of passenger messages, queued by the database trigger (or
+// MemStorage) and the reminder scan, and sent by server/passengerMessages.ts.
+// The recipient and body are filled in when the message is sent, from the
+// trip as it is then.
+export const passengerMessages = pgTable("passenger_messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  event: text("event", { enum: messageEvents }).notNull(),
+  channel: text("channel", { enum: messageChannels }).notNull(),
+  recipient: text("recipient"),
+  body: text("body"),
+  status: text("status", { enum: messageStatuses }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+  lastError: text("last_error"),
+  provider: text("provider"),
+  providerMessageId: text("provider_message_id"),
+  sentAt: timestamp("sent_at", { withTimezone: true }),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// One row per account: the channels each notification event goes out on,
+// the quiet hours that hold email and push back, and where those go. See
+// shared/notifications.ts.
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: ownerId().primaryKey(),
+  channels: jsonb("channels").$type<NotificationChannelChoices>().notNull().default({}),
+  quietHoursStart: time("quiet_hours_start"),
+  quietHoursEnd: time("quiet_hours_end"),
+  timeZone: text("time_zone"),
+  email: text("email"),
+  // the ntfy topic push notifications are published to
+  pushTopic: text("push_topic"),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+// Notifications to the operator, one row per channel. Queued by the
+// database triggers (or MemStorage) and the payment scan; in-app ones are
+// sent as they are queued, email and push by server/notifications.ts.
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  event: text("event", { enum: notificationEvents }).notNull(),
+  channel: text("channel", { enum: notificationChannels }).notNull(),
+  projectId: uuid("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  paymentId: uuid("payment_id").references(() => payments.id, { onDelete: "cascade" }),
+  status: text("status", { enum: notificationStatuses }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+  lastError: text("last_error"),
+  provider: text("provider"),
+  sentAt: timestamp("sent_at", { withTimezone: true }),
+  readAt: timestamp("read_at", { withTimezone: true }),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+// Server-side geocoding cache, one row per normalised address (see
+// server/geocoding.ts). Addresses that could not be found are kept with
+// null coordinates so they are not looked up on every map view.
+export const geocodedAddresses = pgTable("geocoded_addresses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  addressKey: text("address_key").notNull(),
+  address: text("address").notNull(),
+  lat: doublePrecision("lat"),
+  lng: doublePrecision("lng"),
+  source: text("source", { enum: geocodeSources }).notNull().default("provider"),
+  provider: text("provider"),
+  geocodedAt: timestamp("geocoded_at", { withTimezone: true }).notNull().defaultNow(),
+  userId: ownerId().notNull(),
+  createdAt: createdAt(),
+});
+
+const isoDate = () => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+const clockTime = () => z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Expected HH:MM");
+const amount = () => z.number().min(0);
+
+const emailTemplateFieldsSchema = z.record(
+  z.enum(emailDraftFields),
+  z.string().refine(isValidPattern, "Invalid regular expression"),
+);
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Insert schemas validate API payloads; ids, owners, timestamps and the
+// columns maintained by triggers, the driver portal, recurring series or
+// itineraries are never accepted.
+// Refined columns that have a database default are marked optional by hand,
+// drizzle-zod only does that for unrefined columns in its inferred types.
+
+export const insertUserSchema = createInsertSchema(users, {
+  email: (schema) => schema.email(),
+}).pick({
+  email: true,
   password: true,
 });
 
+export const insertCompanySchema = createInsertSchema(companies, {
+  name: (schema) => schema.min(1),
+}).omit({ id: true, inboundToken: true, userId: true, createdAt: true });
+
+export const insertCarTypeSchema = createInsertSchema(carTypes, {
+  name: (schema) => schema.min(1),
+  capacity: (schema) => schema.int().min(1).optional(),
+  luggageCapacity: (schema) => schema.int().min(0).optional(),
+}).omit({ id: true, userId: true, createdAt: true });
+
+export const insertDriverSchema = createInsertSchema(drivers, {
+  name: (schema) => schema.min(1),
+}).omit({
+  id: true,
+  totalEarnings: true,
+  authToken: true,
+  lastLogin: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertVehicleSchema = createInsertSchema(vehicles, {
+  plate: (schema) => schema.trim().min(1),
+  seats: (schema) => schema.int().min(1).optional(),
+  odometerKm: (schema) => schema.int().min(0).optional(),
+  insuranceExpiresOn: () => isoDate().optional(),
+  inspectionExpiresOn: () => isoDate().optional(),
+  registrationExpiresOn: () => isoDate().optional(),
+}).omit({ id: true, userId: true, createdAt: true });
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  clientName: (schema) => schema.min(1),
+  pickupLocation: (schema) => schema.min(1),
+  dropoffLocation: (schema) => schema.min(1),
+  date: isoDate,
+  time: clockTime,
+  passengers: (schema) => schema.int().min(1).optional(),
+  luggage: (schema) => schema.int().min(0).optional(),
+  distanceKm: () => z.number().min(0).nullable().optional(),
+  durationMinutes: () => z.number().int().min(0).nullable().optional(),
+  price: () => amount().optional(),
+  driverFee: () => amount().optional(),
+}).omit({
+  id: true,
+  acceptanceStatus: true,
+  acceptedAt: true,
+  acceptedBy: true,
+  startedAt: true,
+  completedAt: true,
+  completedBy: true,
+  customerId: true,
+  seriesId: true,
+  itineraryId: true,
+  legNumber: true,
+  bulkInserted: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  amount,
+  date: isoDate,
+}).omit({ id: true, completedAt: true, userId: true, createdAt: true });
+
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  name: (schema) => schema.min(1),
+}).pick({ name: true, scope: true });
+
+export const insertWebhookSchema = createInsertSchema(webhooks, {
+  url: (schema) =>
+    schema.url().superRefine((url, ctx) => {
+      const error = webhookUrlError(url);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }),
+  events: (schema) => schema.min(1, "Select at least one event"),
+}).pick({ url: true, description: true, events: true, active: true });
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates, {
+  name: (schema) => schema.min(1),
+  senderMatch: (schema) => schema.min(1),
+  fields: () => emailTemplateFieldsSchema.optional(),
+  dateOrder: (schema) => schema.optional(),
+}).pick({ companyId: true, name: true, senderMatch: true, fields: true, dateOrder: true });
+
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates, {
+  body: (schema) => schema.min(1),
+  channel: (schema) => schema.optional(),
+  enabled: (schema) => schema.optional(),
+}).pick({ companyId: true, event: true, channel: true, body: true, enabled: true });
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences, {
+  channels: () => z.record(z.enum(notificationEvents), z.array(z.enum(notificationChannels))),
+  quietHoursStart: () => clockTime().nullable().optional(),
+  quietHoursEnd: () => clockTime().nullable().optional(),
+  timeZone: () => z.string().refine(isTimeZone, "Unknown time zone").nullable().optional(),
+  email: () => z.string().email().nullable().optional(),
+}).pick({
+  channels: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  timeZone: true,
+  email: true,
+  pushTopic: true,
+});
+
+export const selectUserSchema = createSelectSchema(users);
+export const selectCompanySchema = createSelectSchema(companies);
+export const selectCarTypeSchema = createSelectSchema(carTypes);
+export const selectDriverSchema = createSelectSchema(drivers, { totalEarnings: amount });
+export const selectVehicleSchema = createSelectSchema(vehicles);
+export const selectProjectSchema = createSelectSchema(projects, {
+  price: amount,
+  driverFee: amount,
+});
+export const selectPaymentSchema = createSelectSchema(payments, { amount });
+export const selectApiKeySchema = createSelectSchema(apiKeys);
+export const selectWebhookSchema = createSelectSchema(webhooks);
+export const selectWebhookDeliverySchema = createSelectSchema(webhookDeliveries);
+export const selectEmailTemplateSchema = createSelectSchema(emailTemplates);
+export const selectMessageTemplateSchema = createSelectSchema(messageTemplates);
+export const selectPassengerMessageSchema = createSelectSchema(passengerMessages);
+export const selectNotificationPreferencesSchema = createSelectSchema(notificationPreferences);
+export const selectNotificationSchema = createSelectSchema(notifications);
+export const selectGeocodedAddressSchema = createSelectSchema(geocodedAddresses);
+export const selectItinerarySchema = createSelectSchema(itineraries);
+export const selectTripSeriesSchema = createSelectSchema(tripSeries, {
+  price: amount,
+  driverFee: amount,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type InsertCarType = z.infer<typeof insertCarTypeSchema>;
+export type InsertDriver = z.infer<typeof insertDriverSchema>;
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+
 export type User = typeof users.$inferSelect;
+export type Company = typeof companies.$inferSelect;
+export type CarType = typeof carTypes.$inferSelect;
+export type Driver = typeof drivers.$inferSelect;
+export type Vehicle = typeof vehicles.$inferSelect;
+export type DriverAvailability = typeof driverAvailability.$inferSelect;
+export type Tariff = typeof tariffs.$inferSelect;
+export type Place = typeof places.$inferSelect;
+export type Customer = typeof customers.$inferSelect;
+export type Project = typeof projects.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type GeocodedAddress = typeof geocodedAddresses.$inferSelect;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type PassengerMessage = typeof passengerMessages.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type Itinerary = typeof itineraries.$inferSelect;
+export type TripSeries = typeof tripSeries.$inferSelect;
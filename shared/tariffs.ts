@@ -0,0 +1,122 @@
+// Trip prices from a tariff: the fare for a company and car type, made of a
+// base fare and per-km and per-minute rates (or a fixed price for a known
+// route), plus night and holiday surcharges. The driver fee is a share of
+// the price.
+
+export interface FixedRoute {
+  from: string;
+  to: string;
+  price: number;
+}
+
+export interface Tariff {
+  baseFare: number;
+  perKm: number;
+  perMinute: number;
+  minimumFare: number;
+  nightSurchargePercent: number;
+  // the night runs past midnight when it ends before it starts
+  nightStart: string;
+  nightEnd: string;
+  holidaySurchargePercent: number;
+  holidayDates: string[];
+  // priced the same in both directions
+  fixedRoutes: FixedRoute[];
+  driverFeePercent: number;
+}
+
+export interface PricedTrip {
+  date: string;
+  time: string;
+  pickupLocation: string;
+  dropoffLocation: string;
+  distanceKm?: number | null;
+  durationMinutes?: number | null;
+}
+
+export interface QuoteLine {
+  label: string;
+  amount: number;
+}
+
+export interface Quote {
+  price: number;
+  driverFee: number;
+  lines: QuoteLine[];
+  fixedRoute?: FixedRoute;
+}
+
+function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+function minutes(time: string) {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + mins;
+}
+
+function normalisePlace(place: string) {
+  return place.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// A route matches when its places are part of the pickup and drop-off, so
+// "Airport" matches "Ljubljana Airport, Brnik"
+export function findFixedRoute(routes: FixedRoute[], pickup: string, dropoff: string) {
+  const from = normalisePlace(pickup);
+  const to = normalisePlace(dropoff);
+  const within = (place: string, location: string) => !!place && location.includes(normalisePlace(place));
+  return routes.find((route) =>
+    (within(route.from, from) && within(route.to, to)) || (within(route.from, to) && within(route.to, from))
+  );
+}
+
+export function isNightTime(tariff: Pick<Tariff, "nightStart" | "nightEnd">, time: string) {
+  const at = minutes(time);
+  const start = minutes(tariff.nightStart);
+  const end = minutes(tariff.nightEnd);
+  if (start === end) return false;
+  return start < end ? at >= start && at < end : at >= start || at < end;
+}
+
+export function quoteTrip(tariff: Tariff, trip: PricedTrip): Quote {
+  const lines: QuoteLine[] = [];
+  const fixedRoute = findFixedRoute(tariff.fixedRoutes, trip.pickupLocation, trip.dropoffLocation);
+
+  if (fixedRoute) {
+    lines.push({ label: `Fixed route ${fixedRoute.from} – ${fixedRoute.to}`, amount: fixedRoute.price });
+  } else {
+    lines.push({ label: "Base fare", amount: tariff.baseFare });
+    if (trip.distanceKm && tariff.perKm) {
+      lines.push({ label: `${trip.distanceKm} km × ${tariff.perKm.toFixed(2)}`, amount: trip.distanceKm * tariff.perKm });
+    }
+    if (trip.durationMinutes && tariff.perMinute) {
+      lines.push({
+        label: `${trip.durationMinutes} min × ${tariff.perMinute.toFixed(2)}`,
+        amount: trip.durationMinutes * tariff.perMinute,
+      });
+    }
+    const fare = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (fare < tariff.minimumFare) {
+      lines.push({ label: "Up to the minimum fare", amount: tariff.minimumFare - fare });
+    }
+  }
+
+  const fare = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (tariff.nightSurchargePercent && trip.time && isNightTime(tariff, trip.time)) {
+    lines.push({ label: `Night surcharge ${tariff.nightSurchargePercent}%`, amount: (fare * tariff.nightSurchargePercent) / 100 });
+  }
+  if (tariff.holidaySurchargePercent && tariff.holidayDates.includes(trip.date)) {
+    lines.push({
+      label: `Holiday surcharge ${tariff.holidaySurchargePercent}%`,
+      amount: (fare * tariff.holidaySurchargePercent) / 100,
+    });
+  }
+
+  const price = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  return {
+    price,
+    driverFee: roundMoney((price * tariff.driverFeePercent) / 100),
+    lines: lines.map((line) => ({ ...line, amount: roundMoney(line.amount) })),
+    fixedRoute,
+  };
+}
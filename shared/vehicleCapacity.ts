@@ -0,0 +1,44 @@
+// Checks a trip's passengers and luggage against the seats and luggage space
+// of a car type, and picks the smallest car type a trip fits in.
+
+export interface TripLoad {
+  passengers: number;
+  luggage?: number | null;
+}
+
+export interface CapacityCarType {
+  capacity: number;
+  luggageCapacity: number;
+}
+
+// Readable reasons the load does not fit the car type, empty when it fits
+export function capacityIssues(load: TripLoad, carType: CapacityCarType): string[] {
+  const issues: string[] = [];
+  if (load.passengers > carType.capacity) {
+    issues.push(`${load.passengers} passengers exceed the ${carType.capacity} seats`);
+  }
+  const luggage = load.luggage ?? 0;
+  if (luggage > carType.luggageCapacity) {
+    issues.push(`${luggage} pieces of luggage exceed the space for ${carType.luggageCapacity}`);
+  }
+  return issues;
+}
+
+export function fitsCarType(load: TripLoad, carType: CapacityCarType) {
+  return capacityIssues(load, carType).length === 0;
+}
+
+// Fewest seats first, then least luggage space
+export function smallestFittingCarType<T extends CapacityCarType>(
+  carTypes: T[],
+  load: TripLoad,
+): T | undefined {
+  return carTypes
+    .filter((carType) => fitsCarType(load, carType))
+    .sort((a, b) => a.capacity - b.capacity || a.luggageCapacity - b.luggageCapacity)[0];
+}
+
+// Share of the seats taken, 0..1 (more when overbooked)
+export function seatUtilisation(passengers: number, capacity: number) {
+  return capacity > 0 ? passengers / capacity : 0;
+}
@@ -0,0 +1,110 @@
+import type { Payment, Project } from "./schema";
+
+// Helpers shared by the webhooks settings page and the server. Kept free of
+// drizzle so the browser bundle does not pull it in.
+
+export const webhookEvents = [
+  "trip.created",
+  "trip.assigned",
+  "trip.accepted",
+  "trip.started",
+  "trip.completed",
+  "trip.deleted",
+  "payment.paid",
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "trip.created": "Trip created",
+  "trip.assigned": "Driver assigned",
+  "trip.accepted": "Driver accepted",
+  "trip.started": "Trip started",
+  "trip.completed": "Trip completed",
+  "trip.deleted": "Trip deleted",
+  "payment.paid": "Payment paid",
+};
+
+// Whether an IP address is on the machine itself or a private network:
+// loopback, RFC 1918, carrier-grade NAT, link-local (which includes cloud
+// metadata endpoints), unique local IPv6 and the unspecified, multicast and
+// reserved ranges
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const v4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(ip);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  if (!ip.includes(":")) return false;
+
+  // IPv4-mapped, in either of its written forms
+  const mapped = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/.exec(ip);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)];
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || /^ff/.test(ip);
+}
+
+// Why a URL cannot be a webhook endpoint, or null when it can. Deliveries
+// are sent by the server, so endpoints must be public hosts. Mirrors the
+// webhook_url_is_public database function; the server also checks what the
+// host resolves to before each delivery.
+export function webhookUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Enter a valid webhook URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "Webhook URL must use http or https";
+  }
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  const ipLiteral = host.startsWith("[") || /^[\d.]+$/.test(host);
+  if (
+    ipLiteral ? isPrivateAddress(host) : !host.includes(".") || /(^|\.)(localhost|local|internal)$/.test(host)
+  ) {
+    return "Webhook URL must point to a public host, not a local or private network";
+  }
+  return null;
+}
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Events raised by a change to a projects row; before is undefined for an
+// insert and after for a delete. Mirrors the queue_project_webhooks trigger.
+export function tripEvents(before: Project | undefined, after: Project | undefined): WebhookEvent[] {
+  if (!after) return before ? ["trip.deleted"] : [];
+
+  if (!before) {
+    return after.driverId ? ["trip.created", "trip.assigned"] : ["trip.created"];
+  }
+
+  const events: WebhookEvent[] = [];
+  if (after.driverId && after.driverId !== before.driverId) {
+    events.push("trip.assigned");
+  }
+  if (after.acceptanceStatus !== before.acceptanceStatus) {
+    if (after.acceptanceStatus === "accepted") events.push("trip.accepted");
+    if (after.acceptanceStatus === "started") events.push("trip.started");
+  }
+  if (after.status === "completed" && before.status !== "completed") {
+    events.push("trip.completed");
+  }
+  return events;
+}
+
+// Mirrors the queue_payment_webhooks trigger
+export function paymentEvents(before: Payment | undefined, after: Payment): WebhookEvent[] {
+  return after.status === "paid" && before?.status !== "paid" ? ["payment.paid"] : [];
+}
@@ -0,0 +1,51 @@
+/*
+  # Add personal API keys
+
+  1. New Tables
+    - api_keys
+      - id (uuid, primary key)
+      - name (text)
+      - prefix (text) - first characters of the key, shown in settings
+      - key_hash (text, unique) - SHA-256 of the full key; the key itself is never stored
+      - scope (text) - 'read' or 'write'
+      - last_used_at (timestamp)
+      - revoked_at (timestamp)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Security
+    - Enable RLS on api_keys
+    - Users can only see, create and revoke their own keys
+*/
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  scope text NOT NULL DEFAULT 'read',
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_scope CHECK (scope = ANY (ARRAY['read', 'write']))
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'api_keys' AND policyname = 'Users can manage their own api keys'
+  ) THEN
+    CREATE POLICY "Users can manage their own api keys"
+      ON api_keys
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
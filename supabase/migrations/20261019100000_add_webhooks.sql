@@ -0,0 +1,179 @@
+/*
+  # Add outbound webhooks
+
+  1. New Tables
+    - webhooks
+      - id (uuid, primary key)
+      - url (text)
+      - description (text)
+      - secret (text) - signs every delivery with HMAC-SHA256
+      - events (text[]) - trip.created, trip.assigned, trip.accepted, trip.started,
+        trip.completed, trip.deleted, payment.paid
+      - active (boolean)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+    - webhook_deliveries
+      - id (uuid, primary key)
+      - webhook_id (uuid, foreign key, cascades on delete)
+      - event (text)
+      - payload (jsonb) - the affected row
+      - status (text) - pending, delivered or failed
+      - attempts (integer)
+      - next_attempt_at (timestamp)
+      - last_attempt_at (timestamp)
+      - response_status (integer)
+      - last_error (text)
+      - delivered_at (timestamp)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. New Functions
+    - `enqueue_webhook_deliveries()` - Queues one delivery per active webhook subscribed to an event
+    - `queue_project_webhooks()` - Trigger on projects raising the trip.* events
+    - `queue_payment_webhooks()` - Trigger on payments raising payment.paid
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can manage their own webhooks and read their own delivery log
+    - Deliveries are only written by the SECURITY DEFINER triggers and the server
+*/
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  url text NOT NULL,
+  description text,
+  secret text NOT NULL,
+  events text[] NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_url CHECK (url ~ '^https?://'),
+  CONSTRAINT valid_events CHECK (
+    cardinality(events) > 0 AND
+    events <@ ARRAY['trip.created', 'trip.assigned', 'trip.accepted', 'trip.started', 'trip.completed', 'trip.deleted', 'payment.paid']
+  )
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz,
+  response_status integer,
+  last_error text,
+  delivered_at timestamptz,
+  user_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_delivery_status CHECK (status = ANY (ARRAY['pending', 'delivered', 'failed']))
+);
+
+CREATE INDEX IF NOT EXISTS webhooks_user_id_idx ON webhooks (user_id);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_id_idx ON webhook_deliveries (webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'webhooks' AND policyname = 'Users can manage their own webhooks'
+  ) THEN
+    CREATE POLICY "Users can manage their own webhooks"
+      ON webhooks
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'webhook_deliveries' AND policyname = 'Users can view their own webhook deliveries'
+  ) THEN
+    CREATE POLICY "Users can view their own webhook deliveries"
+      ON webhook_deliveries
+      FOR SELECT
+      TO authenticated
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Queue a delivery for every active webhook of the owner subscribed to the event
+CREATE OR REPLACE FUNCTION enqueue_webhook_deliveries(owner uuid, event_name text, payload jsonb)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO webhook_deliveries (webhook_id, event, payload, user_id)
+  SELECT id, event_name, payload, user_id
+  FROM webhooks
+  WHERE user_id = owner
+    AND active
+    AND event_name = ANY (events);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs for every change to a trip, whether it comes from the dashboard, the
+-- REST API or the driver portal (update_driver_project_status)
+CREATE OR REPLACE FUNCTION queue_project_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_webhook_deliveries(NEW.user_id, 'trip.created', to_jsonb(NEW));
+    IF NEW.driver_id IS NOT NULL THEN
+      PERFORM enqueue_webhook_deliveries(NEW.user_id, 'trip.assigned', to_jsonb(NEW));
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM enqueue_webhook_deliveries(OLD.user_id, 'trip.deleted', to_jsonb(OLD));
+    RETURN OLD;
+  END IF;
+
+  IF NEW.driver_id IS NOT NULL AND NEW.driver_id IS DISTINCT FROM OLD.driver_id THEN
+    PERFORM enqueue_webhook_deliveries(NEW.user_id, 'trip.assigned', to_jsonb(NEW));
+  END IF;
+
+  IF NEW.acceptance_status IS DISTINCT FROM OLD.acceptance_status THEN
+    IF NEW.acceptance_status = 'accepted' THEN
+      PERFORM enqueue_webhook_deliveries(NEW.user_id, 'trip.accepted', to_jsonb(NEW));
+    ELSIF NEW.acceptance_status = 'started' THEN
+      PERFORM enqueue_webhook_deliveries(NEW.user_id, 'trip.started', to_jsonb(NEW));
+    END IF;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM enqueue_webhook_deliveries(NEW.user_id, 'trip.completed', to_jsonb(NEW));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION queue_payment_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'paid' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'paid') THEN
+    PERFORM enqueue_webhook_deliveries(NEW.user_id, 'payment.paid', to_jsonb(NEW));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_project_webhooks ON projects;
+CREATE TRIGGER queue_project_webhooks
+  AFTER INSERT OR UPDATE OR DELETE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_project_webhooks();
+
+DROP TRIGGER IF EXISTS queue_payment_webhooks ON payments;
+CREATE TRIGGER queue_payment_webhooks
+  AFTER INSERT OR UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_payment_webhooks();
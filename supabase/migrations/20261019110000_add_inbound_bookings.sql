@@ -0,0 +1,38 @@
+/*
+  # Add inbound partner bookings
+
+  1. Changes
+    - Add inbound_token column to companies, the secret partners send with bookings
+    - Add source column to projects ('manual' or 'inbound')
+    - Add a unique index so a partner's bookingId is only ingested once per company
+
+  2. Security
+    - Maintain RLS policies; the inbound endpoint resolves the owner from the token
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'companies' AND column_name = 'inbound_token'
+  ) THEN
+    ALTER TABLE companies ADD COLUMN inbound_token uuid DEFAULT gen_random_uuid();
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS companies_inbound_token_key ON companies (inbound_token);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN source text DEFAULT 'manual';
+    ALTER TABLE projects ADD CONSTRAINT valid_source CHECK (source = ANY (ARRAY['manual', 'inbound']));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS projects_inbound_booking_id_key
+  ON projects (company_id, booking_id)
+  WHERE source = 'inbound';
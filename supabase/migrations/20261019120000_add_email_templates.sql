@@ -0,0 +1,55 @@
+/*
+  # Add email booking templates
+
+  1. New Tables
+    - email_templates
+      - id (uuid, primary key)
+      - company_id (uuid, references companies) - the company whose emails the template reads
+      - name (text)
+      - sender_match (text) - text that identifies the sender in From or Subject
+      - fields (jsonb) - regular expression per trip field
+      - date_order (text) - 'DMY', 'MDY' or 'YMD', how numeric dates are read
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Changes
+    - Allow 'email' as a projects.source for trips created from an email
+
+  3. Security
+    - Enable RLS on email_templates
+    - Users can only manage their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sender_match text NOT NULL,
+  fields jsonb NOT NULL DEFAULT '{}'::jsonb,
+  date_order text NOT NULL DEFAULT 'DMY',
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_date_order CHECK (date_order = ANY (ARRAY['DMY', 'MDY', 'YMD']))
+);
+
+CREATE INDEX IF NOT EXISTS email_templates_user_id_idx ON email_templates (user_id);
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'email_templates' AND policyname = 'Users can manage their own email templates'
+  ) THEN
+    CREATE POLICY "Users can manage their own email templates"
+      ON email_templates
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS valid_source;
+ALTER TABLE projects ADD CONSTRAINT valid_source CHECK (source = ANY (ARRAY['manual', 'inbound', 'email']));
@@ -0,0 +1,76 @@
+/*
+  # Add recurring trip series
+
+  1. New Tables
+    - trip_series
+      - id (uuid, primary key)
+      - rule (text) - iCalendar RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;COUNT=20
+      - start_date (date) - first day of the schedule
+      - generated_until (date) - trips exist up to this date
+      - company_id, driver_id, car_type_id, client_name, client_phone,
+        pickup_location, dropoff_location, time, passengers, price,
+        driver_fee, payment_status, description - copied to every trip
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Changes
+    - Add series_id column to projects; trips of a deleted series are kept
+      as single trips
+
+  3. Security
+    - Enable RLS on trip_series
+    - Users can only manage their own series
+*/
+
+CREATE TABLE IF NOT EXISTS trip_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule text NOT NULL,
+  start_date date NOT NULL,
+  generated_until date,
+  company_id uuid REFERENCES companies(id),
+  driver_id uuid REFERENCES drivers(id),
+  car_type_id uuid REFERENCES car_types(id),
+  client_name text NOT NULL,
+  client_phone text,
+  pickup_location text NOT NULL,
+  dropoff_location text NOT NULL,
+  time time NOT NULL,
+  passengers integer NOT NULL DEFAULT 1,
+  price decimal(10,2) NOT NULL DEFAULT 0,
+  driver_fee decimal(10,2),
+  payment_status text DEFAULT 'charge',
+  description text,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_series_user_id_idx ON trip_series (user_id);
+
+ALTER TABLE trip_series ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'trip_series' AND policyname = 'Users can manage their own trip series'
+  ) THEN
+    CREATE POLICY "Users can manage their own trip series"
+      ON trip_series
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'series_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN series_id uuid REFERENCES trip_series(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS projects_series_id_idx ON projects (series_id);
@@ -0,0 +1,72 @@
+/*
+  # Add itineraries
+
+  1. New Tables
+    - itineraries
+      - id (uuid, primary key)
+      - reference (text) - booking reference shown on the voucher
+      - company_id (uuid, references companies)
+      - client_name (text)
+      - client_phone (text)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Changes
+    - Add itinerary_id and leg_number columns to projects; every leg of an
+      itinerary is a project, numbered in travel order
+
+  3. Security
+    - Enable RLS on itineraries
+    - Users can only manage their own itineraries
+*/
+
+CREATE TABLE IF NOT EXISTS itineraries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text NOT NULL,
+  company_id uuid REFERENCES companies(id),
+  client_name text NOT NULL,
+  client_phone text,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS itineraries_user_id_idx ON itineraries (user_id);
+
+ALTER TABLE itineraries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'itineraries' AND policyname = 'Users can manage their own itineraries'
+  ) THEN
+    CREATE POLICY "Users can manage their own itineraries"
+      ON itineraries
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'itinerary_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN itinerary_id uuid REFERENCES itineraries(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'leg_number'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN leg_number integer;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS projects_itinerary_id_idx ON projects (itinerary_id);
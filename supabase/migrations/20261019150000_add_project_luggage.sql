@@ -0,0 +1,31 @@
+/*
+  # Add luggage counts
+
+  1. Changes
+    - Add luggage column to projects: pieces of luggage of the trip, checked
+      against the luggage_capacity of its car type
+    - Add luggage column to trip_series, copied to the generated trips
+
+  2. Security
+    - No changes; both tables keep their existing policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'luggage'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN luggage integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'trip_series' AND column_name = 'luggage'
+  ) THEN
+    ALTER TABLE trip_series ADD COLUMN luggage integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
@@ -0,0 +1,80 @@
+/*
+  # Add vehicles
+
+  1. New Tables
+    - vehicles
+      - id (uuid, primary key)
+      - plate (text) - registration plate
+      - model (text)
+      - car_type_id (uuid, references car_types)
+      - seats (integer)
+      - odometer_km (integer)
+      - insurance_expires_on (date)
+      - inspection_expires_on (date)
+      - registration_expires_on (date)
+      - default_driver_id (uuid, references drivers)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Changes
+    - Add vehicle_id column to projects: the vehicle that does the trip
+    - Add vehicle_id column to trip_series, copied to the generated trips
+
+  3. Security
+    - Enable RLS on vehicles
+    - Users can only manage their own vehicles
+*/
+
+CREATE TABLE IF NOT EXISTS vehicles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plate text NOT NULL,
+  model text,
+  car_type_id uuid REFERENCES car_types(id) ON DELETE SET NULL,
+  seats integer NOT NULL DEFAULT 4,
+  odometer_km integer,
+  insurance_expires_on date,
+  inspection_expires_on date,
+  registration_expires_on date,
+  default_driver_id uuid REFERENCES drivers(id) ON DELETE SET NULL,
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vehicles_user_id_idx ON vehicles (user_id);
+
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'vehicles' AND policyname = 'Users can manage their own vehicles'
+  ) THEN
+    CREATE POLICY "Users can manage their own vehicles"
+      ON vehicles
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'vehicle_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN vehicle_id uuid REFERENCES vehicles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'trip_series' AND column_name = 'vehicle_id'
+  ) THEN
+    ALTER TABLE trip_series ADD COLUMN vehicle_id uuid REFERENCES vehicles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
@@ -0,0 +1,138 @@
+/*
+  # Add driver availability
+
+  1. New Tables
+    - driver_availability
+      - id (uuid, primary key)
+      - driver_id (uuid, references drivers)
+      - kind (text) - shift, day_off or holiday
+      - weekday (integer) - 1 = Monday … 7 = Sunday, for weekly shifts
+      - start_time (time), end_time (time) - shift hours; an end at or before
+        the start runs past midnight
+      - start_date (date), end_date (date) - days off and holidays, inclusive
+      - note (text)
+      - status (text) - approved, requested or declined
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. New Functions
+    - `get_driver_availability()` - Returns the entries of a driver for the driver portal
+    - `submit_driver_availability()` - Lets a driver request a shift, day off or holiday
+    - `withdraw_driver_availability()` - Lets a driver withdraw a request not yet decided
+
+  3. Security
+    - Enable RLS on driver_availability
+    - Users can only manage the availability of their own drivers
+    - Functions use SECURITY DEFINER and only touch the given driver's entries
+    - Entries submitted by drivers stay requested until the operator approves them
+*/
+
+CREATE TABLE IF NOT EXISTS driver_availability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id uuid NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('shift', 'day_off', 'holiday')),
+  weekday integer CHECK (weekday BETWEEN 1 AND 7),
+  start_time time,
+  end_time time,
+  start_date date,
+  end_date date,
+  note text,
+  status text NOT NULL DEFAULT 'approved' CHECK (status IN ('approved', 'requested', 'declined')),
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (kind = 'shift' AND weekday IS NOT NULL AND start_time IS NOT NULL AND end_time IS NOT NULL)
+    OR (kind <> 'shift' AND start_date IS NOT NULL AND (end_date IS NULL OR end_date >= start_date))
+  )
+);
+
+CREATE INDEX IF NOT EXISTS driver_availability_user_id_idx ON driver_availability (user_id);
+CREATE INDEX IF NOT EXISTS driver_availability_driver_id_idx ON driver_availability (driver_id);
+
+ALTER TABLE driver_availability ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'driver_availability' AND policyname = 'Users can manage their own driver availability'
+  ) THEN
+    CREATE POLICY "Users can manage their own driver availability"
+      ON driver_availability
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Function to get a driver's availability
+CREATE OR REPLACE FUNCTION public.get_driver_availability(driver_uuid uuid)
+RETURNS SETOF public.driver_availability
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM public.driver_availability
+  WHERE driver_id = driver_uuid
+  ORDER BY kind, weekday, start_time, start_date;
+END;
+$$;
+
+-- Function for a driver to request availability; the operator approves it
+CREATE OR REPLACE FUNCTION public.submit_driver_availability(
+  driver_uuid uuid,
+  entry_kind text,
+  entry_weekday integer,
+  entry_start_time time,
+  entry_end_time time,
+  entry_start_date date,
+  entry_end_date date,
+  entry_note text
+)
+RETURNS public.driver_availability
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  created public.driver_availability;
+BEGIN
+  INSERT INTO public.driver_availability (
+    driver_id, kind, weekday, start_time, end_time, start_date, end_date, note, status, user_id
+  )
+  SELECT
+    d.id, entry_kind, entry_weekday, entry_start_time, entry_end_time,
+    entry_start_date, entry_end_date, entry_note, 'requested', d.user_id
+  FROM public.drivers d
+  WHERE d.id = driver_uuid
+  RETURNING * INTO created;
+
+  RETURN created;
+END;
+$$;
+
+-- Function for a driver to withdraw a pending request
+CREATE OR REPLACE FUNCTION public.withdraw_driver_availability(
+  entry_uuid uuid,
+  driver_uuid uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.driver_availability
+  WHERE id = entry_uuid
+    AND driver_id = driver_uuid
+    AND status = 'requested';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Grant execute permissions to anonymous users (for driver portal)
+GRANT EXECUTE ON FUNCTION public.get_driver_availability(uuid) TO anon;
+GRANT EXECUTE ON FUNCTION public.submit_driver_availability(uuid, text, integer, time, time, date, date, text) TO anon;
+GRANT EXECUTE ON FUNCTION public.withdraw_driver_availability(uuid, uuid) TO anon;
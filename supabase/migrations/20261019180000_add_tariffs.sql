@@ -0,0 +1,93 @@
+/*
+  # Add tariffs
+
+  1. New Tables
+    - tariffs
+      - id (uuid, primary key)
+      - company_id (uuid, references companies)
+      - car_type_id (uuid, references car_types)
+      - base_fare (numeric) - charged on every trip
+      - per_km (numeric)
+      - per_minute (numeric)
+      - minimum_fare (numeric)
+      - night_surcharge_percent (numeric)
+      - night_start, night_end (time) - the night window, may run past midnight
+      - holiday_surcharge_percent (numeric)
+      - holiday_dates (date[])
+      - fixed_routes (jsonb) - [{ from, to, price }], e.g. airport to city
+      - driver_fee_percent (numeric) - share of the price paid to the driver
+      - user_id (uuid)
+      - created_at (timestamp)
+      - one tariff per company and car type
+
+  2. Changes
+    - Add price_overridden column to projects: the price was entered by hand
+      rather than taken from the tariff
+    - Add price_overridden column to trip_series, copied to the generated trips
+
+  3. Security
+    - Enable RLS on tariffs
+    - Users can only manage their own tariffs
+*/
+
+CREATE TABLE IF NOT EXISTS tariffs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  car_type_id uuid NOT NULL REFERENCES car_types(id) ON DELETE CASCADE,
+  base_fare numeric(10,2) NOT NULL DEFAULT 0,
+  per_km numeric(10,2) NOT NULL DEFAULT 0,
+  per_minute numeric(10,2) NOT NULL DEFAULT 0,
+  minimum_fare numeric(10,2) NOT NULL DEFAULT 0,
+  night_surcharge_percent numeric(5,2) NOT NULL DEFAULT 0,
+  night_start time NOT NULL DEFAULT '22:00',
+  night_end time NOT NULL DEFAULT '06:00',
+  holiday_surcharge_percent numeric(5,2) NOT NULL DEFAULT 0,
+  holiday_dates date[] NOT NULL DEFAULT '{}',
+  fixed_routes jsonb NOT NULL DEFAULT '[]',
+  driver_fee_percent numeric(5,2) NOT NULL DEFAULT 0,
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (company_id, car_type_id),
+  CHECK (base_fare >= 0 AND per_km >= 0 AND per_minute >= 0 AND minimum_fare >= 0),
+  CHECK (night_surcharge_percent >= 0 AND holiday_surcharge_percent >= 0),
+  CHECK (driver_fee_percent BETWEEN 0 AND 100)
+);
+
+CREATE INDEX IF NOT EXISTS tariffs_user_id_idx ON tariffs (user_id);
+
+ALTER TABLE tariffs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'tariffs' AND policyname = 'Users can manage their own tariffs'
+  ) THEN
+    CREATE POLICY "Users can manage their own tariffs"
+      ON tariffs
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'price_overridden'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN price_overridden boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'trip_series' AND column_name = 'price_overridden'
+  ) THEN
+    ALTER TABLE trip_series ADD COLUMN price_overridden boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+/*
+  # Add trip distance and duration
+
+  1. Changes
+    - Add distance_km and duration_minutes columns to projects: the road
+      distance and driving time from pickup to drop-off, worked out by the
+      routing provider when the trip is saved
+    - Add the same columns to trip_series, copied to the generated trips
+
+  2. Security
+    - No changes; both tables keep their existing policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'distance_km'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN distance_km real CHECK (distance_km >= 0);
+    ALTER TABLE projects ADD COLUMN duration_minutes integer CHECK (duration_minutes >= 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'trip_series' AND column_name = 'distance_km'
+  ) THEN
+    ALTER TABLE trip_series ADD COLUMN distance_km real CHECK (distance_km >= 0);
+    ALTER TABLE trip_series ADD COLUMN duration_minutes integer CHECK (duration_minutes >= 0);
+  END IF;
+END $$;
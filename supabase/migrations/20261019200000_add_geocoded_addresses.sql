@@ -0,0 +1,54 @@
+/*
+  # Add geocoded addresses
+
+  1. New Tables
+    - geocoded_addresses
+      - id (uuid, primary key)
+      - address_key (text) - the normalised address the position is looked up by
+      - address (text) - the address as first written
+      - lat, lng (double precision) - null when the provider could not find it
+      - source (text) - provider, or manual when an operator moved the pin
+      - provider (text) - the geocoding provider that answered
+      - geocoded_at (timestamp) - when the provider answered or the pin was set
+      - user_id (uuid)
+      - created_at (timestamp)
+      - one position per address and account
+
+  2. Security
+    - Enable RLS on geocoded_addresses
+    - Users can only manage their own geocoded addresses
+*/
+
+CREATE TABLE IF NOT EXISTS geocoded_addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  address_key text NOT NULL,
+  address text NOT NULL,
+  lat double precision,
+  lng double precision,
+  source text NOT NULL DEFAULT 'provider',
+  provider text,
+  geocoded_at timestamptz NOT NULL DEFAULT now(),
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, address_key),
+  CHECK (source IN ('provider', 'manual')),
+  CHECK ((lat IS NULL) = (lng IS NULL)),
+  CHECK (lat BETWEEN -90 AND 90 AND lng BETWEEN -180 AND 180)
+);
+
+ALTER TABLE geocoded_addresses ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'geocoded_addresses' AND policyname = 'Users can manage their own geocoded addresses'
+  ) THEN
+    CREATE POLICY "Users can manage their own geocoded addresses"
+      ON geocoded_addresses
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,76 @@
+/*
+  # Add places
+
+  1. New Tables
+    - places - the address book of pickups and drop-offs
+      - id (uuid, primary key)
+      - name (text) - e.g. "Airport Terminal 2"
+      - address (text) - the canonical address trips are saved with
+      - lat, lng (double precision) - optional, placed by hand
+      - aliases (text[]) - other spellings of the address that mean this place
+      - driver_instructions (text) - shown to the driver of trips from or to it
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. New Functions
+    - `get_driver_places()` - Returns the places of a driver's account for the
+      driver portal
+
+  3. Security
+    - Enable RLS on places
+    - Users can only manage their own places
+    - The function uses SECURITY DEFINER and only returns places of the
+      account the driver belongs to
+*/
+
+CREATE TABLE IF NOT EXISTS places (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  address text NOT NULL,
+  lat double precision,
+  lng double precision,
+  aliases text[] NOT NULL DEFAULT '{}',
+  driver_instructions text,
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((lat IS NULL) = (lng IS NULL)),
+  CHECK (lat BETWEEN -90 AND 90 AND lng BETWEEN -180 AND 180)
+);
+
+CREATE INDEX IF NOT EXISTS places_user_id_idx ON places (user_id);
+
+ALTER TABLE places ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'places' AND policyname = 'Users can manage their own places'
+  ) THEN
+    CREATE POLICY "Users can manage their own places"
+      ON places
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Function to get the places of a driver's account, for their instructions
+CREATE OR REPLACE FUNCTION public.get_driver_places(driver_uuid uuid)
+RETURNS SETOF public.places
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT places.*
+  FROM public.places
+  JOIN public.drivers ON drivers.user_id = places.user_id
+  WHERE drivers.id = driver_uuid
+  ORDER BY places.name;
+END;
+$$;
+
+-- Grant execute permissions to anonymous users (for driver portal)
+GRANT EXECUTE ON FUNCTION public.get_driver_places(uuid) TO anon;
@@ -0,0 +1,117 @@
+/*
+  # Add customers
+
+  1. New Tables
+    - customers - the people trips are booked for
+      - id (uuid, primary key)
+      - name (text)
+      - phone (text) - as entered
+      - phone_key (text) - the phone's digits without a leading 00, unique
+        per account, so "+386 41 123 456" and "00386 41 123456" are one
+        customer
+      - email (text) - unique per account, compared case-insensitively
+      - language (text) - the language the customer prefers, e.g. "German"
+      - child_seat (boolean) - the customer travels with a child seat
+      - notes (text)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Changes
+    - Add customer_id to projects and trip_series
+    - Create a customer for every client phone number already on a trip,
+      named after its latest trip, and link those trips to it
+
+  3. Security
+    - Enable RLS on customers
+    - Users can only manage their own customers
+*/
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  phone text,
+  phone_key text,
+  email text,
+  language text,
+  child_seat boolean NOT NULL DEFAULT false,
+  notes text,
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS customers_user_phone_key_idx
+  ON customers (user_id, phone_key) WHERE phone_key IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS customers_user_email_idx
+  ON customers (user_id, lower(email)) WHERE email IS NOT NULL;
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'customers' AND policyname = 'Users can manage their own customers'
+  ) THEN
+    CREATE POLICY "Users can manage their own customers"
+      ON customers
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'customer_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'trip_series' AND column_name = 'customer_id'
+  ) THEN
+    ALTER TABLE trip_series ADD COLUMN customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS projects_customer_id_idx ON projects (customer_id);
+
+-- Existing trips: one customer per phone number, named after the latest trip
+INSERT INTO customers (name, phone, phone_key, user_id)
+SELECT DISTINCT ON (user_id, phone_key) client_name, client_phone, phone_key, user_id
+FROM (
+  SELECT
+    client_name,
+    client_phone,
+    regexp_replace(regexp_replace(client_phone, '[^0-9]', '', 'g'), '^00', '') AS phone_key,
+    user_id,
+    date,
+    created_at
+  FROM projects
+  WHERE user_id IS NOT NULL
+) trips
+WHERE phone_key <> ''
+ORDER BY user_id, phone_key, date DESC, created_at DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE projects
+SET customer_id = customers.id
+FROM customers
+WHERE projects.customer_id IS NULL
+  AND customers.user_id = projects.user_id
+  AND customers.phone_key = regexp_replace(regexp_replace(projects.client_phone, '[^0-9]', '', 'g'), '^00', '');
+
+UPDATE trip_series
+SET customer_id = customers.id
+FROM customers
+WHERE trip_series.customer_id IS NULL
+  AND customers.user_id = trip_series.user_id
+  AND customers.phone_key = regexp_replace(regexp_replace(trip_series.client_phone, '[^0-9]', '', 'g'), '^00', '');
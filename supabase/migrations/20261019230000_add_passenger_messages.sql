@@ -0,0 +1,177 @@
+/*
+  # Add passenger messages
+
+  1. New Tables
+    - message_templates - what a company's passengers are sent, per event
+      - id (uuid, primary key)
+      - company_id (uuid, foreign key, cascades on delete)
+      - event (text) - booking.confirmed, driver.assigned, driver.on_the_way or
+        pickup.reminder
+      - channel (text) - sms, whatsapp or telegram
+      - body (text) - the message, with {field} placeholders
+      - enabled (boolean)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+    - passenger_messages - the outbox and log of messages to passengers
+      - id (uuid, primary key)
+      - project_id (uuid, foreign key, cascades on delete)
+      - event (text)
+      - channel (text)
+      - recipient (text) - phone number or Telegram chat, set when sent
+      - body (text) - the rendered message, set when sent
+      - status (text) - pending, sent, failed or skipped
+      - attempts (integer)
+      - next_attempt_at (timestamp)
+      - last_attempt_at (timestamp)
+      - last_error (text)
+      - provider (text)
+      - provider_message_id (text)
+      - sent_at (timestamp)
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. Changes
+    - Add telegram_chat_id to customers; Telegram messages go to this chat
+
+  3. New Functions
+    - `enqueue_passenger_message()` - Queues a message when the trip's company
+      has an enabled template for the event
+    - `queue_passenger_messages()` - Trigger on projects raising booking.confirmed,
+      driver.assigned and driver.on_the_way. Reminders are queued by the server
+      ahead of the pickup.
+
+  4. Security
+    - Enable RLS on both tables
+    - Users can manage their own templates and read their own message log
+    - Messages are only written by the SECURITY DEFINER trigger and the server
+*/
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  channel text NOT NULL DEFAULT 'sms',
+  body text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (company_id, event),
+  CONSTRAINT valid_message_event CHECK (
+    event = ANY (ARRAY['booking.confirmed', 'driver.assigned', 'driver.on_the_way', 'pickup.reminder'])
+  ),
+  CONSTRAINT valid_message_channel CHECK (channel = ANY (ARRAY['sms', 'whatsapp', 'telegram']))
+);
+
+CREATE TABLE IF NOT EXISTS passenger_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  channel text NOT NULL,
+  recipient text,
+  body text,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz,
+  last_error text,
+  provider text,
+  provider_message_id text,
+  sent_at timestamptz,
+  user_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_passenger_message_status CHECK (status = ANY (ARRAY['pending', 'sent', 'failed', 'skipped']))
+);
+
+CREATE INDEX IF NOT EXISTS message_templates_user_id_idx ON message_templates (user_id);
+CREATE INDEX IF NOT EXISTS passenger_messages_user_id_idx ON passenger_messages (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS passenger_messages_project_id_idx ON passenger_messages (project_id);
+CREATE INDEX IF NOT EXISTS passenger_messages_due_idx ON passenger_messages (next_attempt_at) WHERE status = 'pending';
+-- one reminder per trip, however often the server looks for due reminders
+CREATE UNIQUE INDEX IF NOT EXISTS passenger_messages_one_reminder_idx
+  ON passenger_messages (project_id) WHERE event = 'pickup.reminder';
+
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE passenger_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'message_templates' AND policyname = 'Users can manage their own message templates'
+  ) THEN
+    CREATE POLICY "Users can manage their own message templates"
+      ON message_templates
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'passenger_messages' AND policyname = 'Users can view their own passenger messages'
+  ) THEN
+    CREATE POLICY "Users can view their own passenger messages"
+      ON passenger_messages
+      FOR SELECT
+      TO authenticated
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'telegram_chat_id'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN telegram_chat_id text;
+  END IF;
+END $$;
+
+-- Queue a message when the trip's company has an enabled template for the event
+CREATE OR REPLACE FUNCTION enqueue_passenger_message(trip projects, event_name text)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO passenger_messages (project_id, event, channel, user_id)
+  SELECT trip.id, event_name, channel, trip.user_id
+  FROM message_templates
+  WHERE company_id = trip.company_id
+    AND user_id = trip.user_id
+    AND event = event_name
+    AND enabled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs for every change to a trip, whether it comes from the dashboard, the
+-- REST API or the driver portal (update_driver_project_status, which sets
+-- acceptance_status to 'started' when the driver sets off)
+CREATE OR REPLACE FUNCTION queue_passenger_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_passenger_message(NEW, 'booking.confirmed');
+    IF NEW.driver_id IS NOT NULL THEN
+      PERFORM enqueue_passenger_message(NEW, 'driver.assigned');
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.driver_id IS NOT NULL AND NEW.driver_id IS DISTINCT FROM OLD.driver_id THEN
+    PERFORM enqueue_passenger_message(NEW, 'driver.assigned');
+  END IF;
+
+  IF NEW.acceptance_status = 'started' AND OLD.acceptance_status IS DISTINCT FROM 'started' THEN
+    PERFORM enqueue_passenger_message(NEW, 'driver.on_the_way');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_passenger_messages ON projects;
+CREATE TRIGGER queue_passenger_messages
+  AFTER INSERT OR UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_passenger_messages();
@@ -0,0 +1,194 @@
+/*
+  # Add notification preferences
+
+  1. New Tables
+    - notification_preferences - one row per account
+      - user_id (uuid, primary key)
+      - channels (jsonb) - the channels (in_app, email, push) each event goes
+        out on, e.g. { "trip.declined": ["in_app", "push"] }
+      - quiet_hours_start (time) - email and push wait until quiet hours end
+      - quiet_hours_end (time)
+      - time_zone (text) - the zone quiet hours are in
+      - email (text) - where email notifications go
+      - push_topic (text) - the ntfy topic push notifications are published to
+      - updated_at (timestamp)
+
+    - notifications - in-app notifications, and the outbox and log of email
+      and push ones
+      - id (uuid, primary key)
+      - event (text) - trip.created, trip.accepted, trip.declined, trip.started,
+        trip.completed or payment.due
+      - channel (text) - in_app, email or push
+      - project_id (uuid, foreign key, cascades on delete)
+      - payment_id (uuid, foreign key, cascades on delete)
+      - status (text) - pending, sent, failed or skipped
+      - attempts (integer)
+      - next_attempt_at (timestamp)
+      - last_attempt_at (timestamp)
+      - last_error (text)
+      - provider (text)
+      - sent_at (timestamp)
+      - read_at (timestamp) - when an in-app notification was read
+      - user_id (uuid)
+      - created_at (timestamp)
+
+  2. New Functions
+    - `notification_channels()` - The channels an event goes out on for an
+      account; in-app only when the account has saved no preferences
+    - `enqueue_notifications()` - Queues one notification per channel; in-app
+      ones are sent straight away
+    - `queue_project_notifications()` - Trigger on projects raising
+      trip.created, trip.accepted, trip.declined, trip.started and
+      trip.completed. payment.due is queued by the server once a pending
+      payment's date is reached.
+    - `mark_notifications_read()` - Marks the caller's in-app notifications read
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can manage their own preferences and read their own notifications
+    - Notifications are only written by the SECURITY DEFINER functions and the
+      server
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY DEFAULT auth.uid(),
+  channels jsonb NOT NULL DEFAULT '{}',
+  quiet_hours_start time,
+  quiet_hours_end time,
+  time_zone text,
+  email text,
+  push_topic text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event text NOT NULL,
+  channel text NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES payments(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz,
+  last_error text,
+  provider text,
+  sent_at timestamptz,
+  read_at timestamptz,
+  user_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_notification_event CHECK (
+    event = ANY (ARRAY['trip.created', 'trip.accepted', 'trip.declined', 'trip.started', 'trip.completed', 'payment.due'])
+  ),
+  CONSTRAINT valid_notification_channel CHECK (channel = ANY (ARRAY['in_app', 'email', 'push'])),
+  CONSTRAINT valid_notification_status CHECK (status = ANY (ARRAY['pending', 'sent', 'failed', 'skipped']))
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_due_idx ON notifications (next_attempt_at) WHERE status = 'pending';
+-- a payment is announced as due once per channel, however often the server
+-- looks for due payments
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_one_payment_due_idx
+  ON notifications (payment_id, channel) WHERE event = 'payment.due';
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notification_preferences' AND policyname = 'Users can manage their own notification preferences'
+  ) THEN
+    CREATE POLICY "Users can manage their own notification preferences"
+      ON notification_preferences
+      FOR ALL
+      TO authenticated
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notifications' AND policyname = 'Users can view their own notifications'
+  ) THEN
+    CREATE POLICY "Users can view their own notifications"
+      ON notifications
+      FOR SELECT
+      TO authenticated
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- The channels an event goes out on for an account. Mirrors channelsFor in
+-- shared/notifications.ts.
+CREATE OR REPLACE FUNCTION notification_channels(owner uuid, event_name text)
+RETURNS text[] AS $$
+  SELECT COALESCE(
+    (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(COALESCE(channels -> event_name, '[]')))
+      FROM notification_preferences
+      WHERE user_id = owner
+    ),
+    ARRAY['in_app']
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Queue one notification per channel; in-app ones are listed in the app
+-- right away, email and push ones are sent by the server
+CREATE OR REPLACE FUNCTION enqueue_notifications(owner uuid, event_name text, trip_id uuid, payment uuid)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO notifications (event, channel, project_id, payment_id, status, sent_at, user_id)
+  SELECT event_name, channel, trip_id, payment,
+    CASE WHEN channel = 'in_app' THEN 'sent' ELSE 'pending' END,
+    CASE WHEN channel = 'in_app' THEN now() END,
+    owner
+  FROM unnest(notification_channels(owner, event_name)) AS channel;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs for every change to a trip, whether it comes from the dashboard, the
+-- REST API or the driver portal (update_driver_project_status)
+CREATE OR REPLACE FUNCTION queue_project_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_notifications(NEW.user_id, 'trip.created', NEW.id, NULL);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.acceptance_status IS DISTINCT FROM OLD.acceptance_status THEN
+    IF NEW.acceptance_status = 'accepted' THEN
+      PERFORM enqueue_notifications(NEW.user_id, 'trip.accepted', NEW.id, NULL);
+    ELSIF NEW.acceptance_status = 'declined' THEN
+      PERFORM enqueue_notifications(NEW.user_id, 'trip.declined', NEW.id, NULL);
+    ELSIF NEW.acceptance_status = 'started' THEN
+      PERFORM enqueue_notifications(NEW.user_id, 'trip.started', NEW.id, NULL);
+    END IF;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM enqueue_notifications(NEW.user_id, 'trip.completed', NEW.id, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_project_notifications ON projects;
+CREATE TRIGGER queue_project_notifications
+  AFTER INSERT OR UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_project_notifications();
+
+CREATE OR REPLACE FUNCTION mark_notifications_read()
+RETURNS void AS $$
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND channel = 'in_app'
+    AND read_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
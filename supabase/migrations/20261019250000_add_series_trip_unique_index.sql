@@ -0,0 +1,28 @@
+/*
+  # One trip per series and date
+
+  1. Changes
+    - Remove trips generated twice for the same series and date, which
+      happened when several sessions topped up the series at once. The copy
+      that has moved on from active (or else the oldest) is kept.
+    - Add a unique index on projects (series_id, date); the app inserts
+      series trips with ON CONFLICT DO NOTHING against it. Single trips have
+      no series_id and are not affected.
+*/
+
+DELETE FROM projects
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT id,
+      row_number() OVER (
+        PARTITION BY series_id, date
+        ORDER BY (status = 'active'), created_at, id
+      ) AS copy
+    FROM projects
+    WHERE series_id IS NOT NULL
+  ) AS series_trips
+  WHERE copy > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS projects_series_id_date_idx ON projects (series_id, date);
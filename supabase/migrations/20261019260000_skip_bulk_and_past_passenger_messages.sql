@@ -0,0 +1,58 @@
+/*
+  # Send no passenger messages for past or bulk-inserted trips
+
+  1. Changes
+    - Add bulk_inserted to projects. Account restores, imports and recurring
+      series set it on the trips they insert, and no booking.confirmed or
+      driver.assigned message is queued for them. Later changes to those
+      trips raise messages as usual.
+    - `queue_passenger_messages()` queues nothing once the trip's pickup
+      time has passed. The server checks this again before sending.
+
+  2. Security
+    - Both SECURITY DEFINER passenger message functions run with search_path
+      set to public
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'bulk_inserted'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN bulk_inserted boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Pickups are a local date and time, compared in the database's time zone
+CREATE OR REPLACE FUNCTION queue_passenger_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.date + NEW.time <= localtimestamp THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.bulk_inserted THEN
+      RETURN NEW;
+    END IF;
+    PERFORM enqueue_passenger_message(NEW, 'booking.confirmed');
+    IF NEW.driver_id IS NOT NULL THEN
+      PERFORM enqueue_passenger_message(NEW, 'driver.assigned');
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.driver_id IS NOT NULL AND NEW.driver_id IS DISTINCT FROM OLD.driver_id THEN
+    PERFORM enqueue_passenger_message(NEW, 'driver.assigned');
+  END IF;
+
+  IF NEW.acceptance_status = 'started' AND OLD.acceptance_status IS DISTINCT FROM 'started' THEN
+    PERFORM enqueue_passenger_message(NEW, 'driver.on_the_way');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER FUNCTION enqueue_passenger_message(projects, text) SET search_path = public;
@@ -0,0 +1,61 @@
+/*
+  # Secure webhooks
+
+  1. New Functions
+    - `webhook_url_is_public()` - Whether a webhook URL points to a public
+      host rather than to localhost, a private or link-local address, or a
+      name that only resolves inside a network. Mirrors webhookUrlError in
+      shared/webhooks.ts.
+
+  2. Changes
+    - webhooks.url must pass webhook_url_is_public. Existing rows are not
+      checked; the server refuses to deliver to them.
+
+  3. Security
+    - Pin search_path on the SECURITY DEFINER webhook functions, so objects
+      in other schemas cannot stand in for the tables they write to
+*/
+
+CREATE OR REPLACE FUNCTION webhook_url_is_public(url text)
+RETURNS boolean AS $$
+DECLARE
+  host text := rtrim(lower(substring(url from '^https?://(?:[^@/?#]*@)?(\[[^]]*\]|[^:/?#]*)')), '.');
+BEGIN
+  IF host IS NULL OR host = '' THEN
+    RETURN false;
+  END IF;
+
+  -- IPv6 literals
+  IF host LIKE '[%' THEN
+    RETURN host !~ '^\[(::1?|::ffff:.*|f[cd].*|fe[89ab].*|ff.*)\]$';
+  END IF;
+
+  -- IPv4 literals, accepted only in their plain dotted form
+  IF host ~ '^[0-9.]+$' OR host ~ '(^|\.)0x' THEN
+    RETURN host ~ '^(0|[1-9][0-9]{0,2})(\.(0|[1-9][0-9]{0,2})){3}$'
+      AND host !~ '^(0|10|127)\.'
+      AND host !~ '^100\.(6[4-9]|[7-9][0-9]|1[01][0-9]|12[0-7])\.'
+      AND host !~ '^169\.254\.'
+      AND host !~ '^172\.(1[6-9]|2[0-9]|3[01])\.'
+      AND host !~ '^192\.168\.'
+      AND split_part(host, '.', 1)::integer < 224;
+  END IF;
+
+  -- names that only resolve inside a network
+  RETURN host LIKE '%.%' AND host !~ '(^|\.)(localhost|local|internal)$';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'public_webhook_url'
+  ) THEN
+    ALTER TABLE webhooks
+      ADD CONSTRAINT public_webhook_url CHECK (webhook_url_is_public(url)) NOT VALID;
+  END IF;
+END $$;
+
+ALTER FUNCTION enqueue_webhook_deliveries(uuid, text, jsonb) SET search_path = public;
+ALTER FUNCTION queue_project_webhooks() SET search_path = public;
+ALTER FUNCTION queue_payment_webhooks() SET search_path = public;
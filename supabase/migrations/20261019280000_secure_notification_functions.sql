@@ -0,0 +1,13 @@
+/*
+  # Pin search_path on the notification functions
+
+  1. Security
+    - The SECURITY DEFINER notification functions run with search_path set
+      to public, so objects in other schemas cannot stand in for the tables
+      they read and write
+*/
+
+ALTER FUNCTION notification_channels(uuid, text) SET search_path = public;
+ALTER FUNCTION enqueue_notifications(uuid, text, uuid, uuid) SET search_path = public;
+ALTER FUNCTION queue_project_notifications() SET search_path = public;
+ALTER FUNCTION mark_notifications_read() SET search_path = public;
@@ -0,0 +1,16 @@
+/*
+  # Keep the webhook functions to the triggers
+
+  1. Security
+    - Revoke EXECUTE on the SECURITY DEFINER webhook functions from PUBLIC,
+      anon and authenticated. PostgREST exposes public functions as RPCs, so
+      anyone with the anon key could otherwise queue signed deliveries of
+      made-up events for any account. The triggers run them as their owner
+      and are not affected.
+*/
+
+REVOKE EXECUTE ON FUNCTION
+  enqueue_webhook_deliveries(uuid, text, jsonb),
+  queue_project_webhooks(),
+  queue_payment_webhooks()
+FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,17 @@
+/*
+  # Keep the notification functions to the triggers
+
+  1. Security
+    - Revoke EXECUTE on the SECURITY DEFINER notification functions from
+      PUBLIC, anon and authenticated. PostgREST exposes public functions as
+      RPCs, so anyone could otherwise queue notifications on another
+      account's channels or read its channel choices. The triggers run them
+      as their owner and are not affected; mark_notifications_read only
+      touches the caller's own notifications and stays callable.
+*/
+
+REVOKE EXECUTE ON FUNCTION
+  notification_channels(uuid, text),
+  enqueue_notifications(uuid, text, uuid, uuid),
+  queue_project_notifications()
+FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,36 @@
+/*
+  # Send passenger messages for trips past their pickup time
+
+  1. Changes
+    - `queue_passenger_messages()` queues messages again once the trip's
+      pickup time has passed, so a driver who sets off late still sends the
+      passenger "driver on the way". Only the reminder, queued by the
+      server ahead of the pickup, is skipped once the pickup has passed.
+      Bulk inserts still queue nothing.
+*/
+
+CREATE OR REPLACE FUNCTION queue_passenger_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.bulk_inserted THEN
+      RETURN NEW;
+    END IF;
+    PERFORM enqueue_passenger_message(NEW, 'booking.confirmed');
+    IF NEW.driver_id IS NOT NULL THEN
+      PERFORM enqueue_passenger_message(NEW, 'driver.assigned');
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.driver_id IS NOT NULL AND NEW.driver_id IS DISTINCT FROM OLD.driver_id THEN
+    PERFORM enqueue_passenger_message(NEW, 'driver.assigned');
+  END IF;
+
+  IF NEW.acceptance_status = 'started' AND OLD.acceptance_status IS DISTINCT FROM 'started' THEN
+    PERFORM enqueue_passenger_message(NEW, 'driver.on_the_way');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
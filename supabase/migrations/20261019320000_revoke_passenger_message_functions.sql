@@ -0,0 +1,14 @@
+/*
+  # Keep the passenger message functions to the trigger
+
+  1. Security
+    - Revoke EXECUTE on the SECURITY DEFINER passenger message functions
+      from PUBLIC, anon and authenticated, so they cannot be called as RPCs
+      to queue messages for other accounts' trips. The trigger runs them as
+      their owner and is not affected.
+*/
+
+REVOKE EXECUTE ON FUNCTION
+  enqueue_passenger_message(projects, text),
+  queue_passenger_messages()
+FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,26 @@
+/*
+  # Only pay drivers of the payment's own account
+
+  1. Changes
+    - `update_driver_earnings()` adds a paid payment to the driver's
+      total_earnings only when the driver belongs to the same account as the
+      payment, so a payment pointing at another account's driver cannot
+      raise that driver's earnings
+
+  2. Security
+    - The function runs with search_path set to public
+*/
+
+CREATE OR REPLACE FUNCTION update_driver_earnings()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only update earnings when status changes to 'paid'
+  IF NEW.status = 'paid' AND (OLD.status IS NULL OR OLD.status != 'paid') THEN
+    UPDATE drivers
+    SET total_earnings = COALESCE(total_earnings, 0) + NEW.amount
+    WHERE id = NEW.driver_id
+      AND user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;